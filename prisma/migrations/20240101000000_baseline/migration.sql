@@ -0,0 +1,109 @@
+-- Schema before catalog titles were split from copies. Databases created
+-- earlier with `prisma db push` already have it: mark it applied with
+-- `npx prisma migrate resolve --applied 20240101000000_baseline`.
+
+-- CreateEnum
+CREATE TYPE "BookStatus" AS ENUM ('AVAILABLE', 'BORROWED', 'RESERVED');
+
+-- CreateEnum
+CREATE TYPE "HoldStatus" AS ENUM ('WAITING', 'READY', 'FULFILLED', 'CANCELLED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "UserStatus" AS ENUM ('ACTIVE', 'SUSPENDED');
+
+-- CreateTable
+CREATE TABLE "books" (
+    "id" TEXT NOT NULL,
+    "isbn" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "status" "BookStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "borrowed_by" TEXT,
+    "borrowed_at" TIMESTAMP(3),
+    "due_date" TIMESTAMP(3),
+    "renewal_count" INTEGER NOT NULL DEFAULT 0,
+    "reserved_for" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "books_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "loans" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "borrowed_at" TIMESTAMP(3) NOT NULL,
+    "due_date" TIMESTAMP(3) NOT NULL,
+    "returned_at" TIMESTAMP(3),
+    "fee_charged" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "loans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "holds" (
+    "id" TEXT NOT NULL,
+    "book_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "HoldStatus" NOT NULL DEFAULT 'WAITING',
+    "placed_at" TIMESTAMP(3) NOT NULL,
+    "ready_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "status" "UserStatus" NOT NULL DEFAULT 'ACTIVE',
+    "current_borrow_count" INTEGER NOT NULL DEFAULT 0,
+    "overdue_fees" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "books_isbn_key" ON "books"("isbn");
+
+-- CreateIndex
+CREATE INDEX "books_isbn_idx" ON "books"("isbn");
+
+-- CreateIndex
+CREATE INDEX "books_status_idx" ON "books"("status");
+
+-- CreateIndex
+CREATE INDEX "books_borrowed_by_idx" ON "books"("borrowed_by");
+
+-- CreateIndex
+CREATE INDEX "loans_book_id_returned_at_idx" ON "loans"("book_id", "returned_at");
+
+-- CreateIndex
+CREATE INDEX "loans_user_id_idx" ON "loans"("user_id");
+
+-- CreateIndex
+CREATE INDEX "loans_returned_at_due_date_idx" ON "loans"("returned_at", "due_date");
+
+-- CreateIndex
+CREATE INDEX "holds_book_id_status_idx" ON "holds"("book_id", "status");
+
+-- CreateIndex
+CREATE INDEX "holds_user_id_status_idx" ON "holds"("user_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "users_email_idx" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "users_status_idx" ON "users"("status");
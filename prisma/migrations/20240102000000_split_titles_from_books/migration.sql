@@ -0,0 +1,47 @@
+-- Split the catalog record (title, author) from the physical copy (barcode).
+-- Every existing book becomes one title plus one copy of it. Existing
+-- copies get placeholder barcodes LEGACY-000001, LEGACY-000002, ... in
+-- registration order, to be replaced when the copies are labelled.
+-- Title and author are only dropped from books once copied to titles.
+
+-- CreateTable
+CREATE TABLE "titles" (
+    "isbn" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "author" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "titles_pkey" PRIMARY KEY ("isbn")
+);
+
+-- Backfill titles (isbn was unique in books, so one title per book)
+INSERT INTO "titles" ("isbn", "title", "author", "created_at", "updated_at", "version")
+SELECT "isbn", "title", "author", "createdAt", "updatedAt", 1
+FROM "books";
+
+-- AlterTable: add barcode as nullable, backfill it, then require it
+ALTER TABLE "books" ADD COLUMN "barcode" TEXT;
+
+UPDATE "books"
+SET "barcode" = "numbered"."barcode"
+FROM (
+    SELECT "id",
+           'LEGACY-' || LPAD((ROW_NUMBER() OVER (ORDER BY "createdAt", "id"))::TEXT, 6, '0')
+               AS "barcode"
+    FROM "books"
+) AS "numbered"
+WHERE "books"."id" = "numbered"."id";
+
+ALTER TABLE "books" ALTER COLUMN "barcode" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "books_barcode_key" ON "books"("barcode");
+
+-- DropIndex: several copies may share an ISBN
+DROP INDEX "books_isbn_key";
+
+-- AlterTable: title and author now live in titles
+ALTER TABLE "books" DROP COLUMN "title",
+DROP COLUMN "author";
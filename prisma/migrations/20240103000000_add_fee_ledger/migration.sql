@@ -0,0 +1,25 @@
+-- Append-only fee ledger. Balances already owed in users.overdue_fees
+-- are not backfilled: the application records them as an opening
+-- ADJUSTMENT the first time a member's ledger is loaded.
+
+-- CreateEnum
+CREATE TYPE "FeeEntryType" AS ENUM ('CHARGE', 'PAYMENT', 'WAIVER', 'ADJUSTMENT');
+
+-- CreateTable
+CREATE TABLE "fee_entries" (
+    "id" TEXT NOT NULL,
+    "sequence" SERIAL NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" "FeeEntryType" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "loan_id" TEXT,
+    "book_id" TEXT,
+    "recorded_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fee_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fee_entries_user_id_sequence_idx" ON "fee_entries"("user_id", "sequence");
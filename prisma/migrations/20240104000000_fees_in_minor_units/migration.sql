@@ -0,0 +1,33 @@
+-- Store fees as integer minor units of a currency instead of floats.
+-- Amounts stored so far are major units of the library's currency,
+-- backfilled as JPY: a library that charged fees in another currency
+-- replaces 'JPY' in the three backfills below before applying this.
+-- Currencies with two minor-unit digits are scaled by 100 (12.5 USD
+-- becomes 1250); JPY has none, so yen amounts are only rounded.
+
+-- AlterTable: add the currency columns, backfilled for existing rows
+ALTER TABLE "users" ADD COLUMN "fee_currency" TEXT NOT NULL DEFAULT 'JPY';
+
+ALTER TABLE "loans" ADD COLUMN "fee_currency" TEXT NOT NULL DEFAULT 'JPY';
+
+ALTER TABLE "fee_entries" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'JPY';
+
+ALTER TABLE "fee_entries" ALTER COLUMN "currency" DROP DEFAULT;
+
+-- AlterTable: convert the amounts to minor units of their currency
+ALTER TABLE "users" ALTER COLUMN "overdue_fees" DROP DEFAULT;
+
+ALTER TABLE "users" ALTER COLUMN "overdue_fees" SET DATA TYPE INTEGER
+USING round("overdue_fees" * CASE "fee_currency" WHEN 'JPY' THEN 1 ELSE 100 END);
+
+ALTER TABLE "users" ALTER COLUMN "overdue_fees" SET DEFAULT 0;
+
+ALTER TABLE "loans" ALTER COLUMN "fee_charged" DROP DEFAULT;
+
+ALTER TABLE "loans" ALTER COLUMN "fee_charged" SET DATA TYPE INTEGER
+USING round("fee_charged" * CASE "fee_currency" WHEN 'JPY' THEN 1 ELSE 100 END);
+
+ALTER TABLE "loans" ALTER COLUMN "fee_charged" SET DEFAULT 0;
+
+ALTER TABLE "fee_entries" ALTER COLUMN "amount" SET DATA TYPE INTEGER
+USING round("amount" * CASE "currency" WHEN 'JPY' THEN 1 ELSE 100 END);
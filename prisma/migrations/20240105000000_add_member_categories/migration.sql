@@ -0,0 +1,8 @@
+-- Member categories select the lending policy. Existing members become
+-- ADULT, the category they were lent to under before.
+
+-- CreateEnum
+CREATE TYPE "MemberCategory" AS ENUM ('ADULT', 'STUDENT', 'STAFF', 'CHILD');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "category" "MemberCategory" NOT NULL DEFAULT 'ADULT';
@@ -0,0 +1,53 @@
+-- Event store of the "eventsourced" storage. Books already in the books
+-- table are not converted to event streams.
+
+-- CreateTable
+CREATE TABLE "stored_events" (
+    "id" TEXT NOT NULL,
+    "stream_type" TEXT NOT NULL,
+    "stream_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stored_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stream_snapshots" (
+    "stream_id" TEXT NOT NULL,
+    "stream_type" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "state" JSONB NOT NULL,
+    "taken_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stream_snapshots_pkey" PRIMARY KEY ("stream_id")
+);
+
+-- CreateTable
+CREATE TABLE "book_lookup" (
+    "book_id" TEXT NOT NULL,
+    "barcode" TEXT NOT NULL,
+    "isbn" TEXT NOT NULL,
+    "status" "BookStatus" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "book_lookup_pkey" PRIMARY KEY ("book_id")
+);
+
+-- CreateIndex
+CREATE INDEX "stored_events_stream_type_idx" ON "stored_events"("stream_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stored_events_stream_id_version_key" ON "stored_events"("stream_id", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "book_lookup_barcode_key" ON "book_lookup"("barcode");
+
+-- CreateIndex
+CREATE INDEX "book_lookup_isbn_idx" ON "book_lookup"("isbn");
+
+-- CreateIndex
+CREATE INDEX "book_lookup_status_idx" ON "book_lookup"("status");
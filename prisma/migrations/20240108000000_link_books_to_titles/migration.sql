@@ -0,0 +1,6 @@
+-- Relate every copy to its title, so list queries can filter copies by
+-- title and author with a join. Re-keying a title (ISBN migration)
+-- moves its copies along.
+
+-- AddForeignKey
+ALTER TABLE "books" ADD CONSTRAINT "books_isbn_fkey" FOREIGN KEY ("isbn") REFERENCES "titles"("isbn") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Full-text search document of each title. The application folds the
+-- text (case, accents, ISBN forms) before writing it, so existing titles
+-- are filled in by running PrismaCatalogSearch.rebuildIndex once.
+
+-- AlterTable
+ALTER TABLE "titles" ADD COLUMN "search_vector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "titles_search_vector_idx" ON "titles" USING GIN ("search_vector");
@@ -0,0 +1,10 @@
+-- Publication details of each title, filled in from the metadata
+-- provider when a copy is registered. Existing titles have none.
+
+-- AlterTable
+ALTER TABLE "titles" ADD COLUMN "cover_url" TEXT,
+ADD COLUMN "edition" TEXT,
+ADD COLUMN "language" TEXT,
+ADD COLUMN "publication_year" INTEGER,
+ADD COLUMN "publisher" TEXT,
+ADD COLUMN "subjects" TEXT[] DEFAULT ARRAY[]::TEXT[];
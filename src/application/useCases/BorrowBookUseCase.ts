@@ -5,6 +5,7 @@
  * Coordinates between application concerns and domain logic.
  *
  * Application Layer Responsibilities:
+ * - Open the transaction boundary (unit of work)
  * - Find entities by ID
  * - Validate entities exist
  * - Delegate to domain service
@@ -46,7 +47,11 @@
  *         bookId: req.body.bookId
  *       });
  *
- *       res.json(result);
+ *       if (!result.ok) {
+ *         // Business rule violations come back as typed errors
+ *         return res.status(409).json(result.error.toJSON());
+ *       }
+ *       res.json(result.value);
  *     } catch (error) {
  *       // Handle validation errors at presentation boundary
  *       res.status(400).json({ error: error.message });
@@ -56,10 +61,17 @@
  * ```
  */
 
-import { IUserRepository } from '../../domain/repositories/IUserRepository';
-import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
 import { BorrowBookService } from '../../domain/services/BorrowBookService';
+import { HoldQueueService } from '../../domain/services/HoldQueueService';
+import { Clock } from '../../domain/services/Clock';
+import { LendingPolicyCatalog } from '../../domain/policies/LendingPolicyCatalog';
 import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { runAndDispatchEvents, EventCollector } from './runAndDispatchEvents';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
 
 /**
  * Input DTO for Borrow Book Use Case
@@ -72,29 +84,31 @@ import { UserId } from '../../domain/valueObjects/UserId';
  */
 export interface BorrowBookInput {
   userId: UserId; // Value object (validated 8-digit user ID)
-  bookId: string; // Book UUID (could also be a BookId value object)
+  bookId: string; // Book (copy) UUID (could also be a BookId value object)
 }
 
 /**
  * Output DTO for Borrow Book Use Case
  */
 export interface BorrowBookOutput {
-  success: boolean;
   message: string;
-  user?: {
+  loanId: string; // Loan opened by this borrow
+  user: {
     userId: string;
     name: string;
     email: string;
     currentBorrowCount: number;
-    overdueFees: number;
+    overdueFees: MoneyOutput;
   };
-  book?: {
+  book: {
     bookId: string;
+    barcode: string;
     title: string;
     author: string;
     status: string;
     borrowedBy: string | null;
     borrowedAt: Date | null;
+    dueDate: Date | null;
   };
 }
 
@@ -102,15 +116,12 @@ export interface BorrowBookOutput {
  * Borrow Book Use Case
  */
 export class BorrowBookUseCase {
-  private readonly borrowService: BorrowBookService;
-
   constructor(
-    private readonly userRepository: IUserRepository,
-    private readonly bookRepository: IBookRepository
-  ) {
-    // Initialize domain service with repository dependencies
-    this.borrowService = new BorrowBookService(userRepository, bookRepository);
-  }
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly policies: LendingPolicyCatalog,
+    private readonly events: IDomainEventDispatcher
+  ) {}
 
   /**
    * Execute the borrow book use case
@@ -121,68 +132,106 @@ export class BorrowBookUseCase {
    * 3. Delegate to domain service (domain logic)
    * 4. Transform to DTO (application concern)
    *
+   * The whole flow runs inside a single unit of work, so the User and
+   * Book writes commit together or not at all. Concurrency conflicts
+   * (e.g. two librarians lending the same copy) are retried.
+   * BookBorrowed is dispatched after the unit of work commits.
+   *
    * FIXED: Now receives validated value objects directly
    *
    * @param input - Borrow book input data (with value objects)
-   * @returns Borrowing result with DTOs
+   * @returns Borrowing result with DTOs, or the DomainError that prevented it
+   */
+  async execute(input: BorrowBookInput): Promise<Result<BorrowBookOutput>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, (repositories, collect) =>
+      this.borrow(input, repositories, collect)
+    );
+  }
+
+  /**
+   * Borrow flow bound to the repositories of the current unit of work
+   * @private
    */
-  async execute(input: BorrowBookInput): Promise<BorrowBookOutput> {
+  private async borrow(
+    input: BorrowBookInput,
+    {
+      userRepository,
+      bookRepository,
+      titleRepository,
+      holdRepository,
+      loanRepository,
+      feeLedgerRepository,
+    }: TransactionalRepositories,
+    collect: EventCollector
+  ): Promise<Result<BorrowBookOutput>> {
     // Step 1: Find user by ID (application concern - entity retrieval)
     // No need to convert - already a UserId value object!
-    const user = await this.userRepository.findById(input.userId);
+    const user = await userRepository.findById(input.userId);
 
     if (!user) {
-      return {
-        success: false,
-        message: `User not found: ${input.userId.getValue()}`,
-      };
+      return err(new NotFoundError('User', input.userId.getValue()));
     }
 
     // Step 2: Find book by ID (application concern - entity retrieval)
-    const book = await this.bookRepository.findById(input.bookId);
+    const book = await bookRepository.findById(input.bookId);
 
     if (!book) {
-      return {
-        success: false,
-        message: `Book not found: ${input.bookId}`,
-      };
+      return err(new NotFoundError('Book', input.bookId));
+    }
+
+    // Catalog record for the DTO (title and author are per title, not per copy)
+    const title = await titleRepository.findByISBN(book.isbn);
+
+    if (!title) {
+      return err(new NotFoundError('Title', book.isbn.getValue()));
     }
 
     // Step 3: Execute domain service (domain logic - business rules)
-    const result = await this.borrowService.execute(user, book);
+    const borrowService = new BorrowBookService(
+      userRepository,
+      bookRepository,
+      loanRepository,
+      feeLedgerRepository,
+      this.policies,
+      this.clock
+    );
+    const result = await borrowService.execute(user, book);
 
     // Step 4: Transform domain result to application DTO
-    if (!result.success) {
-      return {
-        success: false,
-        message: result.error!,
-      };
+    if (!result.ok) {
+      return result;
+    }
+    const { updatedUser, updatedBook, loan } = result.value;
+    collect(updatedUser, updatedBook, loan);
+
+    // Picking up a reserved book closes the patron's hold
+    if (book.reservedFor) {
+      const holdQueue = new HoldQueueService(bookRepository, holdRepository, this.clock);
+      await holdQueue.fulfill(book.id, user.id);
     }
 
     // Success - transform domain entities to DTOs
-    return {
-      success: true,
+    return ok({
       message: 'Book borrowed successfully',
-      user: result.updatedUser
-        ? {
-            userId: result.updatedUser.id.getValue(),
-            name: result.updatedUser.name,
-            email: result.updatedUser.email,
-            currentBorrowCount: result.updatedUser.currentBorrowCount,
-            overdueFees: result.updatedUser.overdueFees,
-          }
-        : undefined,
-      book: result.updatedBook
-        ? {
-            bookId: result.updatedBook.id,
-            title: result.updatedBook.title,
-            author: result.updatedBook.author,
-            status: result.updatedBook.status,
-            borrowedBy: result.updatedBook.borrowedBy?.getValue() ?? null,
-            borrowedAt: result.updatedBook.borrowedAt,
-          }
-        : undefined,
-    };
+      loanId: loan.id,
+      user: {
+        userId: updatedUser.id.getValue(),
+        name: updatedUser.name,
+        email: updatedUser.email,
+        currentBorrowCount: updatedUser.currentBorrowCount,
+        overdueFees: toMoneyOutput(updatedUser.overdueFees),
+      },
+      book: {
+        bookId: updatedBook.id,
+        barcode: updatedBook.barcode.getValue(),
+        title: title.title,
+        author: title.author,
+        status: updatedBook.status,
+        borrowedBy: updatedBook.borrowedBy?.getValue() ?? null,
+        borrowedAt: updatedBook.borrowedAt,
+        dueDate: updatedBook.dueDate,
+      },
+    });
   }
 }
 
@@ -195,25 +244,26 @@ export class BorrowBookUseCase {
  */
 export interface ReturnBookInput {
   userId: UserId; // Value object (validated 8-digit user ID)
-  bookId: string; // Book UUID
+  bookId: string; // Book (copy) UUID
 }
 
 /**
  * Output DTO for Return Book Use Case
  */
 export interface ReturnBookOutput {
-  success: boolean;
   message: string;
-  overdueFee?: number;
-  user?: {
+  loanId: string; // Loan closed by this return
+  overdueFee?: MoneyOutput;
+  user: {
     userId: string;
     name: string;
     email: string;
     currentBorrowCount: number;
-    overdueFees: number;
+    overdueFees: MoneyOutput;
   };
-  book?: {
+  book: {
     bookId: string;
+    barcode: string;
     title: string;
     author: string;
     status: string;
@@ -224,84 +274,119 @@ export interface ReturnBookOutput {
  * Return Book Use Case
  */
 export class ReturnBookUseCase {
-  private readonly borrowService: BorrowBookService;
-
   constructor(
-    private readonly userRepository: IUserRepository,
-    private readonly bookRepository: IBookRepository
-  ) {
-    this.borrowService = new BorrowBookService(userRepository, bookRepository);
-  }
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly policies: LendingPolicyCatalog,
+    private readonly events: IDomainEventDispatcher
+  ) {}
 
   /**
    * Execute the return book use case
    *
+   * Runs inside a single unit of work (see BorrowBookUseCase).
+   * BookReturned (and OverdueFeeCharged for a late return) are
+   * dispatched after the unit of work commits.
+   *
    * FIXED: Now receives validated value objects directly
    *
    * @param input - Return book input data (with value objects)
-   * @returns Return result with DTOs and overdue fee info
+   * @returns Return result with DTOs and overdue fee info, or the DomainError
+   *   that prevented it
+   */
+  async execute(input: ReturnBookInput): Promise<Result<ReturnBookOutput>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, (repositories, collect) =>
+      this.returnBook(input, repositories, collect)
+    );
+  }
+
+  /**
+   * Return flow bound to the repositories of the current unit of work
+   * @private
    */
-  async execute(input: ReturnBookInput): Promise<ReturnBookOutput> {
+  private async returnBook(
+    input: ReturnBookInput,
+    {
+      userRepository,
+      bookRepository,
+      titleRepository,
+      holdRepository,
+      loanRepository,
+      feeLedgerRepository,
+    }: TransactionalRepositories,
+    collect: EventCollector
+  ): Promise<Result<ReturnBookOutput>> {
     // Find user - no need to convert, already a UserId value object!
-    const user = await this.userRepository.findById(input.userId);
+    const user = await userRepository.findById(input.userId);
 
     if (!user) {
-      return {
-        success: false,
-        message: `User not found: ${input.userId.getValue()}`,
-      };
+      return err(new NotFoundError('User', input.userId.getValue()));
     }
 
     // Find book
-    const book = await this.bookRepository.findById(input.bookId);
+    const book = await bookRepository.findById(input.bookId);
 
     if (!book) {
-      return {
-        success: false,
-        message: `Book not found: ${input.bookId}`,
-      };
+      return err(new NotFoundError('Book', input.bookId));
     }
 
-    // Calculate potential overdue fee before return
-    const wasOverdue = book.isOverdue();
-    const overdueFee = wasOverdue
-      ? book.getOverdueDays() * BorrowBookService.OVERDUE_FEE_PER_DAY
-      : 0;
+    // Catalog record for the DTO (title and author are per title, not per copy)
+    const title = await titleRepository.findByISBN(book.isbn);
+
+    if (!title) {
+      return err(new NotFoundError('Title', book.isbn.getValue()));
+    }
+
+    // Overdue status before return (the fee is charged by the domain service)
+    const wasOverdue = book.isOverdue(this.clock);
 
     // Execute domain service
-    const result = await this.borrowService.returnBook(user, book);
+    const borrowService = new BorrowBookService(
+      userRepository,
+      bookRepository,
+      loanRepository,
+      feeLedgerRepository,
+      this.policies,
+      this.clock
+    );
+    const result = await borrowService.returnBook(user, book);
+
+    if (!result.ok) {
+      return result;
+    }
+    const { updatedUser, updatedBook, loan } = result.value;
+    collect(updatedUser, updatedBook, loan);
+
+    const overdueFee = loan.feeCharged;
 
-    if (!result.success) {
-      return {
-        success: false,
-        message: result.error!,
-      };
+    // Hand the book to the head of its hold queue (becomes RESERVED)
+    const holdQueue = new HoldQueueService(bookRepository, holdRepository, this.clock);
+    const returnedBook = (await holdQueue.offerToNextHolder(book.id)) ?? updatedBook;
+    if (returnedBook !== updatedBook) {
+      collect(returnedBook);
     }
 
     // Success - transform to DTOs
-    return {
-      success: true,
+    return ok({
       message: wasOverdue
-        ? `Book returned with overdue fee: ¥${overdueFee}`
+        ? `Book returned with overdue fee: ${overdueFee.format()}`
         : 'Book returned successfully',
-      overdueFee: wasOverdue ? overdueFee : undefined,
-      user: result.updatedUser
-        ? {
-            userId: result.updatedUser.id.getValue(),
-            name: result.updatedUser.name,
-            email: result.updatedUser.email,
-            currentBorrowCount: result.updatedUser.currentBorrowCount,
-            overdueFees: result.updatedUser.overdueFees,
-          }
-        : undefined,
-      book: result.updatedBook
-        ? {
-            bookId: result.updatedBook.id,
-            title: result.updatedBook.title,
-            author: result.updatedBook.author,
-            status: result.updatedBook.status,
-          }
-        : undefined,
-    };
+      ...(wasOverdue && { overdueFee: toMoneyOutput(overdueFee) }),
+      loanId: loan.id,
+      user: {
+        userId: updatedUser.id.getValue(),
+        name: updatedUser.name,
+        email: updatedUser.email,
+        currentBorrowCount: updatedUser.currentBorrowCount,
+        overdueFees: toMoneyOutput(updatedUser.overdueFees),
+      },
+      book: {
+        bookId: returnedBook.id,
+        barcode: returnedBook.barcode.getValue(),
+        title: title.title,
+        author: title.author,
+        status: returnedBook.status,
+      },
+    });
   }
 }
@@ -0,0 +1,386 @@
+/**
+ * Bulk Import Books Use Case
+ *
+ * Registers the copies listed in a catalog file (CSV, MARC 21 or
+ * MARCXML), e.g. when a branch joins the library. The file is read as
+ * a stream and written in batches: each batch is one unit of work, so
+ * a large import does not hold one transaction open for its whole
+ * length, and batches written before an unexpected failure stay
+ * committed.
+ *
+ * Every record goes through the same rules as RegisterBookUseCase
+ * (ISBN, Barcode, Title.create, Book.create). A record that breaks one
+ * is reported with its position in the file and the import goes on.
+ *
+ * Duplicates are records whose ISBN was already cataloged before the
+ * import started: they are skipped, or update the title's catalog data
+ * (and register the copy unless its barcode is already on file).
+ * Records sharing an ISBN within the file are copies of one title.
+ *
+ * Only what a batch needs is held in memory: the barcodes of each batch
+ * are checked against the copies on file (which include those of the
+ * batches already written), and at most MAX_REPORTED_ERRORS failed
+ * records are listed in the report, the rest being counted. A dry run
+ * writes no batch, so it does not catch a barcode repeated across
+ * batches.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { Book } from '../../domain/entities/Book';
+import { Title } from '../../domain/entities/Title';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
+import { Clock } from '../../domain/services/Clock';
+import {
+  CatalogFormat,
+  CatalogRecord,
+  CatalogRecordReader,
+} from '../../domain/services/CatalogRecordReader';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { DomainError, DomainErrorCode } from '../../domain/errors/DomainError';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { DuplicateBarcodeError } from '../../domain/errors/BookErrors';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+import { runAndDispatchEvents } from './runAndDispatchEvents';
+
+export const DEFAULT_BATCH_SIZE = 500;
+export const MAX_BATCH_SIZE = 5000;
+export const MAX_REPORTED_ERRORS = 100;
+
+export type DuplicatePolicy = 'skip' | 'update';
+
+/**
+ * Input DTO for Bulk Import Books Use Case
+ */
+export interface BulkImportBooksInput {
+  format: CatalogFormat;
+  content: AsyncIterable<Uint8Array>; // Raw file content
+  dryRun?: boolean; // Validate and report without writing (default false)
+  duplicates?: DuplicatePolicy; // Default: skip
+  batchSize?: number; // Records per unit of work (default DEFAULT_BATCH_SIZE)
+}
+
+/**
+ * A record that was not imported, and why
+ */
+export interface ImportRecordError {
+  position: number; // Line or record number in the file
+  isbn: string | null;
+  barcode: string | null;
+  code: DomainErrorCode;
+  message: string;
+}
+
+/**
+ * Output DTO for Bulk Import Books Use Case
+ */
+export interface BulkImportBooksOutput {
+  dryRun: boolean; // Counts are what the import would have done
+  processed: number; // Records read (one per copy)
+  registered: number; // Copies created
+  titlesCataloged: number; // ISBNs new to the catalog
+  titlesUpdated: number; // Existing titles whose catalog data changed
+  skipped: number; // Duplicates, and copies whose barcode was already on file
+  failed: number;
+  errors: ImportRecordError[]; // The first MAX_REPORTED_ERRORS failed records
+  errorsOmitted: number; // Failed records not listed in errors
+}
+
+type RecordOutcome = 'registered' | 'skipped' | DomainError;
+
+/**
+ * What a batch writes, and what happens to each of its records
+ */
+interface BatchPlan {
+  outcomes: RecordOutcome[]; // In record order
+  titles: Map<string, Title>; // Titles to save, by ISBN
+  cataloged: Set<string>; // ISBNs of the new titles
+  revised: Set<string>; // ISBNs of the changed existing titles
+  books: Book[];
+}
+
+/**
+ * What earlier batches did (kept in memory for the whole import)
+ */
+interface ImportState {
+  cataloged: Map<string, Title>; // Titles new to the catalog, by ISBN
+  revised: Set<string>;
+}
+
+/**
+ * Bulk Import Books Use Case
+ */
+export class BulkImportBooksUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly readers: Record<CatalogFormat, CatalogRecordReader>,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - File, format and import options
+   * @returns Report of the import (records that could not be imported are
+   *   listed in errors), or ValidationError for invalid options
+   */
+  async execute(input: BulkImportBooksInput): Promise<Result<BulkImportBooksOutput>> {
+    const batchSize = input.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      return err(
+        new ValidationError('batchSize', `batchSize must be from 1 to ${MAX_BATCH_SIZE}`)
+      );
+    }
+    const reader = this.readers[input.format];
+    if (!reader) {
+      const formats = Object.keys(this.readers).join(', ');
+      return err(new ValidationError('format', `format must be one of: ${formats}`));
+    }
+
+    const output: BulkImportBooksOutput = {
+      dryRun: input.dryRun ?? false,
+      processed: 0,
+      registered: 0,
+      titlesCataloged: 0,
+      titlesUpdated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      errorsOmitted: 0,
+    };
+    const state: ImportState = { cataloged: new Map(), revised: new Set() };
+    let batch: CatalogRecord[] = [];
+
+    for await (const entry of reader.read(input.content)) {
+      output.processed++;
+
+      if (!entry.ok) {
+        this.fail(output, entry.position, null, new ValidationError('record', entry.reason));
+        continue;
+      }
+
+      batch.push(entry.record);
+      if (batch.length === batchSize) {
+        await this.importBatch(batch, input, state, output);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.importBatch(batch, input, state, output);
+    }
+
+    return ok(output);
+  }
+
+  /**
+   * Plan and (unless dry run) write one batch, then record its outcome
+   * @private
+   */
+  private async importBatch(
+    records: CatalogRecord[],
+    input: BulkImportBooksInput,
+    state: ImportState,
+    output: BulkImportBooksOutput
+  ): Promise<void> {
+    const duplicates = input.duplicates ?? 'skip';
+    let result: Result<BatchPlan>;
+
+    if (input.dryRun) {
+      result = ok(
+        await this.unitOfWork.run((repositories) =>
+          this.plan(repositories, records, duplicates, state)
+        )
+      );
+    } else {
+      result = await runAndDispatchEvents(
+        this.unitOfWork,
+        this.events,
+        async (repositories, collect) => {
+          const plan = await this.plan(repositories, records, duplicates, state);
+          for (const title of plan.titles.values()) {
+            await repositories.titleRepository.save(title);
+          }
+          for (const book of plan.books) {
+            await repositories.bookRepository.save(book);
+            collect(book);
+          }
+          return ok(plan);
+        }
+      );
+    }
+
+    // The batch was not written: none of its records were imported
+    if (!result.ok) {
+      for (const record of records) {
+        this.fail(output, record.position, record, result.error);
+      }
+      return;
+    }
+
+    const plan = result.value;
+    for (const isbn of plan.cataloged) {
+      const title = plan.titles.get(isbn);
+      if (title) {
+        state.cataloged.set(isbn, title);
+      }
+    }
+    for (const isbn of plan.revised) {
+      if (!state.revised.has(isbn)) {
+        state.revised.add(isbn);
+        output.titlesUpdated++;
+      }
+    }
+    output.titlesCataloged += plan.cataloged.size;
+
+    plan.outcomes.forEach((outcome, index) => {
+      const record = records[index];
+      if (outcome === 'registered') {
+        output.registered++;
+      } else if (outcome === 'skipped') {
+        output.skipped++;
+      } else if (record) {
+        this.fail(output, record.position, record, outcome);
+      }
+    });
+  }
+
+  /**
+   * Decide what each record of a batch does, against the stored catalog
+   * and copies, and the titles cataloged by the batches before it
+   *
+   * Runs again on every attempt of the unit of work, so nothing is
+   * recorded in the import state until the batch has been written.
+   * @private
+   */
+  private async plan(
+    { titleRepository, bookRepository }: TransactionalRepositories,
+    records: CatalogRecord[],
+    duplicates: DuplicatePolicy,
+    state: ImportState
+  ): Promise<BatchPlan> {
+    const isbns = records
+      .map((record) => ISBN.parse(record.isbn))
+      .filter((isbn): isbn is ISBN => isbn !== null);
+    const barcodes = records
+      .map((record) => Barcode.parse(record.barcode))
+      .filter((barcode): barcode is Barcode => barcode !== null);
+
+    const stored = new Map(
+      (await titleRepository.findByISBNs(isbns)).map((title) => [title.isbn.getValue(), title])
+    );
+    const onFile = new Map(
+      (await bookRepository.findByBarcodes(barcodes)).map((book) => [
+        book.barcode.getValue(),
+        book,
+      ])
+    );
+
+    const plan: BatchPlan = {
+      outcomes: [],
+      titles: new Map(),
+      cataloged: new Set(),
+      revised: new Set(),
+      books: [],
+    };
+
+    for (const record of records) {
+      try {
+        plan.outcomes.push(this.planRecord(record, duplicates, state, stored, onFile, plan));
+      } catch (error) {
+        if (!(error instanceof DomainError)) {
+          throw error;
+        }
+        plan.outcomes.push(error);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Outcome of one record, adding what it writes to the plan
+   * (value object and entity validation errors are thrown and caught by plan)
+   * @private
+   */
+  private planRecord(
+    record: CatalogRecord,
+    duplicates: DuplicatePolicy,
+    state: ImportState,
+    stored: Map<string, Title>,
+    onFile: Map<string, Book>,
+    plan: BatchPlan
+  ): RecordOutcome {
+    const isbn = new ISBN(record.isbn);
+    const barcode = Barcode.create(record.barcode);
+    const key = isbn.getValue();
+
+    // Step 1: A barcode appears once in a batch (earlier batches are on file, see step 3)
+    const batchBook = plan.books.find((book) => book.barcode.equals(barcode));
+    if (batchBook) {
+      throw new DuplicateBarcodeError(barcode.getValue(), batchBook.id);
+    }
+
+    // Step 2: Skip ISBNs cataloged before the import, unless updating them
+    let title = plan.titles.get(key) ?? stored.get(key) ?? state.cataloged.get(key) ?? null;
+    const duplicate = title !== null && !state.cataloged.has(key) && !plan.cataloged.has(key);
+    if (duplicate && duplicates === 'skip') {
+      return 'skipped';
+    }
+
+    // Step 3: A barcode on file is another copy, unless it is this copy being updated
+    const existingBook = onFile.get(barcode.getValue());
+    if (existingBook && !(duplicate && existingBook.isbn.equals(isbn))) {
+      throw new DuplicateBarcodeError(barcode.getValue(), existingBook.id);
+    }
+
+    // Step 4: Catalog a new ISBN, or update the catalog data of a duplicate
+    if (!title) {
+      title = Title.create(record.isbn, record.title ?? '', record.author ?? '', this.clock);
+      plan.titles.set(key, title);
+      plan.cataloged.add(key);
+    } else if (duplicate) {
+      const revised = title.revise(
+        record.title ?? title.title,
+        record.author ?? title.author,
+        this.clock
+      );
+      if (revised !== title) {
+        title = revised;
+        plan.titles.set(key, title);
+        plan.revised.add(key);
+      }
+    }
+
+    if (existingBook) {
+      return 'skipped';
+    }
+
+    // Step 5: Create the copy (factory method handles validation)
+    plan.books.push(Book.create(title, record.barcode, this.clock));
+    return 'registered';
+  }
+
+  /**
+   * @private
+   */
+  private fail(
+    output: BulkImportBooksOutput,
+    position: number,
+    record: CatalogRecord | null,
+    error: DomainError
+  ): void {
+    output.failed++;
+    if (output.errors.length === MAX_REPORTED_ERRORS) {
+      output.errorsOmitted++;
+      return;
+    }
+    output.errors.push({
+      position,
+      isbn: record?.isbn ?? null,
+      barcode: record?.barcode ?? null,
+      code: error.code,
+      message: error.message,
+    });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Cancel Hold Use Case
+ *
+ * Application-level orchestration for leaving a book's reservation queue.
+ * If the book was already reserved for the patron, it is passed on to
+ * the next patron in the queue.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { HoldQueueService } from '../../domain/services/HoldQueueService';
+import { Clock } from '../../domain/services/Clock';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { runAndDispatchEvents, EventCollector } from './runAndDispatchEvents';
+
+/**
+ * Input DTO for Cancel Hold Use Case
+ */
+export interface CancelHoldInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+  holdId: string; // Hold UUID
+}
+
+/**
+ * Output DTO for Cancel Hold Use Case
+ */
+export interface CancelHoldOutput {
+  message: string;
+  book?: {
+    bookId: string;
+    status: string;
+    reservedFor: string | null;
+  };
+}
+
+/**
+ * Cancel Hold Use Case
+ */
+export class CancelHoldUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the cancel hold use case
+   * BookReservationCancelled / BookReserved (book passed on) are dispatched
+   * after the unit of work commits.
+   * @param input - Cancel hold input data (with value objects)
+   * @returns Cancellation result with the book's resulting status, or the
+   *   DomainError that prevented it
+   */
+  async execute(input: CancelHoldInput): Promise<Result<CancelHoldOutput>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, (repositories, collect) =>
+      this.cancelHold(input, repositories, collect)
+    );
+  }
+
+  /**
+   * Cancellation flow bound to the repositories of the current unit of work
+   * @private
+   */
+  private async cancelHold(
+    input: CancelHoldInput,
+    { bookRepository, holdRepository }: TransactionalRepositories,
+    collect: EventCollector
+  ): Promise<Result<CancelHoldOutput>> {
+    const hold = await holdRepository.findById(input.holdId);
+
+    if (!hold) {
+      return err(new NotFoundError('Hold', input.holdId));
+    }
+
+    const holdQueue = new HoldQueueService(bookRepository, holdRepository, this.clock);
+    const result = await holdQueue.cancelHold(input.userId, hold);
+
+    if (!result.ok) {
+      return result;
+    }
+    const { book } = result.value;
+    if (book) {
+      collect(book);
+    }
+
+    return ok({
+      message: 'Hold cancelled successfully',
+      ...(book && {
+        book: {
+          bookId: book.id,
+          status: book.status,
+          reservedFor: book.reservedFor?.getValue() ?? null,
+        },
+      }),
+    });
+  }
+}
@@ -13,7 +13,14 @@
  */
 
 import { IUserRepository } from '../../domain/repositories/IUserRepository';
-import { User } from '../../domain/entities/User';
+import { User, MemberCategory } from '../../domain/entities/User';
+import { Clock } from '../../domain/services/Clock';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { LendingPolicyCatalog } from '../../domain/policies/LendingPolicyCatalog';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { DuplicateEmailError } from '../../domain/errors/UserErrors';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+import { catchDomainErrors } from './catchDomainErrors';
 
 /**
  * Input DTO for Create User Use Case
@@ -21,6 +28,7 @@ import { User } from '../../domain/entities/User';
 export interface CreateUserInput {
   name: string;
   email: string;
+  category?: MemberCategory; // Selects the lending policy (default: ADULT)
 }
 
 /**
@@ -31,8 +39,9 @@ export interface CreateUserOutput {
   name: string;
   email: string;
   status: string;
+  category: string;
   currentBorrowCount: number;
-  overdueFees: number;
+  overdueFees: MoneyOutput;
   createdAt: Date;
 }
 
@@ -40,39 +49,57 @@ export interface CreateUserOutput {
  * Create User Use Case
  */
 export class CreateUserUseCase {
-  constructor(private readonly userRepository: IUserRepository) {}
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher,
+    private readonly policies: LendingPolicyCatalog
+  ) {}
 
   /**
    * Execute the use case
    * @param input - User creation input data
-   * @returns User creation result
-   * @throws Error if email already exists or validation fails
+   * @returns User creation result, or DuplicateEmailError / ValidationError
    */
-  async execute(input: CreateUserInput): Promise<CreateUserOutput> {
+  async execute(input: CreateUserInput): Promise<Result<CreateUserOutput>> {
+    return catchDomainErrors(() => this.createUser(input));
+  }
+
+  /**
+   * Creation flow (entity validation errors are thrown and caught by execute)
+   * @private
+   */
+  private async createUser(input: CreateUserInput): Promise<Result<CreateUserOutput>> {
     // Step 1: Check for email uniqueness (business rule)
     const existingUser = await this.userRepository.findByEmail(input.email);
 
     if (existingUser) {
-      throw new Error(
-        `User with email ${input.email} already exists (ID: ${existingUser.id.getValue()})`
-      );
+      return err(new DuplicateEmailError(input.email, existingUser.id));
     }
 
     // Step 2: Create user entity (factory method handles validation)
-    const user = User.create(input.name, input.email);
+    const user = User.create(
+      input.name,
+      input.email,
+      this.clock,
+      input.category,
+      this.policies.currency
+    );
 
-    // Step 3: Persist to repository
+    // Step 3: Persist to repository, then announce the new user (UserCreated)
     await this.userRepository.save(user);
+    await this.events.dispatch(user.pullDomainEvents());
 
     // Step 4: Return output DTO
-    return {
+    return ok({
       userId: user.id.getValue(),
       name: user.name,
       email: user.email,
       status: user.status,
+      category: user.category,
       currentBorrowCount: user.currentBorrowCount,
-      overdueFees: user.overdueFees,
+      overdueFees: toMoneyOutput(user.overdueFees),
       createdAt: user.createdAt,
-    };
+    });
   }
 }
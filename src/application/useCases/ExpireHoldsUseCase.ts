@@ -0,0 +1,112 @@
+/**
+ * Expire Holds Use Case
+ *
+ * Periodic job: finds READY holds whose pickup window has passed,
+ * expires them and passes each book on to the next patron in its queue
+ * (or back to the shelf). Each hold is handled in its own unit of work,
+ * so one conflict does not undo the others.
+ */
+
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { HoldStatus } from '../../domain/entities/Hold';
+import { HoldQueueService } from '../../domain/services/HoldQueueService';
+import { Clock } from '../../domain/services/Clock';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { InvalidStateError } from '../../domain/errors/CommonErrors';
+import { DomainErrorCode } from '../../domain/errors/DomainError';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { runAndDispatchEvents } from './runAndDispatchEvents';
+
+/**
+ * Output DTO for Expire Holds Use Case
+ */
+export interface ExpireHoldsOutput {
+  expired: Array<{
+    holdId: string;
+    bookId: string;
+    userId: string;
+    nextHolder: string | null; // Patron the book is now reserved for
+  }>;
+  failed: Array<{
+    holdId: string;
+    code: DomainErrorCode;
+    message: string;
+  }>;
+}
+
+/**
+ * Expire Holds Use Case
+ */
+export class ExpireHoldsUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the expire holds use case
+   * The events of each hold (BookReservationCancelled, BookReserved) are
+   * dispatched after its unit of work commits.
+   * @returns Report of expired holds and where each book went
+   *   (holds that could not be expired are listed with their error)
+   */
+  async execute(): Promise<Result<ExpireHoldsOutput>> {
+    const output: ExpireHoldsOutput = { expired: [], failed: [] };
+
+    const readyHolds = await this.unitOfWork.run(({ holdRepository }) =>
+      holdRepository.findByStatus(HoldStatus.READY)
+    );
+    const dueHolds = readyHolds.filter((hold) => hold.isPickupExpired(this.clock));
+
+    for (const candidate of dueHolds) {
+      const result = await runAndDispatchEvents(
+        this.unitOfWork,
+        this.events,
+        async ({ bookRepository, holdRepository }, collect) => {
+          // Reload: the hold may have been picked up since the scan
+          const hold = await holdRepository.findById(candidate.id);
+          if (!hold || !hold.isPickupExpired(this.clock)) {
+            return err(
+              new InvalidStateError(
+                'Hold',
+                candidate.id,
+                hold?.status ?? 'DELETED',
+                'expire',
+                'Hold is no longer awaiting pickup'
+              )
+            );
+          }
+
+          const holdQueue = new HoldQueueService(bookRepository, holdRepository, this.clock);
+          const expiry = await holdQueue.expireHold(hold);
+          if (!expiry.ok) {
+            return expiry;
+          }
+          if (expiry.value.book) {
+            collect(expiry.value.book);
+          }
+
+          return ok({ nextHolder: expiry.value.book?.reservedFor?.getValue() ?? null });
+        }
+      );
+
+      if (result.ok) {
+        output.expired.push({
+          holdId: candidate.id,
+          bookId: candidate.bookId,
+          userId: candidate.userId.getValue(),
+          nextHolder: result.value.nextHolder,
+        });
+      } else {
+        output.failed.push({
+          holdId: candidate.id,
+          code: result.error.code,
+          message: result.error.message,
+        });
+      }
+    }
+
+    return ok(output);
+  }
+}
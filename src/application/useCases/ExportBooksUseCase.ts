@@ -0,0 +1,116 @@
+/**
+ * Export Books Use Case
+ *
+ * Streams the catalog, one row per copy with its title's catalog data,
+ * as CSV, JSON Lines or MARCXML. Copies are read a page at a time in
+ * the order they were registered, so a full-catalog export holds one
+ * page in memory instead of every Book.
+ */
+
+import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Book, BookStatus } from '../../domain/entities/Book';
+import { Title } from '../../domain/entities/Title';
+import { ExportFormat, ExportRow, ExportWriter } from '../../domain/services/ExportWriter';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+import { catchDomainErrors } from './catchDomainErrors';
+import { ExportOutput, FieldReaders, allPages, selectFields, toExportRow } from './exportOutput';
+
+/**
+ * Input DTO for Export Books Use Case
+ */
+export interface ExportBooksInput {
+  format: ExportFormat;
+  fields?: string[]; // Subset of BOOK_EXPORT_FIELDS, in output order (default: all)
+  status?: BookStatus;
+}
+
+/**
+ * A copy and its catalog record
+ */
+interface CatalogCopy {
+  book: Book;
+  title: Title | undefined;
+}
+
+const BOOK_FIELDS: FieldReaders<CatalogCopy> = {
+  id: ({ book }) => book.id,
+  isbn: ({ book }) => book.isbn.getValue(),
+  barcode: ({ book }) => book.barcode.getValue(),
+  title: ({ title }) => title?.title ?? null,
+  author: ({ title }) => title?.author ?? null,
+  status: ({ book }) => book.status,
+  borrowedBy: ({ book }) => book.borrowedBy?.getValue() ?? null,
+  borrowedAt: ({ book }) => book.borrowedAt?.toISOString() ?? null,
+  dueDate: ({ book }) => book.dueDate?.toISOString() ?? null,
+  renewalCount: ({ book }) => book.renewalCount,
+  reservedFor: ({ book }) => book.reservedFor?.getValue() ?? null,
+  createdAt: ({ book }) => book.createdAt.toISOString(),
+  updatedAt: ({ book }) => book.updatedAt.toISOString(),
+};
+
+export const BOOK_EXPORT_FIELDS = Object.keys(BOOK_FIELDS);
+
+/**
+ * Export Books Use Case
+ */
+export class ExportBooksUseCase {
+  constructor(
+    private readonly titleRepository: ITitleRepository,
+    private readonly bookRepository: IBookRepository,
+    private readonly writers: Record<ExportFormat, ExportWriter>
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - Format, fields and filters
+   * @returns The export, read from the repositories as its content is
+   *   consumed, or ValidationError for an unknown format or field
+   */
+  async execute(input: ExportBooksInput): Promise<Result<ExportOutput>> {
+    return catchDomainErrors(async () => {
+      const writer = this.writers[input.format];
+      if (!writer) {
+        const formats = Object.keys(this.writers).join(', ');
+        return err(new ValidationError('format', `format must be one of: ${formats}`));
+      }
+      const fields = selectFields(input.fields, BOOK_FIELDS);
+
+      return ok({
+        format: input.format,
+        fields,
+        content: writer.write(fields, this.rows(input, fields)),
+      });
+    });
+  }
+
+  /**
+   * Rows of the matching copies, with the titles of each page loaded at once
+   * @private
+   */
+  private async *rows(input: ExportBooksInput, fields: string[]): AsyncIterable<ExportRow> {
+    const pages = allPages((page) =>
+      this.bookRepository.findPage({
+        ...(input.status && { status: input.status }),
+        sort: { field: 'createdAt', direction: 'asc' },
+        page,
+      })
+    );
+
+    for await (const books of pages) {
+      const isbns = [...new Map(books.map((book) => [book.isbn.getValue(), book.isbn])).values()];
+      const titles = new Map(
+        (await this.titleRepository.findByISBNs(isbns)).map((title) => [
+          title.isbn.getValue(),
+          title,
+        ])
+      );
+
+      for (const book of books) {
+        const copy = { book, title: titles.get(book.isbn.getValue()) };
+        yield toExportRow(copy, fields, BOOK_FIELDS);
+      }
+    }
+  }
+}
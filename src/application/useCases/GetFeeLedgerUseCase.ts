@@ -0,0 +1,96 @@
+/**
+ * Get Fee Ledger Use Case
+ *
+ * Application-specific query answering "why do I owe this much?":
+ * every charge, payment, waiver and adjustment of a user, with the
+ * running balance after each entry.
+ */
+
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { IFeeLedgerRepository } from '../../domain/repositories/IFeeLedgerRepository';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for Get Fee Ledger Use Case
+ */
+export interface GetFeeLedgerInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+}
+
+/**
+ * Output DTO for a single ledger entry
+ */
+export interface FeeEntryOutput {
+  entryId: string;
+  type: string;
+  amount: MoneyOutput; // Effect on the balance (negative for payments and waivers)
+  balanceAfter: MoneyOutput;
+  reason: string;
+  actor: string;
+  loanId: string | null;
+  bookId: string | null;
+  recordedAt: Date;
+}
+
+/**
+ * Output DTO for Get Fee Ledger Use Case
+ */
+export interface GetFeeLedgerOutput {
+  userId: string;
+  balance: MoneyOutput;
+  entries: FeeEntryOutput[];
+}
+
+/**
+ * Get Fee Ledger Use Case
+ */
+export class GetFeeLedgerUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly feeLedgerRepository: IFeeLedgerRepository
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - User whose ledger to show
+   * @returns Ledger entries oldest first, with running balance
+   *   (NotFoundError if the user does not exist)
+   */
+  async execute(input: GetFeeLedgerInput): Promise<Result<GetFeeLedgerOutput>> {
+    const user = await this.userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    const ledger = (await this.feeLedgerRepository.findByUser(user.id)).inCurrency(
+      user.overdueFees.getCurrency()
+    );
+
+    let balance = Money.zero(ledger.balance.getCurrency());
+    const entries = ledger.entries.map((entry) => {
+      balance = balance.add(entry.signedAmount);
+      return {
+        entryId: entry.id,
+        type: entry.type,
+        amount: toMoneyOutput(entry.signedAmount),
+        balanceAfter: toMoneyOutput(balance),
+        reason: entry.reason,
+        actor: entry.actor,
+        loanId: entry.loanId,
+        bookId: entry.bookId,
+        recordedAt: entry.recordedAt,
+      };
+    });
+
+    return ok({
+      userId: user.id.getValue(),
+      balance: toMoneyOutput(ledger.balance),
+      entries,
+    });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Get Title Availability Use Case
+ *
+ * Application-specific query reporting, per catalog title, how many of
+ * its copies are on the shelf (e.g. "2 of 3 available").
+ */
+
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { Book } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { catchDomainErrors } from './catchDomainErrors';
+import { TitleAvailabilityOutput, toTitleAvailabilityOutput } from './titleAvailabilityOutput';
+
+/**
+ * Input DTO for Get Title Availability Use Case
+ *
+ * Provide an ISBN for a single title; omit it for the whole catalog.
+ */
+export interface GetTitleAvailabilityInput {
+  isbn?: string;
+}
+
+/**
+ * Get Title Availability Use Case
+ */
+export class GetTitleAvailabilityUseCase {
+  constructor(
+    private readonly titleRepository: ITitleRepository,
+    private readonly bookRepository: IBookRepository
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - Title to report on (all titles if omitted)
+   * @returns Availability per title, or InvalidIsbnError / NotFoundError
+   */
+  async execute(
+    input: GetTitleAvailabilityInput = {}
+  ): Promise<Result<TitleAvailabilityOutput[]>> {
+    return catchDomainErrors(() => this.report(input));
+  }
+
+  /**
+   * Availability query (an invalid ISBN is thrown and caught by execute)
+   * @private
+   */
+  private async report(
+    input: GetTitleAvailabilityInput
+  ): Promise<Result<TitleAvailabilityOutput[]>> {
+    if (input.isbn) {
+      const isbnVO = new ISBN(input.isbn);
+      const title = await this.titleRepository.findByISBN(isbnVO);
+
+      if (!title) {
+        return err(new NotFoundError('Title', isbnVO.getValue()));
+      }
+
+      const copies = await this.bookRepository.findByISBN(isbnVO);
+      return ok([toTitleAvailabilityOutput(title, copies)]);
+    }
+
+    // Whole catalog: load all copies once and group them by ISBN
+    const titles = await this.titleRepository.findAll();
+    const copiesByISBN = new Map<string, Book[]>();
+    for (const book of await this.bookRepository.findAll()) {
+      const key = book.isbn.getValue();
+      copiesByISBN.set(key, [...(copiesByISBN.get(key) ?? []), book]);
+    }
+
+    return ok(
+      titles.map((title) =>
+        toTitleAvailabilityOutput(title, copiesByISBN.get(title.isbn.getValue()) ?? [])
+      )
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Get User Use Case
+ *
+ * Application-specific query returning one user's profile, borrowing
+ * count and fee balance.
+ */
+
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for Get User Use Case
+ */
+export interface GetUserInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+}
+
+/**
+ * Output DTO for Get User Use Case
+ */
+export interface GetUserOutput {
+  userId: string;
+  name: string;
+  email: string;
+  status: string;
+  category: string;
+  currentBorrowCount: number;
+  overdueFees: MoneyOutput;
+  createdAt: Date;
+}
+
+/**
+ * Get User Use Case
+ */
+export class GetUserUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  /**
+   * Execute the use case
+   * @param input - User to look up
+   * @returns The user, or NotFoundError
+   */
+  async execute(input: GetUserInput): Promise<Result<GetUserOutput>> {
+    const user = await this.userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    return ok({
+      userId: user.id.getValue(),
+      name: user.name,
+      email: user.email,
+      status: user.status,
+      category: user.category,
+      currentBorrowCount: user.currentBorrowCount,
+      overdueFees: toMoneyOutput(user.overdueFees),
+      createdAt: user.createdAt,
+    });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * List Books Use Case
+ *
+ * Application-specific query listing the copies in the collection with
+ * their catalog data and loan state, one page at a time. Copies can be
+ * filtered by status, author, title and borrower, and sorted.
+ */
+
+import { IBookRepository, BookSortField } from '../../domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { SortDirection } from '../../domain/repositories/PageQuery';
+import { BookStatus } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok } from '../../domain/errors/Result';
+import { catchDomainErrors } from './catchDomainErrors';
+import { PageInput, PageOutput, toPageRequest, toPageOutput } from './pageOutput';
+
+/**
+ * Input DTO for List Books Use Case
+ */
+export interface ListBooksInput extends PageInput {
+  status?: BookStatus; // Only copies in this status (default: all)
+  author?: string; // Case-insensitive part of the author
+  title?: string; // Case-insensitive part of the title
+  borrowedBy?: UserId; // Only copies lent to this user
+  sortBy?: BookSortField; // Default: createdAt
+  sortDirection?: SortDirection; // Default: desc
+}
+
+/**
+ * Output DTO for one copy
+ */
+export interface BookSummaryOutput {
+  bookId: string;
+  barcode: string;
+  isbn: string;
+  title: string;
+  author: string;
+  status: string;
+  borrowedBy: string | null;
+  dueDate: Date | null;
+  reservedFor: string | null;
+}
+
+/**
+ * List Books Use Case
+ */
+export class ListBooksUseCase {
+  constructor(
+    private readonly titleRepository: ITitleRepository,
+    private readonly bookRepository: IBookRepository
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - Filters, sort order and page (default: first page, newest first)
+   * @returns One page of copies with the page metadata, or ValidationError
+   */
+  async execute(input: ListBooksInput = {}): Promise<Result<PageOutput<BookSummaryOutput>>> {
+    return catchDomainErrors(async () => {
+      const page = toPageRequest(input);
+      const books = await this.bookRepository.findPage({
+        ...(input.status && { status: input.status }),
+        ...(input.author && { author: input.author }),
+        ...(input.title && { title: input.title }),
+        ...(input.borrowedBy && { borrowedBy: input.borrowedBy }),
+        sort: { field: input.sortBy ?? 'createdAt', direction: input.sortDirection ?? 'desc' },
+        page,
+      });
+
+      // Load the titles of this page only, in one call
+      const isbns = [...new Set(books.items.map((book) => book.isbn.getValue()))];
+      const titles = new Map(
+        (await this.titleRepository.findByISBNs(isbns.map((isbn) => new ISBN(isbn)))).map(
+          (title) => [title.isbn.getValue(), title]
+        )
+      );
+
+      return ok(
+        toPageOutput(books, page, (book) => {
+          const title = titles.get(book.isbn.getValue());
+          return {
+            bookId: book.id,
+            barcode: book.barcode.getValue(),
+            isbn: book.isbn.getValue(),
+            title: title?.title ?? '',
+            author: title?.author ?? '',
+            status: book.status,
+            borrowedBy: book.borrowedBy?.getValue() ?? null,
+            dueDate: book.dueDate,
+            reservedFor: book.reservedFor?.getValue() ?? null,
+          };
+        })
+      );
+    });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * List Loans Use Case
+ *
+ * Application-specific query over the loan history.
+ * Answers "loans by user", "loans by book" and "currently open loans".
+ */
+
+import { ILoanRepository } from '../../domain/repositories/ILoanRepository';
+import { Loan } from '../../domain/entities/Loan';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok } from '../../domain/errors/Result';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for List Loans Use Case
+ *
+ * Provide userId or bookId to get that history; omit both for all
+ * open loans. openOnly restricts a history to loans not yet returned.
+ */
+export interface ListLoansInput {
+  userId?: UserId;
+  bookId?: string;
+  openOnly?: boolean;
+}
+
+/**
+ * Output DTO for a single loan
+ */
+export interface LoanOutput {
+  loanId: string;
+  bookId: string;
+  userId: string;
+  borrowedAt: Date;
+  dueDate: Date;
+  returnedAt: Date | null;
+  feeCharged: MoneyOutput;
+}
+
+/**
+ * List Loans Use Case
+ */
+export class ListLoansUseCase {
+  constructor(private readonly loanRepository: ILoanRepository) {}
+
+  /**
+   * Execute the use case
+   * @param input - Which loans to list
+   * @returns Loans matching the input
+   */
+  async execute(input: ListLoansInput = {}): Promise<Result<LoanOutput[]>> {
+    let loans: Loan[];
+    if (input.userId) {
+      loans = await this.loanRepository.findByUser(input.userId);
+    } else if (input.bookId) {
+      loans = await this.loanRepository.findByBook(input.bookId);
+    } else {
+      loans = await this.loanRepository.findOpen();
+    }
+
+    if (input.bookId && input.userId) {
+      loans = loans.filter((loan) => loan.bookId === input.bookId);
+    }
+    if (input.openOnly) {
+      loans = loans.filter((loan) => loan.isOpen());
+    }
+
+    return ok(
+      loans.map((loan) => ({
+        loanId: loan.id,
+        bookId: loan.bookId,
+        userId: loan.userId.getValue(),
+        borrowedAt: loan.borrowedAt,
+        dueDate: loan.dueDate,
+        returnedAt: loan.returnedAt,
+        feeCharged: toMoneyOutput(loan.feeCharged),
+      }))
+    );
+  }
+}
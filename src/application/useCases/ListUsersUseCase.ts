@@ -0,0 +1,67 @@
+/**
+ * List Users Use Case
+ *
+ * Application-specific query listing the library's users one page at a
+ * time, filtered by status, member category, name and outstanding fees,
+ * and sorted.
+ */
+
+import { IUserRepository, UserSortField } from '../../domain/repositories/IUserRepository';
+import { SortDirection } from '../../domain/repositories/PageQuery';
+import { UserStatus, MemberCategory } from '../../domain/entities/User';
+import { Result, ok } from '../../domain/errors/Result';
+import { catchDomainErrors } from './catchDomainErrors';
+import { PageInput, PageOutput, toPageRequest, toPageOutput } from './pageOutput';
+import { GetUserOutput } from './GetUserUseCase';
+import { toMoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for List Users Use Case
+ */
+export interface ListUsersInput extends PageInput {
+  status?: UserStatus;
+  category?: MemberCategory;
+  name?: string; // Case-insensitive part of the name
+  hasOverdueFees?: boolean;
+  sortBy?: UserSortField; // Default: createdAt
+  sortDirection?: SortDirection; // Default: desc
+}
+
+/**
+ * List Users Use Case
+ */
+export class ListUsersUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  /**
+   * Execute the use case
+   * @param input - Filters, sort order and page (default: first page, newest first)
+   * @returns One page of users with the page metadata, or ValidationError
+   */
+  async execute(input: ListUsersInput = {}): Promise<Result<PageOutput<GetUserOutput>>> {
+    return catchDomainErrors(async () => {
+      const page = toPageRequest(input);
+      const users = await this.userRepository.findPage({
+        ...(input.status && { status: input.status }),
+        ...(input.category && { category: input.category }),
+        ...(input.name && { name: input.name }),
+        ...(input.hasOverdueFees !== undefined && { hasOverdueFees: input.hasOverdueFees }),
+        sort: { field: input.sortBy ?? 'createdAt', direction: input.sortDirection ?? 'desc' },
+        page,
+      });
+
+      return ok(
+        toPageOutput(users, page, (user) => ({
+          userId: user.id.getValue(),
+          name: user.name,
+          email: user.email,
+          status: user.status,
+          category: user.category,
+          currentBorrowCount: user.currentBorrowCount,
+          overdueFees: toMoneyOutput(user.overdueFees),
+          createdAt: user.createdAt,
+        }))
+      );
+    });
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Overdue Sweep Use Case
+ *
+ * Daily job (e.g. cron: `library overdue sweep`): finds borrowed books
+ * past their due date, charges the overdue fees they have accrued so
+ * far and suspends members who cross a threshold, so that fees are not
+ * only charged when a late book finally comes back.
+ *
+ * Accrual is idempotent: each loan remembers what it was charged, so a
+ * re-run the same day (or after a failed run) charges nothing twice,
+ * and the return charges only the rest. Each member is handled in
+ * their own unit of work, so one conflict does not undo the others.
+ */
+
+import { IUnitOfWork } from '../../domain/repositories/IUnitOfWork';
+import { Book, BookStatus } from '../../domain/entities/Book';
+import { User, UserStatus } from '../../domain/entities/User';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { BorrowBookService } from '../../domain/services/BorrowBookService';
+import { LendingPolicyCatalog } from '../../domain/policies/LendingPolicyCatalog';
+import { Clock } from '../../domain/services/Clock';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { DomainErrorCode } from '../../domain/errors/DomainError';
+import { runAndDispatchEvents } from './runAndDispatchEvents';
+import { MoneyOutput, toMoneyOutput } from './moneyOutput';
+
+export interface OverdueSweepOptions {
+  suspendAfterOverdueDays: number | null; // Suspend a member holding a book this late (null: never)
+  suspendAtFees: Money | null; // Suspend a member whose balance (same currency) reaches this
+}
+
+const DEFAULT_OPTIONS: OverdueSweepOptions = {
+  suspendAfterOverdueDays: 30,
+  suspendAtFees: null,
+};
+
+/**
+ * Output DTO for Overdue Sweep Use Case
+ */
+export interface OverdueSweepOutput {
+  overdueBooks: number; // Borrowed books found past due
+  charges: Array<{
+    userId: string;
+    bookId: string;
+    loanId: string;
+    overdueDays: number;
+    amount: MoneyOutput; // Charged by this sweep
+  }>;
+  suspensions: Array<{
+    userId: string;
+    reason: string;
+    overdueFees: MoneyOutput;
+  }>;
+  failed: Array<{
+    userId: string;
+    code: DomainErrorCode;
+    message: string;
+  }>;
+}
+
+/**
+ * What the sweep did for one member
+ */
+interface MemberSweep {
+  charges: OverdueSweepOutput['charges'];
+  suspension: OverdueSweepOutput['suspensions'][number] | null;
+}
+
+/**
+ * Overdue Sweep Use Case
+ */
+export class OverdueSweepUseCase {
+  private readonly options: OverdueSweepOptions;
+
+  /**
+   * @param options - Overrides of the default suspension thresholds
+   */
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly policies: LendingPolicyCatalog,
+    private readonly events: IDomainEventDispatcher,
+    options: Partial<OverdueSweepOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Execute the overdue sweep
+   * @returns Report of every fee charged and member suspended
+   *   (members that could not be swept are listed with their error)
+   */
+  async execute(): Promise<Result<OverdueSweepOutput>> {
+    const output: OverdueSweepOutput = {
+      overdueBooks: 0,
+      charges: [],
+      suspensions: [],
+      failed: [],
+    };
+
+    const borrowed = await this.unitOfWork.run(({ bookRepository }) =>
+      bookRepository.findByStatus(BookStatus.BORROWED)
+    );
+    const overdueByUser = new Map<string, string[]>();
+    for (const book of borrowed) {
+      if (book.borrowedBy && book.isOverdue(this.clock)) {
+        const userId = book.borrowedBy.getValue();
+        overdueByUser.set(userId, [...(overdueByUser.get(userId) ?? []), book.id]);
+        output.overdueBooks++;
+      }
+    }
+
+    for (const [userId, bookIds] of overdueByUser) {
+      const result = await this.sweepMember(UserId.create(userId), bookIds);
+
+      if (result.ok) {
+        output.charges.push(...result.value.charges);
+        if (result.value.suspension) {
+          output.suspensions.push(result.value.suspension);
+        }
+      } else {
+        output.failed.push({ userId, code: result.error.code, message: result.error.message });
+      }
+    }
+
+    return ok(output);
+  }
+
+  /**
+   * Accrue the fees of one member's overdue books, then suspend them if
+   * a threshold is crossed
+   * @private
+   */
+  private async sweepMember(userId: UserId, bookIds: string[]): Promise<Result<MemberSweep>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, async (repositories, collect) => {
+      const { userRepository, bookRepository, loanRepository, feeLedgerRepository } =
+        repositories;
+
+      const user = await userRepository.findById(userId);
+      if (!user) {
+        return err(new NotFoundError('User', userId.getValue()));
+      }
+
+      // Reload: books may have been returned since the scan
+      const books = (await bookRepository.findByIds(bookIds)).filter(
+        (book) => book.borrowedBy?.equals(userId) && book.isOverdue(this.clock)
+      );
+
+      const borrowService = new BorrowBookService(
+        userRepository,
+        bookRepository,
+        loanRepository,
+        feeLedgerRepository,
+        this.policies,
+        this.clock
+      );
+
+      let updatedUser = user;
+      let maxOverdueDays = 0;
+      const charges: MemberSweep['charges'] = [];
+
+      for (const book of books) {
+        const accrual = await borrowService.accrueOverdueFee(updatedUser, book);
+        if (!accrual.ok) {
+          return accrual;
+        }
+        const { loan, overdueDays, charged } = accrual.value;
+        updatedUser = accrual.value.updatedUser;
+        maxOverdueDays = Math.max(maxOverdueDays, overdueDays);
+
+        if (charged.isPositive()) {
+          collect(loan);
+          charges.push({
+            userId: userId.getValue(),
+            bookId: book.id,
+            loanId: loan.id,
+            overdueDays,
+            amount: toMoneyOutput(charged),
+          });
+        }
+      }
+
+      const reason = this.suspensionReason(updatedUser, books, maxOverdueDays);
+      if (reason) {
+        updatedUser = updatedUser.suspend(this.clock);
+      }
+
+      if (updatedUser !== user) {
+        await userRepository.save(updatedUser);
+        collect(updatedUser);
+      }
+
+      return ok({
+        charges,
+        suspension: reason
+          ? {
+              userId: userId.getValue(),
+              reason,
+              overdueFees: toMoneyOutput(updatedUser.overdueFees),
+            }
+          : null,
+      });
+    });
+  }
+
+  /**
+   * Why an active member is to be suspended (null if no threshold is crossed)
+   * @private
+   */
+  private suspensionReason(user: User, books: Book[], maxOverdueDays: number): string | null {
+    if (user.status !== UserStatus.ACTIVE) {
+      return null;
+    }
+
+    const { suspendAfterOverdueDays, suspendAtFees } = this.options;
+    if (suspendAfterOverdueDays !== null && maxOverdueDays >= suspendAfterOverdueDays) {
+      return `${books.length} book(s) overdue, up to ${maxOverdueDays} day(s) late`;
+    }
+    if (
+      suspendAtFees !== null &&
+      user.overdueFees.getCurrency() === suspendAtFees.getCurrency() &&
+      !user.overdueFees.lessThan(suspendAtFees)
+    ) {
+      return `Outstanding fees ${user.overdueFees.format()} reached ${suspendAtFees.format()}`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Pay Fee Use Case
+ *
+ * Application-level orchestration for recording a fee payment.
+ * The payment is appended to the user's fee ledger and the user's
+ * balance is updated in the same unit of work.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { FeeLedgerService } from '../../domain/services/FeeLedgerService';
+import { Clock } from '../../domain/services/Clock';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { runWithConflictRetry } from './runWithConflictRetry';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for Pay Fee Use Case
+ */
+export interface PayFeeInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+  amount: Money; // Value object (amount received)
+  actor: string; // Staff member taking the payment
+  reason?: string; // e.g. "Cash at front desk"
+}
+
+/**
+ * Output DTO for Pay Fee Use Case
+ */
+export interface PayFeeOutput {
+  message: string;
+  entryId: string; // Ledger entry recording the payment
+  balance: MoneyOutput; // Outstanding fees after the payment
+}
+
+/**
+ * Pay Fee Use Case
+ */
+export class PayFeeUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock
+  ) {}
+
+  /**
+   * Execute the pay fee use case
+   * @param input - Payment input data (with value objects)
+   * @returns Payment result with the remaining balance, or the DomainError that prevented it
+   */
+  async execute(input: PayFeeInput): Promise<Result<PayFeeOutput>> {
+    return runWithConflictRetry(this.unitOfWork, (repositories) =>
+      this.pay(input, repositories)
+    );
+  }
+
+  /**
+   * Payment flow bound to the repositories of the current unit of work
+   * @private
+   */
+  private async pay(
+    input: PayFeeInput,
+    { userRepository, feeLedgerRepository }: TransactionalRepositories
+  ): Promise<Result<PayFeeOutput>> {
+    const user = await userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    const fees = new FeeLedgerService(feeLedgerRepository, this.clock);
+    const result = await fees.pay(user, input.amount, {
+      reason: input.reason || 'Fee payment',
+      actor: input.actor,
+    });
+
+    if (!result.ok) {
+      return result;
+    }
+    const { updatedUser, entry } = result.value;
+
+    await userRepository.save(updatedUser);
+
+    return ok({
+      message: `Payment of ${input.amount.format()} recorded`,
+      entryId: entry.id,
+      balance: toMoneyOutput(updatedUser.overdueFees),
+    });
+  }
+}
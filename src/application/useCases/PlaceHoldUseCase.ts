@@ -0,0 +1,115 @@
+/**
+ * Place Hold Use Case
+ *
+ * Application-level orchestration for joining a book's reservation queue.
+ *
+ * This use case:
+ * 1. Finds user and book (inside a unit of work)
+ * 2. Delegates queue rules to HoldQueueService
+ * 3. Returns result DTO with the patron's queue position
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { HoldQueueService } from '../../domain/services/HoldQueueService';
+import { Clock } from '../../domain/services/Clock';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { runAndDispatchEvents, EventCollector } from './runAndDispatchEvents';
+
+/**
+ * Input DTO for Place Hold Use Case
+ */
+export interface PlaceHoldInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+  bookId: string; // Book UUID
+}
+
+/**
+ * Output DTO for Place Hold Use Case
+ */
+export interface PlaceHoldOutput {
+  message: string;
+  hold: {
+    holdId: string;
+    bookId: string;
+    userId: string;
+    status: string;
+    position: number; // 1 = next in line
+    expiresAt: Date | null; // Pickup deadline once READY
+  };
+}
+
+/**
+ * Place Hold Use Case
+ */
+export class PlaceHoldUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the place hold use case
+   * BookReserved (book on the shelf) is dispatched after the unit of work commits.
+   * @param input - Place hold input data (with value objects)
+   * @returns Hold result with queue position, or the DomainError that prevented it
+   */
+  async execute(input: PlaceHoldInput): Promise<Result<PlaceHoldOutput>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, (repositories, collect) =>
+      this.placeHold(input, repositories, collect)
+    );
+  }
+
+  /**
+   * Hold flow bound to the repositories of the current unit of work
+   * @private
+   */
+  private async placeHold(
+    input: PlaceHoldInput,
+    { userRepository, bookRepository, holdRepository }: TransactionalRepositories,
+    collect: EventCollector
+  ): Promise<Result<PlaceHoldOutput>> {
+    const user = await userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    const book = await bookRepository.findById(input.bookId);
+
+    if (!book) {
+      return err(new NotFoundError('Book', input.bookId));
+    }
+
+    const holdQueue = new HoldQueueService(bookRepository, holdRepository, this.clock);
+    const result = await holdQueue.placeHold(user, book);
+
+    if (!result.ok) {
+      return result;
+    }
+
+    const { hold, book: updatedBook } = result.value;
+    if (updatedBook) {
+      collect(updatedBook);
+    }
+    const queue = await holdRepository.findActiveByBook(book.id);
+    const position = queue.findIndex((queued) => queued.id === hold.id) + 1;
+
+    return ok({
+      message: hold.expiresAt
+        ? 'Hold placed: book is reserved and ready for pickup'
+        : `Hold placed: position ${position} in queue`,
+      hold: {
+        holdId: hold.id,
+        bookId: hold.bookId,
+        userId: hold.userId.getValue(),
+        status: hold.status,
+        position,
+        expiresAt: hold.expiresAt,
+      },
+    });
+  }
+}
@@ -1,27 +1,49 @@
 /**
  * Register Book Use Case
  *
- * Application-specific business logic for registering a new book.
+ * Application-specific business logic for registering a new copy of a book.
  * Orchestrates the book registration flow, ensuring business rules are followed.
  *
  * This use case:
  * 1. Validates input
- * 2. Checks for ISBN uniqueness
- * 3. Creates book entity
- * 4. Persists to repository
- * 5. Returns result DTO
+ * 2. Checks for barcode uniqueness
+ * 3. Catalogs the title on its first copy (looking up its catalog data by ISBN)
+ * 4. Creates book (copy) entity
+ * 5. Persists to repository
+ * 6. Returns result DTO
  */
 import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
 import { Book } from '../../domain/entities/Book';
+import { Title } from '../../domain/entities/Title';
 import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
+import { Clock } from '../../domain/services/Clock';
+import { BookMetadata, BookMetadataProvider } from '../../domain/services/BookMetadataProvider';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { DuplicateBarcodeError } from '../../domain/errors/BookErrors';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+import {
+  MetadataNotFoundError,
+  MetadataUnavailableError,
+} from '../../domain/errors/MetadataErrors';
+import { catchDomainErrors } from './catchDomainErrors';
 
 /**
  * Input DTO for Register Book Use Case
+ *
+ * title and author are only used to catalog an ISBN registered for the
+ * first time; further copies share the existing catalog record. Omit
+ * them to register by ISBN only: whatever is missing is filled in from
+ * the metadata provider. If the lookup fails, a title entered in full is
+ * cataloged without publication details.
  */
 export interface RegisterBookInput {
   isbn: string;
-  title: string;
-  author: string;
+  title?: string;
+  author?: string;
+  barcode: string;
 }
 
 /**
@@ -29,52 +51,118 @@ export interface RegisterBookInput {
  */
 export interface RegisterBookOutput {
   bookId: string;
+  barcode: string;
   isbn: string;
   title: string;
   author: string;
   status: string;
   createdAt: Date;
+  metadata: BookMetadata | null; // Record the new title was cataloged from (null if none)
 }
 
 /**
  * Register Book Use Case
  */
 export class RegisterBookUseCase {
-  constructor(private readonly bookRepository: IBookRepository) {}
+  constructor(
+    private readonly titleRepository: ITitleRepository,
+    private readonly bookRepository: IBookRepository,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher,
+    private readonly metadataProvider: BookMetadataProvider | null = null
+  ) {}
 
   /**
    * Execute the use case
    * @param input - Book registration input data
-   * @returns Registration result
-   * @throws Error if ISBN already exists or validation fails
+   * @returns Registration result, or DuplicateBarcodeError / InvalidIsbnError /
+   *   InvalidBarcodeError / ValidationError / MetadataNotFoundError /
+   *   MetadataUnavailableError
+   */
+  async execute(input: RegisterBookInput): Promise<Result<RegisterBookOutput>> {
+    return catchDomainErrors(() => this.register(input));
+  }
+
+  /**
+   * Registration flow (value object and entity validation errors are
+   * thrown and caught by execute)
+   * @private
    */
-  async execute(input: RegisterBookInput): Promise<RegisterBookOutput> {
-    // Step 1: Validate ISBN format (will throw if invalid)
+  private async register(input: RegisterBookInput): Promise<Result<RegisterBookOutput>> {
+    // Step 1: Validate ISBN and barcode format (will throw if invalid)
     const isbnVO = new ISBN(input.isbn);
+    const barcodeVO = Barcode.create(input.barcode);
 
-    // Step 2: Check for ISBN uniqueness
-    const existingBook = await this.bookRepository.findByISBN(isbnVO);
+    // Step 2: Check for barcode uniqueness
+    const existingBook = await this.bookRepository.findByBarcode(barcodeVO);
 
     if (existingBook) {
-      throw new Error(
-        `Book with ISBN ${input.isbn} already exists (ID: ${existingBook.id})`
+      return err(new DuplicateBarcodeError(barcodeVO.getValue(), existingBook.id));
+    }
+
+    // Step 3: Catalog the title unless another copy already did
+    let title = await this.titleRepository.findByISBN(isbnVO);
+    let metadata: BookMetadata | null = null;
+
+    if (!title) {
+      const lookup = await this.lookUpMetadata(isbnVO);
+      // Without the record, staff must have entered both fields
+      if (!lookup.ok && (input.title === undefined || input.author === undefined)) {
+        return lookup;
+      }
+      metadata = lookup.ok ? lookup.value : null;
+
+      // The record supplies the publication details; staff's entries win
+      title = Title.create(
+        input.isbn,
+        input.title ?? metadata?.title ?? '',
+        input.author ?? metadata?.authors.join(', ') ?? '',
+        this.clock,
+        metadata ?? {}
       );
+      await this.titleRepository.save(title);
     }
 
-    // Step 3: Create book entity (factory method handles validation)
-    const book = Book.create(input.isbn, input.title, input.author);
+    // Step 4: Create book entity (factory method handles validation)
+    const book = Book.create(title, input.barcode, this.clock);
 
-    // Step 4: Persist to repository
+    // Step 5: Persist to repository, then announce the new copy (BookRegistered)
     await this.bookRepository.save(book);
+    await this.events.dispatch(book.pullDomainEvents());
 
-    // Step 5: Return output DTO
-    return {
+    // Step 6: Return output DTO
+    return ok({
       bookId: book.id,
+      barcode: book.barcode.getValue(),
       isbn: book.isbn.getValue(),
-      title: book.title,
-      author: book.author,
+      title: title.title,
+      author: title.author,
       status: book.status,
       createdAt: book.createdAt,
-    };
+      metadata,
+    });
+  }
+
+  /**
+   * Catalog data of a new ISBN
+   * @private
+   */
+  private async lookUpMetadata(isbn: ISBN): Promise<Result<BookMetadata>> {
+    if (!this.metadataProvider) {
+      return err(
+        new ValidationError('title', 'title and author are required for a new ISBN')
+      );
+    }
+
+    let metadata: BookMetadata | null;
+    try {
+      metadata = await this.metadataProvider.lookup(isbn);
+    } catch (error) {
+      if (error instanceof MetadataUnavailableError) {
+        return err(error);
+      }
+      throw error;
+    }
+    return metadata ? ok(metadata) : err(new MetadataNotFoundError(isbn.getValue()));
   }
 }
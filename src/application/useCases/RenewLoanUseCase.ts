@@ -0,0 +1,135 @@
+/**
+ * Renew Loan Use Case
+ *
+ * Application-level orchestration for extending a loan's due date.
+ *
+ * This use case:
+ * 1. Finds user and book (inside a unit of work)
+ * 2. Checks whether another patron is waiting for the book
+ * 3. Delegates renewal rules to BorrowBookService
+ * 4. Returns result DTO with the new due date
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { BorrowBookService } from '../../domain/services/BorrowBookService';
+import { Clock } from '../../domain/services/Clock';
+import { LendingPolicyCatalog } from '../../domain/policies/LendingPolicyCatalog';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { runAndDispatchEvents, EventCollector } from './runAndDispatchEvents';
+
+/**
+ * Input DTO for Renew Loan Use Case
+ */
+export interface RenewLoanInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+  bookId: string; // Book (copy) UUID
+}
+
+/**
+ * Output DTO for Renew Loan Use Case
+ */
+export interface RenewLoanOutput {
+  message: string;
+  book: {
+    bookId: string;
+    barcode: string;
+    title: string;
+    dueDate: Date | null;
+    renewalCount: number;
+  };
+}
+
+/**
+ * Renew Loan Use Case
+ */
+export class RenewLoanUseCase {
+  /**
+   * @param policies - Lending policies (a renewal adds the user's loan period)
+   */
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock,
+    private readonly policies: LendingPolicyCatalog,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the renew loan use case
+   * BookRenewed is dispatched after the unit of work commits.
+   * @param input - Renew loan input data (with value objects)
+   * @returns Renewal result with the new due date, or the DomainError that prevented it
+   */
+  async execute(input: RenewLoanInput): Promise<Result<RenewLoanOutput>> {
+    return runAndDispatchEvents(this.unitOfWork, this.events, (repositories, collect) =>
+      this.renew(input, repositories, collect)
+    );
+  }
+
+  /**
+   * Renewal flow bound to the repositories of the current unit of work
+   * @private
+   */
+  private async renew(
+    input: RenewLoanInput,
+    {
+      userRepository,
+      bookRepository,
+      titleRepository,
+      holdRepository,
+      loanRepository,
+      feeLedgerRepository,
+    }: TransactionalRepositories,
+    collect: EventCollector
+  ): Promise<Result<RenewLoanOutput>> {
+    const user = await userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    const book = await bookRepository.findById(input.bookId);
+
+    if (!book) {
+      return err(new NotFoundError('Book', input.bookId));
+    }
+
+    // Catalog record for the DTO (title and author are per title, not per copy)
+    const title = await titleRepository.findByISBN(book.isbn);
+
+    if (!title) {
+      return err(new NotFoundError('Title', book.isbn.getValue()));
+    }
+
+    const hasPendingReservation = await holdRepository.hasPendingReservation(book.id);
+
+    const borrowService = new BorrowBookService(
+      userRepository,
+      bookRepository,
+      loanRepository,
+      feeLedgerRepository,
+      this.policies,
+      this.clock
+    );
+    const result = await borrowService.renew(user, book, hasPendingReservation);
+
+    if (!result.ok) {
+      return result;
+    }
+    const { updatedBook, loan } = result.value;
+    collect(updatedBook, loan);
+
+    return ok({
+      message: 'Loan renewed successfully',
+      book: {
+        bookId: updatedBook.id,
+        barcode: updatedBook.barcode.getValue(),
+        title: title.title,
+        dueDate: updatedBook.dueDate,
+        renewalCount: updatedBook.renewalCount,
+      },
+    });
+  }
+}
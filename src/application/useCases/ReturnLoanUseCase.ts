@@ -0,0 +1,52 @@
+/**
+ * Return Loan Use Case
+ *
+ * Returns the book of a loan identified by its loan ID (e.g. from a
+ * receipt), for clients that do not know the borrower and copy IDs.
+ * Delegates the return itself to ReturnBookUseCase.
+ */
+
+import { ILoanRepository } from '../../domain/repositories/ILoanRepository';
+import { Result, err } from '../../domain/errors/Result';
+import { NotFoundError, InvalidStateError } from '../../domain/errors/CommonErrors';
+import { ReturnBookUseCase, ReturnBookOutput } from './BorrowBookUseCase';
+
+/**
+ * Input DTO for Return Loan Use Case
+ */
+export interface ReturnLoanInput {
+  loanId: string;
+}
+
+/**
+ * Return Loan Use Case
+ */
+export class ReturnLoanUseCase {
+  constructor(
+    private readonly loanRepository: ILoanRepository,
+    private readonly returnBook: ReturnBookUseCase
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - Loan to close
+   * @returns Return result (see ReturnBookUseCase), or NotFoundError /
+   *   InvalidStateError if the loan is already closed
+   */
+  async execute(input: ReturnLoanInput): Promise<Result<ReturnBookOutput>> {
+    const loan = await this.loanRepository.findById(input.loanId);
+
+    if (!loan) {
+      return err(new NotFoundError('Loan', input.loanId));
+    }
+
+    // A closed loan's copy may be out on a newer loan; never return that one
+    if (!loan.isOpen()) {
+      return err(
+        new InvalidStateError('Loan', loan.id, 'CLOSED', 'return', 'Loan is already closed')
+      );
+    }
+
+    return this.returnBook.execute({ userId: loan.userId, bookId: loan.bookId });
+  }
+}
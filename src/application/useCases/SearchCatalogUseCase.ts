@@ -0,0 +1,104 @@
+/**
+ * Search Catalog Use Case
+ *
+ * Application-specific query behind the catalog search box: finds titles
+ * by part of their title or author's name, or by ISBN (with or without
+ * hyphens), and reports how many copies of each are on the shelf.
+ */
+
+import { ICatalogSearch, CatalogMatch } from '../../domain/repositories/ICatalogSearch';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { Book } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+import { TitleAvailabilityOutput, toTitleAvailabilityOutput } from './titleAvailabilityOutput';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Input DTO for Search Catalog Use Case
+ */
+export interface SearchCatalogInput {
+  query: string; // Words of the title or author, or an ISBN
+  limit?: number; // 1 to MAX_SEARCH_LIMIT (default: DEFAULT_SEARCH_LIMIT)
+  availableOnly?: boolean; // Only titles with a copy on the shelf
+}
+
+/**
+ * Output DTO for one matching title
+ */
+export interface CatalogHitOutput extends TitleAvailabilityOutput {
+  rank: number; // Relevance; higher is better
+}
+
+/**
+ * Search Catalog Use Case
+ */
+export class SearchCatalogUseCase {
+  constructor(
+    private readonly catalogSearch: ICatalogSearch,
+    private readonly titleRepository: ITitleRepository,
+    private readonly bookRepository: IBookRepository
+  ) {}
+
+  /**
+   * Execute the use case
+   *
+   * Domain Logic Flow:
+   * 1. Validate the query and limit
+   * 2. A query that is an ISBN looks up that title; anything else is a text search
+   * 3. Load the copies of all hits in one call and count the available ones
+   *
+   * @param input - Search text and options
+   * @returns Hits, best match first, or ValidationError
+   */
+  async execute(input: SearchCatalogInput): Promise<Result<CatalogHitOutput[]>> {
+    const query = input.query.trim();
+    if (query.length === 0) {
+      return err(new ValidationError('query', 'Search query must not be empty'));
+    }
+
+    const limit = input.limit ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return err(
+        new ValidationError('limit', `limit must be an integer from 1 to ${MAX_SEARCH_LIMIT}`)
+      );
+    }
+
+    const matches = await this.findMatches(query, limit);
+
+    const copies = await this.bookRepository.findByISBNs(matches.map((match) => match.title.isbn));
+    const copiesByISBN = new Map<string, Book[]>();
+    for (const book of copies) {
+      const key = book.isbn.getValue();
+      copiesByISBN.set(key, [...(copiesByISBN.get(key) ?? []), book]);
+    }
+
+    const hits = matches.map((match) => ({
+      ...toTitleAvailabilityOutput(
+        match.title,
+        copiesByISBN.get(match.title.isbn.getValue()) ?? []
+      ),
+      rank: match.rank,
+    }));
+
+    return ok(input.availableOnly ? hits.filter((hit) => hit.availableCopies > 0) : hits);
+  }
+
+  /**
+   * Exact ISBN lookup, or full-text search
+   * @private
+   */
+  private async findMatches(query: string, limit: number): Promise<CatalogMatch[]> {
+    const isbn = ISBN.parse(query);
+    if (isbn) {
+      const title = await this.titleRepository.findByISBN(isbn);
+      return title ? [{ title, rank: 1 }] : [];
+    }
+
+    return this.catalogSearch.search(query, limit);
+  }
+}
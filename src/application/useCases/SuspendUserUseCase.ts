@@ -0,0 +1,75 @@
+/**
+ * Suspend User Use Case
+ *
+ * Application-specific business logic for suspending a user account
+ * (e.g. by a librarian after repeated late returns). A suspended user
+ * cannot borrow until the account is activated again.
+ */
+
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Clock } from '../../domain/services/Clock';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { catchDomainErrors } from './catchDomainErrors';
+
+/**
+ * Input DTO for Suspend User Use Case
+ */
+export interface SuspendUserInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+}
+
+/**
+ * Output DTO for Suspend User Use Case
+ */
+export interface SuspendUserOutput {
+  message: string;
+  userId: string;
+  status: string;
+}
+
+/**
+ * Suspend User Use Case
+ */
+export class SuspendUserUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly clock: Clock,
+    private readonly events: IDomainEventDispatcher
+  ) {}
+
+  /**
+   * Execute the use case
+   * @param input - User to suspend
+   * @returns Suspension result, or NotFoundError / InvalidStateError if
+   *   already suspended / ConcurrencyConflictError
+   */
+  async execute(input: SuspendUserInput): Promise<Result<SuspendUserOutput>> {
+    return catchDomainErrors(() => this.suspend(input));
+  }
+
+  /**
+   * Suspension flow (state errors are thrown and caught by execute)
+   * @private
+   */
+  private async suspend(input: SuspendUserInput): Promise<Result<SuspendUserOutput>> {
+    const user = await this.userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    // Persist, then announce the suspension (UserSuspended)
+    const suspended = user.suspend(this.clock);
+    await this.userRepository.save(suspended);
+    await this.events.dispatch(suspended.pullDomainEvents());
+
+    return ok({
+      message: 'User suspended',
+      userId: suspended.id.getValue(),
+      status: suspended.status,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Waive Fee Use Case
+ *
+ * Application-level orchestration for forgiving fees.
+ * The waiver (with the staff member and reason) is appended to the
+ * user's fee ledger and the user's balance is updated in the same
+ * unit of work.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { FeeLedgerService } from '../../domain/services/FeeLedgerService';
+import { Clock } from '../../domain/services/Clock';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { Result, ok, err } from '../../domain/errors/Result';
+import { NotFoundError } from '../../domain/errors/CommonErrors';
+import { runWithConflictRetry } from './runWithConflictRetry';
+import { toMoneyOutput, MoneyOutput } from './moneyOutput';
+
+/**
+ * Input DTO for Waive Fee Use Case
+ */
+export interface WaiveFeeInput {
+  userId: UserId; // Value object (validated 8-digit user ID)
+  amount?: Money; // Value object (amount to waive); the whole balance if omitted
+  actor: string; // Staff member granting the waiver
+  reason: string; // Required: why the fee is forgiven
+}
+
+/**
+ * Output DTO for Waive Fee Use Case
+ */
+export interface WaiveFeeOutput {
+  message: string;
+  entryId: string; // Ledger entry recording the waiver
+  balance: MoneyOutput; // Outstanding fees after the waiver
+}
+
+/**
+ * Waive Fee Use Case
+ */
+export class WaiveFeeUseCase {
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly clock: Clock
+  ) {}
+
+  /**
+   * Execute the waive fee use case
+   * @param input - Waiver input data (with value objects)
+   * @returns Waiver result with the remaining balance, or the DomainError that prevented it
+   */
+  async execute(input: WaiveFeeInput): Promise<Result<WaiveFeeOutput>> {
+    return runWithConflictRetry(this.unitOfWork, (repositories) =>
+      this.waive(input, repositories)
+    );
+  }
+
+  /**
+   * Waiver flow bound to the repositories of the current unit of work
+   * @private
+   */
+  private async waive(
+    input: WaiveFeeInput,
+    { userRepository, feeLedgerRepository }: TransactionalRepositories
+  ): Promise<Result<WaiveFeeOutput>> {
+    const user = await userRepository.findById(input.userId);
+
+    if (!user) {
+      return err(new NotFoundError('User', input.userId.getValue()));
+    }
+
+    const fees = new FeeLedgerService(feeLedgerRepository, this.clock);
+    const amount = input.amount ?? (await fees.ledgerOf(user)).balance;
+    const result = await fees.waive(user, amount, {
+      reason: input.reason,
+      actor: input.actor,
+    });
+
+    if (!result.ok) {
+      return result;
+    }
+    const { updatedUser, entry } = result.value;
+
+    await userRepository.save(updatedUser);
+
+    return ok({
+      message: `Waiver of ${amount.format()} recorded`,
+      entryId: entry.id,
+      balance: toMoneyOutput(updatedUser.overdueFees),
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Domain Error Helper
+ *
+ * Shared by the use cases that run without a unit of work: entities and
+ * value objects throw a DomainError when an invariant would be broken,
+ * and the use case reports it as a failed Result like any other rule.
+ */
+
+import { DomainError } from '../../domain/errors/DomainError';
+import { Result, err } from '../../domain/errors/Result';
+
+/**
+ * Run work, turning a thrown DomainError into a failed Result
+ *
+ * Errors that are not DomainErrors (e.g. database outages) are rethrown.
+ */
+export async function catchDomainErrors<T>(work: () => Promise<Result<T>>): Promise<Result<T>> {
+  try {
+    return await work();
+  } catch (error) {
+    if (error instanceof DomainError) {
+      return err(error);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Export Output DTO
+ *
+ * Shared by the export use cases: field selection, and the rows of a
+ * repository read page by page (keyset cursors, so rows added during
+ * the export neither repeat nor shift the pages), so that only one page
+ * is in memory at a time.
+ */
+
+import { Page, PageRequest } from '../../domain/repositories/PageQuery';
+import { ExportFormat, ExportRow, ExportValue } from '../../domain/services/ExportWriter';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+/**
+ * Rows read per repository page
+ */
+export const EXPORT_PAGE_SIZE = 500;
+
+export interface ExportOutput {
+  format: ExportFormat;
+  fields: string[];
+  content: AsyncIterable<string>; // File content, produced as it is read
+}
+
+/**
+ * How each exportable field is read from an item
+ */
+export type FieldReaders<T> = Readonly<Record<string, (item: T) => ExportValue>>;
+
+/**
+ * Validate a field selection
+ * @param requested - Fields asked for (all fields, in their order, if omitted)
+ * @throws ValidationError for an empty selection or an unknown field
+ */
+export function selectFields<T>(
+  requested: string[] | undefined,
+  readers: FieldReaders<T>
+): string[] {
+  const available = Object.keys(readers);
+  if (requested === undefined) {
+    return available;
+  }
+  if (requested.length === 0) {
+    throw new ValidationError('fields', 'Select at least one field');
+  }
+
+  const unknown = requested.filter((field) => !available.includes(field));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      'fields',
+      `Unknown field: ${unknown.join(', ')} (fields: ${available.join(', ')})`
+    );
+  }
+  return requested;
+}
+
+/**
+ * Every item of a paged query, one page at a time
+ * @param findPage - Loads the page of a request
+ */
+export async function* allPages<T>(
+  findPage: (page: PageRequest) => Promise<Page<T>>
+): AsyncIterable<T[]> {
+  let after: string | null = null;
+  do {
+    const page: Page<T> = await findPage({
+      limit: EXPORT_PAGE_SIZE,
+      ...(after !== null && { after }),
+    });
+    if (page.items.length > 0) {
+      yield page.items;
+    }
+    after = page.nextCursor;
+  } while (after !== null);
+}
+
+/**
+ * Row of the selected fields of an item
+ */
+export function toExportRow<T>(item: T, fields: string[], readers: FieldReaders<T>): ExportRow {
+  return Object.fromEntries(fields.map((field) => [field, readers[field]?.(item) ?? null]));
+}
@@ -0,0 +1,26 @@
+/**
+ * Money Output DTO
+ *
+ * Shared representation of a Money amount in use-case outputs.
+ * Carries the exact amount (integer minor units + currency) for clients
+ * that compute with it, and a formatted string for clients that display it.
+ */
+
+import { Money } from '../../domain/valueObjects/Money';
+
+export interface MoneyOutput {
+  minorUnits: number; // e.g. 1200 for ¥1,200, 1250 for $12.50
+  currency: string; // ISO 4217 code
+  formatted: string; // e.g. "¥1,200"
+}
+
+/**
+ * Convert a Money value object to its output DTO
+ */
+export function toMoneyOutput(money: Money): MoneyOutput {
+  return {
+    minorUnits: money.getMinorUnits(),
+    currency: money.getCurrency(),
+    formatted: money.format(),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Page Input and Output DTOs
+ *
+ * Shared by the list use cases: how a client asks for a page (limit plus
+ * offset or cursor) and the page metadata returned with the items.
+ * The total is counted for the first page of a listing (no cursor) and
+ * for offset pages; cursor pages leave it to the first one.
+ */
+
+import { Page, PageRequest } from '../../domain/repositories/PageQuery';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface PageInput {
+  limit?: number; // 1 to MAX_PAGE_SIZE (default: DEFAULT_PAGE_SIZE)
+  offset?: number; // Offset pagination
+  cursor?: string; // nextCursor of the previous page (cursor pagination)
+}
+
+export interface PageOutput<T> {
+  items: T[];
+  totalCount: number | null; // Items matching the filters, across all pages (null by cursor)
+  limit: number;
+  offset: number | null; // null when paging by cursor
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}
+
+/**
+ * Validate a page input and convert it to a repository page request
+ * @throws ValidationError for an out-of-range limit or offset, or both offset and cursor
+ */
+export function toPageRequest(input: PageInput): PageRequest {
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ValidationError('limit', `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  if (input.offset !== undefined && (!Number.isInteger(input.offset) || input.offset < 0)) {
+    throw new ValidationError('offset', 'offset must be a non-negative integer');
+  }
+  if (input.offset !== undefined && input.cursor !== undefined) {
+    throw new ValidationError('cursor', 'Page by offset or by cursor, not both');
+  }
+
+  return {
+    limit,
+    ...(input.offset !== undefined && { offset: input.offset }),
+    ...(input.cursor !== undefined ? { after: input.cursor } : { withTotal: true }),
+  };
+}
+
+/**
+ * Convert a repository page to its output DTO
+ */
+export function toPageOutput<T, U>(
+  page: Page<T>,
+  request: PageRequest,
+  toItem: (item: T) => U
+): PageOutput<U> {
+  return {
+    items: page.items.map(toItem),
+    totalCount: page.totalCount,
+    limit: request.limit,
+    offset: request.after ? null : (request.offset ?? 0),
+    nextCursor: page.nextCursor,
+    hasNextPage: page.nextCursor !== null,
+  };
+}
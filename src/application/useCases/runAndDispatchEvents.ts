@@ -0,0 +1,46 @@
+/**
+ * Event Dispatch Helper
+ *
+ * Shared by the use cases whose aggregates record domain events.
+ * Events are only dispatched once the unit of work has committed, and
+ * only those recorded by the attempt that committed (a retried attempt
+ * discards the events of the attempt that conflicted).
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { IDomainEventDispatcher } from '../../domain/events/IDomainEventDispatcher';
+import { LibraryEvent } from '../../domain/events/LibraryEvent';
+import { AggregateRoot } from '../../domain/entities/AggregateRoot';
+import { Result } from '../../domain/errors/Result';
+import { runWithConflictRetry } from './runWithConflictRetry';
+
+/**
+ * Pulls the pending events of saved aggregates for dispatch after commit
+ */
+export type EventCollector = (...aggregates: AggregateRoot[]) => void;
+
+/**
+ * Run work with conflict retry (see runWithConflictRetry), then dispatch
+ * the events collected from the aggregates it saved
+ */
+export async function runAndDispatchEvents<T>(
+  unitOfWork: IUnitOfWork,
+  dispatcher: IDomainEventDispatcher,
+  work: (repositories: TransactionalRepositories, collect: EventCollector) => Promise<Result<T>>
+): Promise<Result<T>> {
+  let events: LibraryEvent[] = [];
+
+  const result = await runWithConflictRetry(unitOfWork, (repositories) => {
+    events = [];
+    return work(repositories, (...aggregates) => {
+      for (const aggregate of aggregates) {
+        events.push(...aggregate.pullDomainEvents());
+      }
+    });
+  });
+
+  if (result.ok) {
+    await dispatcher.dispatch(events);
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+/**
+ * Conflict Retry Helper
+ *
+ * Shared by the use cases that change aggregates under optimistic
+ * concurrency control.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { DomainError } from '../../domain/errors/DomainError';
+import { Result, err } from '../../domain/errors/Result';
+
+/**
+ * Number of attempts before a concurrency conflict is reported to the caller
+ */
+const MAX_CONFLICT_ATTEMPTS = 3;
+
+/**
+ * Thrown out of a unit of work to roll back the writes of work that failed
+ */
+class RolledBack extends Error {
+  constructor(readonly error: DomainError) {
+    super(error.message);
+  }
+}
+
+/**
+ * Run work in a unit of work, retrying on optimistic concurrency conflicts
+ *
+ * Each attempt starts a fresh unit of work, so entities are reloaded
+ * with their latest version. After MAX_CONFLICT_ATTEMPTS the conflict
+ * is returned as a failed Result instead of being thrown. Any other
+ * DomainError thrown by the work (a broken entity invariant) rolls the
+ * unit of work back and is returned as a failed Result as well, and so
+ * does a failed Result returned by the work: nothing it wrote before
+ * failing is committed.
+ */
+export async function runWithConflictRetry<T>(
+  unitOfWork: IUnitOfWork,
+  work: (repositories: TransactionalRepositories) => Promise<Result<T>>
+): Promise<Result<T>> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await unitOfWork.run(async (repositories) => {
+        const result = await work(repositories);
+        if (!result.ok) {
+          throw new RolledBack(result.error);
+        }
+        return result;
+      });
+    } catch (error) {
+      if (error instanceof RolledBack) {
+        return err(error.error);
+      }
+      if (error instanceof ConcurrencyConflictError && attempt < MAX_CONFLICT_ATTEMPTS) {
+        continue;
+      }
+      if (error instanceof DomainError) {
+        return err(error);
+      }
+      throw error;
+    }
+  }
+}
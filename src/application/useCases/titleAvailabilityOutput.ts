@@ -0,0 +1,39 @@
+/**
+ * Title Availability Output DTO
+ *
+ * Shared representation of how many copies of a catalog title are on the
+ * shelf (e.g. "2 of 3 available"), used by the availability report and
+ * by catalog search results.
+ *
+ * Only AVAILABLE copies count as available: BORROWED copies are out and
+ * RESERVED copies are held for a specific patron.
+ */
+
+import { Title } from '../../domain/entities/Title';
+import { Book } from '../../domain/entities/Book';
+
+export interface TitleAvailabilityOutput {
+  isbn: string;
+  title: string;
+  author: string;
+  totalCopies: number;
+  availableCopies: number;
+  summary: string; // e.g. "2 of 3 available"
+}
+
+/**
+ * Count the copies of a title
+ * @param copies - Every copy of the title
+ */
+export function toTitleAvailabilityOutput(title: Title, copies: Book[]): TitleAvailabilityOutput {
+  const availableCopies = copies.filter((copy) => copy.isAvailable()).length;
+
+  return {
+    isbn: title.isbn.getValue(),
+    title: title.title,
+    author: title.author,
+    totalCopies: copies.length,
+    availableCopies,
+    summary: `${availableCopies} of ${copies.length} available`,
+  };
+}
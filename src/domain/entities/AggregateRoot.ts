@@ -0,0 +1,53 @@
+/**
+ * Aggregate Root
+ *
+ * Base class of the aggregates that record domain events.
+ *
+ * Aggregates are immutable: a state transition returns a new instance,
+ * which receives the events of the transition plus any events recorded
+ * by earlier transitions that were not pulled yet. The use case pulls
+ * the events of the instance it saved and dispatches them.
+ */
+
+import { LibraryEvent } from '../events/LibraryEvent';
+
+export abstract class AggregateRoot {
+  private pendingEvents: LibraryEvent[] = [];
+
+  /**
+   * Events recorded since the aggregate was created or loaded
+   */
+  get domainEvents(): readonly LibraryEvent[] {
+    return this.pendingEvents;
+  }
+
+  /**
+   * Take the recorded events, leaving none behind
+   * (so they are dispatched only once)
+   */
+  pullDomainEvents(): LibraryEvent[] {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
+  }
+
+  /**
+   * Hand this instance's pending events, plus the events of the current
+   * transition, over to the instance the transition produced
+   * @param next - New instance returned by the transition
+   * @param events - Events recorded by the transition
+   */
+  protected carryEvents<T extends AggregateRoot>(next: T, ...events: LibraryEvent[]): T {
+    next.pendingEvents = [...this.pendingEvents, ...events];
+    return next;
+  }
+
+  /**
+   * Record events on a newly created aggregate
+   * @param events - Events recorded by the creation
+   */
+  protected recordEvents(...events: LibraryEvent[]): this {
+    this.pendingEvents.push(...events);
+    return this;
+  }
+}
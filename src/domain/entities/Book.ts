@@ -1,19 +1,40 @@
 /**
  * Book Entity - Enhanced for Lesson 3
  *
- * Represents a book in the library management system with borrowing capabilities.
+ * Represents one physical copy of a book in the library management system
+ * with borrowing capabilities. Bibliographic data (title, author) lives in
+ * the Title catalog record the copy references by ISBN, so a library can
+ * stock several copies of the same title.
  * Demonstrates multi-entity operations and time-based business rules.
  *
  * Key Features for Lesson 3:
+ * - Individually barcoded copies of a Title
  * - Borrower tracking (UserId)
  * - Borrow/return timestamps
- * - Overdue calculation (14-day limit)
+ * - Explicit due date per loan (loan period from the LendingPolicy), with limited renewals
+ * - Overdue calculation against the due date
+ * - Reservation for a specific patron (head of the hold queue)
  * - Immutable state changes (Lesson 2 pattern)
+ * - Time supplied by an injected Clock (deterministic, replayable)
+ * - Version for optimistic concurrency control
+ * - Domain events for every transition, so a book can be rebuilt from its history
  */
 
+import { Title } from './Title';
 import { ISBN } from '../valueObjects/ISBN';
+import { Barcode } from '../valueObjects/Barcode';
 import { UserId } from '../valueObjects/UserId';
+import { Clock } from '../services/Clock';
 import { v4 as uuidv4 } from 'uuid';
+import { ValidationError, InvalidStateError } from '../errors/CommonErrors';
+import {
+  BookReservedError,
+  BookUnavailableError,
+  RenewalLimitReachedError,
+} from '../errors/BookErrors';
+import { AggregateRoot } from './AggregateRoot';
+import { eventHeader, DomainEventType } from '../events/DomainEvent';
+import { BookEvent } from '../events/BookEvents';
 
 export enum BookStatus {
   AVAILABLE = 'AVAILABLE',
@@ -21,169 +42,487 @@ export enum BookStatus {
   RESERVED = 'RESERVED',
 }
 
-export class Book {
-  // Business constant: 14-day borrowing period
+export class Book extends AggregateRoot {
+  // Loan period assumed for loans stored before due dates existed
+  // (new loans take theirs from the borrower's LendingPolicy)
   static readonly BORROW_PERIOD_DAYS = 14;
 
+  // Business constant: a loan can be renewed at most twice
+  static readonly MAX_RENEWALS = 2;
+
+  private static readonly MS_PER_DAY = 1000 * 60 * 60 * 24;
+
   private constructor(
     private readonly _id: string,
     private readonly _isbn: ISBN,
-    private readonly _title: string,
-    private readonly _author: string,
+    private readonly _barcode: Barcode,
     private readonly _status: BookStatus,
     private readonly _borrowedBy: UserId | null,
     private readonly _borrowedAt: Date | null,
+    private readonly _dueDate: Date | null,
+    private readonly _renewalCount: number,
+    private readonly _reservedFor: UserId | null,
     private readonly _createdAt: Date,
-    private readonly _updatedAt: Date
-  ) {}
-
-  static create(isbn: string, title: string, author: string): Book {
-    if (!title || !title.trim()) {
-      throw new Error('Title cannot be empty');
-    }
-    if (!author || !author.trim()) {
-      throw new Error('Author cannot be empty');
-    }
+    private readonly _updatedAt: Date,
+    private readonly _version: number
+  ) {
+    super();
+  }
 
-    const isbnVO = new ISBN(isbn);
-    const now = new Date();
+  /**
+   * Factory method to add a new copy of a cataloged Title
+   * @param title - Catalog record this is a copy of
+   * @param barcode - Barcode on the copy's label
+   * @param clock - Source of the creation timestamp
+   */
+  static create(title: Title, barcode: string, clock: Clock): Book {
+    const now = clock.now();
 
-    return new Book(
+    const book = new Book(
       uuidv4(),
-      isbnVO,
-      title.trim(),
-      author.trim(),
+      title.isbn,
+      Barcode.create(barcode),
       BookStatus.AVAILABLE,
       null,
       null,
+      null,
+      0,
+      null,
+      now,
       now,
-      now
+      0 // Not yet persisted
     );
+
+    return book.recordEvents({
+      ...eventHeader(DomainEventType.BOOK_REGISTERED, book.id, now),
+      bookId: book.id,
+      isbn: book.isbn.getValue(),
+      barcode: book.barcode.getValue(),
+    });
   }
 
   static reconstruct(
     id: string,
     isbn: ISBN,
-    title: string,
-    author: string,
+    barcode: Barcode,
     status: BookStatus,
     borrowedBy: UserId | null,
     borrowedAt: Date | null,
+    dueDate: Date | null,
+    renewalCount: number,
+    reservedFor: UserId | null,
     createdAt: Date,
-    updatedAt: Date
+    updatedAt: Date,
+    version: number
   ): Book {
-    return new Book(id, isbn, title, author, status, borrowedBy, borrowedAt, createdAt, updatedAt);
+    return new Book(
+      id,
+      isbn,
+      barcode,
+      status,
+      borrowedBy,
+      borrowedAt,
+      dueDate,
+      renewalCount,
+      reservedFor,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  /**
+   * Rebuild a book by replaying its events (event sourcing)
+   *
+   * Domain Logic Flow:
+   * 1. Start from the snapshot, or from nothing
+   * 2. Apply each event in order, as the transition that recorded it did
+   * 3. The version is the number of events applied, snapshot included
+   *
+   * @param history - Events in recorded order; must start with
+   *   BookRegistered unless a snapshot is given
+   * @param snapshot - State after the events preceding the history
+   * @returns The book, with no pending events
+   */
+  static fromHistory(history: readonly BookEvent[], snapshot: Book | null = null): Book {
+    const book = history.reduce<Book | null>(
+      (current, event) => Book.applyEvent(current, event),
+      snapshot
+    );
+    if (!book) {
+      throw new ValidationError('history', 'Book history is empty');
+    }
+    return book;
+  }
+
+  /**
+   * State after one event of the history
+   * @private
+   */
+  private static applyEvent(book: Book | null, event: BookEvent): Book {
+    if (event.type === DomainEventType.BOOK_REGISTERED) {
+      if (book) {
+        throw new ValidationError('history', `Book ${event.bookId} is registered twice`);
+      }
+      return new Book(
+        event.bookId,
+        new ISBN(event.isbn),
+        Barcode.create(event.barcode),
+        BookStatus.AVAILABLE,
+        null,
+        null,
+        null,
+        0,
+        null,
+        event.occurredAt,
+        event.occurredAt,
+        1
+      );
+    }
+
+    if (!book) {
+      throw new ValidationError(
+        'history',
+        `Book history must start with ${DomainEventType.BOOK_REGISTERED}`
+      );
+    }
+
+    switch (event.type) {
+      case DomainEventType.BOOK_BORROWED:
+        return book.replayed(event, {
+          status: BookStatus.BORROWED,
+          borrowedBy: UserId.create(event.userId),
+          borrowedAt: event.occurredAt,
+          dueDate: event.dueDate,
+          renewalCount: 0,
+          reservedFor: null,
+        });
+      case DomainEventType.BOOK_RETURNED:
+        return book.replayed(event, {
+          status: BookStatus.AVAILABLE,
+          borrowedBy: null,
+          borrowedAt: null,
+          dueDate: null,
+          renewalCount: 0,
+          reservedFor: null,
+        });
+      case DomainEventType.BOOK_RENEWED:
+        return book.replayed(event, {
+          dueDate: event.dueDate,
+          renewalCount: book._renewalCount + 1,
+        });
+      case DomainEventType.BOOK_RESERVED:
+        return book.replayed(event, {
+          status: BookStatus.RESERVED,
+          reservedFor: UserId.create(event.userId),
+        });
+      case DomainEventType.BOOK_RESERVATION_CANCELLED:
+        return book.replayed(event, {
+          status: BookStatus.AVAILABLE,
+          reservedFor: null,
+        });
+    }
+  }
+
+  /**
+   * Due date back-filled for loans stored before due dates existed
+   */
+  static defaultDueDate(borrowedAt: Date): Date {
+    return Book.addDays(borrowedAt, Book.BORROW_PERIOD_DAYS);
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * Book.MS_PER_DAY);
   }
 
   get id(): string { return this._id; }
   get isbn(): ISBN { return this._isbn; }
-  get title(): string { return this._title; }
-  get author(): string { return this._author; }
+  get barcode(): Barcode { return this._barcode; }
   get status(): BookStatus { return this._status; }
   get borrowedBy(): UserId | null { return this._borrowedBy; }
   get borrowedAt(): Date | null { return this._borrowedAt; }
+  get dueDate(): Date | null { return this._dueDate; }
+  get renewalCount(): number { return this._renewalCount; }
+  get reservedFor(): UserId | null { return this._reservedFor; }
   get createdAt(): Date { return this._createdAt; }
   get updatedAt(): Date { return this._updatedAt; }
+  // Optimistic concurrency version as loaded from storage (0 = never persisted)
+  get version(): number { return this._version; }
 
   isAvailable(): boolean {
     return this._status === BookStatus.AVAILABLE;
   }
 
-  borrow(userId: UserId): Book {
-    if (!this.isAvailable()) {
-      throw new Error(`Book is not available for borrowing (current status: ${this._status})`);
+  /**
+   * Check if a specific patron may borrow this book
+   * A RESERVED book can only be borrowed by the patron it is reserved for
+   */
+  isAvailableFor(userId: UserId): boolean {
+    if (this._status === BookStatus.RESERVED) {
+      return this._reservedFor !== null && this._reservedFor.equals(userId);
     }
+    return this.isAvailable();
+  }
 
-    return new Book(
-      this._id,
-      this._isbn,
-      this._title,
-      this._author,
-      BookStatus.BORROWED,
-      userId,
-      new Date(),
-      this._createdAt,
-      new Date()
+  /**
+   * Explain why isAvailableFor() fails
+   * @returns BookReservedError if held for another patron,
+   *   BookUnavailableError if not on the shelf, null if the patron may borrow it
+   */
+  unavailabilityFor(userId: UserId): BookReservedError | BookUnavailableError | null {
+    if (this.isAvailableFor(userId)) {
+      return null;
+    }
+    return this._status === BookStatus.RESERVED
+      ? new BookReservedError(this._id)
+      : new BookUnavailableError(this._id, this._status);
+  }
+
+  /**
+   * Lend the book to a patron
+   * @param userId - Borrower
+   * @param loanPeriodDays - Loan period of the borrower's LendingPolicy
+   */
+  borrow(userId: UserId, loanPeriodDays: number, clock: Clock): Book {
+    const unavailable = this.unavailabilityFor(userId);
+    if (unavailable) {
+      throw unavailable;
+    }
+
+    if (loanPeriodDays <= 0) {
+      throw new ValidationError('loanPeriodDays', 'Loan period must be positive');
+    }
+
+    const now = clock.now();
+    const dueDate = Book.addDays(now, loanPeriodDays);
+
+    return this.carryEvents(
+      new Book(
+        this._id,
+        this._isbn,
+        this._barcode,
+        BookStatus.BORROWED,
+        userId,
+        now,
+        dueDate,
+        0,
+        null,
+        this._createdAt,
+        now,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.BOOK_BORROWED, this._id, now),
+        bookId: this._id,
+        userId: userId.getValue(),
+        dueDate,
+      }
     );
   }
 
-  returnBook(): Book {
-    if (this._status !== BookStatus.BORROWED) {
-      throw new Error('Book is not currently borrowed');
+  returnBook(clock: Clock): Book {
+    if (this._status !== BookStatus.BORROWED || !this._borrowedBy) {
+      throw this.statusError('return', 'Book is not currently borrowed');
     }
 
-    return new Book(
-      this._id,
-      this._isbn,
-      this._title,
-      this._author,
-      BookStatus.AVAILABLE,
-      null,
-      null,
-      this._createdAt,
-      new Date()
+    const now = clock.now();
+
+    return this.carryEvents(
+      new Book(
+        this._id,
+        this._isbn,
+        this._barcode,
+        BookStatus.AVAILABLE,
+        null,
+        null,
+        null,
+        0,
+        null,
+        this._createdAt,
+        now,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.BOOK_RETURNED, this._id, now),
+        bookId: this._id,
+        userId: this._borrowedBy.getValue(),
+        overdueDays: this.getOverdueDays(clock),
+      }
     );
   }
 
-  isOverdue(): boolean {
-    if (this._status !== BookStatus.BORROWED || !this._borrowedAt) {
-      return false;
+  /**
+   * Extend the current loan's due date
+   *
+   * Business Rules:
+   * - Book must be BORROWED
+   * - At most MAX_RENEWALS renewals per loan
+   *
+   * @param extensionDays - Days added to the current due date
+   */
+  renew(extensionDays: number, clock: Clock): Book {
+    if (this._status !== BookStatus.BORROWED || !this._dueDate) {
+      throw this.statusError('renew', 'Book is not currently borrowed');
+    }
+    if (extensionDays <= 0) {
+      throw new ValidationError('extensionDays', 'Renewal period must be positive');
+    }
+    if (this._renewalCount >= Book.MAX_RENEWALS) {
+      throw new RenewalLimitReachedError(this._id, Book.MAX_RENEWALS);
     }
 
-    const now = new Date();
-    const borrowedMs = this._borrowedAt.getTime();
-    const nowMs = now.getTime();
-    const daysDiff = (nowMs - borrowedMs) / (1000 * 60 * 60 * 24);
+    const now = clock.now();
+    const dueDate = Book.addDays(this._dueDate, extensionDays);
 
-    return daysDiff > Book.BORROW_PERIOD_DAYS;
+    return this.carryEvents(
+      new Book(
+        this._id,
+        this._isbn,
+        this._barcode,
+        this._status,
+        this._borrowedBy,
+        this._borrowedAt,
+        dueDate,
+        this._renewalCount + 1,
+        this._reservedFor,
+        this._createdAt,
+        now,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.BOOK_RENEWED, this._id, now),
+        bookId: this._id,
+        dueDate,
+      }
+    );
+  }
+
+  canRenew(): boolean {
+    return this._status === BookStatus.BORROWED && this._renewalCount < Book.MAX_RENEWALS;
   }
 
-  getOverdueDays(): number {
-    if (!this.isOverdue() || !this._borrowedAt) {
+  isOverdue(clock: Clock): boolean {
+    if (this._status !== BookStatus.BORROWED || !this._dueDate) {
+      return false;
+    }
+
+    return clock.now().getTime() > this._dueDate.getTime();
+  }
+
+  getOverdueDays(clock: Clock): number {
+    if (!this.isOverdue(clock) || !this._dueDate) {
       return 0;
     }
 
-    const now = new Date();
-    const borrowedMs = this._borrowedAt.getTime();
-    const nowMs = now.getTime();
-    const daysDiff = (nowMs - borrowedMs) / (1000 * 60 * 60 * 24);
+    const daysDiff = (clock.now().getTime() - this._dueDate.getTime()) / Book.MS_PER_DAY;
 
-    return Math.floor(daysDiff - Book.BORROW_PERIOD_DAYS);
+    return Math.floor(daysDiff);
   }
 
-  reserve(): Book {
+  /**
+   * Hold the book for a patron (the head of its hold queue)
+   * Only that patron may borrow it until the reservation is cancelled
+   */
+  reserve(userId: UserId, clock: Clock): Book {
     if (this._status !== BookStatus.AVAILABLE) {
-      throw new Error(`Book cannot be reserved (current status: ${this._status})`);
+      throw this.statusError(
+        'reserve',
+        `Book cannot be reserved (current status: ${this._status})`
+      );
     }
 
-    return new Book(
-      this._id,
-      this._isbn,
-      this._title,
-      this._author,
-      BookStatus.RESERVED,
-      this._borrowedBy,
-      this._borrowedAt,
-      this._createdAt,
-      new Date()
+    const now = clock.now();
+
+    return this.carryEvents(
+      new Book(
+        this._id,
+        this._isbn,
+        this._barcode,
+        BookStatus.RESERVED,
+        this._borrowedBy,
+        this._borrowedAt,
+        this._dueDate,
+        this._renewalCount,
+        userId,
+        this._createdAt,
+        now,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.BOOK_RESERVED, this._id, now),
+        bookId: this._id,
+        userId: userId.getValue(),
+      }
     );
   }
 
-  cancelReservation(): Book {
-    if (this._status !== BookStatus.RESERVED) {
-      throw new Error('Book is not currently reserved');
+  cancelReservation(clock: Clock): Book {
+    if (this._status !== BookStatus.RESERVED || !this._reservedFor) {
+      throw this.statusError('cancelReservation', 'Book is not currently reserved');
     }
 
+    const now = clock.now();
+
+    return this.carryEvents(
+      new Book(
+        this._id,
+        this._isbn,
+        this._barcode,
+        BookStatus.AVAILABLE,
+        this._borrowedBy,
+        this._borrowedAt,
+        this._dueDate,
+        this._renewalCount,
+        null,
+        this._createdAt,
+        now,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.BOOK_RESERVATION_CANCELLED, this._id, now),
+        bookId: this._id,
+        userId: this._reservedFor.getValue(),
+      }
+    );
+  }
+
+  /**
+   * Copy with the loan fields an event changed, stamped with the
+   * event's time and the next version
+   * @private
+   */
+  private replayed(
+    event: BookEvent,
+    changes: {
+      status?: BookStatus;
+      borrowedBy?: UserId | null;
+      borrowedAt?: Date | null;
+      dueDate?: Date | null;
+      renewalCount?: number;
+      reservedFor?: UserId | null;
+    }
+  ): Book {
     return new Book(
       this._id,
       this._isbn,
-      this._title,
-      this._author,
-      BookStatus.AVAILABLE,
-      this._borrowedBy,
-      this._borrowedAt,
+      this._barcode,
+      changes.status ?? this._status,
+      changes.borrowedBy !== undefined ? changes.borrowedBy : this._borrowedBy,
+      changes.borrowedAt !== undefined ? changes.borrowedAt : this._borrowedAt,
+      changes.dueDate !== undefined ? changes.dueDate : this._dueDate,
+      changes.renewalCount ?? this._renewalCount,
+      changes.reservedFor !== undefined ? changes.reservedFor : this._reservedFor,
       this._createdAt,
-      new Date()
+      event.occurredAt,
+      this._version + 1
     );
   }
+
+  /**
+   * Error for an operation the current status does not allow
+   * @private
+   */
+  private statusError(operation: string, message: string): InvalidStateError {
+    return new InvalidStateError('Book', this._id, this._status, operation, message);
+  }
 }
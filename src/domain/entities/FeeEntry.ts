@@ -0,0 +1,156 @@
+/**
+ * Fee Entry Entity
+ *
+ * One immutable line of a user's fee ledger. Entries are only ever
+ * appended, never updated or deleted, so the ledger is a complete audit
+ * trail of why a balance is what it is.
+ *
+ * Entry types and their effect on the balance:
+ * - CHARGE:     + amount (e.g. overdue fee on return)
+ * - PAYMENT:    - amount (money received)
+ * - WAIVER:     - amount (fee forgiven by staff)
+ * - ADJUSTMENT: ± amount (correction; may be negative)
+ */
+
+import { UserId } from '../valueObjects/UserId';
+import { Money } from '../valueObjects/Money';
+import { Clock } from '../services/Clock';
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationError } from '../errors/CommonErrors';
+
+export enum FeeEntryType {
+  CHARGE = 'CHARGE',
+  PAYMENT = 'PAYMENT',
+  WAIVER = 'WAIVER',
+  ADJUSTMENT = 'ADJUSTMENT',
+}
+
+/**
+ * Who recorded an entry, why, and what it relates to
+ */
+export interface FeeEntryDetails {
+  reason: string;
+  actor: string; // Staff member (or SYSTEM_ACTOR) recording the entry
+  loanId?: string;
+  bookId?: string;
+}
+
+export class FeeEntry {
+  // Actor recorded for entries made by the system itself (e.g. overdue charges)
+  static readonly SYSTEM_ACTOR = 'SYSTEM';
+
+  private constructor(
+    private readonly _id: string,
+    private readonly _userId: UserId,
+    private readonly _type: FeeEntryType,
+    private readonly _amount: Money,
+    private readonly _reason: string,
+    private readonly _actor: string,
+    private readonly _loanId: string | null,
+    private readonly _bookId: string | null,
+    private readonly _recordedAt: Date
+  ) {
+    // Invariant validation
+    if (_type === FeeEntryType.ADJUSTMENT ? _amount.isZero() : !_amount.isPositive()) {
+      throw new ValidationError(
+        'amount',
+        _type === FeeEntryType.ADJUSTMENT
+          ? 'Adjustment amount cannot be zero'
+          : `${_type} amount must be positive`
+      );
+    }
+    if (!_reason || !_reason.trim()) {
+      throw new ValidationError('reason', 'Fee entry reason cannot be empty');
+    }
+    if (!_actor || !_actor.trim()) {
+      throw new ValidationError('actor', 'Fee entry actor cannot be empty');
+    }
+  }
+
+  static charge(userId: UserId, amount: Money, details: FeeEntryDetails, clock: Clock): FeeEntry {
+    return FeeEntry.record(FeeEntryType.CHARGE, userId, amount, details, clock);
+  }
+
+  static payment(userId: UserId, amount: Money, details: FeeEntryDetails, clock: Clock): FeeEntry {
+    return FeeEntry.record(FeeEntryType.PAYMENT, userId, amount, details, clock);
+  }
+
+  static waiver(userId: UserId, amount: Money, details: FeeEntryDetails, clock: Clock): FeeEntry {
+    return FeeEntry.record(FeeEntryType.WAIVER, userId, amount, details, clock);
+  }
+
+  /**
+   * @param amount - Signed correction (positive raises the balance)
+   */
+  static adjustment(
+    userId: UserId,
+    amount: Money,
+    details: FeeEntryDetails,
+    clock: Clock
+  ): FeeEntry {
+    return FeeEntry.record(FeeEntryType.ADJUSTMENT, userId, amount, details, clock);
+  }
+
+  /**
+   * Factory method to reconstruct FeeEntry from database
+   * Used by repository implementations
+   */
+  static reconstruct(
+    id: string,
+    userId: UserId,
+    type: FeeEntryType,
+    amount: Money,
+    reason: string,
+    actor: string,
+    loanId: string | null,
+    bookId: string | null,
+    recordedAt: Date
+  ): FeeEntry {
+    return new FeeEntry(id, userId, type, amount, reason, actor, loanId, bookId, recordedAt);
+  }
+
+  private static record(
+    type: FeeEntryType,
+    userId: UserId,
+    amount: Money,
+    details: FeeEntryDetails,
+    clock: Clock
+  ): FeeEntry {
+    return new FeeEntry(
+      uuidv4(),
+      userId,
+      type,
+      amount,
+      details.reason?.trim(),
+      details.actor?.trim(),
+      details.loanId ?? null,
+      details.bookId ?? null,
+      clock.now()
+    );
+  }
+
+  get id(): string { return this._id; }
+  get userId(): UserId { return this._userId; }
+  get type(): FeeEntryType { return this._type; }
+  get amount(): Money { return this._amount; }
+  get reason(): string { return this._reason; }
+  get actor(): string { return this._actor; }
+  get loanId(): string | null { return this._loanId; }
+  get bookId(): string | null { return this._bookId; }
+  get recordedAt(): Date { return this._recordedAt; }
+
+  /**
+   * Effect of this entry on the balance
+   */
+  get signedAmount(): Money {
+    switch (this._type) {
+      case FeeEntryType.CHARGE:
+        return this._amount;
+      case FeeEntryType.PAYMENT:
+      case FeeEntryType.WAIVER:
+        return this._amount.negate();
+      case FeeEntryType.ADJUSTMENT:
+        return this._amount;
+    }
+  }
+}
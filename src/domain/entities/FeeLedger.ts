@@ -0,0 +1,87 @@
+/**
+ * Fee Ledger
+ *
+ * All fee entries of one user, oldest first. The user's balance is
+ * derived from the ledger (sum of signed entry amounts) rather than
+ * being stored on its own.
+ *
+ * Business Rules:
+ * - Entries are append-only
+ * - Payments and waivers cannot exceed the outstanding balance
+ * - The balance can never become negative
+ */
+
+import { FeeEntry } from './FeeEntry';
+import { UserId } from '../valueObjects/UserId';
+import { Money } from '../valueObjects/Money';
+import { ValidationError } from '../errors/CommonErrors';
+import { AmountExceedsBalanceError } from '../errors/FeeErrors';
+
+export class FeeLedger {
+  private constructor(
+    private readonly _userId: UserId,
+    private readonly _entries: readonly FeeEntry[],
+    private readonly _currency: string
+  ) {}
+
+  /**
+   * Build the ledger of a user from stored entries
+   * @param userId - Owner of the ledger
+   * @param entries - Entries in the order they were recorded (the balance
+   *   is in the currency of the first one, DEFAULT_CURRENCY if there are none)
+   */
+  static of(userId: UserId, entries: FeeEntry[]): FeeLedger {
+    if (entries.some((entry) => !entry.userId.equals(userId))) {
+      throw new ValidationError('userId', 'Fee entry belongs to another user');
+    }
+    return new FeeLedger(
+      userId,
+      [...entries],
+      entries[0]?.amount.getCurrency() ?? Money.DEFAULT_CURRENCY
+    );
+  }
+
+  get userId(): UserId { return this._userId; }
+  get entries(): readonly FeeEntry[] { return this._entries; }
+
+  /**
+   * Outstanding balance: sum of all signed entry amounts
+   */
+  get balance(): Money {
+    const zero = Money.zero(this._currency);
+    return this._entries.reduce((sum, entry) => sum.add(entry.signedAmount), zero);
+  }
+
+  /**
+   * The same entries with the balance kept in a currency (that of the
+   * owner's fee balance), so an empty ledger starts at zero in it
+   */
+  inCurrency(currency: string): FeeLedger {
+    return new FeeLedger(this._userId, this._entries, currency);
+  }
+
+  isEmpty(): boolean {
+    return this._entries.length === 0;
+  }
+
+  /**
+   * Append an entry to the ledger
+   * Returns a NEW FeeLedger instance (immutability pattern)
+   *
+   * @throws ValidationError if the entry belongs to another user
+   * @throws AmountExceedsBalanceError if the entry would make the balance
+   *   negative (overpayment, over-waiver)
+   */
+  record(entry: FeeEntry): FeeLedger {
+    if (!entry.userId.equals(this._userId)) {
+      throw new ValidationError('userId', 'Fee entry belongs to another user');
+    }
+
+    const balance = this.balance;
+    if (balance.add(entry.signedAmount).isNegative()) {
+      throw new AmountExceedsBalanceError(entry.type, entry.amount.abs(), balance);
+    }
+
+    return new FeeLedger(this._userId, [...this._entries, entry], this._currency);
+  }
+}
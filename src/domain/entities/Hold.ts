@@ -0,0 +1,176 @@
+/**
+ * Hold Entity
+ *
+ * A patron's place in the queue for a book (a reservation request).
+ * Holds on the same book are served in FIFO order of placedAt.
+ *
+ * Lifecycle:
+ *   WAITING ──markReady──▶ READY ──fulfill──▶ FULFILLED
+ *      │                     │
+ *      └──cancel──┐   ┌──────┴──expire──▶ EXPIRED
+ *                 ▼   ▼
+ *               CANCELLED
+ *
+ * READY means the book is RESERVED for this patron and must be
+ * picked up before expiresAt.
+ */
+
+import { UserId } from '../valueObjects/UserId';
+import { Clock } from '../services/Clock';
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationError, InvalidStateError } from '../errors/CommonErrors';
+
+export enum HoldStatus {
+  WAITING = 'WAITING',
+  READY = 'READY',
+  FULFILLED = 'FULFILLED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
+
+export class Hold {
+  // Business constant: 7 days to pick up a reserved book
+  static readonly PICKUP_WINDOW_DAYS = 7;
+
+  private constructor(
+    private readonly _id: string,
+    private readonly _bookId: string,
+    private readonly _userId: UserId,
+    private readonly _status: HoldStatus,
+    private readonly _placedAt: Date,
+    private readonly _readyAt: Date | null,
+    private readonly _expiresAt: Date | null,
+    private readonly _version: number
+  ) {}
+
+  static create(bookId: string, userId: UserId, clock: Clock): Hold {
+    if (!bookId || !bookId.trim()) {
+      throw new ValidationError('bookId', 'Book ID cannot be empty');
+    }
+
+    return new Hold(
+      uuidv4(),
+      bookId,
+      userId,
+      HoldStatus.WAITING,
+      clock.now(),
+      null,
+      null,
+      0 // Not yet persisted
+    );
+  }
+
+  static reconstruct(
+    id: string,
+    bookId: string,
+    userId: UserId,
+    status: HoldStatus,
+    placedAt: Date,
+    readyAt: Date | null,
+    expiresAt: Date | null,
+    version: number
+  ): Hold {
+    return new Hold(id, bookId, userId, status, placedAt, readyAt, expiresAt, version);
+  }
+
+  get id(): string { return this._id; }
+  get bookId(): string { return this._bookId; }
+  get userId(): UserId { return this._userId; }
+  get status(): HoldStatus { return this._status; }
+  get placedAt(): Date { return this._placedAt; }
+  get readyAt(): Date | null { return this._readyAt; }
+  get expiresAt(): Date | null { return this._expiresAt; }
+  // Optimistic concurrency version as loaded from storage (0 = never persisted)
+  get version(): number { return this._version; }
+
+  /**
+   * Active holds are still in the queue (waiting or ready for pickup)
+   */
+  isActive(): boolean {
+    return this._status === HoldStatus.WAITING || this._status === HoldStatus.READY;
+  }
+
+  /**
+   * Check if a READY hold has passed its pickup deadline
+   */
+  isPickupExpired(clock: Clock): boolean {
+    if (this._status !== HoldStatus.READY || !this._expiresAt) {
+      return false;
+    }
+    return clock.now().getTime() > this._expiresAt.getTime();
+  }
+
+  /**
+   * Head of the queue: the book is now reserved for this patron
+   */
+  markReady(clock: Clock): Hold {
+    if (this._status !== HoldStatus.WAITING) {
+      throw this.transitionError('markReady', 'made ready');
+    }
+
+    const now = clock.now();
+    const expiresAt = new Date(now.getTime() + Hold.PICKUP_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    return this.withStatus(HoldStatus.READY, now, expiresAt);
+  }
+
+  /**
+   * The patron picked up (borrowed) the reserved book
+   */
+  fulfill(): Hold {
+    if (this._status !== HoldStatus.READY) {
+      throw this.transitionError('fulfill', 'fulfilled');
+    }
+    return this.withStatus(HoldStatus.FULFILLED, this._readyAt, this._expiresAt);
+  }
+
+  cancel(): Hold {
+    if (!this.isActive()) {
+      throw this.transitionError('cancel', 'cancelled');
+    }
+    return this.withStatus(HoldStatus.CANCELLED, this._readyAt, this._expiresAt);
+  }
+
+  /**
+   * The patron did not pick up the book in time
+   */
+  expire(clock: Clock): Hold {
+    if (!this.isPickupExpired(clock)) {
+      throw new InvalidStateError(
+        'Hold',
+        this._id,
+        this._status,
+        'expire',
+        'Hold pickup window has not expired'
+      );
+    }
+    return this.withStatus(HoldStatus.EXPIRED, this._readyAt, this._expiresAt);
+  }
+
+  /**
+   * Error for a status transition the current status does not allow
+   * @private
+   */
+  private transitionError(operation: string, transition: string): InvalidStateError {
+    return new InvalidStateError(
+      'Hold',
+      this._id,
+      this._status,
+      operation,
+      `Hold cannot be ${transition} (current status: ${this._status})`
+    );
+  }
+
+  private withStatus(status: HoldStatus, readyAt: Date | null, expiresAt: Date | null): Hold {
+    return new Hold(
+      this._id,
+      this._bookId,
+      this._userId,
+      status,
+      this._placedAt,
+      readyAt,
+      expiresAt,
+      this._version
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Loan Entity
+ *
+ * Permanent record of one lending of a book to a user.
+ * Opened when a book is borrowed and closed (never deleted) when it is
+ * returned, so the lending history survives Book.returnBook() clearing
+ * borrowedBy/borrowedAt.
+ */
+
+import { UserId } from '../valueObjects/UserId';
+import { Money } from '../valueObjects/Money';
+import { Clock } from '../services/Clock';
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationError, InvalidStateError } from '../errors/CommonErrors';
+import { AggregateRoot } from './AggregateRoot';
+import { eventHeader, DomainEventType } from '../events/DomainEvent';
+import { OverdueFeeCharged } from '../events/LoanEvents';
+
+export class Loan extends AggregateRoot {
+  private constructor(
+    private readonly _id: string,
+    private readonly _bookId: string,
+    private readonly _userId: UserId,
+    private readonly _borrowedAt: Date,
+    private readonly _dueDate: Date,
+    private readonly _returnedAt: Date | null,
+    private readonly _feeCharged: Money,
+    private readonly _version: number
+  ) {
+    super();
+
+    // Invariant validation
+    if (_dueDate.getTime() < _borrowedAt.getTime()) {
+      throw new ValidationError('dueDate', 'Due date cannot be before borrow date');
+    }
+    if (_feeCharged.isNegative()) {
+      throw new ValidationError('feeCharged', 'Fee charged cannot be negative');
+    }
+  }
+
+  /**
+   * Factory method to open a new Loan
+   * @param bookId - Book being lent
+   * @param userId - Borrower
+   * @param borrowedAt - Start of the loan
+   * @param dueDate - Date the book must be returned by
+   * @param currency - Currency overdue fees are charged in
+   */
+  static open(
+    bookId: string,
+    userId: UserId,
+    borrowedAt: Date,
+    dueDate: Date,
+    currency: string = Money.DEFAULT_CURRENCY
+  ): Loan {
+    return new Loan(uuidv4(), bookId, userId, borrowedAt, dueDate, null, Money.zero(currency), 0);
+  }
+
+  /**
+   * Factory method to reconstruct Loan from database
+   * Used by repository implementations
+   */
+  static reconstruct(
+    id: string,
+    bookId: string,
+    userId: UserId,
+    borrowedAt: Date,
+    dueDate: Date,
+    returnedAt: Date | null,
+    feeCharged: Money,
+    version: number
+  ): Loan {
+    return new Loan(id, bookId, userId, borrowedAt, dueDate, returnedAt, feeCharged, version);
+  }
+
+  get id(): string { return this._id; }
+  get bookId(): string { return this._bookId; }
+  get userId(): UserId { return this._userId; }
+  get borrowedAt(): Date { return this._borrowedAt; }
+  get dueDate(): Date { return this._dueDate; }
+  get returnedAt(): Date | null { return this._returnedAt; }
+  get feeCharged(): Money { return this._feeCharged; } // Overdue fee charged so far
+  // Optimistic concurrency version as loaded from storage (0 = never persisted)
+  get version(): number { return this._version; }
+
+  isOpen(): boolean {
+    return this._returnedAt === null;
+  }
+
+  /**
+   * Move the due date of an open loan (renewal)
+   */
+  extendTo(dueDate: Date): Loan {
+    if (!this.isOpen()) {
+      throw this.closedError('extend');
+    }
+
+    return this.carryEvents(
+      new Loan(
+        this._id,
+        this._bookId,
+        this._userId,
+        this._borrowedAt,
+        dueDate,
+        null,
+        this._feeCharged,
+        this._version
+      )
+    );
+  }
+
+  /**
+   * Part of an overdue fee not charged yet (fees already charged are never refunded)
+   * @param totalFee - Overdue fee for the whole loan so far
+   */
+  unchargedFee(totalFee: Money): Money {
+    if (this._feeCharged.isZero()) {
+      return totalFee;
+    }
+    const rest = totalFee.subtract(this._feeCharged);
+    return rest.isPositive() ? rest : Money.zero(totalFee.getCurrency());
+  }
+
+  /**
+   * Charge the overdue fee accrued so far while the book is still out
+   * (overdue sweep). Accruing the same total again changes nothing.
+   * Records OverdueFeeCharged for the part not charged before
+   * @param totalFee - Overdue fee for the whole loan so far
+   */
+  accrueFee(totalFee: Money, clock: Clock): Loan {
+    if (!this.isOpen()) {
+      throw this.closedError('accrue a fee on');
+    }
+
+    const due = this.unchargedFee(totalFee);
+    if (!due.isPositive()) {
+      return this;
+    }
+
+    return this.carryEvents(
+      new Loan(
+        this._id,
+        this._bookId,
+        this._userId,
+        this._borrowedAt,
+        this._dueDate,
+        null,
+        totalFee,
+        this._version
+      ),
+      this.feeChargedEvent(due, clock.now())
+    );
+  }
+
+  /**
+   * Close the loan when the book comes back
+   * Records OverdueFeeCharged when a fee is due beyond what was accrued
+   * @param totalFee - Overdue fee for the whole loan (zero if on time)
+   */
+  close(totalFee: Money, clock: Clock): Loan {
+    if (!this.isOpen()) {
+      throw this.closedError('close');
+    }
+
+    const now = clock.now();
+    const due = this.unchargedFee(totalFee);
+    const closed = new Loan(
+      this._id,
+      this._bookId,
+      this._userId,
+      this._borrowedAt,
+      this._dueDate,
+      now,
+      due.isPositive() ? totalFee : this._feeCharged,
+      this._version
+    );
+
+    if (!due.isPositive()) {
+      return this.carryEvents(closed);
+    }
+
+    return this.carryEvents(closed, this.feeChargedEvent(due, now));
+  }
+
+  /**
+   * @private
+   */
+  private feeChargedEvent(amount: Money, occurredAt: Date): OverdueFeeCharged {
+    return {
+      ...eventHeader(DomainEventType.OVERDUE_FEE_CHARGED, this._id, occurredAt),
+      loanId: this._id,
+      bookId: this._bookId,
+      userId: this._userId.getValue(),
+      amount: amount.getMinorUnits(),
+      currency: amount.getCurrency(),
+    };
+  }
+
+  /**
+   * Error for changing a loan that was already returned
+   * @private
+   */
+  private closedError(operation: string): InvalidStateError {
+    return new InvalidStateError('Loan', this._id, 'CLOSED', operation, 'Loan is already closed');
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Title Entity
+ *
+ * Bibliographic catalog record, identified by its ISBN.
+ * Holds what every copy of a book has in common (title, author and
+ * publication details); the physical, individually barcoded copies on the shelf are Book
+ * entities that reference their Title by ISBN.
+ */
+
+import { ISBN } from '../valueObjects/ISBN';
+import { Clock } from '../services/Clock';
+import { ValidationError } from '../errors/CommonErrors';
+
+/**
+ * Publication details of the edition (unknown ones are null or empty),
+ * usually filled in from the metadata provider
+ */
+export interface TitleDetails {
+  publisher: string | null;
+  publicationYear: number | null;
+  edition: string | null; // e.g. "2nd edition"
+  language: string | null; // ISO 639 code, e.g. "eng"
+  coverUrl: string | null;
+  subjects: string[];
+}
+
+export class Title {
+  private constructor(
+    private readonly _isbn: ISBN,
+    private readonly _title: string,
+    private readonly _author: string,
+    private readonly _details: TitleDetails,
+    private readonly _createdAt: Date,
+    private readonly _updatedAt: Date,
+    private readonly _version: number
+  ) {}
+
+  /**
+   * Factory method to catalog a new Title
+   * @param isbn - ISBN-10 or ISBN-13 (hyphens and spaces allowed)
+   * @param title - Title of the work
+   * @param author - Author of the work
+   * @param clock - Source of the creation timestamp
+   * @param details - Publication details known so far (the rest are unknown)
+   */
+  static create(
+    isbn: string,
+    title: string,
+    author: string,
+    clock: Clock,
+    details: Partial<TitleDetails> = {}
+  ): Title {
+    Title.validate(title, author);
+
+    const now = clock.now();
+
+    return new Title(
+      new ISBN(isbn),
+      title.trim(),
+      author.trim(),
+      {
+        publisher: details.publisher ?? null,
+        publicationYear: details.publicationYear ?? null,
+        edition: details.edition ?? null,
+        language: details.language ?? null,
+        coverUrl: details.coverUrl ?? null,
+        subjects: [...(details.subjects ?? [])],
+      },
+      now,
+      now,
+      0 // Not yet persisted
+    );
+  }
+
+  /**
+   * Factory method to reconstruct Title from database
+   * Used by repository implementations
+   */
+  static reconstruct(
+    isbn: ISBN,
+    title: string,
+    author: string,
+    details: TitleDetails,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Title {
+    return new Title(isbn, title, author, details, createdAt, updatedAt, version);
+  }
+
+  /**
+   * Correct the catalog data (e.g. from an imported catalog record)
+   *
+   * Business Rules:
+   * - Title and author cannot be empty
+   * - The ISBN identifies the edition and never changes
+   * - Publication details are kept
+   *
+   * @returns The revised title (this title if nothing changed)
+   */
+  revise(title: string, author: string, clock: Clock): Title {
+    Title.validate(title, author);
+
+    if (title.trim() === this._title && author.trim() === this._author) {
+      return this;
+    }
+
+    return new Title(
+      this._isbn,
+      title.trim(),
+      author.trim(),
+      this._details,
+      this._createdAt,
+      clock.now(),
+      this._version
+    );
+  }
+
+  /**
+   * @private
+   */
+  private static validate(title: string, author: string): void {
+    if (!title || !title.trim()) {
+      throw new ValidationError('title', 'Title cannot be empty');
+    }
+    if (!author || !author.trim()) {
+      throw new ValidationError('author', 'Author cannot be empty');
+    }
+  }
+
+  get isbn(): ISBN { return this._isbn; }
+  get title(): string { return this._title; }
+  get author(): string { return this._author; }
+  get details(): TitleDetails {
+    return { ...this._details, subjects: [...this._details.subjects] };
+  }
+  get createdAt(): Date { return this._createdAt; }
+  get updatedAt(): Date { return this._updatedAt; }
+  // Optimistic concurrency version as loaded from storage (0 = never persisted)
+  get version(): number { return this._version; }
+}
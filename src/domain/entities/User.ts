@@ -8,35 +8,61 @@
  * - Business logic encapsulated in the entity
  * - Immutable state changes (returns new instances)
  * - Self-validating invariants
- * - Domain constants for business rules
+ * - Borrowing rules from the LendingPolicy of the member category
+ * - Fee balance derived from the FeeLedger (audit trail of every charge)
+ * - Version for optimistic concurrency control
+ * - Domain events (UserCreated, UserSuspended)
  */
 
 import { UserId } from '../valueObjects/UserId';
+import { Money } from '../valueObjects/Money';
+import { FeeLedger } from './FeeLedger';
+import { LendingPolicy } from '../policies/LendingPolicy';
+import { Clock } from '../services/Clock';
+import { ValidationError, InvalidStateError } from '../errors/CommonErrors';
+import {
+  UserSuspendedError,
+  BorrowLimitReachedError,
+  OutstandingFeesError,
+} from '../errors/UserErrors';
+import { AggregateRoot } from './AggregateRoot';
+import { eventHeader, DomainEventType } from '../events/DomainEvent';
 
 export enum UserStatus {
   ACTIVE = 'ACTIVE',
   SUSPENDED = 'SUSPENDED',
 }
 
-export class User {
-  // Business constant - defined in domain
-  static readonly MAX_BORROW_LIMIT = 5;
+/**
+ * Member category, selecting the LendingPolicy that applies to the user
+ */
+export enum MemberCategory {
+  ADULT = 'ADULT',
+  STUDENT = 'STUDENT',
+  STAFF = 'STAFF',
+  CHILD = 'CHILD',
+}
 
+export class User extends AggregateRoot {
   private constructor(
     private readonly _id: UserId,
     private readonly _name: string,
     private readonly _email: string,
     private readonly _status: UserStatus,
+    private readonly _category: MemberCategory,
     private readonly _currentBorrowCount: number,
-    private readonly _overdueFees: number,
-    private readonly _createdAt: Date
+    private readonly _overdueFees: Money,
+    private readonly _createdAt: Date,
+    private readonly _version: number
   ) {
+    super();
+
     // Invariant validation
     if (_currentBorrowCount < 0) {
-      throw new Error('Borrow count cannot be negative');
+      throw new ValidationError('currentBorrowCount', 'Borrow count cannot be negative');
     }
-    if (_overdueFees < 0) {
-      throw new Error('Overdue fees cannot be negative');
+    if (_overdueFees.isNegative()) {
+      throw new ValidationError('overdueFees', 'Overdue fees cannot be negative');
     }
   }
 
@@ -44,26 +70,45 @@ export class User {
    * Factory method to create a new User
    * @param name - User's full name
    * @param email - User's email address
+   * @param clock - Source of the creation timestamp
+   * @param category - Member category (selects the lending policy)
+   * @param currency - Currency of the fee balance (that of the lending policies)
    * @returns New User instance
    */
-  static create(name: string, email: string): User {
+  static create(
+    name: string,
+    email: string,
+    clock: Clock,
+    category: MemberCategory = MemberCategory.ADULT,
+    currency: string = Money.DEFAULT_CURRENCY
+  ): User {
     // Validation
     if (!name || !name.trim()) {
-      throw new Error('Name cannot be empty');
+      throw new ValidationError('name', 'Name cannot be empty');
     }
     if (!email || !email.trim() || !email.includes('@')) {
-      throw new Error('Valid email is required');
+      throw new ValidationError('email', 'Valid email is required');
     }
 
-    return new User(
+    const user = new User(
       UserId.generate(),
       name.trim(),
       email.trim().toLowerCase(),
       UserStatus.ACTIVE,
+      category,
       0, // No books borrowed initially
-      0, // No overdue fees initially
-      new Date()
+      Money.zero(currency), // No overdue fees initially
+      clock.now(),
+      0 // Not yet persisted
     );
+
+    return user.recordEvents({
+      ...eventHeader(DomainEventType.USER_CREATED, user.id.getValue(), user.createdAt),
+      userId: user.id.getValue(),
+      name: user.name,
+      email: user.email,
+      category: user.category,
+    });
   }
 
   /**
@@ -75,18 +120,22 @@ export class User {
     name: string,
     email: string,
     status: UserStatus,
+    category: MemberCategory,
     currentBorrowCount: number,
-    overdueFees: number,
-    createdAt: Date
+    overdueFees: Money,
+    createdAt: Date,
+    version: number
   ): User {
     return new User(
       id,
       name,
       email,
       status,
+      category,
       currentBorrowCount,
       overdueFees,
-      createdAt
+      createdAt,
+      version
     );
   }
 
@@ -107,11 +156,18 @@ export class User {
     return this._status;
   }
 
+  get category(): MemberCategory {
+    return this._category;
+  }
+
   get currentBorrowCount(): number {
     return this._currentBorrowCount;
   }
 
-  get overdueFees(): number {
+  /**
+   * Outstanding fees: balance of the user's FeeLedger
+   */
+  get overdueFees(): Money {
     return this._overdueFees;
   }
 
@@ -119,57 +175,78 @@ export class User {
     return this._createdAt;
   }
 
+  /**
+   * Optimistic concurrency version as loaded from storage
+   * (0 = never persisted). Repositories bump it on every write.
+   */
+  get version(): number {
+    return this._version;
+  }
+
   /**
    * Business Logic: Check if user can borrow books
    *
    * Business Rules:
    * - User must be ACTIVE (not suspended)
-   * - User must be below MAX_BORROW_LIMIT
-   * - User must have no overdue fees
+   * - User must be below the policy's borrow limit
+   * - Outstanding fees must not exceed the policy's fee threshold
+   *
+   * @param policy - Lending policy of the user's category
+   */
+  canBorrow(policy: LendingPolicy): boolean {
+    return this.ineligibilityReasons(policy).length === 0;
+  }
+
+  /**
+   * Business Logic: Explain why canBorrow() fails
+   *
+   * @param policy - Lending policy of the user's category
+   * @returns Violated rules in the order above (empty if the user can borrow)
    */
-  canBorrow(): boolean {
+  ineligibilityReasons(
+    policy: LendingPolicy
+  ): Array<UserSuspendedError | BorrowLimitReachedError | OutstandingFeesError> {
+    const reasons: Array<UserSuspendedError | BorrowLimitReachedError | OutstandingFeesError> = [];
     if (this._status === UserStatus.SUSPENDED) {
-      return false;
+      reasons.push(new UserSuspendedError(this._id));
     }
-    if (this._currentBorrowCount >= User.MAX_BORROW_LIMIT) {
-      return false;
+    if (this._currentBorrowCount >= policy.maxBorrowLimit) {
+      reasons.push(
+        new BorrowLimitReachedError(this._id, policy.maxBorrowLimit, this._currentBorrowCount)
+      );
     }
-    if (this._overdueFees > 0) {
-      return false;
+    if (!policy.allowsBorrowingWith(this._overdueFees)) {
+      reasons.push(new OutstandingFeesError(this._id, this._overdueFees, policy.feeThreshold));
     }
-    return true;
+    return reasons;
   }
 
   /**
    * Business Logic: Borrow a book
    * Returns a NEW User instance (immutability pattern)
    *
-   * @throws Error if user cannot borrow
+   * @param policy - Lending policy of the user's category
+   * @throws The first of ineligibilityReasons() if user cannot borrow
    */
-  borrowBook(): User {
-    if (!this.canBorrow()) {
-      const reasons: string[] = [];
-      if (this._status === UserStatus.SUSPENDED) {
-        reasons.push('account is suspended');
-      }
-      if (this._currentBorrowCount >= User.MAX_BORROW_LIMIT) {
-        reasons.push(`already borrowed ${User.MAX_BORROW_LIMIT} books`);
-      }
-      if (this._overdueFees > 0) {
-        reasons.push(`has overdue fees of $${this._overdueFees}`);
-      }
-      throw new Error(`User cannot borrow books: ${reasons.join(', ')}`);
+  borrowBook(policy: LendingPolicy): User {
+    const [reason] = this.ineligibilityReasons(policy);
+    if (reason) {
+      throw reason;
     }
 
     // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      this._status,
-      this._currentBorrowCount + 1, // ← State change
-      this._overdueFees,
-      this._createdAt
+    return this.carryEvents(
+      new User(
+        this._id,
+        this._name,
+        this._email,
+        this._status,
+        this._category,
+        this._currentBorrowCount + 1, // ← State change
+        this._overdueFees,
+        this._createdAt,
+        this._version
+      )
     );
   }
 
@@ -177,98 +254,91 @@ export class User {
    * Business Logic: Return a book
    * Returns a NEW User instance (immutability pattern)
    *
-   * @throws Error if user has no borrowed books
+   * @throws InvalidStateError if user has no borrowed books
    */
   returnBook(): User {
     if (this._currentBorrowCount === 0) {
-      throw new Error('User has no books to return');
+      throw this.statusError('returnBook', 'User has no books to return');
     }
 
     // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      this._status,
-      this._currentBorrowCount - 1, // ← State change
-      this._overdueFees,
-      this._createdAt
+    return this.carryEvents(
+      new User(
+        this._id,
+        this._name,
+        this._email,
+        this._status,
+        this._category,
+        this._currentBorrowCount - 1, // ← State change
+        this._overdueFees,
+        this._createdAt,
+        this._version
+      )
     );
   }
 
   /**
-   * Business Logic: Add overdue fees
+   * Business Logic: Take over the balance of the user's fee ledger
    * Returns a NEW User instance (immutability pattern)
    *
-   * @param amount - Fee amount to add (must be positive)
-   * @throws Error if amount is invalid
-   */
-  addOverdueFee(amount: number): User {
-    if (amount <= 0) {
-      throw new Error('Overdue fee amount must be positive');
-    }
-
-    // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      this._status,
-      this._currentBorrowCount,
-      this._overdueFees + amount, // ← State change
-      this._createdAt
-    );
-  }
-
-  /**
-   * Business Logic: Pay overdue fees
-   * Returns a NEW User instance (immutability pattern)
+   * overdueFees is never changed directly: every charge, payment or
+   * waiver is a FeeLedger entry, and this keeps the user's balance equal
+   * to the ledger's so eligibility checks need not load the ledger.
    *
-   * @param amount - Payment amount (must not exceed current fees)
-   * @throws Error if amount is invalid
+   * @param ledger - The user's fee ledger, including the latest entry
+   * @throws ValidationError if the ledger belongs to another user
    */
-  payOverdueFee(amount: number): User {
-    if (amount <= 0) {
-      throw new Error('Payment amount must be positive');
-    }
-    if (amount > this._overdueFees) {
-      throw new Error(
-        `Payment amount ($${amount}) exceeds current fees ($${this._overdueFees})`
-      );
+  withFeeBalance(ledger: FeeLedger): User {
+    if (!ledger.userId.equals(this._id)) {
+      throw new ValidationError('userId', 'Fee ledger belongs to another user');
     }
 
     // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      this._status,
-      this._currentBorrowCount,
-      this._overdueFees - amount, // ← State change
-      this._createdAt
+    return this.carryEvents(
+      new User(
+        this._id,
+        this._name,
+        this._email,
+        this._status,
+        this._category,
+        this._currentBorrowCount,
+        ledger.balance, // ← State change
+        this._createdAt,
+        this._version
+      )
     );
   }
 
   /**
    * Business Logic: Suspend user account
    * Returns a NEW User instance (immutability pattern)
+   * Records UserSuspended
    *
-   * @throws Error if already suspended
+   * @param clock - Source of the event timestamp
+   * @throws InvalidStateError if already suspended
    */
-  suspend(): User {
+  suspend(clock: Clock): User {
     if (this._status === UserStatus.SUSPENDED) {
-      throw new Error('User is already suspended');
+      throw this.statusError('suspend', 'User is already suspended');
     }
 
     // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      UserStatus.SUSPENDED, // ← State change
-      this._currentBorrowCount,
-      this._overdueFees,
-      this._createdAt
+    return this.carryEvents(
+      new User(
+        this._id,
+        this._name,
+        this._email,
+        UserStatus.SUSPENDED, // ← State change
+        this._category,
+        this._currentBorrowCount,
+        this._overdueFees,
+        this._createdAt,
+        this._version
+      ),
+      {
+        ...eventHeader(DomainEventType.USER_SUSPENDED, this._id.getValue(), clock.now()),
+        userId: this._id.getValue(),
+      }
     );
   }
 
@@ -276,22 +346,34 @@ export class User {
    * Business Logic: Activate user account
    * Returns a NEW User instance (immutability pattern)
    *
-   * @throws Error if already active
+   * @throws InvalidStateError if already active
    */
   activate(): User {
     if (this._status === UserStatus.ACTIVE) {
-      throw new Error('User is already active');
+      throw this.statusError('activate', 'User is already active');
     }
 
     // Return NEW instance with updated state (immutability)
-    return new User(
-      this._id,
-      this._name,
-      this._email,
-      UserStatus.ACTIVE, // ← State change
-      this._currentBorrowCount,
-      this._overdueFees,
-      this._createdAt
+    return this.carryEvents(
+      new User(
+        this._id,
+        this._name,
+        this._email,
+        UserStatus.ACTIVE, // ← State change
+        this._category,
+        this._currentBorrowCount,
+        this._overdueFees,
+        this._createdAt,
+        this._version
+      )
     );
   }
+
+  /**
+   * Error for an operation the current state does not allow
+   * @private
+   */
+  private statusError(operation: string, message: string): InvalidStateError {
+    return new InvalidStateError('User', this._id.getValue(), this._status, operation, message);
+  }
 }
@@ -0,0 +1,71 @@
+/**
+ * Book Errors
+ *
+ * Copy availability and loan rules (borrow, return, renew).
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+import { UserId } from '../valueObjects/UserId';
+
+export class BookUnavailableError extends DomainError<{ bookId: string; status: string }> {
+  readonly code = DomainErrorCode.BOOK_UNAVAILABLE;
+
+  constructor(bookId: string, status: string) {
+    super(`Book is not available (current status: ${status})`, { bookId, status });
+  }
+}
+
+/**
+ * Book is RESERVED for a different patron
+ */
+export class BookReservedError extends DomainError<{ bookId: string }> {
+  readonly code = DomainErrorCode.BOOK_RESERVED;
+
+  constructor(bookId: string) {
+    super('Book is reserved for another patron', { bookId });
+  }
+}
+
+export class NotBorrowerError extends DomainError<{ bookId: string; userId: string }> {
+  readonly code = DomainErrorCode.NOT_BORROWER;
+
+  constructor(bookId: string, userId: UserId) {
+    super('This book was not borrowed by this user', { bookId, userId: userId.getValue() });
+  }
+}
+
+export class RenewalLimitReachedError extends DomainError<{
+  bookId: string;
+  maxRenewals: number;
+}> {
+  readonly code = DomainErrorCode.RENEWAL_LIMIT_REACHED;
+
+  constructor(bookId: string, maxRenewals: number) {
+    super(`Renewal limit reached (${maxRenewals} renewals)`, { bookId, maxRenewals });
+  }
+}
+
+/**
+ * Another patron is waiting for the book, so the loan cannot be renewed
+ */
+export class ReservationPendingError extends DomainError<{ bookId: string }> {
+  readonly code = DomainErrorCode.RESERVATION_PENDING;
+
+  constructor(bookId: string) {
+    super('Book has a pending reservation and cannot be renewed', { bookId });
+  }
+}
+
+export class DuplicateBarcodeError extends DomainError<{
+  barcode: string;
+  existingBookId: string;
+}> {
+  readonly code = DomainErrorCode.DUPLICATE_BARCODE;
+
+  constructor(barcode: string, existingBookId: string) {
+    super(`Book with barcode ${barcode} already exists (ID: ${existingBookId})`, {
+      barcode,
+      existingBookId,
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Common Domain Errors
+ *
+ * Violations not tied to a single business rule: malformed input,
+ * missing aggregates and operations that the current state forbids.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+
+/**
+ * Input breaks an invariant (empty name, negative amount, ...)
+ */
+export class ValidationError extends DomainError<{ field: string }> {
+  readonly code = DomainErrorCode.VALIDATION_FAILED;
+
+  constructor(field: string, message: string) {
+    super(message, { field });
+  }
+}
+
+/**
+ * A referenced aggregate does not exist
+ */
+export class NotFoundError extends DomainError<{ entity: string; id: string }> {
+  readonly code = DomainErrorCode.NOT_FOUND;
+
+  constructor(entity: string, id: string) {
+    super(`${entity} not found: ${id}`, { entity, id });
+  }
+}
+
+/**
+ * Operation is not allowed in the aggregate's current status
+ * (e.g. returning a book that is not borrowed, cancelling an expired hold)
+ */
+export class InvalidStateError extends DomainError<{
+  entity: string;
+  id: string;
+  status: string;
+  operation: string;
+}> {
+  readonly code = DomainErrorCode.INVALID_STATE;
+
+  constructor(entity: string, id: string, status: string, operation: string, message: string) {
+    super(message, { entity, id, status, operation });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Concurrency Conflict Error
+ *
+ * Thrown by repositories when an aggregate is saved with a version that
+ * no longer matches the stored version, i.e. someone else changed it
+ * after it was loaded (optimistic concurrency control).
+ *
+ * Callers can reload the aggregate and retry the operation, or report
+ * the conflict to the user.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+
+export class ConcurrencyConflictError extends DomainError<{
+  aggregateType: string;
+  aggregateId: string;
+  expectedVersion: number;
+}> {
+  readonly code = DomainErrorCode.CONCURRENCY_CONFLICT;
+
+  constructor(
+    readonly aggregateType: string,
+    readonly aggregateId: string,
+    readonly expectedVersion: number
+  ) {
+    super(
+      `${aggregateType} ${aggregateId} was modified concurrently (expected version ${expectedVersion})`,
+      { aggregateType, aggregateId, expectedVersion }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Domain Error
+ *
+ * Base class of every business rule or invariant violation raised by the
+ * domain layer. Each concrete error carries:
+ * - code: machine-readable and stable (clients branch on it, never on the message)
+ * - details: structured data about the violation (IDs, limits, amounts)
+ * - message: human-readable explanation (for logs and end users)
+ *
+ * Entities and value objects throw DomainErrors when an invariant would be
+ * broken; domain services and use cases return them inside a Result.
+ */
+
+/**
+ * Machine-readable error codes
+ */
+export enum DomainErrorCode {
+  // Generic
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  NOT_FOUND = 'NOT_FOUND',
+  INVALID_STATE = 'INVALID_STATE',
+  CONCURRENCY_CONFLICT = 'CONCURRENCY_CONFLICT',
+
+  // Value objects
+  INVALID_ISBN = 'INVALID_ISBN',
+  INVALID_USER_ID = 'INVALID_USER_ID',
+  INVALID_BARCODE = 'INVALID_BARCODE',
+  CURRENCY_MISMATCH = 'CURRENCY_MISMATCH',
+
+  // Users
+  USER_SUSPENDED = 'USER_SUSPENDED',
+  BORROW_LIMIT_REACHED = 'BORROW_LIMIT_REACHED',
+  OUTSTANDING_FEES = 'OUTSTANDING_FEES',
+  DUPLICATE_EMAIL = 'DUPLICATE_EMAIL',
+
+  // Books and loans
+  BOOK_UNAVAILABLE = 'BOOK_UNAVAILABLE',
+  BOOK_RESERVED = 'BOOK_RESERVED',
+  NOT_BORROWER = 'NOT_BORROWER',
+  RENEWAL_LIMIT_REACHED = 'RENEWAL_LIMIT_REACHED',
+  RESERVATION_PENDING = 'RESERVATION_PENDING',
+  DUPLICATE_BARCODE = 'DUPLICATE_BARCODE',
+
+  // Holds
+  ALREADY_BORROWED = 'ALREADY_BORROWED',
+  DUPLICATE_HOLD = 'DUPLICATE_HOLD',
+  HOLD_NOT_OWNED = 'HOLD_NOT_OWNED',
+
+  // Fees
+  AMOUNT_EXCEEDS_BALANCE = 'AMOUNT_EXCEEDS_BALANCE',
+
+  // Book metadata
+  METADATA_NOT_FOUND = 'METADATA_NOT_FOUND',
+  METADATA_UNAVAILABLE = 'METADATA_UNAVAILABLE',
+}
+
+/**
+ * Structured details of an error (JSON-serializable)
+ */
+export type DomainErrorDetails = Readonly<Record<string, string | number | boolean | null>>;
+
+export abstract class DomainError<
+  TDetails extends DomainErrorDetails = DomainErrorDetails,
+> extends Error {
+  abstract readonly code: DomainErrorCode;
+
+  protected constructor(
+    message: string,
+    readonly details: TDetails
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /**
+   * Plain representation for logs and API responses
+   */
+  toJSON(): { code: DomainErrorCode; message: string; details: TDetails } {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
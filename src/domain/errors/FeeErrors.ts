@@ -0,0 +1,30 @@
+/**
+ * Fee Errors
+ *
+ * Fee ledger rules.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+import { Money } from '../valueObjects/Money';
+
+/**
+ * A payment or waiver is larger than what the user owes
+ * (amounts in minor units of currency)
+ */
+export class AmountExceedsBalanceError extends DomainError<{
+  entryType: string;
+  amount: number;
+  balance: number;
+  currency: string;
+}> {
+  readonly code = DomainErrorCode.AMOUNT_EXCEEDS_BALANCE;
+
+  constructor(entryType: string, amount: Money, balance: Money) {
+    super(`${entryType} of ${amount.format()} exceeds outstanding balance of ${balance.format()}`, {
+      entryType,
+      amount: amount.getMinorUnits(),
+      balance: balance.getMinorUnits(),
+      currency: amount.getCurrency(),
+    });
+  }
+}
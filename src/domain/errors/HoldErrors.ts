@@ -0,0 +1,35 @@
+/**
+ * Hold Errors
+ *
+ * Reservation queue rules.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+import { UserId } from '../valueObjects/UserId';
+
+/**
+ * Patron tried to hold a book they currently have
+ */
+export class AlreadyBorrowedError extends DomainError<{ bookId: string; userId: string }> {
+  readonly code = DomainErrorCode.ALREADY_BORROWED;
+
+  constructor(bookId: string, userId: UserId) {
+    super('User has already borrowed this book', { bookId, userId: userId.getValue() });
+  }
+}
+
+export class DuplicateHoldError extends DomainError<{ bookId: string; userId: string }> {
+  readonly code = DomainErrorCode.DUPLICATE_HOLD;
+
+  constructor(bookId: string, userId: UserId) {
+    super('User already has a hold on this book', { bookId, userId: userId.getValue() });
+  }
+}
+
+export class HoldNotOwnedError extends DomainError<{ holdId: string; userId: string }> {
+  readonly code = DomainErrorCode.HOLD_NOT_OWNED;
+
+  constructor(holdId: string, userId: UserId) {
+    super('This hold does not belong to this user', { holdId, userId: userId.getValue() });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Book Metadata Errors
+ *
+ * Raised when a copy registered by ISBN alone cannot have its catalog
+ * data filled in. Both tell staff to enter the title and author by hand.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+
+export class MetadataNotFoundError extends DomainError<{ isbn: string }> {
+  readonly code = DomainErrorCode.METADATA_NOT_FOUND;
+
+  constructor(isbn: string) {
+    super(`No catalog data found for ISBN ${isbn}; enter the title and author manually`, {
+      isbn,
+    });
+  }
+}
+
+export class MetadataUnavailableError extends DomainError<{ isbn: string; reason: string }> {
+  readonly code = DomainErrorCode.METADATA_UNAVAILABLE;
+
+  constructor(isbn: string, reason: string) {
+    super(
+      `Catalog data lookup for ISBN ${isbn} failed (${reason}); ` +
+        'enter the title and author manually',
+      { isbn, reason }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Result Type
+ *
+ * Outcome of an operation that can fail for a business reason:
+ * either ok with a value, or not ok with a DomainError.
+ *
+ * Domain services and use cases return a Result instead of throwing,
+ * so expected failures are part of the signature and callers branch
+ * on `result.ok` and `result.error.code`.
+ *
+ * Example:
+ * ```typescript
+ * const result = await borrowBookUseCase.execute({ userId, bookId });
+ * if (!result.ok) {
+ *   switch (result.error.code) {
+ *     case DomainErrorCode.BORROW_LIMIT_REACHED: ...
+ *   }
+ * }
+ * ```
+ */
+
+import { DomainError } from './DomainError';
+
+export type Result<T, E extends DomainError = DomainError> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly error: E };
+
+/**
+ * Successful result
+ */
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+/**
+ * Failed result
+ */
+export function err<E extends DomainError>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
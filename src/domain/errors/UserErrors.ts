@@ -0,0 +1,66 @@
+/**
+ * User Errors
+ *
+ * Membership rules: borrowing eligibility and email uniqueness.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+import { UserId } from '../valueObjects/UserId';
+import { Money } from '../valueObjects/Money';
+
+export class UserSuspendedError extends DomainError<{ userId: string }> {
+  readonly code = DomainErrorCode.USER_SUSPENDED;
+
+  constructor(userId: UserId) {
+    super('User account is suspended', { userId: userId.getValue() });
+  }
+}
+
+export class BorrowLimitReachedError extends DomainError<{
+  userId: string;
+  limit: number;
+  borrowed: number;
+}> {
+  readonly code = DomainErrorCode.BORROW_LIMIT_REACHED;
+
+  constructor(userId: UserId, limit: number, borrowed: number) {
+    super(`Maximum borrow limit reached (${limit} books)`, {
+      userId: userId.getValue(),
+      limit,
+      borrowed,
+    });
+  }
+}
+
+/**
+ * Outstanding fees exceed the lending policy's threshold
+ * (amounts in minor units of currency)
+ */
+export class OutstandingFeesError extends DomainError<{
+  userId: string;
+  outstanding: number;
+  threshold: number;
+  currency: string;
+}> {
+  readonly code = DomainErrorCode.OUTSTANDING_FEES;
+
+  constructor(userId: UserId, outstanding: Money, threshold: Money) {
+    super(`User has overdue fees of ${outstanding.format()}`, {
+      userId: userId.getValue(),
+      outstanding: outstanding.getMinorUnits(),
+      threshold: threshold.getMinorUnits(),
+      currency: outstanding.getCurrency(),
+    });
+  }
+}
+
+export class DuplicateEmailError extends DomainError<{ email: string; existingUserId: string }> {
+  readonly code = DomainErrorCode.DUPLICATE_EMAIL;
+
+  constructor(email: string, existingUserId: UserId) {
+    super(`User with email ${email} already exists (ID: ${existingUserId.getValue()})`, {
+      email,
+      existingUserId: existingUserId.getValue(),
+    });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Value Object Errors
+ *
+ * Raised when a primitive cannot become a value object.
+ */
+
+import { DomainError, DomainErrorCode } from './DomainError';
+
+export class InvalidIsbnError extends DomainError<{ value: string }> {
+  readonly code = DomainErrorCode.INVALID_ISBN;
+
+  constructor(value: string) {
+    super('Invalid ISBN format', { value });
+  }
+}
+
+export class InvalidUserIdError extends DomainError<{ value: string }> {
+  readonly code = DomainErrorCode.INVALID_USER_ID;
+
+  constructor(value: string) {
+    super('UserId must be exactly 8 digits', { value });
+  }
+}
+
+export class InvalidBarcodeError extends DomainError<{ value: string }> {
+  readonly code = DomainErrorCode.INVALID_BARCODE;
+
+  constructor(value: string) {
+    super('Barcode must be 4-32 letters, digits or hyphens', { value });
+  }
+}
+
+export class CurrencyMismatchError extends DomainError<{ expected: string; actual: string }> {
+  readonly code = DomainErrorCode.CURRENCY_MISMATCH;
+
+  constructor(expected: string, actual: string) {
+    super(`Currency mismatch: ${expected} and ${actual}`, { expected, actual });
+  }
+}
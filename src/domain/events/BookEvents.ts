@@ -0,0 +1,60 @@
+/**
+ * Book Events
+ *
+ * Recorded by the Book aggregate (one physical copy). Every state
+ * transition records an event, so a book can be rebuilt from its
+ * history (see Book.fromHistory).
+ */
+
+import { DomainEvent, DomainEventType } from './DomainEvent';
+
+/**
+ * A new copy was added to the collection
+ */
+export interface BookRegistered extends DomainEvent<DomainEventType.BOOK_REGISTERED> {
+  readonly bookId: string;
+  readonly isbn: string;
+  readonly barcode: string;
+}
+
+export interface BookBorrowed extends DomainEvent<DomainEventType.BOOK_BORROWED> {
+  readonly bookId: string;
+  readonly userId: string;
+  readonly dueDate: Date;
+}
+
+export interface BookReturned extends DomainEvent<DomainEventType.BOOK_RETURNED> {
+  readonly bookId: string;
+  readonly userId: string;
+  readonly overdueDays: number; // 0 if returned on time
+}
+
+export interface BookRenewed extends DomainEvent<DomainEventType.BOOK_RENEWED> {
+  readonly bookId: string;
+  readonly dueDate: Date; // Extended due date
+}
+
+/**
+ * The book was set aside for the head of its hold queue
+ */
+export interface BookReserved extends DomainEvent<DomainEventType.BOOK_RESERVED> {
+  readonly bookId: string;
+  readonly userId: string;
+}
+
+export interface BookReservationCancelled
+  extends DomainEvent<DomainEventType.BOOK_RESERVATION_CANCELLED> {
+  readonly bookId: string;
+  readonly userId: string; // Patron the book was reserved for
+}
+
+/**
+ * Every event of the Book aggregate
+ */
+export type BookEvent =
+  | BookRegistered
+  | BookBorrowed
+  | BookReturned
+  | BookRenewed
+  | BookReserved
+  | BookReservationCancelled;
@@ -0,0 +1,49 @@
+/**
+ * Domain Event
+ *
+ * Something that happened to an aggregate and that other parts of the
+ * system may care about (notifications, statistics, integrations).
+ *
+ * Events are recorded by the aggregates in their state transitions,
+ * pulled by the use case after the transition is saved, and handed to
+ * an IDomainEventDispatcher. Events are plain, immutable data (no
+ * entities or value objects), so they can be stored or serialized as-is.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+export enum DomainEventType {
+  BOOK_REGISTERED = 'BookRegistered',
+  BOOK_BORROWED = 'BookBorrowed',
+  BOOK_RETURNED = 'BookReturned',
+  BOOK_RENEWED = 'BookRenewed',
+  BOOK_RESERVED = 'BookReserved',
+  BOOK_RESERVATION_CANCELLED = 'BookReservationCancelled',
+  OVERDUE_FEE_CHARGED = 'OverdueFeeCharged',
+  USER_CREATED = 'UserCreated',
+  USER_SUSPENDED = 'UserSuspended',
+}
+
+/**
+ * Fields common to every event
+ */
+export interface DomainEvent<TType extends DomainEventType = DomainEventType> {
+  readonly eventId: string; // Unique per event (for idempotent handlers)
+  readonly type: TType;
+  readonly aggregateId: string; // ID of the aggregate that recorded the event
+  readonly occurredAt: Date;
+}
+
+/**
+ * Build the common fields of a new event
+ * @param type - Event type
+ * @param aggregateId - ID of the recording aggregate
+ * @param occurredAt - Time of the state transition (from the Clock)
+ */
+export function eventHeader<TType extends DomainEventType>(
+  type: TType,
+  aggregateId: string,
+  occurredAt: Date
+): DomainEvent<TType> {
+  return { eventId: uuidv4(), type, aggregateId, occurredAt };
+}
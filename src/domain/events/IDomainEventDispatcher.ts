@@ -0,0 +1,43 @@
+/**
+ * Domain Event Dispatcher Interface
+ *
+ * Delivers the events pulled from saved aggregates to the modules that
+ * subscribed to them, so those modules can react (send a notification,
+ * update statistics) without the domain services knowing about them.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { DomainEventType } from './DomainEvent';
+import { LibraryEvent, EventOfType } from './LibraryEvent';
+
+/**
+ * Reaction to one event
+ */
+export type DomainEventHandler<TEvent extends LibraryEvent> = (
+  event: TEvent
+) => void | Promise<void>;
+
+export interface IDomainEventDispatcher {
+  /**
+   * Register a handler for one event type
+   * @param type - Event type to react to
+   * @param handler - Called with every dispatched event of that type
+   * @returns Function removing the subscription
+   */
+  subscribe<TType extends DomainEventType>(
+    type: TType,
+    handler: DomainEventHandler<EventOfType<TType>>
+  ): () => void;
+
+  /**
+   * Deliver events to their subscribers, in order
+   *
+   * Called by use cases after the changes that recorded the events were
+   * saved. A failing handler does not affect the other handlers or the
+   * use case (its changes are already committed).
+   *
+   * @param events - Events pulled from the saved aggregates
+   */
+  dispatch(events: readonly LibraryEvent[]): Promise<void>;
+}
@@ -0,0 +1,23 @@
+/**
+ * Library Event
+ *
+ * Every event the library's aggregates can record. Discriminated by
+ * `type`, so a handler switching on it gets the specific payload.
+ */
+
+import { DomainEventType } from './DomainEvent';
+import { BookEvent } from './BookEvents';
+import { OverdueFeeCharged } from './LoanEvents';
+import { UserCreated, UserSuspended } from './UserEvents';
+
+export type LibraryEvent =
+  | BookEvent
+  | OverdueFeeCharged
+  | UserCreated
+  | UserSuspended;
+
+/**
+ * The event interface of an event type
+ * (e.g. EventOfType<DomainEventType.BOOK_BORROWED> is BookBorrowed)
+ */
+export type EventOfType<TType extends DomainEventType> = Extract<LibraryEvent, { type: TType }>;
@@ -0,0 +1,19 @@
+/**
+ * Loan Events
+ *
+ * Recorded by the Loan aggregate.
+ */
+
+import { DomainEvent, DomainEventType } from './DomainEvent';
+
+/**
+ * An overdue fee was charged for a loan: accrued daily by the overdue
+ * sweep while the book is out, the rest when it comes back
+ */
+export interface OverdueFeeCharged extends DomainEvent<DomainEventType.OVERDUE_FEE_CHARGED> {
+  readonly loanId: string;
+  readonly bookId: string;
+  readonly userId: string;
+  readonly amount: number; // Minor units of currency
+  readonly currency: string;
+}
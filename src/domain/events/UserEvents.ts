@@ -0,0 +1,18 @@
+/**
+ * User Events
+ *
+ * Recorded by the User aggregate.
+ */
+
+import { DomainEvent, DomainEventType } from './DomainEvent';
+
+export interface UserCreated extends DomainEvent<DomainEventType.USER_CREATED> {
+  readonly userId: string;
+  readonly name: string;
+  readonly email: string;
+  readonly category: string;
+}
+
+export interface UserSuspended extends DomainEvent<DomainEventType.USER_SUSPENDED> {
+  readonly userId: string;
+}
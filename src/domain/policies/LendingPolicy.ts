@@ -0,0 +1,81 @@
+/**
+ * Lending Policy
+ *
+ * Lending rules for one member category: how many books a member may
+ * hold, for how long, what lateness costs and how much unpaid fees
+ * block borrowing. Policies are loaded from configuration (see
+ * LendingPolicyCatalog) instead of being hard-coded in entities.
+ *
+ * Immutable, validated on creation.
+ */
+
+import { Money } from '../valueObjects/Money';
+import { ValidationError } from '../errors/CommonErrors';
+
+/**
+ * Raw settings of a lending policy
+ */
+export interface LendingPolicySettings {
+  maxBorrowLimit: number; // Books a member may have at once
+  loanPeriodDays: number; // Days from borrowing (or renewal) to the due date
+  dailyOverdueFee: Money; // Fee per full day past the due date
+  overdueFeeCap: Money; // Maximum overdue fee charged for a single loan
+  feeThreshold: Money; // Borrowing is allowed while outstanding fees do not exceed this
+}
+
+export class LendingPolicy {
+  private constructor(private readonly settings: LendingPolicySettings) {}
+
+  /**
+   * Create a validated policy
+   * @throws ValidationError if a limit is not a positive integer, an amount is
+   *   negative, or amounts use different currencies
+   */
+  static create(settings: LendingPolicySettings): LendingPolicy {
+    if (!Number.isInteger(settings.maxBorrowLimit) || settings.maxBorrowLimit <= 0) {
+      throw new ValidationError('maxBorrowLimit', 'Borrow limit must be a positive integer');
+    }
+    if (!Number.isInteger(settings.loanPeriodDays) || settings.loanPeriodDays <= 0) {
+      throw new ValidationError('loanPeriodDays', 'Loan period must be a positive number of days');
+    }
+
+    const amounts = [settings.dailyOverdueFee, settings.overdueFeeCap, settings.feeThreshold];
+    if (amounts.some((amount) => amount.isNegative())) {
+      throw new ValidationError('fees', 'Fee amounts cannot be negative');
+    }
+    if (amounts.some((amount) => amount.getCurrency() !== settings.dailyOverdueFee.getCurrency())) {
+      throw new ValidationError('fees', 'Fee amounts of a policy must use the same currency');
+    }
+
+    return new LendingPolicy({ ...settings });
+  }
+
+  get maxBorrowLimit(): number { return this.settings.maxBorrowLimit; }
+  get loanPeriodDays(): number { return this.settings.loanPeriodDays; }
+  get dailyOverdueFee(): Money { return this.settings.dailyOverdueFee; }
+  get overdueFeeCap(): Money { return this.settings.overdueFeeCap; }
+  get feeThreshold(): Money { return this.settings.feeThreshold; }
+  // Currency all amounts of the policy are in
+  get currency(): string { return this.settings.dailyOverdueFee.getCurrency(); }
+
+  /**
+   * Overdue fee for a loan returned overdueDays full days late
+   * (daily fee × days, capped at overdueFeeCap)
+   */
+  overdueFeeFor(overdueDays: number): Money {
+    const { dailyOverdueFee, overdueFeeCap } = this.settings;
+    // Days past the cap add nothing, so a long-lost copy never overflows the multiplication
+    const daysToCap = dailyOverdueFee.isZero()
+      ? 0
+      : Math.ceil(overdueFeeCap.getMinorUnits() / dailyOverdueFee.getMinorUnits());
+    const fee = dailyOverdueFee.multiply(Math.min(Math.max(0, overdueDays), daysToCap));
+    return fee.greaterThan(overdueFeeCap) ? overdueFeeCap : fee;
+  }
+
+  /**
+   * Whether outstanding fees still allow borrowing
+   */
+  allowsBorrowingWith(outstandingFees: Money): boolean {
+    return !outstandingFees.greaterThan(this.settings.feeThreshold);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Lending Policy Catalog
+ *
+ * The lending policy of every member category. Built from configuration
+ * by the infrastructure layer and handed to the domain services that
+ * apply it (borrowing, renewal, overdue fees).
+ *
+ * All policies charge in one currency, which is also the currency new
+ * members' fee balances and new loans start in.
+ */
+
+import { LendingPolicy } from './LendingPolicy';
+import { MemberCategory } from '../entities/User';
+import { ValidationError } from '../errors/CommonErrors';
+
+export class LendingPolicyCatalog {
+  private constructor(private readonly policies: ReadonlyMap<MemberCategory, LendingPolicy>) {}
+
+  /**
+   * Create a catalog covering every member category
+   * @throws ValidationError if a category has no policy, or policies use
+   *   different currencies
+   */
+  static create(policies: Map<MemberCategory, LendingPolicy>): LendingPolicyCatalog {
+    const missing = Object.values(MemberCategory).filter((category) => !policies.has(category));
+    if (missing.length > 0) {
+      throw new ValidationError(
+        'category',
+        `No lending policy for member categories: ${missing.join(', ')}`
+      );
+    }
+
+    const currencies = new Set([...policies.values()].map((policy) => policy.currency));
+    if (currencies.size > 1) {
+      throw new ValidationError(
+        'currency',
+        `Lending policies must use one currency: ${[...currencies].join(', ')}`
+      );
+    }
+
+    return new LendingPolicyCatalog(new Map(policies));
+  }
+
+  /**
+   * Currency fees are charged in
+   */
+  get currency(): string {
+    return [...this.policies.values()][0]!.currency;
+  }
+
+  /**
+   * Policy applying to members of a category
+   */
+  forCategory(category: MemberCategory): LendingPolicy {
+    return this.policies.get(category)!;
+  }
+}
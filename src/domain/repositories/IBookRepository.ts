@@ -7,13 +7,32 @@
  *
  * Implementations of this interface will be in the Infrastructure layer.
  */
-import { Book } from '../entities/Book';
+import { Book, BookStatus } from '../entities/Book';
 import { ISBN } from '../valueObjects/ISBN';
+import { Barcode } from '../valueObjects/Barcode';
+import { UserId } from '../valueObjects/UserId';
+import { PageRequest, Page, SortOrder } from './PageQuery';
+
+export type BookSortField = 'createdAt' | 'updatedAt' | 'barcode';
+
+/**
+ * Filters, sort order and page of a book list query
+ */
+export interface BookQuery {
+  status?: BookStatus;
+  author?: string; // Case-insensitive part of the title's author
+  title?: string; // Case-insensitive part of the title
+  borrowedBy?: UserId;
+  sort?: SortOrder<BookSortField>; // Default: createdAt desc
+  page: PageRequest;
+}
 
 export interface IBookRepository {
   /**
    * Save a book (insert or update)
+   * Updates are conditional on book.version (optimistic concurrency)
    * @param book - Book entity to save
+   * @throws ConcurrencyConflictError if the stored version differs
    */
   save(book: Book): Promise<void>;
 
@@ -25,11 +44,39 @@ export interface IBookRepository {
   findById(id: string): Promise<Book | null>;
 
   /**
-   * Find a book by ISBN
-   * @param isbn - ISBN value object
+   * Find several books at once (batched loading)
+   * @param ids - Unique identifiers
+   * @returns The books found, in no particular order (unknown IDs are skipped)
+   */
+  findByIds(ids: string[]): Promise<Book[]>;
+
+  /**
+   * Find all copies of a title
+   * @param isbn - ISBN value object of the title
+   * @returns Array of copies (empty if none)
+   */
+  findByISBN(isbn: ISBN): Promise<Book[]>;
+
+  /**
+   * Find all copies of several titles at once
+   * @param isbns - ISBN value objects of the titles
+   * @returns Array of copies (empty if none)
+   */
+  findByISBNs(isbns: ISBN[]): Promise<Book[]>;
+
+  /**
+   * Find a copy by its barcode
+   * @param barcode - Barcode value object
    * @returns Book if found, null otherwise
    */
-  findByISBN(isbn: ISBN): Promise<Book | null>;
+  findByBarcode(barcode: Barcode): Promise<Book | null>;
+
+  /**
+   * Find the copies carrying any of several barcodes
+   * @param barcodes - Barcode value objects
+   * @returns The books found, in no particular order (unknown barcodes are skipped)
+   */
+  findByBarcodes(barcodes: Barcode[]): Promise<Book[]>;
 
   /**
    * Find all books
@@ -37,6 +84,14 @@ export interface IBookRepository {
    */
   findAll(): Promise<Book[]>;
 
+  /**
+   * Find one page of the books matching a query
+   * @param query - Filters, sort order and page
+   * @returns The page and the number of matching books
+   * @throws ValidationError if the page cursor is malformed
+   */
+  findPage(query: BookQuery): Promise<Page<Book>>;
+
   /**
    * Delete a book by ID
    * @param id - Unique identifier
@@ -0,0 +1,27 @@
+/**
+ * Catalog Search Interface
+ *
+ * Free-text search over the catalog (title, author and ISBN), for
+ * patrons who remember part of a title or an author's name. Matching is
+ * by word beginnings, ignores case and diacritics ("gabriel garcia"
+ * finds "Gabriel García Márquez"), and requires every word of the text.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { Title } from '../entities/Title';
+
+export interface CatalogMatch {
+  title: Title;
+  rank: number; // Relevance; higher is better (comparable within one search only)
+}
+
+export interface ICatalogSearch {
+  /**
+   * Find the titles matching a text, best match first
+   * @param text - Words or word beginnings of the title, author or ISBN
+   * @param limit - Maximum number of matches
+   * @returns Matches (empty if the text has no searchable words)
+   */
+  search(text: string, limit: number): Promise<CatalogMatch[]>;
+}
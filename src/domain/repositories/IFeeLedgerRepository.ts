@@ -0,0 +1,27 @@
+/**
+ * Fee Ledger Repository Interface
+ *
+ * Defines the contract for fee ledger data access.
+ * The ledger is append-only: entries are inserted, never updated or deleted.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { FeeEntry } from '../entities/FeeEntry';
+import { FeeLedger } from '../entities/FeeLedger';
+import { UserId } from '../valueObjects/UserId';
+
+export interface IFeeLedgerRepository {
+  /**
+   * Append an entry to its user's ledger
+   * @param entry - New fee entry
+   */
+  append(entry: FeeEntry): Promise<void>;
+
+  /**
+   * Load the ledger of a user
+   * @param userId - UserId value object
+   * @returns Ledger with entries in recording order (empty if none)
+   */
+  findByUser(userId: UserId): Promise<FeeLedger>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Hold Repository Interface
+ *
+ * Defines the contract for hold (reservation queue) data access.
+ * Also answers IReservationQuery, since a book has a pending
+ * reservation exactly when it has an active hold.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { Hold, HoldStatus } from '../entities/Hold';
+import { UserId } from '../valueObjects/UserId';
+import { IReservationQuery } from './IReservationQuery';
+
+export interface IHoldRepository extends IReservationQuery {
+  /**
+   * Save a hold (insert or update)
+   * Updates are conditional on hold.version (optimistic concurrency)
+   * @param hold - Hold entity to save
+   * @throws ConcurrencyConflictError if the stored version differs
+   */
+  save(hold: Hold): Promise<void>;
+
+  /**
+   * Find a hold by its ID
+   * @param id - Unique identifier
+   * @returns Hold if found, null otherwise
+   */
+  findById(id: string): Promise<Hold | null>;
+
+  /**
+   * Find the hold queue of a book
+   * @param bookId - Book UUID
+   * @returns Active (WAITING/READY) holds, oldest first (FIFO)
+   */
+  findActiveByBook(bookId: string): Promise<Hold[]>;
+
+  /**
+   * Find a patron's active holds
+   * @param userId - UserId value object
+   * @returns Active (WAITING/READY) holds, oldest first
+   */
+  findActiveByUser(userId: UserId): Promise<Hold[]>;
+
+  /**
+   * Find holds by status
+   * @param status - Hold status to filter by
+   * @returns Holds with the given status, oldest first
+   */
+  findByStatus(status: HoldStatus): Promise<Hold[]>;
+}
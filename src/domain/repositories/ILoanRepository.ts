@@ -0,0 +1,63 @@
+/**
+ * Loan Repository Interface
+ *
+ * Defines the contract for loan history data access.
+ * This interface belongs to the Domain layer and keeps the domain
+ * independent of infrastructure concerns.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { Loan } from '../entities/Loan';
+import { UserId } from '../valueObjects/UserId';
+
+export interface ILoanRepository {
+  /**
+   * Save a loan (insert or update)
+   * Updates are conditional on loan.version (optimistic concurrency)
+   * @param loan - Loan entity to save
+   * @throws ConcurrencyConflictError if the stored version differs
+   */
+  save(loan: Loan): Promise<void>;
+
+  /**
+   * Find a loan by its ID
+   * @param id - Unique identifier
+   * @returns Loan if found, null otherwise
+   */
+  findById(id: string): Promise<Loan | null>;
+
+  /**
+   * Find all loans of a user (open and closed)
+   * @param userId - UserId value object
+   * @returns Loans, most recent first
+   */
+  findByUser(userId: UserId): Promise<Loan[]>;
+
+  /**
+   * Find all loans of several users at once (batched loading)
+   * @param userIds - UserId value objects
+   * @returns Loans, most recent first
+   */
+  findByUsers(userIds: UserId[]): Promise<Loan[]>;
+
+  /**
+   * Find all loans of a book (open and closed)
+   * @param bookId - Book UUID
+   * @returns Loans, most recent first
+   */
+  findByBook(bookId: string): Promise<Loan[]>;
+
+  /**
+   * Find the open loan of a book
+   * @param bookId - Book UUID
+   * @returns The loan not yet returned, null if the book is not lent
+   */
+  findOpenByBook(bookId: string): Promise<Loan | null>;
+
+  /**
+   * Find all loans not yet returned
+   * @returns Open loans, earliest due date first
+   */
+  findOpen(): Promise<Loan[]>;
+}
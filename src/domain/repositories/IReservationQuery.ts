@@ -0,0 +1,18 @@
+/**
+ * Reservation Query Interface
+ *
+ * Read-only question the lending rules need to ask about reservations:
+ * is someone waiting for this book? A loan cannot be renewed while
+ * another patron is waiting for the copy.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+export interface IReservationQuery {
+  /**
+   * Check whether a book has a pending reservation
+   * @param bookId - Book UUID
+   * @returns true if at least one patron is waiting for the book
+   */
+  hasPendingReservation(bookId: string): Promise<boolean>;
+}
@@ -0,0 +1,42 @@
+/**
+ * Title Repository Interface
+ *
+ * Defines the contract for catalog (bibliographic record) data access.
+ * This interface belongs to the Domain layer and keeps the domain
+ * independent of infrastructure concerns.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { Title } from '../entities/Title';
+import { ISBN } from '../valueObjects/ISBN';
+
+export interface ITitleRepository {
+  /**
+   * Save a title (insert or update)
+   * Updates are conditional on title.version (optimistic concurrency)
+   * @param title - Title entity to save
+   * @throws ConcurrencyConflictError if the stored version differs
+   */
+  save(title: Title): Promise<void>;
+
+  /**
+   * Find a title by ISBN
+   * @param isbn - ISBN value object
+   * @returns Title if found, null otherwise
+   */
+  findByISBN(isbn: ISBN): Promise<Title | null>;
+
+  /**
+   * Find several titles at once (batched loading)
+   * @param isbns - ISBN value objects
+   * @returns The titles found, in no particular order (unknown ISBNs are skipped)
+   */
+  findByISBNs(isbns: ISBN[]): Promise<Title[]>;
+
+  /**
+   * Find all titles
+   * @returns Array of all titles, most recently cataloged first
+   */
+  findAll(): Promise<Title[]>;
+}
@@ -0,0 +1,41 @@
+/**
+ * Unit of Work Interface
+ *
+ * Defines the transaction boundary for operations that change
+ * more than one aggregate (e.g. borrowing updates both User and Book).
+ * All repository writes made through the provided repositories either
+ * commit together or are rolled back together.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { IUserRepository } from './IUserRepository';
+import { IBookRepository } from './IBookRepository';
+import { ITitleRepository } from './ITitleRepository';
+import { IHoldRepository } from './IHoldRepository';
+import { ILoanRepository } from './ILoanRepository';
+import { IFeeLedgerRepository } from './IFeeLedgerRepository';
+
+/**
+ * Repositories bound to a single unit of work
+ */
+export interface TransactionalRepositories {
+  userRepository: IUserRepository;
+  bookRepository: IBookRepository;
+  titleRepository: ITitleRepository;
+  holdRepository: IHoldRepository;
+  loanRepository: ILoanRepository;
+  feeLedgerRepository: IFeeLedgerRepository;
+}
+
+export interface IUnitOfWork {
+  /**
+   * Run work inside a single transaction
+   *
+   * Commits when the work resolves, rolls back when it throws.
+   *
+   * @param work - Callback receiving repositories bound to the transaction
+   * @returns The value returned by the work callback
+   */
+  run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T>;
+}
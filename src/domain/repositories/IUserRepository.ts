@@ -8,13 +8,30 @@
  * Implementations of this interface will be in the Infrastructure layer.
  */
 
-import { User } from '../entities/User';
+import { User, UserStatus, MemberCategory } from '../entities/User';
 import { UserId } from '../valueObjects/UserId';
+import { PageRequest, Page, SortOrder } from './PageQuery';
+
+export type UserSortField = 'createdAt' | 'name' | 'overdueFees';
+
+/**
+ * Filters, sort order and page of a user list query
+ */
+export interface UserQuery {
+  status?: UserStatus;
+  category?: MemberCategory;
+  name?: string; // Case-insensitive part of the name
+  hasOverdueFees?: boolean; // Fee ledger balance above (true) or not above (false) zero
+  sort?: SortOrder<UserSortField>; // Default: createdAt desc
+  page: PageRequest;
+}
 
 export interface IUserRepository {
   /**
    * Save a user (insert or update)
+   * Updates are conditional on user.version (optimistic concurrency)
    * @param user - User entity to save
+   * @throws ConcurrencyConflictError if the stored version differs
    */
   save(user: User): Promise<void>;
 
@@ -25,6 +42,13 @@ export interface IUserRepository {
    */
   findById(id: UserId): Promise<User | null>;
 
+  /**
+   * Find several users at once (batched loading)
+   * @param ids - UserId value objects
+   * @returns The users found, in no particular order (unknown IDs are skipped)
+   */
+  findByIds(ids: UserId[]): Promise<User[]>;
+
   /**
    * Find a user by email address
    * Domain-specific query method for duplicate email checking
@@ -40,6 +64,14 @@ export interface IUserRepository {
    */
   findAll(): Promise<User[]>;
 
+  /**
+   * Find one page of the users matching a query
+   * @param query - Filters, sort order and page
+   * @returns The page and the number of matching users
+   * @throws ValidationError if the page cursor is malformed
+   */
+  findPage(query: UserQuery): Promise<Page<User>>;
+
   /**
    * Delete a user by ID
    * @param id - UserId value object
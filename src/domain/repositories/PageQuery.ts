@@ -0,0 +1,30 @@
+/**
+ * Page Query Types
+ *
+ * Pagination and sort order shared by the repositories' list queries.
+ * A page is requested either by offset, or by the cursor of the previous
+ * page (keyset pagination on the sort field and ID), which stays fast and
+ * stable deep into large collections that change between requests.
+ * Counting every matching item costs a query of its own, so it is only
+ * done when a page asks for it.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortOrder<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface PageRequest {
+  limit: number; // Maximum items on the page
+  offset?: number; // Items to skip (offset pagination)
+  after?: string; // nextCursor of the previous page (takes precedence over offset)
+  withTotal?: boolean; // Count the items matching the filters (default false)
+}
+
+export interface Page<T> {
+  items: T[];
+  totalCount: number | null; // Items matching the filters, across all pages (null unless withTotal)
+  nextCursor: string | null; // null on the last page
+}
@@ -0,0 +1,36 @@
+/**
+ * Book Metadata Provider Interface
+ *
+ * Looks up the bibliographic record of an edition by its ISBN, so staff
+ * can register a copy from the ISBN alone instead of typing the title
+ * and author by hand.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+import { ISBN } from '../valueObjects/ISBN';
+
+/**
+ * Bibliographic record of one edition (fields the source lacks are null or empty)
+ */
+export interface BookMetadata {
+  isbn: string;
+  title: string;
+  authors: string[];
+  publisher: string | null;
+  publicationYear: number | null;
+  edition: string | null; // e.g. "2nd edition"
+  language: string | null; // ISO 639 code, e.g. "eng"
+  coverUrl: string | null;
+  subjects: string[];
+}
+
+export interface BookMetadataProvider {
+  /**
+   * Find the record of an edition
+   * @param isbn - ISBN value object of the edition
+   * @returns The record, or null if the source does not know the ISBN
+   * @throws MetadataUnavailableError if the source cannot be consulted
+   */
+  lookup(isbn: ISBN): Promise<BookMetadata | null>;
+}
@@ -11,22 +11,49 @@
  * - Multi-entity state management
  * - Transaction boundaries
  * - Complex business rules (overdue fees)
+ * - Lending rules of the user's category (LendingPolicy)
  * - Immutable state changes
+ * - Loan history (a Loan is opened on borrow and closed on return)
+ * - Fee ledger (overdue fees are recorded as ledger charges)
+ * - Overdue fee accrual while a book is still out (daily overdue sweep)
  */
 
 import { User } from '../entities/User';
 import { Book } from '../entities/Book';
+import { Loan } from '../entities/Loan';
 import { IUserRepository } from '../repositories/IUserRepository';
 import { IBookRepository } from '../repositories/IBookRepository';
+import { ILoanRepository } from '../repositories/ILoanRepository';
+import { IFeeLedgerRepository } from '../repositories/IFeeLedgerRepository';
+import { FeeEntry } from '../entities/FeeEntry';
+import { FeeLedgerService } from './FeeLedgerService';
+import { LendingPolicyCatalog } from '../policies/LendingPolicyCatalog';
+import { Money } from '../valueObjects/Money';
+import { Clock } from './Clock';
+import { Result, ok, err } from '../errors/Result';
+import {
+  NotBorrowerError,
+  ReservationPendingError,
+  RenewalLimitReachedError,
+} from '../errors/BookErrors';
 
 /**
- * Result of a borrow/return operation
+ * Entities changed by a successful borrow/return/renew operation
  */
-export interface BorrowBookResult {
-  success: boolean;
-  error?: string;
-  updatedUser?: User;
-  updatedBook?: Book;
+export interface BorrowBookOutcome {
+  updatedUser: User;
+  updatedBook: Book;
+  loan: Loan;
+}
+
+/**
+ * Overdue fee accrued on a loan that is still open
+ */
+export interface OverdueAccrual {
+  updatedUser: User;
+  loan: Loan;
+  overdueDays: number;
+  charged: Money; // Charged by this accrual (zero if already charged)
 }
 
 /**
@@ -37,15 +64,17 @@ export interface BorrowBookResult {
  * - Validate book availability (domain logic)
  * - Coordinate entity state changes
  * - Calculate overdue fees (time-based business rule)
+ * - Enforce renewal rules (limit, pending reservations)
  * - Manage transaction boundaries
  */
 export class BorrowBookService {
-  // Business constant: Overdue fee per day (¥100)
-  static readonly OVERDUE_FEE_PER_DAY = 100;
-
   constructor(
     private readonly userRepository: IUserRepository,
-    private readonly bookRepository: IBookRepository
+    private readonly bookRepository: IBookRepository,
+    private readonly loanRepository: ILoanRepository,
+    private readonly feeLedgerRepository: IFeeLedgerRepository,
+    private readonly policies: LendingPolicyCatalog,
+    private readonly clock: Clock
   ) {}
 
   /**
@@ -53,59 +82,52 @@ export class BorrowBookService {
    *
    * Domain Logic Flow:
    * 1. Validate user eligibility (can borrow?)
-   * 2. Validate book availability (is available?)
+   * 2. Validate book availability (is available to this user?)
    * 3. Update user state (immutable)
    * 4. Update book state (immutable)
-   * 5. Persist both changes (transaction boundary)
+   * 5. Persist both changes and open a Loan (transaction boundary)
    *
    * @param user - User attempting to borrow
    * @param book - Book to be borrowed
-   * @returns Result with success status and updated entities
+   * @returns Updated entities, or the first broken rule (UserSuspended,
+   *   BorrowLimitReached, OutstandingFees, BookReserved, BookUnavailable)
    */
-  async execute(user: User, book: Book): Promise<BorrowBookResult> {
+  async execute(user: User, book: Book): Promise<Result<BorrowBookOutcome>> {
     // Step 1: Validate user eligibility (domain business rule)
-    if (!user.canBorrow()) {
-      const reasons: string[] = [];
-      if (user.status === 'SUSPENDED') {
-        reasons.push('account is suspended');
-      }
-      if (user.currentBorrowCount >= 5) {
-        reasons.push('maximum borrow limit reached (5 books)');
-      }
-      if (user.overdueFees > 0) {
-        reasons.push(`has overdue fees of ¥${user.overdueFees}`);
-      }
-
-      return {
-        success: false,
-        error: `User not eligible to borrow: ${reasons.join(', ')}`,
-      };
+    const policy = this.policies.forCategory(user.category);
+    const [ineligible] = user.ineligibilityReasons(policy);
+    if (ineligible) {
+      return err(ineligible);
     }
 
     // Step 2: Validate book availability (domain business rule)
-    if (!book.isAvailable()) {
-      return {
-        success: false,
-        error: `Book is not available (current status: ${book.status})`,
-      };
+    // A RESERVED book may only be borrowed by the patron it is held for
+    const unavailable = book.unavailabilityFor(user.id);
+    if (unavailable) {
+      return err(unavailable);
     }
 
     // Step 3: Update user state (immutable - from Lesson 2)
-    const updatedUser = user.borrowBook();
+    const updatedUser = user.borrowBook(policy);
 
     // Step 4: Update book state (immutable - from Lesson 2)
-    const updatedBook = book.borrow(user.id);
+    const updatedBook = book.borrow(user.id, policy.loanPeriodDays, this.clock);
 
     // Step 5: Persist both changes (transaction boundary)
-    // In production: wrap in database transaction for atomicity
+    // Atomicity comes from the IUnitOfWork the caller runs this service in
     await this.userRepository.save(updatedUser);
     await this.bookRepository.save(updatedBook);
 
-    return {
-      success: true,
-      updatedUser,
-      updatedBook,
-    };
+    const loan = Loan.open(
+      updatedBook.id,
+      user.id,
+      updatedBook.borrowedAt!,
+      updatedBook.dueDate!,
+      policy.currency
+    );
+    await this.loanRepository.save(loan);
+
+    return ok({ updatedUser, updatedBook, loan });
   }
 
   /**
@@ -114,47 +136,187 @@ export class BorrowBookService {
    * Domain Logic Flow:
    * 1. Validate ownership (borrowed by this user?)
    * 2. Calculate overdue fees if applicable
-   * 3. Update user state (decrement count + add fees if overdue)
+   * 3. Update user state (decrement count + charge fees to the ledger if overdue)
    * 4. Update book state (mark as available)
-   * 5. Persist both changes (transaction boundary)
+   * 5. Persist both changes and close the Loan (transaction boundary)
    *
    * @param user - User returning the book
    * @param book - Book being returned
-   * @returns Result with success status and updated entities
+   * @returns Updated entities, or NotBorrowerError
    */
-  async returnBook(user: User, book: Book): Promise<BorrowBookResult> {
+  async returnBook(user: User, book: Book): Promise<Result<BorrowBookOutcome>> {
     // Step 1: Validate ownership
     if (!book.borrowedBy || !book.borrowedBy.equals(user.id)) {
-      return {
-        success: false,
-        error: 'This book was not borrowed by this user',
-      };
+      return err(new NotBorrowerError(book.id, user.id));
     }
 
     // Step 2: Update user state (return book)
     let updatedUser = user.returnBook();
 
     // Step 3: Apply overdue fees if book is overdue (complex business rule)
-    if (book.isOverdue()) {
-      const overdueDays = book.getOverdueDays();
-      const overdueFee = overdueDays * BorrowBookService.OVERDUE_FEE_PER_DAY;
+    // Daily rate and cap come from the user's LendingPolicy; only the part
+    // the overdue sweep has not already accrued is still due
+    const overdueDays = book.getOverdueDays(this.clock);
+    const overdueFee = this.policies.forCategory(user.category).overdueFeeFor(overdueDays);
 
-      // Add fee to user (immutable operation)
-      updatedUser = updatedUser.addOverdueFee(overdueFee);
+    const openLoan = await this.findOpenLoan(book);
+    const feeDue = openLoan.unchargedFee(overdueFee);
+    const loan = openLoan.close(overdueFee, this.clock);
+
+    // Charge the fee to the user's ledger (balance is derived from it)
+    if (feeDue.isPositive()) {
+      const fees = new FeeLedgerService(this.feeLedgerRepository, this.clock);
+      const charged = await fees.charge(updatedUser, feeDue, {
+        reason: `Overdue fee: ${overdueDays} day(s) late`,
+        actor: FeeEntry.SYSTEM_ACTOR,
+        loanId: loan.id,
+        bookId: book.id,
+      });
+      if (!charged.ok) {
+        return charged;
+      }
+      updatedUser = charged.value.updatedUser;
     }
 
     // Step 4: Update book state (mark as returned)
-    const updatedBook = book.returnBook();
+    const updatedBook = book.returnBook(this.clock);
 
     // Step 5: Persist both changes (transaction boundary)
-    // In production: wrap in database transaction for atomicity
+    // Atomicity comes from the IUnitOfWork the caller runs this service in
     await this.userRepository.save(updatedUser);
     await this.bookRepository.save(updatedBook);
+    await this.loanRepository.save(loan);
+
+    return ok({ updatedUser, updatedBook, loan });
+  }
+
+  /**
+   * Charge the overdue fee a book has accrued while it is still out
+   *
+   * Domain Logic Flow:
+   * 1. Validate ownership (borrowed by this user?)
+   * 2. Calculate the overdue fee for the days late so far
+   * 3. Charge the part earlier accruals did not to the user's ledger
+   * 4. Persist the Loan, which remembers what was charged
+   *
+   * Idempotent: accruing again the same day charges nothing, and the
+   * fee charged on return (returnBook) is reduced by what was accrued.
+   * The caller persists the updated user in the same unit of work (so
+   * that several books of one user can be accrued before saving it).
+   *
+   * @param user - Borrower of the book
+   * @param book - Overdue book
+   * @returns Updated user and loan with the amount charged, or NotBorrowerError
+   */
+  async accrueOverdueFee(user: User, book: Book): Promise<Result<OverdueAccrual>> {
+    // Step 1: Validate ownership
+    if (!book.borrowedBy || !book.borrowedBy.equals(user.id)) {
+      return err(new NotBorrowerError(book.id, user.id));
+    }
+
+    // Step 2: Fee for the days late so far (daily rate and cap of the LendingPolicy)
+    const overdueDays = book.getOverdueDays(this.clock);
+    const overdueFee = this.policies.forCategory(user.category).overdueFeeFor(overdueDays);
+
+    const openLoan = await this.findOpenLoan(book);
+    const feeDue = openLoan.unchargedFee(overdueFee);
+    if (!feeDue.isPositive()) {
+      return ok({ updatedUser: user, loan: openLoan, overdueDays, charged: feeDue });
+    }
+
+    // Step 3: Charge it to the user's ledger
+    const fees = new FeeLedgerService(this.feeLedgerRepository, this.clock);
+    const charged = await fees.charge(user, feeDue, {
+      reason: `Overdue fee accrued: ${overdueDays} day(s) late`,
+      actor: FeeEntry.SYSTEM_ACTOR,
+      loanId: openLoan.id,
+      bookId: book.id,
+    });
+    if (!charged.ok) {
+      return charged;
+    }
+
+    // Step 4: Persist the loan (atomicity comes from the caller's IUnitOfWork)
+    const loan = openLoan.accrueFee(overdueFee, this.clock);
+    await this.loanRepository.save(loan);
+
+    return ok({ updatedUser: charged.value.updatedUser, loan, overdueDays, charged: feeDue });
+  }
+
+  /**
+   * Execute loan renewal operation
+   *
+   * Domain Logic Flow:
+   * 1. Validate ownership (borrowed by this user?)
+   * 2. Validate user eligibility (can borrow?)
+   * 3. Validate nobody is waiting for the book
+   * 4. Validate renewal limit
+   * 5. Extend due date by the policy's loan period (immutable) and persist
+   *
+   * @param user - User renewing the loan
+   * @param book - Book on loan
+   * @param hasPendingReservation - Whether another patron is waiting for the book
+   * @returns Updated book and loan, or the first broken rule (NotBorrower,
+   *   UserSuspended, BorrowLimitReached, OutstandingFees, ReservationPending,
+   *   RenewalLimitReached)
+   */
+  async renew(
+    user: User,
+    book: Book,
+    hasPendingReservation: boolean
+  ): Promise<Result<BorrowBookOutcome>> {
+    // Step 1: Validate ownership
+    if (!book.borrowedBy || !book.borrowedBy.equals(user.id)) {
+      return err(new NotBorrowerError(book.id, user.id));
+    }
+
+    // Step 2: Validate user eligibility (same rules as borrowing)
+    const policy = this.policies.forCategory(user.category);
+    const [ineligible] = user.ineligibilityReasons(policy);
+    if (ineligible) {
+      return err(ineligible);
+    }
+
+    // Step 3: A waiting patron takes precedence over a renewal
+    if (hasPendingReservation) {
+      return err(new ReservationPendingError(book.id));
+    }
+
+    // Step 4: Validate renewal limit
+    if (!book.canRenew()) {
+      return err(new RenewalLimitReachedError(book.id, Book.MAX_RENEWALS));
+    }
+
+    // Step 5: Extend due date and persist
+    const updatedBook = book.renew(policy.loanPeriodDays, this.clock);
+    await this.bookRepository.save(updatedBook);
+
+    const loan = (await this.findOpenLoan(book)).extendTo(updatedBook.dueDate!);
+    await this.loanRepository.save(loan);
+
+    return ok({ updatedUser: user, updatedBook, loan });
+  }
+
+  /**
+   * Find the open Loan of a borrowed book
+   *
+   * Books lent before loan history existed have no Loan record;
+   * one is opened from the book's borrow data so the history is complete.
+   * @private
+   */
+  private async findOpenLoan(book: Book): Promise<Loan> {
+    const loan = await this.loanRepository.findOpenByBook(book.id);
+    if (loan) {
+      return loan;
+    }
 
-    return {
-      success: true,
-      updatedUser,
-      updatedBook,
-    };
+    const borrowedAt = book.borrowedAt ?? this.clock.now();
+    return Loan.open(
+      book.id,
+      book.borrowedBy!,
+      borrowedAt,
+      book.dueDate ?? Book.defaultDueDate(borrowedAt),
+      this.policies.currency
+    );
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * Catalog Record Reader Interface
+ *
+ * Turns an exported catalog file (e.g. a spreadsheet or the MARC export
+ * of another library system) into one record per copy, read as a
+ * stream so that files of any size can be imported.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+export type CatalogFormat = 'csv' | 'marc' | 'marcxml';
+
+/**
+ * One copy described by a catalog file (values as found in the file)
+ */
+export interface CatalogRecord {
+  position: number; // Line (CSV) or record number (MARC) in the file, from 1
+  isbn: string;
+  title: string | null;
+  author: string | null;
+  barcode: string;
+}
+
+/**
+ * A record, or why the part of the file at a position could not be read
+ */
+export type CatalogEntry =
+  | { ok: true; record: CatalogRecord }
+  | { ok: false; position: number; reason: string };
+
+export interface CatalogRecordReader {
+  /**
+   * Read the records of a file
+   *
+   * A malformed record is reported as an entry and reading goes on
+   * with the next one.
+   *
+   * @param content - Raw file content, in chunks
+   * @returns The entries in file order
+   */
+  read(content: AsyncIterable<Uint8Array>): AsyncIterable<CatalogEntry>;
+}
@@ -0,0 +1,18 @@
+/**
+ * Clock Interface
+ *
+ * Abstracts "the current time" away from entities and services.
+ * Time-based business rules (borrow timestamps, overdue days, fees)
+ * ask the clock instead of calling new Date() directly, so they can be
+ * tested deterministically and replayed for back-dated operations.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+export interface Clock {
+  /**
+   * Get the current point in time
+   * @returns Date for the current instant
+   */
+  now(): Date;
+}
@@ -0,0 +1,28 @@
+/**
+ * Export Writer Interface
+ *
+ * Serializes exported rows (one per book or member) into a file format,
+ * chunk by chunk as the rows arrive, so an export of any size runs in
+ * constant memory.
+ *
+ * Implementations of this interface will be in the Infrastructure layer.
+ */
+
+export type ExportFormat = 'csv' | 'jsonl' | 'marcxml';
+
+/**
+ * Field value of an exported row (dates as ISO 8601 strings)
+ */
+export type ExportValue = string | number | null;
+
+export type ExportRow = Readonly<Record<string, ExportValue>>;
+
+export interface ExportWriter {
+  /**
+   * Serialize rows
+   * @param fields - Fields to write, in order (every row has them)
+   * @param rows - Rows in file order
+   * @returns The file content, in chunks
+   */
+  write(fields: string[], rows: AsyncIterable<ExportRow>): AsyncIterable<string>;
+}
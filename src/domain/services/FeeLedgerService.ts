@@ -0,0 +1,144 @@
+/**
+ * Fee Ledger Domain Service
+ *
+ * Records charges, payments and waivers as FeeLedger entries and keeps
+ * the user's balance (User.overdueFees) in step with the ledger.
+ *
+ * The caller persists the updated user in the same unit of work as the
+ * appended entry.
+ */
+
+import { User } from '../entities/User';
+import { FeeEntry, FeeEntryDetails, FeeEntryType } from '../entities/FeeEntry';
+import { FeeLedger } from '../entities/FeeLedger';
+import { IFeeLedgerRepository } from '../repositories/IFeeLedgerRepository';
+import { Money } from '../valueObjects/Money';
+import { Clock } from './Clock';
+import { Result, ok, err } from '../errors/Result';
+import { ValidationError } from '../errors/CommonErrors';
+import { AmountExceedsBalanceError } from '../errors/FeeErrors';
+
+/**
+ * Outcome of a successful fee ledger operation
+ */
+export interface FeeLedgerOutcome {
+  updatedUser: User;
+  entry: FeeEntry;
+}
+
+export class FeeLedgerService {
+  constructor(
+    private readonly feeLedgerRepository: IFeeLedgerRepository,
+    private readonly clock: Clock
+  ) {}
+
+  /**
+   * Load a user's ledger, balanced in the currency of the user's fees
+   *
+   * Fees owed before the ledger existed have no entries; they are
+   * carried over as an opening ADJUSTMENT so the ledger explains the
+   * whole balance.
+   */
+  async ledgerOf(user: User): Promise<FeeLedger> {
+    const ledger = (await this.feeLedgerRepository.findByUser(user.id)).inCurrency(
+      user.overdueFees.getCurrency()
+    );
+    if (!ledger.isEmpty() || !user.overdueFees.isPositive()) {
+      return ledger;
+    }
+
+    const opening = FeeEntry.adjustment(
+      user.id,
+      user.overdueFees,
+      { reason: 'Opening balance carried over to the fee ledger', actor: FeeEntry.SYSTEM_ACTOR },
+      this.clock
+    );
+    await this.feeLedgerRepository.append(opening);
+    return ledger.record(opening);
+  }
+
+  /**
+   * Charge a fee (e.g. overdue fee on return)
+   * @param user - User being charged
+   * @param amount - Fee amount (must be positive)
+   * @param details - Reason, actor and related loan/book
+   */
+  async charge(
+    user: User,
+    amount: Money,
+    details: FeeEntryDetails
+  ): Promise<Result<FeeLedgerOutcome>> {
+    if (!amount.isPositive()) {
+      return err(new ValidationError('amount', 'Fee amount must be positive'));
+    }
+
+    return this.record(user, FeeEntry.charge(user.id, amount, details, this.clock));
+  }
+
+  /**
+   * Record a payment
+   *
+   * Business Rules:
+   * - Amount must be positive
+   * - Amount cannot exceed the outstanding balance
+   */
+  async pay(
+    user: User,
+    amount: Money,
+    details: FeeEntryDetails
+  ): Promise<Result<FeeLedgerOutcome>> {
+    if (!amount.isPositive()) {
+      return err(new ValidationError('amount', 'Payment amount must be positive'));
+    }
+
+    const ledger = await this.ledgerOf(user);
+    if (amount.greaterThan(ledger.balance)) {
+      return err(new AmountExceedsBalanceError(FeeEntryType.PAYMENT, amount, ledger.balance));
+    }
+
+    return this.record(user, FeeEntry.payment(user.id, amount, details, this.clock), ledger);
+  }
+
+  /**
+   * Forgive (part of) the outstanding balance
+   *
+   * Business Rules:
+   * - Amount must be positive
+   * - Amount cannot exceed the outstanding balance
+   * - A reason is required (FeeEntry invariant)
+   */
+  async waive(
+    user: User,
+    amount: Money,
+    details: FeeEntryDetails
+  ): Promise<Result<FeeLedgerOutcome>> {
+    if (!amount.isPositive()) {
+      return err(new ValidationError('amount', 'Waiver amount must be positive'));
+    }
+    if (!details.reason || !details.reason.trim()) {
+      return err(new ValidationError('reason', 'A reason is required to waive fees'));
+    }
+
+    const ledger = await this.ledgerOf(user);
+    if (amount.greaterThan(ledger.balance)) {
+      return err(new AmountExceedsBalanceError(FeeEntryType.WAIVER, amount, ledger.balance));
+    }
+
+    return this.record(user, FeeEntry.waiver(user.id, amount, details, this.clock), ledger);
+  }
+
+  /**
+   * Append an entry and derive the user's new balance from the ledger
+   * @private
+   */
+  private async record(
+    user: User,
+    entry: FeeEntry,
+    ledger?: FeeLedger
+  ): Promise<Result<FeeLedgerOutcome>> {
+    const updatedLedger = (ledger ?? (await this.ledgerOf(user))).record(entry);
+    await this.feeLedgerRepository.append(entry);
+
+    return ok({ updatedUser: user.withFeeBalance(updatedLedger), entry });
+  }
+}
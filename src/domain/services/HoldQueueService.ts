@@ -0,0 +1,213 @@
+/**
+ * Hold Queue Domain Service
+ *
+ * Coordinates the reservation queue of a book (Hold aggregates) with
+ * the Book aggregate's RESERVED status:
+ * - Placing a hold on an AVAILABLE book reserves it immediately
+ * - Holds on a lent book wait in FIFO order
+ * - When the book becomes AVAILABLE again, the head of the queue is
+ *   made READY and the book is RESERVED for that patron
+ * - Cancelling or expiring a READY hold passes the book to the next patron
+ */
+
+import { User, UserStatus } from '../entities/User';
+import { Book, BookStatus } from '../entities/Book';
+import { Hold, HoldStatus } from '../entities/Hold';
+import { IBookRepository } from '../repositories/IBookRepository';
+import { IHoldRepository } from '../repositories/IHoldRepository';
+import { UserId } from '../valueObjects/UserId';
+import { Clock } from './Clock';
+import { Result, ok, err } from '../errors/Result';
+import { InvalidStateError } from '../errors/CommonErrors';
+import { UserSuspendedError } from '../errors/UserErrors';
+import { AlreadyBorrowedError, DuplicateHoldError, HoldNotOwnedError } from '../errors/HoldErrors';
+
+/**
+ * Aggregates changed by a successful hold operation
+ */
+export interface HoldOutcome {
+  hold: Hold;
+  book?: Book;
+}
+
+export class HoldQueueService {
+  constructor(
+    private readonly bookRepository: IBookRepository,
+    private readonly holdRepository: IHoldRepository,
+    private readonly clock: Clock
+  ) {}
+
+  /**
+   * Put a patron in the queue for a book
+   *
+   * Business Rules:
+   * - Suspended users cannot place holds
+   * - A patron cannot hold a book they currently have
+   * - A patron can have only one active hold per book
+   *
+   * @param user - Patron placing the hold
+   * @param book - Book to hold
+   * @returns The new hold and (possibly reserved) book, or the broken rule
+   */
+  async placeHold(user: User, book: Book): Promise<Result<HoldOutcome>> {
+    if (user.status === UserStatus.SUSPENDED) {
+      return err(new UserSuspendedError(user.id));
+    }
+
+    if (book.borrowedBy && book.borrowedBy.equals(user.id)) {
+      return err(new AlreadyBorrowedError(book.id, user.id));
+    }
+
+    const queue = await this.holdRepository.findActiveByBook(book.id);
+    if (queue.some((hold) => hold.userId.equals(user.id))) {
+      return err(new DuplicateHoldError(book.id, user.id));
+    }
+
+    let hold = Hold.create(book.id, user.id, this.clock);
+    let updatedBook = book;
+
+    // Nobody ahead and the book is on the shelf: reserve it right away
+    if (queue.length === 0 && book.isAvailable()) {
+      hold = hold.markReady(this.clock);
+      updatedBook = book.reserve(user.id, this.clock);
+      await this.bookRepository.save(updatedBook);
+    }
+
+    await this.holdRepository.save(hold);
+
+    return ok({ hold, book: updatedBook });
+  }
+
+  /**
+   * Remove a patron from the queue
+   *
+   * If the book was already reserved for them, it is passed on to the
+   * next patron in the queue (or back to the shelf).
+   *
+   * @param userId - Patron cancelling the hold
+   * @param hold - Hold to cancel
+   */
+  async cancelHold(userId: UserId, hold: Hold): Promise<Result<HoldOutcome>> {
+    if (!hold.userId.equals(userId)) {
+      return err(new HoldNotOwnedError(hold.id, userId));
+    }
+    if (!hold.isActive()) {
+      return err(
+        new InvalidStateError(
+          'Hold',
+          hold.id,
+          hold.status,
+          'cancel',
+          `Hold is no longer active (current status: ${hold.status})`
+        )
+      );
+    }
+
+    const cancelled = hold.cancel();
+    await this.holdRepository.save(cancelled);
+
+    const book =
+      hold.status === HoldStatus.READY
+        ? await this.releaseReservation(hold.bookId, hold.userId)
+        : await this.bookRepository.findById(hold.bookId);
+
+    return ok(book ? { hold: cancelled, book } : { hold: cancelled });
+  }
+
+  /**
+   * Expire a READY hold whose pickup window has passed
+   * and pass the book on to the next patron
+   */
+  async expireHold(hold: Hold): Promise<Result<HoldOutcome>> {
+    if (!hold.isPickupExpired(this.clock)) {
+      return err(
+        new InvalidStateError(
+          'Hold',
+          hold.id,
+          hold.status,
+          'expire',
+          'Hold pickup window has not expired'
+        )
+      );
+    }
+
+    const expired = hold.expire(this.clock);
+    await this.holdRepository.save(expired);
+
+    const book = await this.releaseReservation(hold.bookId, hold.userId);
+
+    return ok(book ? { hold: expired, book } : { hold: expired });
+  }
+
+  /**
+   * Reserve an AVAILABLE book for the head of its queue
+   *
+   * @param bookId - Book that has just become available
+   * @returns The book after the hand-over (RESERVED if someone was waiting)
+   */
+  async offerToNextHolder(bookId: string): Promise<Book | null> {
+    const book = await this.bookRepository.findById(bookId);
+    if (!book || !book.isAvailable()) {
+      return book;
+    }
+
+    const reservedBook = await this.reserveForNextHolder(book);
+    if (!reservedBook) {
+      return book;
+    }
+
+    await this.bookRepository.save(reservedBook);
+    return reservedBook;
+  }
+
+  /**
+   * Close the READY hold of a patron who just borrowed the reserved book
+   */
+  async fulfill(bookId: string, userId: UserId): Promise<void> {
+    const queue = await this.holdRepository.findActiveByBook(bookId);
+    const ready = queue.find(
+      (hold) => hold.status === HoldStatus.READY && hold.userId.equals(userId)
+    );
+
+    if (ready) {
+      await this.holdRepository.save(ready.fulfill());
+    }
+  }
+
+  /**
+   * Cancel the book's reservation for a patron and offer it to the next one
+   *
+   * The book is saved once, so the returned instance carries the events
+   * of both the cancellation and the new reservation.
+   * @private
+   */
+  private async releaseReservation(bookId: string, userId: UserId): Promise<Book | null> {
+    const book = await this.bookRepository.findById(bookId);
+    if (!book || book.status !== BookStatus.RESERVED || !book.reservedFor?.equals(userId)) {
+      return this.offerToNextHolder(bookId);
+    }
+
+    const released = book.cancelReservation(this.clock);
+    const updatedBook = (await this.reserveForNextHolder(released)) ?? released;
+    await this.bookRepository.save(updatedBook);
+
+    return updatedBook;
+  }
+
+  /**
+   * Make the first WAITING hold READY and reserve the (available) book for it
+   * @returns The reserved book, not saved yet (null if nobody is waiting)
+   * @private
+   */
+  private async reserveForNextHolder(book: Book): Promise<Book | null> {
+    const [next] = (await this.holdRepository.findActiveByBook(book.id)).filter(
+      (hold) => hold.status === HoldStatus.WAITING
+    );
+    if (!next) {
+      return null;
+    }
+
+    await this.holdRepository.save(next.markReady(this.clock));
+    return book.reserve(next.userId, this.clock);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Barcode Value Object
+ *
+ * Identifies one physical copy of a title on the shelf.
+ * Printed on the copy's label, so it is unique per copy (unlike ISBN,
+ * which is shared by every copy of the same title).
+ *
+ * Key Characteristics:
+ * - Immutable by design
+ * - Self-validating (4-32 letters, digits or hyphens)
+ * - Normalized to upper case, so scanner and keyboard input compare equal
+ */
+
+import { InvalidBarcodeError } from '../errors/ValueErrors';
+
+export class Barcode {
+  private readonly value: string;
+
+  private constructor(value: string) {
+    this.value = value;
+  }
+
+  /**
+   * Create a Barcode from scanned or typed input
+   * @param value - Barcode text (surrounding whitespace is ignored)
+   * @returns Barcode instance
+   * @throws InvalidBarcodeError if value is not 4-32 letters, digits or hyphens
+   */
+  static create(value: string): Barcode {
+    const normalized = (value ?? '').trim().toUpperCase();
+    if (!/^[A-Z0-9-]{4,32}$/.test(normalized)) {
+      throw new InvalidBarcodeError(value);
+    }
+    return new Barcode(normalized);
+  }
+
+  /**
+   * Barcode of a string if it is one, null otherwise
+   */
+  static parse(value: string): Barcode | null {
+    try {
+      return Barcode.create(value);
+    } catch (error) {
+      if (error instanceof InvalidBarcodeError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the string value of this Barcode
+   */
+  getValue(): string {
+    return this.value;
+  }
+
+  /**
+   * Compare this Barcode with another for equality
+   */
+  equals(other: Barcode): boolean {
+    return this.value === other.value;
+  }
+
+  /**
+   * String representation
+   */
+  toString(): string {
+    return this.value;
+  }
+}
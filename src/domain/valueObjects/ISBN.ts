@@ -3,20 +3,44 @@
  *
  * Represents an ISBN (International Standard Book Number) with validation.
  * Supports both ISBN-10 and ISBN-13 formats.
+ *
+ * The value is always held in its canonical ISBN-13 form, so the same
+ * edition is stored and found under one key whichever form was typed
+ * (0-306-40615-2 and 978-0-306-40615-7 are equal).
  */
+import { InvalidIsbnError } from '../errors/ValueErrors';
+import { splitISBN13 } from './isbnRanges';
+
 export class ISBN {
-  private readonly value: string;
+  private readonly value: string; // Canonical ISBN-13 (digits only)
 
   constructor(value: string) {
     const cleaned = this.cleanISBN(value);
 
     if (!this.isValid(cleaned)) {
-      throw new Error('Invalid ISBN format');
+      throw new InvalidIsbnError(value);
     }
 
-    this.value = cleaned;
+    this.value = cleaned.length === 10 ? ISBN.toISBN13Digits(cleaned) : cleaned;
+  }
+
+  /**
+   * ISBN of a string if it is one (hyphens and spaces allowed), null otherwise
+   */
+  static parse(value: string): ISBN | null {
+    try {
+      return new ISBN(value);
+    } catch (error) {
+      if (error instanceof InvalidIsbnError) {
+        return null;
+      }
+      throw error;
+    }
   }
 
+  /**
+   * Canonical form (ISBN-13, digits only), used as the storage key
+   */
   getValue(): string {
     return this.value;
   }
@@ -25,9 +49,43 @@ export class ISBN {
     return this.value === other.value;
   }
 
+  toISBN13(): string {
+    return this.value;
+  }
+
+  /**
+   * ISBN-10 form (digits only), null for 979-prefixed ISBNs, which have none
+   */
+  toISBN10(): string | null {
+    if (!this.value.startsWith('978')) {
+      return null;
+    }
+    const body = this.value.slice(3, 12);
+    return body + ISBN.isbn10CheckDigit(body);
+  }
+
+  /**
+   * Hyphenated ISBN-13, e.g. "978-4-87311-565-8"
+   */
+  format(): string {
+    return splitISBN13(this.value).join('-');
+  }
+
+  /**
+   * Hyphenated ISBN-10, e.g. "4-87311-565-5"; null where there is no ISBN-10
+   */
+  formatISBN10(): string | null {
+    const isbn10 = this.toISBN10();
+    if (!isbn10) {
+      return null;
+    }
+    const [, ...elements] = splitISBN13(this.value);
+    return [...elements.slice(0, -1), isbn10.slice(9)].join('-');
+  }
+
   private cleanISBN(isbn: string): string {
     // Remove hyphens and spaces
-    return isbn.replace(/[-\s]/g, '');
+    return isbn.replace(/[-\s]/g, '').toUpperCase();
   }
 
   private isValid(isbn: string): boolean {
@@ -44,17 +102,8 @@ export class ISBN {
    * Validate ISBN-10 format with check digit
    */
   private validateISBN10(isbn: string): boolean {
-    let sum = 0;
-    for (let i = 0; i < 9; i++) {
-      const char = isbn[i];
-      if (!/^\d$/.test(char)) return false;
-      sum += parseInt(char) * (10 - i);
-    }
-
-    const lastChar = isbn[9];
-    sum += lastChar === 'X' ? 10 : parseInt(lastChar);
-
-    return sum % 11 === 0;
+    const body = isbn.slice(0, 9);
+    return /^\d{9}$/.test(body) && ISBN.isbn10CheckDigit(body) === isbn[9];
   }
 
   /**
@@ -66,16 +115,40 @@ export class ISBN {
       return false;
     }
 
+    const body = isbn.slice(0, 12);
+    return /^\d{12}$/.test(body) && ISBN.isbn13CheckDigit(body) === isbn[12];
+  }
+
+  /**
+   * ISBN-13 of a valid ISBN-10: 978 prefix and a recomputed check digit
+   */
+  private static toISBN13Digits(isbn10: string): string {
+    const body = `978${isbn10.slice(0, 9)}`;
+    return body + ISBN.isbn13CheckDigit(body);
+  }
+
+  /**
+   * Check digit of the first 9 digits of an ISBN-10 (weights 10..2, mod 11)
+   */
+  private static isbn10CheckDigit(body: string): string {
+    let sum = 0;
+    for (let i = 0; i < 9; i++) {
+      sum += Number(body.charAt(i)) * (10 - i);
+    }
+    const check = (11 - (sum % 11)) % 11;
+    return check === 10 ? 'X' : String(check);
+  }
+
+  /**
+   * Check digit of the first 12 digits of an ISBN-13 (weights 1 and 3, mod 10)
+   */
+  private static isbn13CheckDigit(body: string): string {
     let sum = 0;
     for (let i = 0; i < 12; i++) {
-      const char = isbn[i];
-      if (!/^\d$/.test(char)) return false;
-      const digit = parseInt(char);
+      const digit = Number(body.charAt(i));
       sum += i % 2 === 0 ? digit : digit * 3;
     }
-
-    const checkDigit = (10 - (sum % 10)) % 10;
-    return checkDigit === parseInt(isbn[12]);
+    return String((10 - (sum % 10)) % 10);
   }
 
   toString(): string {
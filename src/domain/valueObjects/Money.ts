@@ -0,0 +1,156 @@
+/**
+ * Money Value Object
+ *
+ * An amount of money in integer minor units of an ISO 4217 currency
+ * (e.g. 600 JPY = ¥600, 1250 USD = $12.50). Integers avoid the rounding
+ * drift of floating-point arithmetic on fees.
+ *
+ * Key Characteristics:
+ * - Immutable by design (arithmetic returns new instances)
+ * - Self-validating (integer minor units, supported currency)
+ * - Amounts in different currencies cannot be combined or compared
+ */
+
+import { ValidationError } from '../errors/CommonErrors';
+import { CurrencyMismatchError } from '../errors/ValueErrors';
+
+/**
+ * Number of minor-unit digits and display symbol per supported currency
+ */
+const CURRENCIES: Record<string, { exponent: number; symbol: string }> = {
+  JPY: { exponent: 0, symbol: '¥' },
+  USD: { exponent: 2, symbol: '$' },
+  EUR: { exponent: 2, symbol: '€' },
+  GBP: { exponent: 2, symbol: '£' },
+};
+
+export class Money {
+  // Currency the library charges fees in
+  static readonly DEFAULT_CURRENCY = 'JPY';
+
+  private constructor(
+    private readonly minorUnits: number,
+    private readonly currency: string
+  ) {}
+
+  /**
+   * Create Money from an amount in minor units
+   * @param minorUnits - Integer amount in the currency's smallest unit
+   * @param currency - ISO 4217 code (defaults to DEFAULT_CURRENCY)
+   * @throws ValidationError if the amount is not an integer or the currency is unsupported
+   */
+  static of(minorUnits: number, currency: string = Money.DEFAULT_CURRENCY): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new ValidationError(
+        'amount',
+        `Money amount must be an integer number of minor units: ${minorUnits}`
+      );
+    }
+    const code = (currency ?? '').toUpperCase();
+    if (!CURRENCIES[code]) {
+      throw new ValidationError('currency', `Unsupported currency: ${currency}`);
+    }
+    return new Money(minorUnits === 0 ? 0 : minorUnits, code);
+  }
+
+  /**
+   * Zero amount of a currency
+   */
+  static zero(currency: string = Money.DEFAULT_CURRENCY): Money {
+    return Money.of(0, currency);
+  }
+
+  getMinorUnits(): number {
+    return this.minorUnits;
+  }
+
+  getCurrency(): string {
+    return this.currency;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * @param factor - Integer multiplier (e.g. number of overdue days)
+   */
+  multiply(factor: number): Money {
+    if (!Number.isInteger(factor)) {
+      throw new ValidationError('factor', `Money can only be multiplied by an integer: ${factor}`);
+    }
+    return Money.of(this.minorUnits * factor, this.currency);
+  }
+
+  negate(): Money {
+    return Money.of(-this.minorUnits, this.currency);
+  }
+
+  abs(): Money {
+    return Money.of(Math.abs(this.minorUnits), this.currency);
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  /**
+   * @returns Negative if less than other, 0 if equal, positive if greater
+   */
+  compareTo(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minorUnits - other.minorUnits;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  /**
+   * Human-readable amount with currency symbol, e.g. "¥1,200" or "-$3.50"
+   */
+  format(): string {
+    const { exponent, symbol } = CURRENCIES[this.currency]!;
+    const major = Math.abs(this.minorUnits) / 10 ** exponent;
+    const digits = major.toLocaleString('en-US', {
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
+    });
+    return `${this.minorUnits < 0 ? '-' : ''}${symbol}${digits}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * @private
+   */
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new CurrencyMismatchError(this.currency, other.currency);
+    }
+  }
+}
@@ -11,6 +11,8 @@
  * - Can be compared by value
  */
 
+import { InvalidUserIdError } from '../errors/ValueErrors';
+
 export class UserId {
   private readonly value: string;
 
@@ -22,11 +24,11 @@ export class UserId {
    * Create a UserId from an existing value
    * @param value - 8-digit string
    * @returns UserId instance
-   * @throws Error if value is not 8 digits
+   * @throws InvalidUserIdError if value is not 8 digits
    */
   static create(value: string): UserId {
     if (!value || value.length !== 8 || !/^\d{8}$/.test(value)) {
-      throw new Error('UserId must be exactly 8 digits');
+      throw new InvalidUserIdError(value);
     }
     return new UserId(value);
   }
@@ -0,0 +1,101 @@
+/**
+ * ISBN Range Table
+ *
+ * Subset of the International ISBN Agency's range message used to
+ * hyphenate ISBNs: the registration groups of the 978 and 979 prefixes,
+ * and the complete registrant ranges of a few groups. Each range is
+ * written as "first-last" over the leading digits it covers; the number
+ * of digits is the length of the element.
+ *
+ * Groups without registrant ranges here keep the registrant and
+ * publication elements together (e.g. 978-1-xxxxxxx-c, 978-89-xxxxxxx-c):
+ * a partial table would split some ISBNs at the wrong digit. Add a group
+ * only with all of its ranges.
+ */
+
+const GROUP_RANGES: Record<string, string[]> = {
+  '978': ['0-5', '600-649', '65-65', '7-7', '80-94', '950-989', '9900-9989', '99900-99999'],
+  '979': ['10-12', '8-8'],
+};
+
+const REGISTRANT_RANGES: Record<string, string[]> = {
+  // English language (US publishers)
+  '978-0': [
+    '00-19',
+    '200-227',
+    '2280-2289',
+    '229-368',
+    '3690-3699',
+    '370-638',
+    '6390-6397',
+    '6398000-6399999',
+    '640-644',
+    '6450000-6459999',
+    '646-647',
+    '6480000-6489999',
+    '649-654',
+    '6550-6559',
+    '656-699',
+    '7000-8499',
+    '85000-89999',
+    '900000-949999',
+    '9500000-9999999',
+  ],
+  // German language
+  '978-3': [
+    '00-02',
+    '030-033',
+    '0340-0369',
+    '03700-03999',
+    '04-19',
+    '200-699',
+    '7000-8499',
+    '85000-89999',
+    '900000-949999',
+    '9500000-9539999',
+    '95400-96999',
+    '9700000-9849999',
+    '98500-99999',
+  ],
+  // Japan
+  '978-4': ['00-19', '200-699', '7000-8499', '85000-89999', '900000-949999', '9500000-9999999'],
+};
+
+/**
+ * Split an ISBN-13 into its elements
+ * @param isbn13 - 13 digits
+ * @returns [prefix, group, registrant, publication, check digit], or fewer
+ *   middle elements where the ranges are unknown
+ */
+export function splitISBN13(isbn13: string): string[] {
+  const prefix = isbn13.slice(0, 3);
+  const body = isbn13.slice(3, 12);
+  const check = isbn13.slice(12);
+
+  const group = matchRange(body, GROUP_RANGES[prefix]);
+  if (!group) {
+    return [prefix, body, check];
+  }
+
+  const rest = body.slice(group.length);
+  const registrant = matchRange(rest, REGISTRANT_RANGES[`${prefix}-${group}`]);
+  if (!registrant || registrant.length >= rest.length) {
+    return [prefix, group, rest, check];
+  }
+
+  return [prefix, group, registrant, rest.slice(registrant.length), check];
+}
+
+/**
+ * Leading digits of `digits` that fall in one of the ranges
+ */
+function matchRange(digits: string, ranges: string[] | undefined): string | null {
+  for (const range of ranges ?? []) {
+    const [first = '', last = ''] = range.split('-');
+    const candidate = digits.slice(0, first.length);
+    if (candidate >= first && candidate <= last) {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,122 @@
+/// <reference types="node" />
+/**
+ * File Lending Policy Loader
+ *
+ * Builds the LendingPolicyCatalog from a JSON config file
+ * (default: config/lending-policies.json).
+ *
+ * Format:
+ * ```json
+ * {
+ *   "currency": "JPY",
+ *   "categories": {
+ *     "ADULT": {
+ *       "maxBorrowLimit": 5,
+ *       "loanPeriodDays": 14,
+ *       "dailyOverdueFee": 100,
+ *       "overdueFeeCap": 3000,
+ *       "feeThreshold": 0
+ *     }
+ *   }
+ * }
+ * ```
+ * Amounts are integer minor units of the currency. Every MemberCategory
+ * must have an entry; the file is rejected otherwise.
+ */
+
+import { readFileSync } from 'node:fs';
+import { LendingPolicy } from '../../domain/policies/LendingPolicy';
+import { LendingPolicyCatalog } from '../../domain/policies/LendingPolicyCatalog';
+import { MemberCategory } from '../../domain/entities/User';
+import { Money } from '../../domain/valueObjects/Money';
+
+export class FileLendingPolicyLoader {
+  static readonly DEFAULT_PATH = 'config/lending-policies.json';
+
+  constructor(private readonly path: string = FileLendingPolicyLoader.DEFAULT_PATH) {}
+
+  /**
+   * Read and validate the config file
+   * @throws Error naming the file if it is missing, malformed or incomplete
+   */
+  load(): LendingPolicyCatalog {
+    try {
+      return this.parse(JSON.parse(readFileSync(this.path, 'utf8')));
+    } catch (error) {
+      throw new Error(
+        `Invalid lending policy config ${this.path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Build the catalog from parsed JSON
+   * @private
+   */
+  private parse(config: unknown): LendingPolicyCatalog {
+    if (!isObject(config)) {
+      throw new Error('Config must be an object');
+    }
+    const currency = config['currency'] ?? Money.DEFAULT_CURRENCY;
+    if (typeof currency !== 'string') {
+      throw new Error('"currency" must be a string');
+    }
+    const categories = config['categories'];
+    if (!isObject(categories)) {
+      throw new Error('"categories" must be an object');
+    }
+
+    const policies = new Map<MemberCategory, LendingPolicy>();
+    for (const [name, settings] of Object.entries(categories)) {
+      if (!isMemberCategory(name)) {
+        throw new Error(`Unknown member category: ${name}`);
+      }
+      try {
+        policies.set(name, this.parsePolicy(settings, currency));
+      } catch (error) {
+        throw new Error(`${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return LendingPolicyCatalog.create(policies);
+  }
+
+  /**
+   * Build the policy of one category
+   * @private
+   */
+  private parsePolicy(settings: unknown, currency: string): LendingPolicy {
+    if (!isObject(settings)) {
+      throw new Error('Policy must be an object');
+    }
+    const setting = (key: string, fallback?: number): number => {
+      const value = settings[key] ?? fallback;
+      if (typeof value !== 'number') {
+        throw new Error(`"${key}" must be a number`);
+      }
+      return value;
+    };
+
+    return LendingPolicy.create({
+      maxBorrowLimit: setting('maxBorrowLimit'),
+      loanPeriodDays: setting('loanPeriodDays'),
+      dailyOverdueFee: Money.of(setting('dailyOverdueFee'), currency),
+      overdueFeeCap: Money.of(setting('overdueFeeCap'), currency),
+      feeThreshold: Money.of(setting('feeThreshold', 0), currency),
+    });
+  }
+}
+
+/**
+ * Whether a parsed JSON value is a (non-array) object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a config key names a MemberCategory
+ */
+function isMemberCategory(name: string): name is MemberCategory {
+  return (Object.values(MemberCategory) as string[]).includes(name);
+}
@@ -0,0 +1,47 @@
+/**
+ * Book Lookup Projection Interface
+ *
+ * Read model of the event-sourced books: the barcode, ISBN and status of
+ * each book, updated whenever its stream is appended to. Lets
+ * EventSourcedBookRepository find books by these fields without
+ * replaying every stream.
+ */
+
+/**
+ * Projected fields of one book
+ */
+export interface BookLookupEntry {
+  bookId: string;
+  barcode: string;
+  isbn: string;
+  status: string;
+  createdAt: Date;
+}
+
+/**
+ * Fields to match (omitted fields match every book)
+ */
+export interface BookLookupFilter {
+  barcodes?: string[];
+  isbns?: string[];
+  status?: string;
+}
+
+export interface IBookLookup {
+  /**
+   * Insert or replace a book's entry
+   * @throws Error if another book has the same barcode
+   */
+  put(entry: BookLookupEntry): Promise<void>;
+
+  /**
+   * Remove a book's entry (no-op if there is none)
+   */
+  remove(bookId: string): Promise<void>;
+
+  /**
+   * IDs of the books matching a filter
+   * @returns Book IDs, most recently registered first
+   */
+  findIds(filter: BookLookupFilter): Promise<string[]>;
+}
@@ -0,0 +1,66 @@
+/**
+ * Event Store Interface
+ *
+ * Append-only storage of event streams, one stream per event-sourced
+ * aggregate. A stream's version is the number of events it holds.
+ */
+
+import { LibraryEvent } from '../../domain/events/LibraryEvent';
+
+/**
+ * State of a stream as of a version, to shorten replays
+ */
+export interface StreamSnapshot {
+  streamId: string;
+  streamType: string; // Aggregate type (e.g. "Book")
+  version: number; // Number of events the state includes
+  state: Readonly<Record<string, unknown>>; // JSON-compatible aggregate state
+}
+
+export interface IEventStore {
+  /**
+   * Append events to a stream (creating it if expectedVersion is 0)
+   * @param streamType - Aggregate type (e.g. "Book")
+   * @param streamId - Aggregate ID
+   * @param expectedVersion - Stream version the events were recorded against
+   * @param events - Events in recorded order (may be empty)
+   * @returns The stream's new version
+   * @throws ConcurrencyConflictError if the stream's version differs
+   */
+  append(
+    streamType: string,
+    streamId: string,
+    expectedVersion: number,
+    events: readonly LibraryEvent[]
+  ): Promise<number>;
+
+  /**
+   * Read a stream's events in recorded order
+   * @param streamId - Aggregate ID
+   * @param afterVersion - Skip the events up to this version (e.g. a snapshot's)
+   * @returns Events (empty if the stream does not exist)
+   */
+  readStream(streamId: string, afterVersion?: number): Promise<LibraryEvent[]>;
+
+  /**
+   * IDs of all streams of an aggregate type
+   */
+  findStreamIds(streamType: string): Promise<string[]>;
+
+  /**
+   * Latest snapshot of a stream
+   * @returns Snapshot if one was taken, null otherwise
+   */
+  loadSnapshot(streamId: string): Promise<StreamSnapshot | null>;
+
+  /**
+   * Replace a stream's snapshot
+   */
+  saveSnapshot(snapshot: StreamSnapshot): Promise<void>;
+
+  /**
+   * Remove a stream and its snapshot
+   * @throws Error if the stream does not exist
+   */
+  deleteStream(streamId: string): Promise<void>;
+}
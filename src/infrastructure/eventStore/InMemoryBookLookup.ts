@@ -0,0 +1,37 @@
+/**
+ * In-Memory Book Lookup Implementation
+ *
+ * Concrete implementation of IBookLookup backed by a Map. Intended for
+ * tests and local runs without a database.
+ */
+
+import { IBookLookup, BookLookupEntry, BookLookupFilter } from './IBookLookup';
+
+export class InMemoryBookLookup implements IBookLookup {
+  private readonly entries = new Map<string, BookLookupEntry>();
+
+  async put(entry: BookLookupEntry): Promise<void> {
+    for (const other of this.entries.values()) {
+      if (other.bookId !== entry.bookId && other.barcode === entry.barcode) {
+        throw new Error(`Unique constraint failed on barcode: ${entry.barcode}`);
+      }
+    }
+    this.entries.set(entry.bookId, { ...entry });
+  }
+
+  async remove(bookId: string): Promise<void> {
+    this.entries.delete(bookId);
+  }
+
+  async findIds(filter: BookLookupFilter): Promise<string[]> {
+    return [...this.entries.values()]
+      .filter(
+        (entry) =>
+          (!filter.barcodes || filter.barcodes.includes(entry.barcode)) &&
+          (!filter.isbns || filter.isbns.includes(entry.isbn)) &&
+          (!filter.status || filter.status === entry.status)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((entry) => entry.bookId);
+  }
+}
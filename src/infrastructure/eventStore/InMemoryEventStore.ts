@@ -0,0 +1,63 @@
+/**
+ * In-Memory Event Store Implementation
+ *
+ * Concrete implementation of IEventStore backed by Maps. Intended for
+ * tests and local runs without a database.
+ */
+
+import { IEventStore, StreamSnapshot } from './IEventStore';
+import { LibraryEvent } from '../../domain/events/LibraryEvent';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+
+interface Stream {
+  streamType: string;
+  events: LibraryEvent[];
+}
+
+export class InMemoryEventStore implements IEventStore {
+  private readonly streams = new Map<string, Stream>();
+  private readonly snapshots = new Map<string, StreamSnapshot>();
+
+  async append(
+    streamType: string,
+    streamId: string,
+    expectedVersion: number,
+    events: readonly LibraryEvent[]
+  ): Promise<number> {
+    const stream = this.streams.get(streamId) ?? { streamType, events: [] };
+    if (stream.events.length !== expectedVersion) {
+      throw new ConcurrencyConflictError(streamType, streamId, expectedVersion);
+    }
+
+    stream.events.push(...events);
+    if (stream.events.length > 0) {
+      this.streams.set(streamId, stream);
+    }
+    return stream.events.length;
+  }
+
+  async readStream(streamId: string, afterVersion = 0): Promise<LibraryEvent[]> {
+    return this.streams.get(streamId)?.events.slice(afterVersion) ?? [];
+  }
+
+  async findStreamIds(streamType: string): Promise<string[]> {
+    return [...this.streams.entries()]
+      .filter(([, stream]) => stream.streamType === streamType)
+      .map(([streamId]) => streamId);
+  }
+
+  async loadSnapshot(streamId: string): Promise<StreamSnapshot | null> {
+    return this.snapshots.get(streamId) ?? null;
+  }
+
+  async saveSnapshot(snapshot: StreamSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.streamId, snapshot);
+  }
+
+  async deleteStream(streamId: string): Promise<void> {
+    if (!this.streams.delete(streamId)) {
+      throw new Error(`Stream not found: ${streamId}`);
+    }
+    this.snapshots.delete(streamId);
+  }
+}
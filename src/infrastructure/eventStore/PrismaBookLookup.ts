@@ -0,0 +1,50 @@
+/**
+ * Prisma Book Lookup Implementation
+ *
+ * Concrete implementation of IBookLookup on the book_lookup table. Bound
+ * to the same transaction client as the event store, the projection
+ * commits together with the events it reflects. The unique barcode index
+ * rejects a second book with a barcode even under concurrent registrations.
+ */
+
+import { IBookLookup, BookLookupEntry, BookLookupFilter } from './IBookLookup';
+import { BookStatus, Prisma, PrismaClient } from '@prisma/client';
+
+export class PrismaBookLookup implements IBookLookup {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async put(entry: BookLookupEntry): Promise<void> {
+    const data = {
+      barcode: entry.barcode,
+      isbn: entry.isbn,
+      status: entry.status as BookStatus,
+      createdAt: entry.createdAt,
+    };
+
+    await this.prisma.bookLookup.upsert({
+      where: { bookId: entry.bookId },
+      create: { bookId: entry.bookId, ...data },
+      update: data,
+    });
+  }
+
+  async remove(bookId: string): Promise<void> {
+    await this.prisma.bookLookup.deleteMany({
+      where: { bookId },
+    });
+  }
+
+  async findIds(filter: BookLookupFilter): Promise<string[]> {
+    const records = await this.prisma.bookLookup.findMany({
+      where: {
+        ...(filter.barcodes && { barcode: { in: filter.barcodes } }),
+        ...(filter.isbns && { isbn: { in: filter.isbns } }),
+        ...(filter.status && { status: filter.status as BookStatus }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { bookId: 'asc' }],
+      select: { bookId: true },
+    });
+
+    return records.map((record) => record.bookId);
+  }
+}
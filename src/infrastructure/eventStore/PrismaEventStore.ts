@@ -0,0 +1,137 @@
+/**
+ * Prisma Event Store Implementation
+ *
+ * Concrete implementation of IEventStore on the stored_events and
+ * stream_snapshots tables. The unique (stream_id, version) index makes
+ * concurrent appends to the same stream conflict. Appended events are
+ * also written to the outbox, in the same transaction when the store is
+ * bound to one, like the events of the table-backed repositories.
+ */
+
+import { IEventStore, StreamSnapshot } from './IEventStore';
+import { LibraryEvent } from '../../domain/events/LibraryEvent';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { appendToOutbox } from '../outbox/PrismaOutbox';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// Event fields holding dates (stored as ISO strings in the JSON payload)
+const DATE_FIELDS = ['occurredAt', 'dueDate'];
+
+export class PrismaEventStore implements IEventStore {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async append(
+    streamType: string,
+    streamId: string,
+    expectedVersion: number,
+    events: readonly LibraryEvent[]
+  ): Promise<number> {
+    const { _max } = await this.prisma.storedEvent.aggregate({
+      where: { streamId },
+      _max: { version: true },
+    });
+    if ((_max.version ?? 0) !== expectedVersion) {
+      throw new ConcurrencyConflictError(streamType, streamId, expectedVersion);
+    }
+
+    try {
+      await this.prisma.storedEvent.createMany({
+        data: events.map((event, index) => ({
+          id: event.eventId,
+          streamType,
+          streamId,
+          version: expectedVersion + index + 1,
+          eventType: event.type,
+          payload: JSON.parse(JSON.stringify(event)) as Prisma.InputJsonObject,
+          occurredAt: event.occurredAt,
+        })),
+      });
+    } catch (error) {
+      // Another writer appended the same versions first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConcurrencyConflictError(streamType, streamId, expectedVersion);
+      }
+      throw error;
+    }
+
+    await appendToOutbox(this.prisma, streamType, events);
+    return expectedVersion + events.length;
+  }
+
+  async readStream(streamId: string, afterVersion = 0): Promise<LibraryEvent[]> {
+    const records = await this.prisma.storedEvent.findMany({
+      where: { streamId, version: { gt: afterVersion } },
+      orderBy: { version: 'asc' },
+    });
+
+    return records.map((record) => this.toEvent(record.payload as Record<string, unknown>));
+  }
+
+  async findStreamIds(streamType: string): Promise<string[]> {
+    const records = await this.prisma.storedEvent.findMany({
+      where: { streamType, version: 1 },
+      select: { streamId: true },
+    });
+
+    return records.map((record) => record.streamId);
+  }
+
+  async loadSnapshot(streamId: string): Promise<StreamSnapshot | null> {
+    const record = await this.prisma.streamSnapshot.findUnique({
+      where: { streamId },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return {
+      streamId: record.streamId,
+      streamType: record.streamType,
+      version: record.version,
+      state: record.state as Record<string, unknown>,
+    };
+  }
+
+  async saveSnapshot(snapshot: StreamSnapshot): Promise<void> {
+    const data = {
+      streamType: snapshot.streamType,
+      version: snapshot.version,
+      state: snapshot.state as Prisma.InputJsonObject,
+    };
+
+    await this.prisma.streamSnapshot.upsert({
+      where: { streamId: snapshot.streamId },
+      create: { streamId: snapshot.streamId, ...data },
+      update: data,
+    });
+  }
+
+  async deleteStream(streamId: string): Promise<void> {
+    const { count } = await this.prisma.storedEvent.deleteMany({
+      where: { streamId },
+    });
+    if (count === 0) {
+      throw new Error(`Stream not found: ${streamId}`);
+    }
+
+    await this.prisma.streamSnapshot.deleteMany({
+      where: { streamId },
+    });
+  }
+
+  /**
+   * Event with its date fields revived from the JSON payload
+   * @private
+   */
+  private toEvent(payload: Record<string, unknown>): LibraryEvent {
+    const event: Record<string, unknown> = { ...payload };
+    for (const field of DATE_FIELDS) {
+      const value = event[field];
+      if (typeof value === 'string') {
+        event[field] = new Date(value);
+      }
+    }
+    return event as unknown as LibraryEvent;
+  }
+}
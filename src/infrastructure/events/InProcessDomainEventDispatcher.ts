@@ -0,0 +1,62 @@
+/**
+ * In-Process Domain Event Dispatcher
+ *
+ * Implementation of IDomainEventDispatcher that calls subscribers
+ * directly, in the same process and in subscription order.
+ *
+ * Handlers run after the use case's changes are saved, so a failing
+ * handler cannot undo them: its error is reported to onHandlerError
+ * and the remaining handlers still run.
+ */
+
+import {
+  IDomainEventDispatcher,
+  DomainEventHandler,
+} from '../../domain/events/IDomainEventDispatcher';
+import { DomainEventType } from '../../domain/events/DomainEvent';
+import { LibraryEvent, EventOfType } from '../../domain/events/LibraryEvent';
+
+/**
+ * Called when a handler throws or rejects
+ */
+export type HandlerErrorReporter = (error: unknown, event: LibraryEvent) => void;
+
+export class InProcessDomainEventDispatcher implements IDomainEventDispatcher {
+  private readonly handlers = new Map<DomainEventType, DomainEventHandler<LibraryEvent>[]>();
+
+  /**
+   * @param onHandlerError - Reports handler failures (default: console.error)
+   */
+  constructor(
+    private readonly onHandlerError: HandlerErrorReporter = (error, event) =>
+      console.error(`Handler for ${event.type} ${event.eventId} failed:`, error)
+  ) {}
+
+  subscribe<TType extends DomainEventType>(
+    type: TType,
+    handler: DomainEventHandler<EventOfType<TType>>
+  ): () => void {
+    // Only events of this type are delivered to the handler (see dispatch)
+    const registered = handler as DomainEventHandler<LibraryEvent>;
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), registered]);
+
+    return () => {
+      this.handlers.set(
+        type,
+        (this.handlers.get(type) ?? []).filter((candidate) => candidate !== registered)
+      );
+    };
+  }
+
+  async dispatch(events: readonly LibraryEvent[]): Promise<void> {
+    for (const event of events) {
+      for (const handler of this.handlers.get(event.type) ?? []) {
+        try {
+          await handler(event);
+        } catch (error) {
+          this.onHandlerError(error, event);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * CSV Export Writer
+ *
+ * Concrete implementation of ExportWriter producing RFC 4180 CSV: a
+ * header row of field names, then one line per row. Fields containing
+ * commas, quotes or line breaks are quoted (quotes doubled); null is
+ * an empty field. The book export reads back with the CSV import.
+ */
+
+import { ExportRow, ExportValue, ExportWriter } from '../../domain/services/ExportWriter';
+
+export class CsvExportWriter implements ExportWriter {
+  async *write(fields: string[], rows: AsyncIterable<ExportRow>): AsyncIterable<string> {
+    yield this.line(fields);
+    for await (const row of rows) {
+      yield this.line(fields.map((field) => row[field] ?? null));
+    }
+  }
+
+  /**
+   * @private
+   */
+  private line(values: ExportValue[]): string {
+    return `${values.map((value) => this.field(value)).join(',')}\r\n`;
+  }
+
+  /**
+   * @private
+   */
+  private field(value: ExportValue): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * JSON Lines Export Writer
+ *
+ * Concrete implementation of ExportWriter producing JSON Lines: one
+ * JSON object per line with the selected fields, in order.
+ */
+
+import { ExportRow, ExportWriter } from '../../domain/services/ExportWriter';
+
+export class JsonLinesExportWriter implements ExportWriter {
+  async *write(fields: string[], rows: AsyncIterable<ExportRow>): AsyncIterable<string> {
+    for await (const row of rows) {
+      const object = Object.fromEntries(fields.map((field) => [field, row[field] ?? null]));
+      yield `${JSON.stringify(object)}\n`;
+    }
+  }
+}
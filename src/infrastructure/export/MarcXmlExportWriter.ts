@@ -0,0 +1,86 @@
+/**
+ * MARCXML Export Writer
+ *
+ * Concrete implementation of ExportWriter producing a MARCXML
+ * <collection> with one bibliographic record per copy, readable by
+ * other library systems and by the MARCXML import. Rows are mapped by
+ * field name (other fields have no MARC equivalent and are left out):
+ *
+ * - id: 001 (control number)
+ * - isbn: 020 $a
+ * - author: 100 $a
+ * - title: 245 $a
+ * - barcode: 852 $p, status: 852 $x (nonpublic note)
+ */
+
+import { ExportRow, ExportValue, ExportWriter } from '../../domain/services/ExportWriter';
+
+const NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+const LEADER = '00000nam a2200000   4500';
+
+export class MarcXmlExportWriter implements ExportWriter {
+  async *write(fields: string[], rows: AsyncIterable<ExportRow>): AsyncIterable<string> {
+    const value = (row: ExportRow, field: string): ExportValue =>
+      fields.includes(field) ? row[field] ?? null : null;
+
+    yield `<?xml version="1.0" encoding="UTF-8"?>\n<collection xmlns="${NAMESPACE}">\n`;
+
+    for await (const row of rows) {
+      const id = value(row, 'id');
+      const barcode = value(row, 'barcode');
+      const status = value(row, 'status');
+
+      yield [
+        '  <record>',
+        `    <leader>${LEADER}</leader>`,
+        ...(id !== null ? [`    <controlfield tag="001">${this.escape(id)}</controlfield>`] : []),
+        ...this.datafield('020', '  ', [['a', value(row, 'isbn')]]),
+        ...this.datafield('100', '1 ', [['a', value(row, 'author')]]),
+        ...this.datafield('245', '10', [['a', value(row, 'title')]]),
+        ...this.datafield('852', '  ', [
+          ['p', barcode],
+          ['x', status !== null ? `Status: ${status}` : null],
+        ]),
+        '  </record>\n',
+      ].join('\n');
+    }
+
+    yield '</collection>\n';
+  }
+
+  /**
+   * Lines of a data field, none if all its subfields are empty
+   * @private
+   */
+  private datafield(
+    tag: string,
+    indicators: string,
+    subfields: Array<[string, ExportValue]>
+  ): string[] {
+    const present = subfields.filter(([, value]) => value !== null && value !== '');
+    if (present.length === 0) {
+      return [];
+    }
+
+    const [ind1, ind2] = [indicators.charAt(0), indicators.charAt(1)];
+    return [
+      `    <datafield tag="${tag}" ind1="${ind1}" ind2="${ind2}">`,
+      ...present.map(
+        ([code, value]) =>
+          `      <subfield code="${code}">${this.escape(value)}</subfield>`
+      ),
+      '    </datafield>',
+    ];
+  }
+
+  /**
+   * @private
+   */
+  private escape(value: ExportValue): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * CSV Catalog Record Reader
+ *
+ * Concrete implementation of CatalogRecordReader for spreadsheet exports
+ * (RFC 4180: comma-separated, fields with commas, quotes or line breaks
+ * in double quotes, UTF-8).
+ *
+ * The first row names the columns; "isbn" and "barcode" are required,
+ * "title" and "author" optional (only needed for ISBNs not yet in the
+ * catalog). Column names are case-insensitive, other columns are
+ * ignored. Each further row is one copy:
+ * ```csv
+ * isbn,title,author,barcode
+ * 978-4-87311-565-8,The Art of Readable Code,"Boswell, Dustin",LIB-0001
+ * ```
+ */
+
+import { CatalogEntry, CatalogRecordReader } from '../../domain/services/CatalogRecordReader';
+
+type Column = 'isbn' | 'title' | 'author' | 'barcode';
+
+const REQUIRED_COLUMNS: Column[] = ['isbn', 'barcode'];
+
+/**
+ * Fields of one row and the line it starts on
+ */
+type CsvRow = { line: number; fields: string[] } | { line: number; error: string };
+
+export class CsvCatalogRecordReader implements CatalogRecordReader {
+  async *read(content: AsyncIterable<Uint8Array>): AsyncIterable<CatalogEntry> {
+    let columns: Map<Column, number> | null = null;
+
+    for await (const row of this.rows(content)) {
+      if ('error' in row) {
+        yield { ok: false, position: row.line, reason: row.error };
+        continue;
+      }
+      if (row.fields.every((field) => field.trim() === '')) {
+        continue;
+      }
+
+      if (!columns) {
+        const header = this.columns(row.fields);
+        const missing = REQUIRED_COLUMNS.filter((column) => !header.has(column));
+        if (missing.length > 0) {
+          yield {
+            ok: false,
+            position: row.line,
+            reason: `Header row has no ${missing.join(' or ')} column`,
+          };
+          return;
+        }
+        columns = header;
+        continue;
+      }
+
+      const positions = columns;
+      const value = (column: Column): string => {
+        const index = positions.get(column);
+        return index === undefined ? '' : (row.fields[index] ?? '').trim();
+      };
+      yield {
+        ok: true,
+        record: {
+          position: row.line,
+          isbn: value('isbn'),
+          title: value('title') || null,
+          author: value('author') || null,
+          barcode: value('barcode'),
+        },
+      };
+    }
+  }
+
+  /**
+   * Column positions named by the header row
+   * @private
+   */
+  private columns(header: string[]): Map<Column, number> {
+    const columns = new Map<Column, number>();
+    header.forEach((name, index) => {
+      const column = name.trim().toLowerCase();
+      if (
+        (column === 'isbn' || column === 'title' || column === 'author' || column === 'barcode') &&
+        !columns.has(column)
+      ) {
+        columns.set(column, index);
+      }
+    });
+    return columns;
+  }
+
+  /**
+   * Split the content into rows of fields, chunk by chunk
+   * @private
+   */
+  private async *rows(content: AsyncIterable<Uint8Array>): AsyncIterable<CsvRow> {
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false; // Inside a quoted field
+    let quoteSeen = false; // Quote inside a quoted field: closes it unless doubled
+    let afterCr = false; // Previous character ended a row with \r
+    let line = 1;
+    let rowLine = 1;
+
+    for await (const text of this.decode(content)) {
+      for (const char of text) {
+        if (quoted) {
+          if (quoteSeen) {
+            quoteSeen = false;
+            if (char === '"') {
+              field += char;
+              continue;
+            }
+            quoted = false;
+          } else {
+            if (char === '"') {
+              quoteSeen = true;
+            } else {
+              field += char;
+              if (char === '\n') {
+                line++;
+              }
+            }
+            continue;
+          }
+        }
+
+        if (char === '\n' && afterCr) {
+          afterCr = false;
+          continue;
+        }
+        afterCr = char === '\r';
+
+        if (char === '\r' || char === '\n') {
+          fields.push(field);
+          yield { line: rowLine, fields };
+          fields = [];
+          field = '';
+          line++;
+          rowLine = line;
+        } else if (char === ',') {
+          fields.push(field);
+          field = '';
+        } else if (char === '"' && field === '') {
+          quoted = true;
+        } else {
+          field += char;
+        }
+      }
+    }
+
+    if (quoted && !quoteSeen) {
+      yield { line: rowLine, error: 'Quoted field is not closed before the end of the file' };
+    } else if (field !== '' || fields.length > 0) {
+      fields.push(field);
+      yield { line: rowLine, fields };
+    }
+  }
+
+  /**
+   * UTF-8 text of the chunks (characters split across chunks are kept whole)
+   * @private
+   */
+  private async *decode(content: AsyncIterable<Uint8Array>): AsyncIterable<string> {
+    const decoder = new TextDecoder('utf-8');
+    for await (const chunk of content) {
+      yield decoder.decode(chunk, { stream: true });
+    }
+    yield decoder.decode();
+  }
+}
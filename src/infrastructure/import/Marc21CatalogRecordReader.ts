@@ -0,0 +1,109 @@
+/// <reference types="node" />
+/**
+ * MARC 21 Catalog Record Reader
+ *
+ * Concrete implementation of CatalogRecordReader for binary MARC 21
+ * exchange files (ISO 2709, usually *.mrc): records end with 0x1D,
+ * each made of a 24-byte leader, a directory of 12-byte entries (tag,
+ * field length, offset) and the fields it points to. Data fields hold
+ * two indicators and subfields introduced by 0x1F.
+ *
+ * Field contents are decoded as UTF-8 (leader position 9 "a"); MARC-8
+ * records read correctly as long as they are plain ASCII.
+ * See marcFields for the fields used.
+ */
+
+import { CatalogEntry, CatalogRecordReader } from '../../domain/services/CatalogRecordReader';
+import { MarcField, toCatalogEntries } from './marcFields';
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = '\x1f';
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+export class Marc21CatalogRecordReader implements CatalogRecordReader {
+  async *read(content: AsyncIterable<Uint8Array>): AsyncIterable<CatalogEntry> {
+    let pending = Buffer.alloc(0);
+    let position = 0;
+
+    for await (const chunk of content) {
+      pending = Buffer.concat([pending, chunk]);
+
+      let end: number;
+      while ((end = pending.indexOf(RECORD_TERMINATOR)) !== -1) {
+        const record = this.trimStart(pending.subarray(0, end));
+        pending = pending.subarray(end + 1);
+        if (record.length > 0) {
+          yield* this.entries(++position, record);
+        }
+      }
+    }
+
+    if (this.trimStart(pending).length > 0) {
+      yield { ok: false, position: position + 1, reason: 'Record is not terminated (0x1D)' };
+    }
+  }
+
+  /**
+   * Entries of one record, or why it cannot be read
+   * @private
+   */
+  private entries(position: number, record: Buffer): CatalogEntry[] {
+    const fields = this.fields(record);
+    return fields
+      ? toCatalogEntries(position, fields)
+      : [{ ok: false, position, reason: 'Record leader or directory is malformed' }];
+  }
+
+  /**
+   * Data fields listed in the directory (null if the structure is broken)
+   * @private
+   */
+  private fields(record: Buffer): MarcField[] | null {
+    if (record.length < LEADER_LENGTH) {
+      return null;
+    }
+    const baseAddress = Number(record.toString('latin1', 12, 17));
+    const directoryEnd = record.indexOf(FIELD_TERMINATOR, LEADER_LENGTH);
+    if (!Number.isInteger(baseAddress) || directoryEnd === -1 || baseAddress > record.length) {
+      return null;
+    }
+
+    const fields: MarcField[] = [];
+    for (let entry = LEADER_LENGTH; entry < directoryEnd; entry += DIRECTORY_ENTRY_LENGTH) {
+      const directory = record.toString('latin1', entry, entry + DIRECTORY_ENTRY_LENGTH);
+      const tag = directory.slice(0, 3);
+      const length = Number(directory.slice(3, 7));
+      const start = baseAddress + Number(directory.slice(7, 12));
+      if (!/^\d{9}$/.test(directory.slice(3)) || start + length > record.length) {
+        return null;
+      }
+
+      // Control fields (001-009) have neither indicators nor subfields
+      if (tag < '010') {
+        continue;
+      }
+
+      const data = record.toString('utf8', start, start + length).replace(/\x1e$/, '');
+      const [, ...subfields] = data.split(SUBFIELD_DELIMITER);
+      fields.push({
+        tag,
+        subfields: subfields.map((sub) => ({ code: sub.slice(0, 1), value: sub.slice(1) })),
+      });
+    }
+    return fields;
+  }
+
+  /**
+   * Record without the line breaks some exports put between records
+   * @private
+   */
+  private trimStart(bytes: Buffer): Buffer {
+    let start = 0;
+    while (start < bytes.length && (bytes[start] === 0x0a || bytes[start] === 0x0d)) {
+      start++;
+    }
+    return bytes.subarray(start);
+  }
+}
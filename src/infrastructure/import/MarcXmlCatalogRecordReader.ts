@@ -0,0 +1,116 @@
+/**
+ * MARCXML Catalog Record Reader
+ *
+ * Concrete implementation of CatalogRecordReader for MARC 21 records in
+ * the Library of Congress MARCXML schema (a <collection> of <record>
+ * elements, with or without a namespace prefix):
+ * ```xml
+ * <record>
+ *   <datafield tag="020" ind1=" " ind2=" ">
+ *     <subfield code="a">9784873115658</subfield>
+ *   </datafield>
+ * </record>
+ * ```
+ * Records are picked out of the text as soon as their end tag arrives,
+ * so the whole file is never held in memory. See marcFields for the
+ * fields used.
+ */
+
+import { CatalogEntry, CatalogRecordReader } from '../../domain/services/CatalogRecordReader';
+import { MarcField, toCatalogEntries } from './marcFields';
+
+const PREFIX = '(?:[\\w.-]+:)?';
+const RECORD_START = new RegExp(`<${PREFIX}record[\\s>]`);
+const RECORD_END = new RegExp(`</${PREFIX}record\\s*>`);
+const DATAFIELD = new RegExp(
+  `<${PREFIX}datafield\\b([^>]*)>([\\s\\S]*?)</${PREFIX}datafield\\s*>`,
+  'g'
+);
+const SUBFIELD = new RegExp(
+  `<${PREFIX}subfield\\b([^>]*)>([\\s\\S]*?)</${PREFIX}subfield\\s*>`,
+  'g'
+);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export class MarcXmlCatalogRecordReader implements CatalogRecordReader {
+  async *read(content: AsyncIterable<Uint8Array>): AsyncIterable<CatalogEntry> {
+    const decoder = new TextDecoder('utf-8');
+    let pending = '';
+    let position = 0;
+
+    for await (const chunk of content) {
+      pending += decoder.decode(chunk, { stream: true });
+
+      for (;;) {
+        const start = pending.search(RECORD_START);
+        if (start === -1) {
+          // Keep a tag that may be cut off at the end of the chunk
+          const lastTag = pending.lastIndexOf('<');
+          pending = lastTag === -1 ? '' : pending.slice(lastTag);
+          break;
+        }
+
+        const end = RECORD_END.exec(pending.slice(start));
+        if (!end) {
+          pending = pending.slice(start);
+          break;
+        }
+
+        const record = pending.slice(start, start + end.index);
+        pending = pending.slice(start + end.index + end[0].length);
+        yield* toCatalogEntries(++position, this.fields(record));
+      }
+    }
+
+    pending += decoder.decode();
+    if (RECORD_START.test(pending)) {
+      yield { ok: false, position: position + 1, reason: 'Record has no closing </record> tag' };
+    }
+  }
+
+  /**
+   * Data fields of a record element
+   * @private
+   */
+  private fields(record: string): MarcField[] {
+    return [...record.matchAll(DATAFIELD)].map(([, attributes = '', body = '']) => ({
+      tag: this.attribute(attributes, 'tag'),
+      subfields: [...body.matchAll(SUBFIELD)].map(([, subAttributes = '', value = '']) => ({
+        code: this.attribute(subAttributes, 'code'),
+        value: this.unescape(value),
+      })),
+    }));
+  }
+
+  /**
+   * @private
+   */
+  private attribute(attributes: string, name: string): string {
+    const match = new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`).exec(attributes);
+    return this.unescape(match?.[2] ?? '');
+  }
+
+  /**
+   * Text with XML character and entity references resolved
+   * @private
+   */
+  private unescape(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (reference, name: string) => {
+      if (name.startsWith('#')) {
+        const code =
+          name[1] === 'x' || name[1] === 'X'
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[name] ?? reference;
+    });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * MARC 21 Field Mapping
+ *
+ * Shared by the binary and MARCXML readers: picks the data a copy needs
+ * out of a bibliographic record with embedded holdings.
+ *
+ * - ISBN: 020 $a (qualifiers such as "(pbk.)" dropped)
+ * - Title: 245 $a and $b, without the ISBD punctuation that ends them
+ * - Author: 100 $a, else 110 $a, 111 $a or the first 700 $a
+ * - Barcodes: every 852 $p and 876 $p, one copy each
+ */
+
+import { CatalogEntry } from '../../domain/services/CatalogRecordReader';
+
+/**
+ * Data field of a record (control fields 001-009 are not needed)
+ */
+export interface MarcField {
+  tag: string;
+  subfields: Array<{ code: string; value: string }>;
+}
+
+const AUTHOR_TAGS = ['100', '110', '111', '700'];
+const BARCODE_TAGS = ['852', '876'];
+
+/**
+ * One entry per copy held in a record
+ * @param position - Record number in the file
+ * @param fields - Data fields of the record
+ */
+export function toCatalogEntries(position: number, fields: MarcField[]): CatalogEntry[] {
+  const isbn = subfield(fields, '020', 'a')?.split(/\s/)[0] ?? '';
+  if (!isbn) {
+    return [{ ok: false, position, reason: 'Record has no ISBN (020 $a)' }];
+  }
+
+  const barcodes = new Set(
+    fields
+      .filter((field) => BARCODE_TAGS.includes(field.tag))
+      .flatMap((field) => field.subfields.filter((sub) => sub.code === 'p'))
+      .map((sub) => sub.value.trim())
+      .filter((barcode) => barcode.length > 0)
+  );
+  if (barcodes.size === 0) {
+    return [{ ok: false, position, reason: 'Record has no copy barcode (852 $p or 876 $p)' }];
+  }
+
+  const title = [subfield(fields, '245', 'a'), subfield(fields, '245', 'b')]
+    .filter((part): part is string => part !== null)
+    .join(' ');
+  const author = AUTHOR_TAGS.map((tag) => subfield(fields, tag, 'a')).find(
+    (value): value is string => value !== null
+  );
+
+  return [...barcodes].map((barcode): CatalogEntry => ({
+    ok: true,
+    record: {
+      position,
+      isbn,
+      title: trimPunctuation(title) || null,
+      author: author ? trimPunctuation(author) || null : null,
+      barcode,
+    },
+  }));
+}
+
+/**
+ * First value of a subfield of the first field with a tag
+ * @private
+ */
+function subfield(fields: MarcField[], tag: string, code: string): string | null {
+  const value = fields
+    .find((field) => field.tag === tag)
+    ?.subfields.find((sub) => sub.code === code)?.value.trim();
+  return value ? value : null;
+}
+
+/**
+ * Text without the ISBD punctuation that separates it from the next subfield
+ * ("Cien años de soledad /" -> "Cien años de soledad")
+ * @private
+ */
+function trimPunctuation(text: string): string {
+  return text.replace(/[\s/:;,=]+$/, '').trim();
+}
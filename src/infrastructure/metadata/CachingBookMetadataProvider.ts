@@ -0,0 +1,72 @@
+/**
+ * Caching Book Metadata Provider
+ *
+ * Decorator of a BookMetadataProvider that remembers its answers, so
+ * registering several copies of an edition (or retrying a registration)
+ * consults the source once. Unknown ISBNs are remembered for a shorter
+ * time than records; failed lookups are not remembered at all. The least
+ * recently used entry is dropped when the cache is full.
+ */
+
+import { BookMetadata, BookMetadataProvider } from '../../domain/services/BookMetadataProvider';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Clock } from '../../domain/services/Clock';
+
+export interface MetadataCacheOptions {
+  ttlMs: number; // Lifetime of a found record
+  notFoundTtlMs: number; // Lifetime of an "unknown ISBN" answer
+  maxEntries: number;
+}
+
+const DEFAULT_OPTIONS: MetadataCacheOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  notFoundTtlMs: 60 * 60 * 1000,
+  maxEntries: 1000,
+};
+
+interface CacheEntry {
+  metadata: BookMetadata | null;
+  expiresAt: number;
+}
+
+export class CachingBookMetadataProvider implements BookMetadataProvider {
+  private readonly options: MetadataCacheOptions;
+  // Map iteration order doubles as recency order (oldest first)
+  private readonly entries = new Map<string, CacheEntry>();
+
+  /**
+   * @param options - Overrides of the default lifetimes and size
+   */
+  constructor(
+    private readonly source: BookMetadataProvider,
+    private readonly clock: Clock,
+    options: Partial<MetadataCacheOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async lookup(isbn: ISBN): Promise<BookMetadata | null> {
+    const key = isbn.getValue();
+    const now = this.clock.now().getTime();
+
+    const cached = this.entries.get(key);
+    this.entries.delete(key);
+    if (cached && cached.expiresAt > now) {
+      this.entries.set(key, cached);
+      return cached.metadata;
+    }
+
+    // A failure propagates without being cached, so the next lookup retries
+    const metadata = await this.source.lookup(isbn);
+    const ttl = metadata ? this.options.ttlMs : this.options.notFoundTtlMs;
+    this.entries.set(key, { metadata, expiresAt: now + ttl });
+
+    if (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    return metadata;
+  }
+}
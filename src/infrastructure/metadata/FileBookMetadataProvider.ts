@@ -0,0 +1,81 @@
+/// <reference types="node" />
+/**
+ * File Book Metadata Provider
+ *
+ * Concrete implementation of BookMetadataProvider reading a local JSON
+ * file, for offline use and tests (default: config/book-metadata.json).
+ *
+ * Format (keys are ISBNs, hyphens allowed; fields other than title may
+ * be omitted):
+ * ```json
+ * {
+ *   "978-4-87311-565-8": {
+ *     "title": "The Art of Readable Code",
+ *     "authors": ["Dustin Boswell", "Trevor Foucher"],
+ *     "publisher": "O'Reilly Japan",
+ *     "publicationYear": 2012,
+ *     "edition": null,
+ *     "language": "jpn",
+ *     "coverUrl": null,
+ *     "subjects": ["Computer programming"]
+ *   }
+ * }
+ * ```
+ * The file is read on the first lookup.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { BookMetadata, BookMetadataProvider } from '../../domain/services/BookMetadataProvider';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+
+type MetadataEntry = Partial<Omit<BookMetadata, 'isbn'>>;
+
+export class FileBookMetadataProvider implements BookMetadataProvider {
+  static readonly DEFAULT_PATH = 'config/book-metadata.json';
+
+  private records: Map<string, BookMetadata> | null = null;
+
+  constructor(private readonly path: string = FileBookMetadataProvider.DEFAULT_PATH) {}
+
+  async lookup(isbn: ISBN): Promise<BookMetadata | null> {
+    this.records ??= await this.load();
+    return this.records.get(isbn.getValue()) ?? null;
+  }
+
+  /**
+   * Read and validate the file
+   * @throws Error naming the file if it is missing or malformed
+   * @private
+   */
+  private async load(): Promise<Map<string, BookMetadata>> {
+    let data: unknown;
+    try {
+      data = JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read book metadata file ${this.path}: ${String(error)}`);
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error(`Book metadata file ${this.path} must contain an object keyed by ISBN`);
+    }
+
+    const records = new Map<string, BookMetadata>();
+    for (const [key, entry] of Object.entries(data as Record<string, MetadataEntry>)) {
+      const isbn = ISBN.parse(key);
+      if (!isbn || typeof entry?.title !== 'string') {
+        throw new Error(`Book metadata file ${this.path}: invalid entry "${key}"`);
+      }
+      records.set(isbn.getValue(), {
+        isbn: isbn.getValue(),
+        title: entry.title,
+        authors: entry.authors ?? [],
+        publisher: entry.publisher ?? null,
+        publicationYear: entry.publicationYear ?? null,
+        edition: entry.edition ?? null,
+        language: entry.language ?? null,
+        coverUrl: entry.coverUrl ?? null,
+        subjects: entry.subjects ?? [],
+      });
+    }
+    return records;
+  }
+}
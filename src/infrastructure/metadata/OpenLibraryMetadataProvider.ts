@@ -0,0 +1,127 @@
+/// <reference types="node" />
+/**
+ * Open Library Metadata Provider
+ *
+ * Concrete implementation of BookMetadataProvider for the Open Library
+ * Books API (GET /api/books?bibkeys=ISBN:<isbn>&format=json&jscmd=data),
+ * or any service answering in the same JSON format:
+ *
+ * ```json
+ * {
+ *   "ISBN:9780306406157": {
+ *     "title": "...", "subtitle": "...",
+ *     "authors": [{ "name": "..." }],
+ *     "publishers": [{ "name": "..." }],
+ *     "publish_date": "March 2011",
+ *     "edition_name": "2nd ed.",
+ *     "languages": [{ "key": "/languages/eng" }],
+ *     "cover": { "medium": "https://..." },
+ *     "subjects": [{ "name": "..." }]
+ *   }
+ * }
+ * ```
+ *
+ * An ISBN missing from the answer is unknown (null). Network errors,
+ * timeouts, error statuses and malformed answers are reported as
+ * MetadataUnavailableError.
+ */
+
+import { BookMetadata, BookMetadataProvider } from '../../domain/services/BookMetadataProvider';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { MetadataUnavailableError } from '../../domain/errors/MetadataErrors';
+
+export interface OpenLibraryOptions {
+  baseUrl: string; // Service root, without trailing slash
+  timeoutMs: number; // Per request
+}
+
+const DEFAULT_OPTIONS: OpenLibraryOptions = {
+  baseUrl: 'https://openlibrary.org',
+  timeoutMs: 5000,
+};
+
+/**
+ * Record of one ISBN in the answer (every field may be missing)
+ */
+interface OpenLibraryRecord {
+  title?: string;
+  subtitle?: string;
+  authors?: { name?: string }[];
+  publishers?: { name?: string }[];
+  publish_date?: string;
+  edition_name?: string;
+  languages?: { key?: string }[];
+  cover?: { small?: string; medium?: string; large?: string };
+  subjects?: { name?: string }[];
+}
+
+export class OpenLibraryMetadataProvider implements BookMetadataProvider {
+  private readonly options: OpenLibraryOptions;
+
+  /**
+   * @param options - Overrides of the default service URL and timeout
+   * @param fetchFn - HTTP client (default: global fetch)
+   */
+  constructor(
+    options: Partial<OpenLibraryOptions> = {},
+    private readonly fetchFn: typeof fetch = fetch
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async lookup(isbn: ISBN): Promise<BookMetadata | null> {
+    const value = isbn.getValue();
+    const url =
+      `${this.options.baseUrl}/api/books` +
+      `?bibkeys=ISBN:${encodeURIComponent(value)}&format=json&jscmd=data`;
+
+    let body: unknown;
+    try {
+      const response = await this.fetchFn(url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new MetadataUnavailableError(value, reason);
+    }
+
+    if (typeof body !== 'object' || body === null) {
+      throw new MetadataUnavailableError(value, 'malformed response');
+    }
+
+    const record = (body as Record<string, OpenLibraryRecord | undefined>)[`ISBN:${value}`];
+    return record?.title ? this.toMetadata(value, record) : null;
+  }
+
+  /**
+   * @private
+   */
+  private toMetadata(isbn: string, record: OpenLibraryRecord): BookMetadata {
+    const year = record.publish_date?.match(/\b(\d{4})\b/)?.[1];
+    const language = record.languages?.[0]?.key?.split('/').pop();
+
+    return {
+      isbn,
+      title: record.subtitle ? `${record.title}: ${record.subtitle}` : (record.title ?? ''),
+      authors: this.names(record.authors),
+      publisher: this.names(record.publishers)[0] ?? null,
+      publicationYear: year ? Number(year) : null,
+      edition: record.edition_name ?? null,
+      language: language || null,
+      coverUrl: record.cover?.medium ?? record.cover?.large ?? record.cover?.small ?? null,
+      subjects: this.names(record.subjects),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private names(entries: { name?: string }[] | undefined): string[] {
+    return (entries ?? []).flatMap((entry) => (entry.name ? [entry.name] : []));
+  }
+}
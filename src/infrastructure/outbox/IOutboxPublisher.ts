@@ -0,0 +1,17 @@
+/**
+ * Outbox Publisher Interface
+ *
+ * Destination of the messages relayed from the outbox (message broker,
+ * log file, ...). Delivery is at-least-once: a message may be published
+ * again if the relay stops between publishing and marking it delivered.
+ */
+
+import { OutboxMessage } from './OutboxMessage';
+
+export interface IOutboxPublisher {
+  /**
+   * Publish one message
+   * @throws on failure (the relay retries with backoff)
+   */
+  publish(message: OutboxMessage): Promise<void>;
+}
@@ -0,0 +1,36 @@
+/**
+ * Outbox Store Interface
+ *
+ * Read and delivery-tracking side of the transactional outbox, used by
+ * the OutboxRelay. (Messages are written by the repositories, in the
+ * transaction that saves the aggregate.)
+ */
+
+import { OutboxMessage } from './OutboxMessage';
+
+export interface IOutboxStore {
+  /**
+   * Find undelivered messages that are due for a (re)try
+   *
+   * Messages of an aggregate whose earlier message is still backing off
+   * are left out, so an aggregate's events are never published out of order.
+   *
+   * @param now - Current time (messages backing off until later are skipped)
+   * @param limit - Maximum number of messages
+   * @returns Messages in the order they were written
+   */
+  findPending(now: Date, limit: number): Promise<OutboxMessage[]>;
+
+  /**
+   * Record that a message was published
+   */
+  markDelivered(id: string, deliveredAt: Date): Promise<void>;
+
+  /**
+   * Record a failed publish attempt
+   * @param id - Message ID
+   * @param nextAttemptAt - Earliest time of the next attempt (backoff)
+   * @param error - Failure description (kept for operators)
+   */
+  markFailed(id: string, nextAttemptAt: Date, error: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+/**
+ * In-Memory Outbox Publisher
+ *
+ * Keeps published messages in a list. Intended for tests and local runs
+ * without a message broker.
+ */
+
+import { IOutboxPublisher } from './IOutboxPublisher';
+import { OutboxMessage } from './OutboxMessage';
+
+export class InMemoryOutboxPublisher implements IOutboxPublisher {
+  private readonly messages: OutboxMessage[] = [];
+
+  async publish(message: OutboxMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  /**
+   * Messages published so far, oldest first
+   */
+  get published(): readonly OutboxMessage[] {
+    return this.messages;
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,30 @@
+/// <reference types="node" />
+/**
+ * JSONL File Outbox Publisher
+ *
+ * Appends each message as one JSON line to a file, e.g. for a local
+ * stand-in of the discovery layer or the finance export to tail.
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { IOutboxPublisher } from './IOutboxPublisher';
+import { OutboxMessage } from './OutboxMessage';
+
+export class JsonlFileOutboxPublisher implements IOutboxPublisher {
+  /**
+   * @param path - File to append to (created if missing)
+   */
+  constructor(private readonly path: string) {}
+
+  async publish(message: OutboxMessage): Promise<void> {
+    const line = JSON.stringify({
+      id: message.id,
+      eventType: message.eventType,
+      aggregateType: message.aggregateType,
+      aggregateId: message.aggregateId,
+      occurredAt: message.occurredAt.toISOString(),
+      payload: message.payload,
+    });
+    await appendFile(this.path, `${line}\n`, 'utf8');
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Outbox Message
+ *
+ * A domain event as stored in the transactional outbox: the serialized
+ * event plus the delivery bookkeeping of the relay.
+ */
+
+export interface OutboxMessage {
+  id: string; // Event ID (consumers use it to ignore redeliveries)
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, unknown>; // The event, with dates as ISO strings
+  occurredAt: Date;
+  attempts: number; // Failed publish attempts so far
+}
@@ -0,0 +1,156 @@
+/**
+ * Outbox Relay
+ *
+ * Background worker that moves domain events from the outbox to an
+ * IOutboxPublisher: it polls for pending messages, publishes them in the
+ * order they were written, marks them delivered, and retries failures
+ * with exponential backoff.
+ *
+ * Delivery is at-least-once, so consumers should ignore message IDs they
+ * have already processed.
+ */
+
+import { IOutboxStore } from './IOutboxStore';
+import { IOutboxPublisher } from './IOutboxPublisher';
+import { OutboxMessage } from './OutboxMessage';
+import { Clock } from '../../domain/services/Clock';
+
+export interface OutboxRelayOptions {
+  batchSize: number; // Messages fetched per poll
+  pollIntervalMs: number; // Pause between polls while running
+  baseBackoffMs: number; // Delay after the first failure, doubled per further failure
+  maxBackoffMs: number; // Upper bound of the delay
+}
+
+export interface RelayResult {
+  delivered: number;
+  failed: number;
+}
+
+/**
+ * Called when a message fails to publish or the store cannot be polled
+ */
+export type RelayErrorReporter = (error: unknown, message: OutboxMessage | null) => void;
+
+const DEFAULT_OPTIONS: OutboxRelayOptions = {
+  batchSize: 100,
+  pollIntervalMs: 1000,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 5 * 60 * 1000,
+};
+
+export class OutboxRelay {
+  private readonly options: OutboxRelayOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  /**
+   * @param options - Overrides of the default polling and backoff settings
+   * @param onError - Reports failures (default: console.error)
+   */
+  constructor(
+    private readonly store: IOutboxStore,
+    private readonly publisher: IOutboxPublisher,
+    private readonly clock: Clock,
+    options: Partial<OutboxRelayOptions> = {},
+    private readonly onError: RelayErrorReporter = (error, message) =>
+      console.error(
+        message ? `Outbox message ${message.id} failed to publish:` : 'Outbox poll failed:',
+        error
+      )
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Publish one batch of pending messages
+   *
+   * Business Rules:
+   * - Messages are published in the order they were written
+   * - After a failure, later messages of the same aggregate wait for the
+   *   retry, so consumers never see an aggregate's events out of order
+   * - The n-th consecutive failure delays the next attempt by
+   *   baseBackoffMs * 2^(n-1), capped at maxBackoffMs
+   */
+  async relayOnce(): Promise<RelayResult> {
+    const now = this.clock.now();
+    const messages = await this.store.findPending(now, this.options.batchSize);
+    const blockedAggregates = new Set<string>();
+    const result: RelayResult = { delivered: 0, failed: 0 };
+
+    for (const message of messages) {
+      const aggregateKey = `${message.aggregateType}:${message.aggregateId}`;
+      if (blockedAggregates.has(aggregateKey)) {
+        continue;
+      }
+
+      try {
+        await this.publisher.publish(message);
+      } catch (error) {
+        blockedAggregates.add(aggregateKey);
+        this.onError(error, message);
+        await this.store.markFailed(
+          message.id,
+          new Date(now.getTime() + this.backoffFor(message.attempts + 1)),
+          error instanceof Error ? error.message : String(error)
+        );
+        result.failed++;
+        continue;
+      }
+
+      await this.store.markDelivered(message.id, this.clock.now());
+      result.delivered++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Start polling in the background (no-op if already running)
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    void this.poll();
+  }
+
+  /**
+   * Stop polling; a batch in progress still completes
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * @private
+   * Relay one batch, then schedule the next poll. A full batch is
+   * followed immediately by another, to drain a backlog.
+   */
+  private async poll(): Promise<void> {
+    let fullBatch = false;
+    try {
+      const { delivered, failed } = await this.relayOnce();
+      fullBatch = delivered + failed >= this.options.batchSize;
+    } catch (error) {
+      this.onError(error, null);
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.poll(), fullBatch ? 0 : this.options.pollIntervalMs);
+    }
+  }
+
+  /**
+   * @private
+   * Delay before the next attempt after the given number of failures
+   */
+  private backoffFor(failures: number): number {
+    return Math.min(this.options.baseBackoffMs * 2 ** (failures - 1), this.options.maxBackoffMs);
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Prisma Outbox Writer
+ *
+ * Writes the pending domain events of an aggregate to the outbox table.
+ * Repositories call it with their transaction client while saving the
+ * aggregate, so the events are stored if and only if the change commits.
+ * (A repository used outside a unit of work writes them right after the
+ * aggregate, without that guarantee.)
+ */
+
+import { LibraryEvent } from '../../domain/events/LibraryEvent';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Append events to the outbox
+ *
+ * An aggregate saved twice in one unit of work still carries the events
+ * of its first save; those are skipped by ID, so each event is stored once.
+ *
+ * @param prisma - Client of the transaction saving the aggregate
+ * @param aggregateType - Aggregate the events belong to (e.g. "Book")
+ * @param events - The aggregate's pending events
+ */
+export async function appendToOutbox(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  aggregateType: string,
+  events: readonly LibraryEvent[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await prisma.outboxMessage.createMany({
+    data: events.map((event) => ({
+      id: event.eventId,
+      eventType: event.type,
+      aggregateType,
+      aggregateId: event.aggregateId,
+      payload: JSON.parse(JSON.stringify(event)) as Prisma.InputJsonObject,
+      occurredAt: event.occurredAt,
+    })),
+    skipDuplicates: true,
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Prisma Outbox Store Implementation
+ *
+ * Concrete implementation of IOutboxStore on the outbox_messages table.
+ */
+
+import { IOutboxStore } from './IOutboxStore';
+import { OutboxMessage } from './OutboxMessage';
+import { PrismaClient } from '@prisma/client';
+
+export class PrismaOutboxStore implements IOutboxStore {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findPending(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const due = await this.prisma.outboxMessage.findMany({
+      where: { deliveredAt: null, nextAttemptAt: { lte: now } },
+      orderBy: { sequence: 'asc' },
+      take: limit,
+    });
+    if (due.length === 0) {
+      return [];
+    }
+
+    // Oldest undelivered message of each aggregate, due or not
+    const oldest = await this.prisma.outboxMessage.groupBy({
+      by: ['aggregateType', 'aggregateId'],
+      where: {
+        deliveredAt: null,
+        OR: due.map((record) => ({
+          aggregateType: record.aggregateType,
+          aggregateId: record.aggregateId,
+        })),
+      },
+      _min: { sequence: true },
+    });
+    const oldestSequence = new Map(
+      oldest.map((group) => [`${group.aggregateType}:${group.aggregateId}`, group._min.sequence])
+    );
+
+    // An aggregate is ready only if its oldest undelivered message is due
+    // (due messages are ordered, so the first one seen is its oldest due)
+    const ready = new Set<string>();
+    const blocked = new Set<string>();
+    for (const record of due) {
+      const key = `${record.aggregateType}:${record.aggregateId}`;
+      if (!ready.has(key) && !blocked.has(key)) {
+        (oldestSequence.get(key) === record.sequence ? ready : blocked).add(key);
+      }
+    }
+
+    return due
+      .filter((record) => ready.has(`${record.aggregateType}:${record.aggregateId}`))
+      .map((record) => ({
+        id: record.id,
+        eventType: record.eventType,
+        aggregateType: record.aggregateType,
+        aggregateId: record.aggregateId,
+        payload: record.payload as Record<string, unknown>,
+        occurredAt: record.occurredAt,
+        attempts: record.attempts,
+      }));
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<void> {
+    await this.prisma.outboxMessage.update({
+      where: { id },
+      data: { deliveredAt, lastError: null },
+    });
+  }
+
+  async markFailed(id: string, nextAttemptAt: Date, error: string): Promise<void> {
+    await this.prisma.outboxMessage.update({
+      where: { id },
+      data: { attempts: { increment: 1 }, nextAttemptAt, lastError: error },
+    });
+  }
+}
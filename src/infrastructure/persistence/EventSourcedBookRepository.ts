@@ -0,0 +1,239 @@
+/**
+ * Event-Sourced Book Repository Implementation
+ *
+ * Alternative to MySQLBookRepository that stores each book as its stream
+ * of events (BookRegistered, BookBorrowed, ...) instead of a row, and
+ * rebuilds it by replaying them with Book.fromHistory. The version of a
+ * book is the length of its stream.
+ *
+ * Every `snapshotEvery` events the state is snapshotted, so a load only
+ * replays the events after the latest snapshot. Because nothing is
+ * overwritten, the repository can also rebuild a book as it was at any
+ * earlier time (findAsOf, statusAt).
+ *
+ * Lookups by barcode, ISBN and status go through a projection of those
+ * fields (IBookLookup) updated on every save, and load only the matching
+ * books. findAll and findPage still load every book.
+ */
+
+import { IBookRepository, BookQuery } from '../../domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Page } from '../../domain/repositories/PageQuery';
+import { Book, BookStatus } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { BookEvent } from '../../domain/events/BookEvents';
+import { IEventStore, StreamSnapshot } from '../eventStore/IEventStore';
+import { IBookLookup } from '../eventStore/IBookLookup';
+import { DEFAULT_SORT, paginate } from './pagination';
+import { bookSortKey, filterBooks } from './listQueries';
+
+/**
+ * Book state as stored in a snapshot (JSON-compatible)
+ */
+interface BookSnapshotState {
+  id: string;
+  isbn: string;
+  barcode: string;
+  status: string;
+  borrowedBy: string | null;
+  borrowedAt: string | null;
+  dueDate: string | null;
+  renewalCount: number;
+  reservedFor: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class EventSourcedBookRepository implements IBookRepository {
+  static readonly STREAM_TYPE = 'Book';
+
+  /**
+   * @param eventStore - Store holding the book streams
+   * @param lookup - Projection of the books' barcodes, ISBNs and statuses
+   * @param catalog - Titles searched by the author and title filters of findPage
+   * @param snapshotEvery - Events between snapshots of a book
+   */
+  constructor(
+    private readonly eventStore: IEventStore,
+    private readonly lookup: IBookLookup,
+    private readonly catalog: ITitleRepository,
+    private readonly snapshotEvery = 20
+  ) {}
+
+  async save(book: Book): Promise<void> {
+    // New aggregate: same unique barcode rule as the books table
+    if (book.version === 0 && (await this.findByBarcode(book.barcode))) {
+      throw new Error(`Unique constraint failed on barcode: ${book.barcode.getValue()}`);
+    }
+
+    // The stream must still be at the version the book was loaded with
+    const version = await this.eventStore.append(
+      EventSourcedBookRepository.STREAM_TYPE,
+      book.id,
+      book.version,
+      book.domainEvents
+    );
+
+    if (Math.floor(version / this.snapshotEvery) > Math.floor(book.version / this.snapshotEvery)) {
+      await this.eventStore.saveSnapshot(this.toSnapshot(book, version));
+    }
+
+    await this.lookup.put({
+      bookId: book.id,
+      barcode: book.barcode.getValue(),
+      isbn: book.isbn.getValue(),
+      status: book.status,
+      createdAt: book.createdAt,
+    });
+  }
+
+  async findById(id: string): Promise<Book | null> {
+    const snapshot = await this.eventStore.loadSnapshot(id);
+    const base = snapshot ? this.fromSnapshot(snapshot) : null;
+    const history = await this.readHistory(id, base?.version ?? 0);
+
+    if (!base && history.length === 0) {
+      return null;
+    }
+
+    return Book.fromHistory(history, base);
+  }
+
+  async findByIds(ids: string[]): Promise<Book[]> {
+    const books = await Promise.all(ids.map((id) => this.findById(id)));
+    return books.filter((book): book is Book => book !== null);
+  }
+
+  /**
+   * Rebuild a book as it was at a point in time
+   * @param id - Unique identifier
+   * @param at - Point in time
+   * @returns Book as of that time, null if not registered by then
+   */
+  async findAsOf(id: string, at: Date): Promise<Book | null> {
+    // The snapshot helps only if it does not include later events
+    const snapshot = await this.eventStore.loadSnapshot(id);
+    const candidate = snapshot ? this.fromSnapshot(snapshot) : null;
+    const base = candidate && candidate.updatedAt.getTime() <= at.getTime() ? candidate : null;
+
+    const history = await this.readHistory(id, base?.version ?? 0);
+    const cutoff = history.findIndex((event) => event.occurredAt.getTime() > at.getTime());
+    const past = cutoff === -1 ? history : history.slice(0, cutoff);
+
+    if (!base && past.length === 0) {
+      return null;
+    }
+
+    return Book.fromHistory(past, base);
+  }
+
+  /**
+   * Status of a book at a point in time
+   * @returns Status then, null if the book was not registered by then
+   */
+  async statusAt(id: string, at: Date): Promise<BookStatus | null> {
+    const book = await this.findAsOf(id, at);
+    return book?.status ?? null;
+  }
+
+  async findByISBN(isbn: ISBN): Promise<Book[]> {
+    return this.findByIds(await this.lookup.findIds({ isbns: [isbn.getValue()] }));
+  }
+
+  async findByISBNs(isbns: ISBN[]): Promise<Book[]> {
+    const values = isbns.map((isbn) => isbn.getValue());
+    return this.findByIds(await this.lookup.findIds({ isbns: values }));
+  }
+
+  async findByBarcode(barcode: Barcode): Promise<Book | null> {
+    const [id] = await this.lookup.findIds({ barcodes: [barcode.getValue()] });
+    return id ? this.findById(id) : null;
+  }
+
+  async findByBarcodes(barcodes: Barcode[]): Promise<Book[]> {
+    const values = barcodes.map((barcode) => barcode.getValue());
+    return this.findByIds(await this.lookup.findIds({ barcodes: values }));
+  }
+
+  async findAll(): Promise<Book[]> {
+    // The projection keeps the Prisma repository's ordering (createdAt desc)
+    return this.findByIds(await this.lookup.findIds({}));
+  }
+
+  async findPage(query: BookQuery): Promise<Page<Book>> {
+    const sort = query.sort ?? DEFAULT_SORT;
+    const books = await filterBooks(await this.findAll(), query, this.catalog);
+
+    return paginate(books, sort, query.page, bookSortKey(sort.field), (book) => book.id);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.eventStore.deleteStream(id);
+    await this.lookup.remove(id);
+  }
+
+  async findByStatus(status: string): Promise<Book[]> {
+    return this.findByIds(await this.lookup.findIds({ status }));
+  }
+
+  /**
+   * Events of a book's stream after a version
+   * @private
+   */
+  private async readHistory(id: string, afterVersion: number): Promise<BookEvent[]> {
+    // Book streams only hold events recorded by Book
+    return (await this.eventStore.readStream(id, afterVersion)) as BookEvent[];
+  }
+
+  /**
+   * Snapshot of a book's state after its pending events
+   * @private
+   */
+  private toSnapshot(book: Book, version: number): StreamSnapshot {
+    const state: BookSnapshotState = {
+      id: book.id,
+      isbn: book.isbn.getValue(),
+      barcode: book.barcode.getValue(),
+      status: book.status,
+      borrowedBy: book.borrowedBy?.getValue() ?? null,
+      borrowedAt: book.borrowedAt?.toISOString() ?? null,
+      dueDate: book.dueDate?.toISOString() ?? null,
+      renewalCount: book.renewalCount,
+      reservedFor: book.reservedFor?.getValue() ?? null,
+      createdAt: book.createdAt.toISOString(),
+      updatedAt: book.updatedAt.toISOString(),
+    };
+
+    return {
+      streamId: book.id,
+      streamType: EventSourcedBookRepository.STREAM_TYPE,
+      version,
+      state: { ...state },
+    };
+  }
+
+  /**
+   * Book as of a snapshot's version
+   * @private
+   */
+  private fromSnapshot(snapshot: StreamSnapshot): Book {
+    const state = snapshot.state as unknown as BookSnapshotState;
+
+    return Book.reconstruct(
+      state.id,
+      new ISBN(state.isbn),
+      Barcode.create(state.barcode),
+      state.status as BookStatus,
+      state.borrowedBy ? UserId.create(state.borrowedBy) : null,
+      state.borrowedAt ? new Date(state.borrowedAt) : null,
+      state.dueDate ? new Date(state.dueDate) : null,
+      state.renewalCount,
+      state.reservedFor ? UserId.create(state.reservedFor) : null,
+      new Date(state.createdAt),
+      new Date(state.updatedAt),
+      snapshot.version
+    );
+  }
+}
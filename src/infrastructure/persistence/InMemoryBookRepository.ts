@@ -0,0 +1,157 @@
+/**
+ * In-Memory Book Repository Implementation
+ *
+ * Concrete implementation of IBookRepository backed by a Map.
+ * Behaves like MySQLBookRepository so it can replace it in tests
+ * and local runs without a database:
+ * - Unique barcode enforcement
+ * - Same ordering (createdAt desc) and paging
+ * - Optimistic concurrency on the version field
+ */
+
+import { IBookRepository, BookQuery } from '../../domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Page } from '../../domain/repositories/PageQuery';
+import { Book } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { DEFAULT_SORT, paginate } from './pagination';
+import { bookSortKey, filterBooks } from './listQueries';
+
+export class InMemoryBookRepository implements IBookRepository {
+  private readonly books = new Map<string, Book>();
+
+  /**
+   * @param catalog - Titles searched by the author and title filters of findPage
+   *   (the books table query joins the titles table)
+   */
+  constructor(private readonly catalog: ITitleRepository) {}
+
+  async save(book: Book): Promise<void> {
+    const stored = this.books.get(book.id);
+
+    // New aggregate: insert with the first version
+    if (book.version === 0) {
+      if (stored) {
+        throw new Error(`Unique constraint failed on id: ${book.id}`);
+      }
+      this.assertUniqueBarcode(book);
+      this.books.set(book.id, this.withVersion(book, 1));
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    if (!stored || stored.version !== book.version) {
+      throw new ConcurrencyConflictError('Book', book.id, book.version);
+    }
+    this.books.set(book.id, this.withVersion(book, book.version + 1));
+  }
+
+  async findById(id: string): Promise<Book | null> {
+    return this.books.get(id) ?? null;
+  }
+
+  async findByIds(ids: string[]): Promise<Book[]> {
+    return ids.flatMap((id) => this.books.get(id) ?? []);
+  }
+
+  async findByISBN(isbn: ISBN): Promise<Book[]> {
+    return this.sorted([...this.books.values()].filter((book) => book.isbn.equals(isbn)));
+  }
+
+  async findByISBNs(isbns: ISBN[]): Promise<Book[]> {
+    return this.sorted(
+      [...this.books.values()].filter((book) => isbns.some((isbn) => book.isbn.equals(isbn)))
+    );
+  }
+
+  async findByBarcode(barcode: Barcode): Promise<Book | null> {
+    for (const book of this.books.values()) {
+      if (book.barcode.equals(barcode)) {
+        return book;
+      }
+    }
+    return null;
+  }
+
+  async findByBarcodes(barcodes: Barcode[]): Promise<Book[]> {
+    return [...this.books.values()].filter((book) =>
+      barcodes.some((barcode) => book.barcode.equals(barcode))
+    );
+  }
+
+  async findAll(): Promise<Book[]> {
+    return this.sorted([...this.books.values()]);
+  }
+
+  async findPage(query: BookQuery): Promise<Page<Book>> {
+    const sort = query.sort ?? DEFAULT_SORT;
+    const books = await filterBooks([...this.books.values()], query, this.catalog);
+
+    return paginate(books, sort, query.page, bookSortKey(sort.field), (book) => book.id);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.books.delete(id)) {
+      throw new Error(`Book not found: ${id}`);
+    }
+  }
+
+  async findByStatus(status: string): Promise<Book[]> {
+    return this.sorted([...this.books.values()].filter((book) => book.status === status));
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = new Map(this.books);
+    return () => {
+      this.books.clear();
+      copy.forEach((book, id) => this.books.set(id, book));
+    };
+  }
+
+  /**
+   * Enforce the unique index on barcode
+   * @private
+   */
+  private assertUniqueBarcode(book: Book): void {
+    for (const other of this.books.values()) {
+      if (other.id !== book.id && other.barcode.equals(book.barcode)) {
+        throw new Error(`Unique constraint failed on barcode: ${book.barcode.getValue()}`);
+      }
+    }
+  }
+
+  /**
+   * Same ordering as the Prisma repository (createdAt desc)
+   * @private
+   */
+  private sorted(books: Book[]): Book[] {
+    return books.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Copy of the book carrying the stored version
+   * @private
+   */
+  private withVersion(book: Book, version: number): Book {
+    return Book.reconstruct(
+      book.id,
+      book.isbn,
+      book.barcode,
+      book.status,
+      book.borrowedBy,
+      book.borrowedAt,
+      book.dueDate,
+      book.renewalCount,
+      book.reservedFor,
+      book.createdAt,
+      book.updatedAt,
+      version
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * In-Memory Fee Ledger Repository Implementation
+ *
+ * Concrete implementation of IFeeLedgerRepository backed by an array
+ * in recording order. Behaves like PrismaFeeLedgerRepository.
+ */
+
+import { IFeeLedgerRepository } from '../../domain/repositories/IFeeLedgerRepository';
+import { FeeEntry } from '../../domain/entities/FeeEntry';
+import { FeeLedger } from '../../domain/entities/FeeLedger';
+import { UserId } from '../../domain/valueObjects/UserId';
+
+export class InMemoryFeeLedgerRepository implements IFeeLedgerRepository {
+  private entries: FeeEntry[] = [];
+
+  async append(entry: FeeEntry): Promise<void> {
+    if (this.entries.some((other) => other.id === entry.id)) {
+      throw new Error(`Unique constraint failed on id: ${entry.id}`);
+    }
+    this.entries.push(entry);
+  }
+
+  async findByUser(userId: UserId): Promise<FeeLedger> {
+    return FeeLedger.of(
+      userId,
+      this.entries.filter((entry) => entry.userId.equals(userId))
+    );
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = [...this.entries];
+    return () => {
+      this.entries = copy;
+    };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * In-Memory Hold Repository Implementation
+ *
+ * Concrete implementation of IHoldRepository backed by a Map.
+ * Behaves like PrismaHoldRepository (FIFO ordering by placedAt,
+ * optimistic concurrency on the version field).
+ */
+
+import { IHoldRepository } from '../../domain/repositories/IHoldRepository';
+import { Hold, HoldStatus } from '../../domain/entities/Hold';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+
+export class InMemoryHoldRepository implements IHoldRepository {
+  private readonly holds = new Map<string, Hold>();
+
+  async save(hold: Hold): Promise<void> {
+    const stored = this.holds.get(hold.id);
+
+    // New aggregate: insert with the first version
+    if (hold.version === 0) {
+      if (stored) {
+        throw new Error(`Unique constraint failed on id: ${hold.id}`);
+      }
+      this.holds.set(hold.id, this.withVersion(hold, 1));
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    if (!stored || stored.version !== hold.version) {
+      throw new ConcurrencyConflictError('Hold', hold.id, hold.version);
+    }
+    this.holds.set(hold.id, this.withVersion(hold, hold.version + 1));
+  }
+
+  async findById(id: string): Promise<Hold | null> {
+    return this.holds.get(id) ?? null;
+  }
+
+  async findActiveByBook(bookId: string): Promise<Hold[]> {
+    return this.sorted(
+      [...this.holds.values()].filter((hold) => hold.bookId === bookId && hold.isActive())
+    );
+  }
+
+  async findActiveByUser(userId: UserId): Promise<Hold[]> {
+    return this.sorted(
+      [...this.holds.values()].filter((hold) => hold.userId.equals(userId) && hold.isActive())
+    );
+  }
+
+  async findByStatus(status: HoldStatus): Promise<Hold[]> {
+    return this.sorted([...this.holds.values()].filter((hold) => hold.status === status));
+  }
+
+  async hasPendingReservation(bookId: string): Promise<boolean> {
+    return (await this.findActiveByBook(bookId)).length > 0;
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = new Map(this.holds);
+    return () => {
+      this.holds.clear();
+      copy.forEach((hold, id) => this.holds.set(id, hold));
+    };
+  }
+
+  /**
+   * Same ordering as the Prisma repository (placedAt asc, FIFO)
+   * @private
+   */
+  private sorted(holds: Hold[]): Hold[] {
+    return holds.sort((a, b) => a.placedAt.getTime() - b.placedAt.getTime());
+  }
+
+  /**
+   * Copy of the hold carrying the stored version
+   * @private
+   */
+  private withVersion(hold: Hold, version: number): Hold {
+    return Hold.reconstruct(
+      hold.id,
+      hold.bookId,
+      hold.userId,
+      hold.status,
+      hold.placedAt,
+      hold.readyAt,
+      hold.expiresAt,
+      version
+    );
+  }
+}
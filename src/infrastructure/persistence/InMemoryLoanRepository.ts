@@ -0,0 +1,110 @@
+/**
+ * In-Memory Loan Repository Implementation
+ *
+ * Concrete implementation of ILoanRepository backed by a Map.
+ * Behaves like PrismaLoanRepository (same ordering, optimistic
+ * concurrency on the version field).
+ */
+
+import { ILoanRepository } from '../../domain/repositories/ILoanRepository';
+import { Loan } from '../../domain/entities/Loan';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+
+export class InMemoryLoanRepository implements ILoanRepository {
+  private readonly loans = new Map<string, Loan>();
+
+  async save(loan: Loan): Promise<void> {
+    const stored = this.loans.get(loan.id);
+
+    // New aggregate: insert with the first version
+    if (loan.version === 0) {
+      if (stored) {
+        throw new Error(`Unique constraint failed on id: ${loan.id}`);
+      }
+      this.loans.set(loan.id, this.withVersion(loan, 1));
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    if (!stored || stored.version !== loan.version) {
+      throw new ConcurrencyConflictError('Loan', loan.id, loan.version);
+    }
+    this.loans.set(loan.id, this.withVersion(loan, loan.version + 1));
+  }
+
+  async findById(id: string): Promise<Loan | null> {
+    return this.loans.get(id) ?? null;
+  }
+
+  async findByUser(userId: UserId): Promise<Loan[]> {
+    return this.mostRecentFirst(
+      [...this.loans.values()].filter((loan) => loan.userId.equals(userId))
+    );
+  }
+
+  async findByUsers(userIds: UserId[]): Promise<Loan[]> {
+    const ids = new Set(userIds.map((userId) => userId.getValue()));
+    return this.mostRecentFirst(
+      [...this.loans.values()].filter((loan) => ids.has(loan.userId.getValue()))
+    );
+  }
+
+  async findByBook(bookId: string): Promise<Loan[]> {
+    return this.mostRecentFirst(
+      [...this.loans.values()].filter((loan) => loan.bookId === bookId)
+    );
+  }
+
+  async findOpenByBook(bookId: string): Promise<Loan | null> {
+    for (const loan of this.loans.values()) {
+      if (loan.bookId === bookId && loan.isOpen()) {
+        return loan;
+      }
+    }
+    return null;
+  }
+
+  async findOpen(): Promise<Loan[]> {
+    return [...this.loans.values()]
+      .filter((loan) => loan.isOpen())
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = new Map(this.loans);
+    return () => {
+      this.loans.clear();
+      copy.forEach((loan, id) => this.loans.set(id, loan));
+    };
+  }
+
+  /**
+   * Same ordering as the Prisma repository (borrowedAt desc)
+   * @private
+   */
+  private mostRecentFirst(loans: Loan[]): Loan[] {
+    return loans.sort((a, b) => b.borrowedAt.getTime() - a.borrowedAt.getTime());
+  }
+
+  /**
+   * Copy of the loan carrying the stored version
+   * @private
+   */
+  private withVersion(loan: Loan, version: number): Loan {
+    return Loan.reconstruct(
+      loan.id,
+      loan.bookId,
+      loan.userId,
+      loan.borrowedAt,
+      loan.dueDate,
+      loan.returnedAt,
+      loan.feeCharged,
+      version
+    );
+  }
+}
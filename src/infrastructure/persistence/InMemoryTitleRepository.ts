@@ -0,0 +1,78 @@
+/**
+ * In-Memory Title Repository Implementation
+ *
+ * Concrete implementation of ITitleRepository backed by a Map keyed by ISBN.
+ * Behaves like PrismaTitleRepository (same ordering, optimistic
+ * concurrency on the version field).
+ */
+
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Title } from '../../domain/entities/Title';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+
+export class InMemoryTitleRepository implements ITitleRepository {
+  private readonly titles = new Map<string, Title>();
+
+  async save(title: Title): Promise<void> {
+    const key = title.isbn.getValue();
+    const stored = this.titles.get(key);
+
+    // New aggregate: insert with the first version
+    if (title.version === 0) {
+      if (stored) {
+        throw new Error(`Unique constraint failed on isbn: ${key}`);
+      }
+      this.titles.set(key, this.withVersion(title, 1));
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    if (!stored || stored.version !== title.version) {
+      throw new ConcurrencyConflictError('Title', key, title.version);
+    }
+    this.titles.set(key, this.withVersion(title, title.version + 1));
+  }
+
+  async findByISBN(isbn: ISBN): Promise<Title | null> {
+    return this.titles.get(isbn.getValue()) ?? null;
+  }
+
+  async findByISBNs(isbns: ISBN[]): Promise<Title[]> {
+    return isbns.flatMap((isbn) => this.titles.get(isbn.getValue()) ?? []);
+  }
+
+  async findAll(): Promise<Title[]> {
+    return [...this.titles.values()].sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = new Map(this.titles);
+    return () => {
+      this.titles.clear();
+      copy.forEach((title, isbn) => this.titles.set(isbn, title));
+    };
+  }
+
+  /**
+   * Copy of the title carrying the stored version
+   * @private
+   */
+  private withVersion(title: Title, version: number): Title {
+    return Title.reconstruct(
+      title.isbn,
+      title.title,
+      title.author,
+      title.details,
+      title.createdAt,
+      title.updatedAt,
+      version
+    );
+  }
+}
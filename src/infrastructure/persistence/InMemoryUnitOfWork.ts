@@ -0,0 +1,67 @@
+/**
+ * In-Memory Unit of Work Implementation
+ *
+ * Runs work directly against the in-memory repositories after taking a
+ * snapshot of each one. If the work throws (including a concurrency
+ * conflict raised by a repository), every repository is restored to its
+ * snapshot, so no partial changes remain (rollback).
+ *
+ * Units of work are run one at a time (serializable isolation), so a
+ * rollback can never discard another unit of work's changes. Not
+ * re-entrant: do not call run() from inside a running unit of work.
+ *
+ * Intended for tests and local runs without a database.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { InMemoryUserRepository } from './InMemoryUserRepository';
+import { InMemoryBookRepository } from './InMemoryBookRepository';
+import { InMemoryTitleRepository } from './InMemoryTitleRepository';
+import { InMemoryHoldRepository } from './InMemoryHoldRepository';
+import { InMemoryLoanRepository } from './InMemoryLoanRepository';
+import { InMemoryFeeLedgerRepository } from './InMemoryFeeLedgerRepository';
+
+/**
+ * In-memory repositories shared by all units of work
+ */
+export interface InMemoryRepositories extends TransactionalRepositories {
+  userRepository: InMemoryUserRepository;
+  bookRepository: InMemoryBookRepository;
+  titleRepository: InMemoryTitleRepository;
+  holdRepository: InMemoryHoldRepository;
+  loanRepository: InMemoryLoanRepository;
+  feeLedgerRepository: InMemoryFeeLedgerRepository;
+}
+
+export class InMemoryUnitOfWork implements IUnitOfWork {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly repositories: InMemoryRepositories) {}
+
+  async run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T> {
+    // Wait for the previous unit of work to finish
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise<void>((resolve) => (release = resolve));
+    await previous;
+
+    const restores = [
+      this.repositories.userRepository.snapshot(),
+      this.repositories.bookRepository.snapshot(),
+      this.repositories.titleRepository.snapshot(),
+      this.repositories.holdRepository.snapshot(),
+      this.repositories.loanRepository.snapshot(),
+      this.repositories.feeLedgerRepository.snapshot(),
+    ];
+
+    try {
+      return await work(this.repositories);
+    } catch (error) {
+      // Rollback: restore every repository to its snapshot
+      restores.forEach((restore) => restore());
+      throw error;
+    } finally {
+      release();
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * In-Memory User Repository Implementation
+ *
+ * Concrete implementation of IUserRepository backed by a Map.
+ * Behaves like PrismaUserRepository so it can replace it in tests
+ * and local runs without a database:
+ * - Unique email enforcement (case-insensitive)
+ * - Same ordering (createdAt desc, overdue fees desc) and paging
+ * - Optimistic concurrency on the version field
+ */
+
+import { IUserRepository, UserQuery } from '../../domain/repositories/IUserRepository';
+import { Page } from '../../domain/repositories/PageQuery';
+import { User } from '../../domain/entities/User';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { DEFAULT_SORT, paginate } from './pagination';
+import { userSortKey, filterUsers } from './listQueries';
+
+export class InMemoryUserRepository implements IUserRepository {
+  private readonly users = new Map<string, User>();
+
+  async save(user: User): Promise<void> {
+    const id = user.id.getValue();
+    const stored = this.users.get(id);
+
+    // New aggregate: insert with the first version
+    if (user.version === 0) {
+      if (stored) {
+        throw new Error(`Unique constraint failed on id: ${id}`);
+      }
+      this.assertUniqueEmail(user);
+      this.users.set(id, this.withVersion(user, 1));
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    if (!stored || stored.version !== user.version) {
+      throw new ConcurrencyConflictError('User', id, user.version);
+    }
+    this.assertUniqueEmail(user);
+    this.users.set(id, this.withVersion(user, user.version + 1));
+  }
+
+  async findById(id: UserId): Promise<User | null> {
+    return this.users.get(id.getValue()) ?? null;
+  }
+
+  async findByIds(ids: UserId[]): Promise<User[]> {
+    return ids.flatMap((id) => this.users.get(id.getValue()) ?? []);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const normalized = email.toLowerCase();
+    for (const user of this.users.values()) {
+      if (user.email === normalized) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  async findAll(): Promise<User[]> {
+    return [...this.users.values()].sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async findPage(query: UserQuery): Promise<Page<User>> {
+    const sort = query.sort ?? DEFAULT_SORT;
+    const users = filterUsers([...this.users.values()], query);
+
+    return paginate(users, sort, query.page, userSortKey(sort.field), (user) =>
+      user.id.getValue()
+    );
+  }
+
+  async delete(id: UserId): Promise<void> {
+    if (!this.users.delete(id.getValue())) {
+      throw new Error(`User not found: ${id.getValue()}`);
+    }
+  }
+
+  async findUsersWithOverdueFees(): Promise<User[]> {
+    return [...this.users.values()]
+      .filter((user) => user.overdueFees.isPositive())
+      .sort((a, b) => b.overdueFees.compareTo(a.overdueFees));
+  }
+
+  /**
+   * Capture the current contents for InMemoryUnitOfWork rollback
+   * @returns Function restoring the repository to this point
+   */
+  snapshot(): () => void {
+    const copy = new Map(this.users);
+    return () => {
+      this.users.clear();
+      copy.forEach((user, id) => this.users.set(id, user));
+    };
+  }
+
+  /**
+   * Enforce the unique index on email
+   * @private
+   */
+  private assertUniqueEmail(user: User): void {
+    for (const other of this.users.values()) {
+      if (!other.id.equals(user.id) && other.email === user.email) {
+        throw new Error(`Unique constraint failed on email: ${user.email}`);
+      }
+    }
+  }
+
+  /**
+   * Copy of the user carrying the stored version
+   * @private
+   */
+  private withVersion(user: User, version: number): User {
+    return User.reconstruct(
+      user.id,
+      user.name,
+      user.email,
+      user.status,
+      user.category,
+      user.currentBorrowCount,
+      user.overdueFees,
+      user.createdAt,
+      version
+    );
+  }
+}
@@ -0,0 +1,411 @@
+/// <reference types="node" />
+/**
+ * JSON File Store
+ *
+ * Persists the in-memory repositories to a single JSON file, so local
+ * tools (e.g. the CLI, one process per command) keep their data between
+ * runs without a database. load() fills fresh in-memory repositories from
+ * the file; save() writes their contents back.
+ *
+ * Not meant for concurrent writers: the last process to save wins.
+ * Versions restart at 1 on every load (they only guard against
+ * conflicts within one process). ISBNs are read into their canonical
+ * ISBN-13 form, so files written before that are migrated on the next save.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { InMemoryRepositories } from './InMemoryUnitOfWork';
+import { InMemoryUserRepository } from './InMemoryUserRepository';
+import { InMemoryBookRepository } from './InMemoryBookRepository';
+import { InMemoryTitleRepository } from './InMemoryTitleRepository';
+import { InMemoryHoldRepository } from './InMemoryHoldRepository';
+import { InMemoryLoanRepository } from './InMemoryLoanRepository';
+import { InMemoryFeeLedgerRepository } from './InMemoryFeeLedgerRepository';
+import { User, UserStatus, MemberCategory } from '../../domain/entities/User';
+import { Book, BookStatus } from '../../domain/entities/Book';
+import { Title, TitleDetails } from '../../domain/entities/Title';
+import { Hold, HoldStatus } from '../../domain/entities/Hold';
+import { Loan } from '../../domain/entities/Loan';
+import { FeeEntry, FeeEntryType } from '../../domain/entities/FeeEntry';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+// Dates are ISO strings, amounts integer minor units
+interface UserRecord {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  category: string;
+  currentBorrowCount: number;
+  overdueFees: number;
+  feeCurrency: string;
+  createdAt: string;
+}
+
+interface TitleRecord {
+  isbn: string;
+  title: string;
+  author: string;
+  details?: TitleDetails; // Absent from files written before titles had details
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface BookRecord {
+  id: string;
+  isbn: string;
+  barcode: string;
+  status: string;
+  borrowedBy: string | null;
+  borrowedAt: string | null;
+  dueDate: string | null;
+  renewalCount: number;
+  reservedFor: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface LoanRecord {
+  id: string;
+  bookId: string;
+  userId: string;
+  borrowedAt: string;
+  dueDate: string;
+  returnedAt: string | null;
+  feeCharged: number;
+  feeCurrency: string;
+}
+
+interface HoldRecord {
+  id: string;
+  bookId: string;
+  userId: string;
+  status: string;
+  placedAt: string;
+  readyAt: string | null;
+  expiresAt: string | null;
+}
+
+interface FeeEntryRecord {
+  id: string;
+  userId: string;
+  type: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  actor: string;
+  loanId: string | null;
+  bookId: string | null;
+  recordedAt: string;
+}
+
+interface StoredData {
+  users: UserRecord[];
+  titles: TitleRecord[];
+  books: BookRecord[];
+  loans: LoanRecord[];
+  holds: HoldRecord[];
+  feeEntries: FeeEntryRecord[];
+}
+
+// Details of a title read from an older file
+const NO_DETAILS: TitleDetails = {
+  publisher: null,
+  publicationYear: null,
+  edition: null,
+  language: null,
+  coverUrl: null,
+  subjects: [],
+};
+
+export class JsonFileStore {
+  /**
+   * @param path - Data file (created by the first save)
+   */
+  constructor(private readonly path: string) {}
+
+  /**
+   * Repositories holding the file's contents (empty if there is no file yet)
+   * @throws ValidationError naming the file if it is malformed (e.g. a fractional fee)
+   */
+  async load(): Promise<InMemoryRepositories> {
+    const titleRepository = new InMemoryTitleRepository();
+    const repositories: InMemoryRepositories = {
+      userRepository: new InMemoryUserRepository(),
+      bookRepository: new InMemoryBookRepository(titleRepository),
+      titleRepository,
+      holdRepository: new InMemoryHoldRepository(),
+      loanRepository: new InMemoryLoanRepository(),
+      feeLedgerRepository: new InMemoryFeeLedgerRepository(),
+    };
+
+    const data = await this.read();
+    if (!data) {
+      return repositories;
+    }
+
+    try {
+      // Saved as new aggregates (version 0), so each gets version 1
+      for (const record of data.users) {
+        await repositories.userRepository.save(this.toUser(record));
+      }
+      for (const record of data.titles) {
+        const title = this.toTitle(record);
+        // Older files may catalog an edition under both its ISBN-10 and ISBN-13
+        if (!(await repositories.titleRepository.findByISBN(title.isbn))) {
+          await repositories.titleRepository.save(title);
+        }
+      }
+      for (const record of data.books) {
+        await repositories.bookRepository.save(this.toBook(record));
+      }
+      for (const record of data.loans) {
+        await repositories.loanRepository.save(this.toLoan(record));
+      }
+      for (const record of data.holds) {
+        await repositories.holdRepository.save(this.toHold(record));
+      }
+      for (const record of data.feeEntries) {
+        await repositories.feeLedgerRepository.append(this.toFeeEntry(record));
+      }
+    } catch (error) {
+      throw new ValidationError(
+        'dataFile',
+        `Invalid data file ${this.path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    return repositories;
+  }
+
+  /**
+   * Write the repositories' contents to the file
+   *
+   * Written to a temporary file first and renamed, so a crash never
+   * leaves a half-written data file.
+   */
+  async save(repositories: InMemoryRepositories): Promise<void> {
+    const users = await repositories.userRepository.findAll();
+    const loans = await Promise.all(
+      users.map((user) => repositories.loanRepository.findByUser(user.id))
+    );
+    const ledgers = await Promise.all(
+      users.map((user) => repositories.feeLedgerRepository.findByUser(user.id))
+    );
+    const holds = await Promise.all(
+      Object.values(HoldStatus).map((status) => repositories.holdRepository.findByStatus(status))
+    );
+
+    const data: StoredData = {
+      users: users.map((user) => this.fromUser(user)),
+      titles: (await repositories.titleRepository.findAll()).map((title) => this.fromTitle(title)),
+      books: (await repositories.bookRepository.findAll()).map((book) => this.fromBook(book)),
+      loans: loans.flat().map((loan) => this.fromLoan(loan)),
+      holds: holds.flat().map((hold) => this.fromHold(hold)),
+      feeEntries: ledgers
+        .flatMap((ledger) => ledger.entries)
+        .map((entry) => this.fromFeeEntry(entry)),
+    };
+
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, JSON.stringify(data, null, 2), 'utf8');
+    await rename(temporary, this.path);
+  }
+
+  /**
+   * @private
+   * @returns Parsed file, null if it does not exist
+   */
+  private async read(): Promise<StoredData | null> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(text) as StoredData;
+    } catch (error) {
+      throw new ValidationError(
+        'dataFile',
+        `Invalid data file ${this.path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private toUser(record: UserRecord): User {
+    return User.reconstruct(
+      UserId.create(record.id),
+      record.name,
+      record.email,
+      record.status as UserStatus,
+      record.category as MemberCategory,
+      record.currentBorrowCount,
+      Money.of(record.overdueFees, record.feeCurrency),
+      new Date(record.createdAt),
+      0
+    );
+  }
+
+  private fromUser(user: User): UserRecord {
+    return {
+      id: user.id.getValue(),
+      name: user.name,
+      email: user.email,
+      status: user.status,
+      category: user.category,
+      currentBorrowCount: user.currentBorrowCount,
+      overdueFees: user.overdueFees.getMinorUnits(),
+      feeCurrency: user.overdueFees.getCurrency(),
+      createdAt: user.createdAt.toISOString(),
+    };
+  }
+
+  private toTitle(record: TitleRecord): Title {
+    return Title.reconstruct(
+      new ISBN(record.isbn),
+      record.title,
+      record.author,
+      record.details ?? NO_DETAILS,
+      new Date(record.createdAt),
+      new Date(record.updatedAt),
+      0
+    );
+  }
+
+  private fromTitle(title: Title): TitleRecord {
+    return {
+      isbn: title.isbn.getValue(),
+      title: title.title,
+      author: title.author,
+      details: title.details,
+      createdAt: title.createdAt.toISOString(),
+      updatedAt: title.updatedAt.toISOString(),
+    };
+  }
+
+  private toBook(record: BookRecord): Book {
+    return Book.reconstruct(
+      record.id,
+      new ISBN(record.isbn),
+      Barcode.create(record.barcode),
+      record.status as BookStatus,
+      record.borrowedBy ? UserId.create(record.borrowedBy) : null,
+      this.toDate(record.borrowedAt),
+      this.toDate(record.dueDate),
+      record.renewalCount,
+      record.reservedFor ? UserId.create(record.reservedFor) : null,
+      new Date(record.createdAt),
+      new Date(record.updatedAt),
+      0
+    );
+  }
+
+  private fromBook(book: Book): BookRecord {
+    return {
+      id: book.id,
+      isbn: book.isbn.getValue(),
+      barcode: book.barcode.getValue(),
+      status: book.status,
+      borrowedBy: book.borrowedBy?.getValue() ?? null,
+      borrowedAt: book.borrowedAt?.toISOString() ?? null,
+      dueDate: book.dueDate?.toISOString() ?? null,
+      renewalCount: book.renewalCount,
+      reservedFor: book.reservedFor?.getValue() ?? null,
+      createdAt: book.createdAt.toISOString(),
+      updatedAt: book.updatedAt.toISOString(),
+    };
+  }
+
+  private toLoan(record: LoanRecord): Loan {
+    return Loan.reconstruct(
+      record.id,
+      record.bookId,
+      UserId.create(record.userId),
+      new Date(record.borrowedAt),
+      new Date(record.dueDate),
+      this.toDate(record.returnedAt),
+      Money.of(record.feeCharged, record.feeCurrency),
+      0
+    );
+  }
+
+  private fromLoan(loan: Loan): LoanRecord {
+    return {
+      id: loan.id,
+      bookId: loan.bookId,
+      userId: loan.userId.getValue(),
+      borrowedAt: loan.borrowedAt.toISOString(),
+      dueDate: loan.dueDate.toISOString(),
+      returnedAt: loan.returnedAt?.toISOString() ?? null,
+      feeCharged: loan.feeCharged.getMinorUnits(),
+      feeCurrency: loan.feeCharged.getCurrency(),
+    };
+  }
+
+  private toHold(record: HoldRecord): Hold {
+    return Hold.reconstruct(
+      record.id,
+      record.bookId,
+      UserId.create(record.userId),
+      record.status as HoldStatus,
+      new Date(record.placedAt),
+      this.toDate(record.readyAt),
+      this.toDate(record.expiresAt),
+      0
+    );
+  }
+
+  private fromHold(hold: Hold): HoldRecord {
+    return {
+      id: hold.id,
+      bookId: hold.bookId,
+      userId: hold.userId.getValue(),
+      status: hold.status,
+      placedAt: hold.placedAt.toISOString(),
+      readyAt: hold.readyAt?.toISOString() ?? null,
+      expiresAt: hold.expiresAt?.toISOString() ?? null,
+    };
+  }
+
+  private toFeeEntry(record: FeeEntryRecord): FeeEntry {
+    return FeeEntry.reconstruct(
+      record.id,
+      UserId.create(record.userId),
+      record.type as FeeEntryType,
+      Money.of(record.amount, record.currency),
+      record.reason,
+      record.actor,
+      record.loanId,
+      record.bookId,
+      new Date(record.recordedAt)
+    );
+  }
+
+  private fromFeeEntry(entry: FeeEntry): FeeEntryRecord {
+    return {
+      id: entry.id,
+      userId: entry.userId.getValue(),
+      type: entry.type,
+      amount: entry.amount.getMinorUnits(),
+      currency: entry.amount.getCurrency(),
+      reason: entry.reason,
+      actor: entry.actor,
+      loanId: entry.loanId,
+      bookId: entry.bookId,
+      recordedAt: entry.recordedAt.toISOString(),
+    };
+  }
+
+  private toDate(value: string | null): Date | null {
+    return value ? new Date(value) : null;
+  }
+}
@@ -1,40 +1,73 @@
 /**
  * MySQL Book Repository Implementation - Enhanced for Lesson 3
  *
- * Handles borrowedBy and borrowedAt fields for multi-entity operations
+ * Handles borrowedBy, borrowedAt and dueDate fields for multi-entity operations
+ * Each record is one barcoded copy; title and author live in the titles table
+ * Uses the version column for optimistic concurrency control
+ * Pages list queries by offset or keyset cursor (sort field, then id)
+ * Writes the book's pending domain events to the outbox when saving
  */
-import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { IBookRepository, BookQuery } from '../../domain/repositories/IBookRepository';
+import { Page } from '../../domain/repositories/PageQuery';
 import { Book, BookStatus } from '../../domain/entities/Book';
 import { ISBN } from '../../domain/valueObjects/ISBN';
+import { Barcode } from '../../domain/valueObjects/Barcode';
 import { UserId } from '../../domain/valueObjects/UserId';
-import { PrismaClient } from '@prisma/client';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { appendToOutbox } from '../outbox/PrismaOutbox';
+import { DEFAULT_SORT, keysetWhere, nextCursor } from './pagination';
+import { bookSortKey } from './listQueries';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const BOOK_DATE_FIELDS = ['createdAt', 'updatedAt'];
 
 export class MySQLBookRepository implements IBookRepository {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
 
   async save(book: Book): Promise<void> {
-    await this.prisma.book.upsert({
-      where: { id: book.id },
-      update: {
-        title: book.title,
-        author: book.author,
-        status: book.status,
-        borrowedBy: book.borrowedBy?.getValue() ?? null,
-        borrowedAt: book.borrowedAt,
-        updatedAt: book.updatedAt,
-      },
-      create: {
-        id: book.id,
-        isbn: book.isbn.getValue(),
-        title: book.title,
-        author: book.author,
+    // New aggregate: insert with the first version
+    if (book.version === 0) {
+      await this.prisma.book.create({
+        data: {
+          id: book.id,
+          isbn: book.isbn.getValue(),
+          barcode: book.barcode.getValue(),
+          status: book.status,
+          borrowedBy: book.borrowedBy?.getValue() ?? null,
+          borrowedAt: book.borrowedAt,
+          dueDate: book.dueDate,
+          renewalCount: book.renewalCount,
+          reservedFor: book.reservedFor?.getValue() ?? null,
+          createdAt: book.createdAt,
+          updatedAt: book.updatedAt,
+          version: 1,
+        },
+      });
+      await appendToOutbox(this.prisma, 'Book', book.domainEvents);
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    const { count } = await this.prisma.book.updateMany({
+      where: { id: book.id, version: book.version },
+      data: {
         status: book.status,
         borrowedBy: book.borrowedBy?.getValue() ?? null,
         borrowedAt: book.borrowedAt,
-        createdAt: book.createdAt,
+        dueDate: book.dueDate,
+        renewalCount: book.renewalCount,
+        reservedFor: book.reservedFor?.getValue() ?? null,
         updatedAt: book.updatedAt,
+        version: { increment: 1 },
       },
     });
+
+    if (count === 0) {
+      throw new ConcurrencyConflictError('Book', book.id, book.version);
+    }
+
+    // Events of the change, in the same transaction
+    await appendToOutbox(this.prisma, 'Book', book.domainEvents);
   }
 
   async findById(id: string): Promise<Book | null> {
@@ -49,9 +82,35 @@ export class MySQLBookRepository implements IBookRepository {
     return this.toDomain(record);
   }
 
-  async findByISBN(isbn: ISBN): Promise<Book | null> {
-    const record = await this.prisma.book.findUnique({
+  async findByIds(ids: string[]): Promise<Book[]> {
+    const records = await this.prisma.book.findMany({
+      where: { id: { in: ids } },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByISBN(isbn: ISBN): Promise<Book[]> {
+    const records = await this.prisma.book.findMany({
       where: { isbn: isbn.getValue() },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByISBNs(isbns: ISBN[]): Promise<Book[]> {
+    const records = await this.prisma.book.findMany({
+      where: { isbn: { in: isbns.map((isbn) => isbn.getValue()) } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByBarcode(barcode: Barcode): Promise<Book | null> {
+    const record = await this.prisma.book.findUnique({
+      where: { barcode: barcode.getValue() },
     });
 
     if (!record) {
@@ -61,6 +120,14 @@ export class MySQLBookRepository implements IBookRepository {
     return this.toDomain(record);
   }
 
+  async findByBarcodes(barcodes: Barcode[]): Promise<Book[]> {
+    const records = await this.prisma.book.findMany({
+      where: { barcode: { in: barcodes.map((barcode) => barcode.getValue()) } },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
   async findAll(): Promise<Book[]> {
     const records = await this.prisma.book.findMany({
       orderBy: { createdAt: 'desc' },
@@ -69,6 +136,32 @@ export class MySQLBookRepository implements IBookRepository {
     return records.map((record) => this.toDomain(record));
   }
 
+  async findPage(query: BookQuery): Promise<Page<Book>> {
+    const sort = query.sort ?? DEFAULT_SORT;
+    const { limit, offset, after, withTotal } = query.page;
+    const where = this.whereOf(query);
+
+    const records = await this.prisma.book.findMany({
+      where: after ? { AND: [where, keysetWhere(sort, after, BOOK_DATE_FIELDS)] } : where,
+      orderBy: [{ [sort.field]: sort.direction }, { id: sort.direction }],
+      ...(!after && offset && { skip: offset }),
+      take: limit + 1, // One extra row tells whether a next page exists
+    });
+    const totalCount = withTotal ? await this.prisma.book.count({ where }) : null;
+
+    const books = records.slice(0, limit).map((record) => this.toDomain(record));
+    return {
+      items: books,
+      totalCount,
+      nextCursor: nextCursor(
+        books,
+        records.length > limit,
+        bookSortKey(sort.field),
+        (book) => book.id
+      ),
+    };
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.book.delete({
       where: { id },
@@ -84,31 +177,60 @@ export class MySQLBookRepository implements IBookRepository {
     return records.map((record) => this.toDomain(record));
   }
 
+  /**
+   * Filters of a list query; author and title are matched in the joined titles row
+   * @private
+   */
+  private whereOf(query: BookQuery): Prisma.BookWhereInput {
+    return {
+      ...(query.status && { status: query.status }),
+      ...(query.borrowedBy && { borrowedBy: query.borrowedBy.getValue() }),
+      ...((query.author || query.title) && {
+        title: {
+          is: {
+            ...(query.author && { author: { contains: query.author, mode: 'insensitive' } }),
+            ...(query.title && { title: { contains: query.title, mode: 'insensitive' } }),
+          },
+        },
+      }),
+    };
+  }
+
   private toDomain(record: {
     id: string;
     isbn: string;
-    title: string;
-    author: string;
+    barcode: string;
     status: string;
     borrowedBy: string | null;
     borrowedAt: Date | null;
+    dueDate: Date | null;
+    renewalCount: number;
+    reservedFor: string | null;
     createdAt: Date;
     updatedAt: Date;
+    version: number;
   }): Book {
     const isbnVO = new ISBN(record.isbn);
     const status = record.status as BookStatus;
     const borrowedBy = record.borrowedBy ? UserId.create(record.borrowedBy) : null;
+    const reservedFor = record.reservedFor ? UserId.create(record.reservedFor) : null;
+    // Loans stored before due dates existed fall back to the default period
+    const dueDate =
+      record.dueDate ?? (record.borrowedAt ? Book.defaultDueDate(record.borrowedAt) : null);
 
     return Book.reconstruct(
       record.id,
       isbnVO,
-      record.title,
-      record.author,
+      Barcode.create(record.barcode),
       status,
       borrowedBy,
       record.borrowedAt,
+      dueDate,
+      record.renewalCount,
+      reservedFor,
       record.createdAt,
-      record.updatedAt
+      record.updatedAt,
+      record.version
     );
   }
 }
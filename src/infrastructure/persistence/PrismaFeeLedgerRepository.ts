@@ -0,0 +1,76 @@
+/**
+ * Prisma Fee Ledger Repository Implementation
+ *
+ * Concrete implementation of IFeeLedgerRepository using Prisma ORM.
+ * Entries are insert-only; the sequence column keeps entries recorded
+ * at the same instant in recording order.
+ */
+
+import { IFeeLedgerRepository } from '../../domain/repositories/IFeeLedgerRepository';
+import { FeeEntry, FeeEntryType } from '../../domain/entities/FeeEntry';
+import { FeeLedger } from '../../domain/entities/FeeLedger';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export class PrismaFeeLedgerRepository implements IFeeLedgerRepository {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async append(entry: FeeEntry): Promise<void> {
+    await this.prisma.feeEntry.create({
+      data: {
+        id: entry.id,
+        userId: entry.userId.getValue(),
+        type: entry.type,
+        amount: entry.amount.getMinorUnits(),
+        currency: entry.amount.getCurrency(),
+        reason: entry.reason,
+        actor: entry.actor,
+        loanId: entry.loanId,
+        bookId: entry.bookId,
+        recordedAt: entry.recordedAt,
+      },
+    });
+  }
+
+  async findByUser(userId: UserId): Promise<FeeLedger> {
+    const records = await this.prisma.feeEntry.findMany({
+      where: { userId: userId.getValue() },
+      orderBy: { sequence: 'asc' },
+    });
+
+    return FeeLedger.of(
+      userId,
+      records.map((record) => this.toDomain(record))
+    );
+  }
+
+  /**
+   * Convert database record to domain entity
+   * @private
+   */
+  private toDomain(record: {
+    id: string;
+    userId: string;
+    type: string;
+    amount: number;
+    currency: string;
+    reason: string;
+    actor: string;
+    loanId: string | null;
+    bookId: string | null;
+    recordedAt: Date;
+  }): FeeEntry {
+    return FeeEntry.reconstruct(
+      record.id,
+      UserId.create(record.userId),
+      record.type as FeeEntryType,
+      Money.of(record.amount, record.currency),
+      record.reason,
+      record.actor,
+      record.loanId,
+      record.bookId,
+      record.recordedAt
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Prisma Hold Repository Implementation
+ *
+ * Concrete implementation of IHoldRepository using Prisma ORM.
+ * Uses the version column for optimistic concurrency control.
+ */
+
+import { IHoldRepository } from '../../domain/repositories/IHoldRepository';
+import { Hold, HoldStatus } from '../../domain/entities/Hold';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const ACTIVE_STATUSES = [HoldStatus.WAITING, HoldStatus.READY];
+
+export class PrismaHoldRepository implements IHoldRepository {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async save(hold: Hold): Promise<void> {
+    // New aggregate: insert with the first version
+    if (hold.version === 0) {
+      await this.prisma.hold.create({
+        data: {
+          id: hold.id,
+          bookId: hold.bookId,
+          userId: hold.userId.getValue(),
+          status: hold.status,
+          placedAt: hold.placedAt,
+          readyAt: hold.readyAt,
+          expiresAt: hold.expiresAt,
+          version: 1,
+        },
+      });
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    const { count } = await this.prisma.hold.updateMany({
+      where: { id: hold.id, version: hold.version },
+      data: {
+        status: hold.status,
+        readyAt: hold.readyAt,
+        expiresAt: hold.expiresAt,
+        version: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      throw new ConcurrencyConflictError('Hold', hold.id, hold.version);
+    }
+  }
+
+  async findById(id: string): Promise<Hold | null> {
+    const record = await this.prisma.hold.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.toDomain(record);
+  }
+
+  async findActiveByBook(bookId: string): Promise<Hold[]> {
+    const records = await this.prisma.hold.findMany({
+      where: { bookId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { placedAt: 'asc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findActiveByUser(userId: UserId): Promise<Hold[]> {
+    const records = await this.prisma.hold.findMany({
+      where: { userId: userId.getValue(), status: { in: ACTIVE_STATUSES } },
+      orderBy: { placedAt: 'asc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByStatus(status: HoldStatus): Promise<Hold[]> {
+    const records = await this.prisma.hold.findMany({
+      where: { status },
+      orderBy: { placedAt: 'asc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async hasPendingReservation(bookId: string): Promise<boolean> {
+    const count = await this.prisma.hold.count({
+      where: { bookId, status: { in: ACTIVE_STATUSES } },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Convert database record to domain entity
+   * @private
+   */
+  private toDomain(record: {
+    id: string;
+    bookId: string;
+    userId: string;
+    status: string;
+    placedAt: Date;
+    readyAt: Date | null;
+    expiresAt: Date | null;
+    version: number;
+  }): Hold {
+    return Hold.reconstruct(
+      record.id,
+      record.bookId,
+      UserId.create(record.userId),
+      record.status as HoldStatus,
+      record.placedAt,
+      record.readyAt,
+      record.expiresAt,
+      record.version
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Prisma ISBN Migration
+ *
+ * One-off data migration to canonical ISBN-13 keys. Rows written before
+ * the ISBN value object canonicalised its value may hold the ISBN-10 (or
+ * a lower-case check digit) of an edition, which findByISBN no longer
+ * matches. For each such ISBN, in its own transaction:
+ * - its title is re-keyed, which moves its copies along (books.isbn
+ *   cascades), or dropped in favour of the canonical title if the edition
+ *   was cataloged under both forms, once its copies are moved to that one
+ * - the search vector of a re-keyed title is rebuilt
+ * - the book_lookup rows of event-sourced copies move to the canonical ISBN
+ *
+ * Stored events and snapshots keep the ISBN they were written with: they
+ * are immutable, and replaying them reads the ISBN through the value
+ * object, which canonicalises it.
+ *
+ * Running it again finds nothing left to do.
+ */
+
+import { Title } from '../../domain/entities/Title';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { indexTitle } from '../search/PrismaCatalogSearch';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export interface IsbnMigrationReport {
+  converted: number; // ISBNs moved to their canonical form
+  mergedTitles: number; // Duplicate titles dropped
+  invalid: string[]; // Stored values that are not ISBNs at all (left untouched)
+}
+
+export class PrismaIsbnMigration {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async run(): Promise<IsbnMigrationReport> {
+    const titles = await this.prisma.title.findMany({ select: { isbn: true } });
+    const books = await this.prisma.book.findMany({ distinct: ['isbn'], select: { isbn: true } });
+    const lookups = await this.prisma.bookLookup.findMany({
+      distinct: ['isbn'],
+      select: { isbn: true },
+    });
+    const stored = new Set([...titles, ...books, ...lookups].map((record) => record.isbn));
+
+    const report: IsbnMigrationReport = { converted: 0, mergedTitles: 0, invalid: [] };
+    for (const value of stored) {
+      const isbn = ISBN.parse(value);
+      if (!isbn) {
+        report.invalid.push(value);
+        continue;
+      }
+      if (isbn.getValue() === value) {
+        continue;
+      }
+
+      const merged = await this.prisma.$transaction((tx) => this.migrate(tx, value, isbn));
+      report.converted++;
+      if (merged) {
+        report.mergedTitles++;
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Move one stored ISBN to its canonical form
+   * @returns Whether its title was merged into an existing canonical title
+   * @private
+   */
+  private async migrate(
+    tx: Prisma.TransactionClient,
+    stored: string,
+    isbn: ISBN
+  ): Promise<boolean> {
+    const canonical = isbn.getValue();
+    await tx.bookLookup.updateMany({ where: { isbn: stored }, data: { isbn: canonical } });
+
+    const title = await tx.title.findUnique({ where: { isbn: stored } });
+    if (!title || (await tx.title.findUnique({ where: { isbn: canonical } }))) {
+      // Copies may only reference the canonical title once it exists
+      await tx.book.updateMany({ where: { isbn: stored }, data: { isbn: canonical } });
+      if (!title) {
+        return false;
+      }
+      await tx.title.delete({ where: { isbn: stored } });
+      return true;
+    }
+
+    const record = await tx.title.update({ where: { isbn: stored }, data: { isbn: canonical } });
+    await indexTitle(
+      tx,
+      Title.reconstruct(
+        isbn,
+        record.title,
+        record.author,
+        {
+          publisher: record.publisher,
+          publicationYear: record.publicationYear,
+          edition: record.edition,
+          language: record.language,
+          coverUrl: record.coverUrl,
+          subjects: record.subjects,
+        },
+        record.createdAt,
+        record.updatedAt,
+        record.version
+      )
+    );
+    return false;
+  }
+}
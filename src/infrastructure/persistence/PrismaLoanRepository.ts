@@ -0,0 +1,146 @@
+/**
+ * Prisma Loan Repository Implementation
+ *
+ * Concrete implementation of ILoanRepository using Prisma ORM.
+ * Uses the version column for optimistic concurrency control.
+ * Writes the loan's pending domain events to the outbox when saving.
+ */
+
+import { ILoanRepository } from '../../domain/repositories/ILoanRepository';
+import { Loan } from '../../domain/entities/Loan';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { appendToOutbox } from '../outbox/PrismaOutbox';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export class PrismaLoanRepository implements ILoanRepository {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async save(loan: Loan): Promise<void> {
+    // New aggregate: insert with the first version
+    if (loan.version === 0) {
+      await this.prisma.loan.create({
+        data: {
+          id: loan.id,
+          bookId: loan.bookId,
+          userId: loan.userId.getValue(),
+          borrowedAt: loan.borrowedAt,
+          dueDate: loan.dueDate,
+          returnedAt: loan.returnedAt,
+          feeCharged: loan.feeCharged.getMinorUnits(),
+          feeCurrency: loan.feeCharged.getCurrency(),
+          version: 1,
+        },
+      });
+      await appendToOutbox(this.prisma, 'Loan', loan.domainEvents);
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    const { count } = await this.prisma.loan.updateMany({
+      where: { id: loan.id, version: loan.version },
+      data: {
+        dueDate: loan.dueDate,
+        returnedAt: loan.returnedAt,
+        feeCharged: loan.feeCharged.getMinorUnits(),
+        feeCurrency: loan.feeCharged.getCurrency(),
+        version: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      throw new ConcurrencyConflictError('Loan', loan.id, loan.version);
+    }
+
+    // Events of the change, in the same transaction
+    await appendToOutbox(this.prisma, 'Loan', loan.domainEvents);
+  }
+
+  async findById(id: string): Promise<Loan | null> {
+    const record = await this.prisma.loan.findUnique({
+      where: { id },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.toDomain(record);
+  }
+
+  async findByUser(userId: UserId): Promise<Loan[]> {
+    const records = await this.prisma.loan.findMany({
+      where: { userId: userId.getValue() },
+      orderBy: { borrowedAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByUsers(userIds: UserId[]): Promise<Loan[]> {
+    const records = await this.prisma.loan.findMany({
+      where: { userId: { in: userIds.map((userId) => userId.getValue()) } },
+      orderBy: { borrowedAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findByBook(bookId: string): Promise<Loan[]> {
+    const records = await this.prisma.loan.findMany({
+      where: { bookId },
+      orderBy: { borrowedAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findOpenByBook(bookId: string): Promise<Loan | null> {
+    const record = await this.prisma.loan.findFirst({
+      where: { bookId, returnedAt: null },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.toDomain(record);
+  }
+
+  async findOpen(): Promise<Loan[]> {
+    const records = await this.prisma.loan.findMany({
+      where: { returnedAt: null },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  /**
+   * Convert database record to domain entity
+   * @private
+   */
+  private toDomain(record: {
+    id: string;
+    bookId: string;
+    userId: string;
+    borrowedAt: Date;
+    dueDate: Date;
+    returnedAt: Date | null;
+    feeCharged: number;
+    feeCurrency: string;
+    version: number;
+  }): Loan {
+    return Loan.reconstruct(
+      record.id,
+      record.bookId,
+      UserId.create(record.userId),
+      record.borrowedAt,
+      record.dueDate,
+      record.returnedAt,
+      Money.of(record.feeCharged, record.feeCurrency),
+      record.version
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Prisma Title Repository Implementation
+ *
+ * Concrete implementation of ITitleRepository using Prisma ORM.
+ * Uses the version column for optimistic concurrency control.
+ * Keeps the title's full-text search vector in step when saving.
+ */
+
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Title } from '../../domain/entities/Title';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { indexTitle } from '../search/PrismaCatalogSearch';
+import { Prisma, PrismaClient, Title as TitleRecord } from '@prisma/client';
+
+export class PrismaTitleRepository implements ITitleRepository {
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
+
+  async save(title: Title): Promise<void> {
+    // New aggregate: insert with the first version
+    if (title.version === 0) {
+      await this.prisma.title.create({
+        data: {
+          isbn: title.isbn.getValue(),
+          title: title.title,
+          author: title.author,
+          ...title.details,
+          createdAt: title.createdAt,
+          updatedAt: title.updatedAt,
+          version: 1,
+        },
+      });
+      await indexTitle(this.prisma, title);
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    const { count } = await this.prisma.title.updateMany({
+      where: { isbn: title.isbn.getValue(), version: title.version },
+      data: {
+        title: title.title,
+        author: title.author,
+        ...title.details,
+        updatedAt: title.updatedAt,
+        version: { increment: 1 },
+      },
+    });
+
+    if (count === 0) {
+      throw new ConcurrencyConflictError('Title', title.isbn.getValue(), title.version);
+    }
+
+    await indexTitle(this.prisma, title);
+  }
+
+  async findByISBN(isbn: ISBN): Promise<Title | null> {
+    const record = await this.prisma.title.findUnique({
+      where: { isbn: isbn.getValue() },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return this.toDomain(record);
+  }
+
+  async findByISBNs(isbns: ISBN[]): Promise<Title[]> {
+    const records = await this.prisma.title.findMany({
+      where: { isbn: { in: isbns.map((isbn) => isbn.getValue()) } },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  async findAll(): Promise<Title[]> {
+    const records = await this.prisma.title.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
+  private toDomain(record: TitleRecord): Title {
+    return Title.reconstruct(
+      new ISBN(record.isbn),
+      record.title,
+      record.author,
+      {
+        publisher: record.publisher,
+        publicationYear: record.publicationYear,
+        edition: record.edition,
+        language: record.language,
+        coverUrl: record.coverUrl,
+        subjects: record.subjects,
+      },
+      record.createdAt,
+      record.updatedAt,
+      record.version
+    );
+  }
+}
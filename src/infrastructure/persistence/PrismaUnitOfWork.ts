@@ -0,0 +1,49 @@
+/**
+ * Prisma Unit of Work Implementation
+ *
+ * Runs work inside a Prisma interactive transaction. All repositories
+ * are bound to the same transaction client, so User, Book, Title,
+ * Hold, Loan and fee ledger writes commit together or are rolled back
+ * together, along with the outbox rows of the domain events they record.
+ *
+ * Books are stored in the books table unless another book repository
+ * (e.g. the event-sourced one) is supplied for the transaction client.
+ */
+
+import { IUnitOfWork, TransactionalRepositories } from '../../domain/repositories/IUnitOfWork';
+import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { PrismaUserRepository } from './PrismaUserRepository';
+import { MySQLBookRepository } from './MySQLBookRepository';
+import { PrismaTitleRepository } from './PrismaTitleRepository';
+import { PrismaHoldRepository } from './PrismaHoldRepository';
+import { PrismaLoanRepository } from './PrismaLoanRepository';
+import { PrismaFeeLedgerRepository } from './PrismaFeeLedgerRepository';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * Book repository bound to a transaction client
+ */
+export type PrismaBookRepositoryFactory = (
+  prisma: PrismaClient | Prisma.TransactionClient
+) => IBookRepository;
+
+export class PrismaUnitOfWork implements IUnitOfWork {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly createBookRepository: PrismaBookRepositoryFactory = (tx) =>
+      new MySQLBookRepository(tx)
+  ) {}
+
+  async run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async (tx) =>
+      work({
+        userRepository: new PrismaUserRepository(tx),
+        bookRepository: this.createBookRepository(tx),
+        titleRepository: new PrismaTitleRepository(tx),
+        holdRepository: new PrismaHoldRepository(tx),
+        loanRepository: new PrismaLoanRepository(tx),
+        feeLedgerRepository: new PrismaFeeLedgerRepository(tx),
+      })
+    );
+  }
+}
@@ -4,36 +4,65 @@
  * Concrete implementation of IUserRepository using Prisma ORM.
  * This class belongs to the Infrastructure layer and implements
  * the interface defined in the Domain layer.
+ * Writes the user's pending domain events to the outbox when saving.
  */
 
-import { IUserRepository } from '../../domain/repositories/IUserRepository';
-import { User, UserStatus } from '../../domain/entities/User';
+import { IUserRepository, UserQuery } from '../../domain/repositories/IUserRepository';
+import { Page } from '../../domain/repositories/PageQuery';
+import { User, UserStatus, MemberCategory } from '../../domain/entities/User';
 import { UserId } from '../../domain/valueObjects/UserId';
-import { PrismaClient } from '@prisma/client';
+import { Money } from '../../domain/valueObjects/Money';
+import { ConcurrencyConflictError } from '../../domain/errors/ConcurrencyConflictError';
+import { appendToOutbox } from '../outbox/PrismaOutbox';
+import { DEFAULT_SORT, keysetWhere, nextCursor } from './pagination';
+import { userSortKey } from './listQueries';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 export class PrismaUserRepository implements IUserRepository {
-  constructor(private readonly prisma: PrismaClient) {}
+  constructor(private readonly prisma: PrismaClient | Prisma.TransactionClient) {}
 
   async save(user: User): Promise<void> {
-    await this.prisma.user.upsert({
-      where: { id: user.id.getValue() },
-      update: {
-        name: user.name,
-        email: user.email,
-        status: user.status,
-        currentBorrowCount: user.currentBorrowCount,
-        overdueFees: user.overdueFees,
-      },
-      create: {
-        id: user.id.getValue(),
+    // New aggregate: insert with the first version
+    if (user.version === 0) {
+      await this.prisma.user.create({
+        data: {
+          id: user.id.getValue(),
+          name: user.name,
+          email: user.email,
+          status: user.status,
+          category: user.category,
+          currentBorrowCount: user.currentBorrowCount,
+          overdueFees: user.overdueFees.getMinorUnits(),
+          feeCurrency: user.overdueFees.getCurrency(),
+          createdAt: user.createdAt,
+          version: 1,
+        },
+      });
+      await appendToOutbox(this.prisma, 'User', user.domainEvents);
+      return;
+    }
+
+    // Existing aggregate: conditional update on the version it was loaded with
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: user.id.getValue(), version: user.version },
+      data: {
         name: user.name,
         email: user.email,
         status: user.status,
+        category: user.category,
         currentBorrowCount: user.currentBorrowCount,
-        overdueFees: user.overdueFees,
-        createdAt: user.createdAt,
+        overdueFees: user.overdueFees.getMinorUnits(),
+        feeCurrency: user.overdueFees.getCurrency(),
+        version: { increment: 1 },
       },
     });
+
+    if (count === 0) {
+      throw new ConcurrencyConflictError('User', user.id.getValue(), user.version);
+    }
+
+    // Events of the change, in the same transaction
+    await appendToOutbox(this.prisma, 'User', user.domainEvents);
   }
 
   async findById(id: UserId): Promise<User | null> {
@@ -48,6 +77,14 @@ export class PrismaUserRepository implements IUserRepository {
     return this.toDomain(record);
   }
 
+  async findByIds(ids: UserId[]): Promise<User[]> {
+    const records = await this.prisma.user.findMany({
+      where: { id: { in: ids.map((id) => id.getValue()) } },
+    });
+
+    return records.map((record) => this.toDomain(record));
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     const record = await this.prisma.user.findUnique({
       where: { email: email.toLowerCase() },
@@ -68,6 +105,29 @@ export class PrismaUserRepository implements IUserRepository {
     return records.map((record) => this.toDomain(record));
   }
 
+  async findPage(query: UserQuery): Promise<Page<User>> {
+    const sort = query.sort ?? DEFAULT_SORT;
+    const { limit, offset, after, withTotal } = query.page;
+    const where = this.whereOf(query);
+
+    const records = await this.prisma.user.findMany({
+      where: after ? { AND: [where, keysetWhere(sort, after, ['createdAt'])] } : where,
+      orderBy: [{ [sort.field]: sort.direction }, { id: sort.direction }],
+      ...(!after && offset && { skip: offset }),
+      take: limit + 1, // One extra row tells whether a next page exists
+    });
+    const totalCount = withTotal ? await this.prisma.user.count({ where }) : null;
+
+    const users = records.slice(0, limit).map((record) => this.toDomain(record));
+    return {
+      items: users,
+      totalCount,
+      nextCursor: nextCursor(users, records.length > limit, userSortKey(sort.field), (user) =>
+        user.id.getValue()
+      ),
+    };
+  }
+
   async delete(id: UserId): Promise<void> {
     await this.prisma.user.delete({
       where: { id: id.getValue() },
@@ -87,6 +147,21 @@ export class PrismaUserRepository implements IUserRepository {
     return records.map((record) => this.toDomain(record));
   }
 
+  /**
+   * Filters of a list query
+   * @private
+   */
+  private whereOf(query: UserQuery): Prisma.UserWhereInput {
+    return {
+      ...(query.status && { status: query.status }),
+      ...(query.category && { category: query.category }),
+      ...(query.name && { name: { contains: query.name, mode: 'insensitive' } }),
+      ...(query.hasOverdueFees !== undefined && {
+        overdueFees: query.hasOverdueFees ? { gt: 0 } : { lte: 0 },
+      }),
+    };
+  }
+
   /**
    * Convert database record to domain entity
    * @private
@@ -96,9 +171,12 @@ export class PrismaUserRepository implements IUserRepository {
     name: string;
     email: string;
     status: string;
+    category: string;
     currentBorrowCount: number;
     overdueFees: number;
+    feeCurrency: string;
     createdAt: Date;
+    version: number;
   }): User {
     const userId = UserId.create(record.id);
     const status = record.status as UserStatus;
@@ -108,9 +186,11 @@ export class PrismaUserRepository implements IUserRepository {
       record.name,
       record.email,
       status,
+      record.category as MemberCategory,
       record.currentBorrowCount,
-      record.overdueFees,
-      record.createdAt
+      Money.of(record.overdueFees, record.feeCurrency),
+      record.createdAt,
+      record.version
     );
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * List Query Helpers
+ *
+ * Sort keys and in-memory filters for BookQuery and UserQuery, shared by
+ * the repositories that evaluate them in memory (in-memory and
+ * event-sourced) and by the cursors of the Prisma repositories.
+ */
+
+import { Book } from '../../domain/entities/Book';
+import { User } from '../../domain/entities/User';
+import { BookQuery, BookSortField } from '../../domain/repositories/IBookRepository';
+import { UserQuery, UserSortField } from '../../domain/repositories/IUserRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { SortKey } from './pagination';
+
+export function bookSortKey(field: BookSortField): (book: Book) => SortKey {
+  switch (field) {
+    case 'createdAt':
+      return (book) => book.createdAt.getTime();
+    case 'updatedAt':
+      return (book) => book.updatedAt.getTime();
+    case 'barcode':
+      return (book) => book.barcode.getValue();
+  }
+}
+
+export function userSortKey(field: UserSortField): (user: User) => SortKey {
+  switch (field) {
+    case 'createdAt':
+      return (user) => user.createdAt.getTime();
+    case 'name':
+      return (user) => user.name;
+    case 'overdueFees':
+      return (user) => user.overdueFees.getMinorUnits();
+  }
+}
+
+/**
+ * Books matching the filters of a query
+ *
+ * @param catalog - Resolves the author and title filters (the catalog
+ *   data is not part of the Book aggregate)
+ */
+export async function filterBooks(
+  books: Book[],
+  query: BookQuery,
+  catalog: ITitleRepository
+): Promise<Book[]> {
+  let isbns: Set<string> | null = null;
+  if (query.author || query.title) {
+    const titles = (await catalog.findAll()).filter(
+      (title) => contains(title.author, query.author) && contains(title.title, query.title)
+    );
+    isbns = new Set(titles.map((title) => title.isbn.getValue()));
+  }
+
+  return books.filter(
+    (book) =>
+      (!query.status || book.status === query.status) &&
+      (!query.borrowedBy || (book.borrowedBy?.equals(query.borrowedBy) ?? false)) &&
+      (!isbns || isbns.has(book.isbn.getValue()))
+  );
+}
+
+/**
+ * Users matching the filters of a query
+ */
+export function filterUsers(users: User[], query: UserQuery): User[] {
+  return users.filter(
+    (user) =>
+      (!query.status || user.status === query.status) &&
+      (!query.category || user.category === query.category) &&
+      contains(user.name, query.name) &&
+      (query.hasOverdueFees === undefined ||
+        user.overdueFees.isPositive() === query.hasOverdueFees)
+  );
+}
+
+/**
+ * Case-insensitive substring match; an absent part matches everything
+ */
+function contains(value: string, part: string | undefined): boolean {
+  return !part || value.toLowerCase().includes(part.toLowerCase());
+}
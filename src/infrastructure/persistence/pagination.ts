@@ -0,0 +1,117 @@
+/// <reference types="node" />
+/**
+ * Pagination Helpers
+ *
+ * Shared by the repositories' findPage implementations. A cursor is the
+ * sort key and ID of the last item of a page, encoded as an opaque
+ * base64url string; the next page starts after that position in the same
+ * order. Dates are keyed by their epoch milliseconds.
+ */
+
+import { Page, PageRequest, SortOrder } from '../../domain/repositories/PageQuery';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+export type SortKey = string | number;
+
+/**
+ * Order of the list queries when none is requested
+ */
+export const DEFAULT_SORT = { field: 'createdAt', direction: 'desc' } as const;
+
+export function encodeCursor(key: SortKey, id: string): string {
+  return Buffer.from(JSON.stringify([key, id])).toString('base64url');
+}
+
+/**
+ * @throws ValidationError if the cursor was not produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): [SortKey, string] {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 2 ||
+    !['string', 'number'].includes(typeof decoded[0]) ||
+    typeof decoded[1] !== 'string'
+  ) {
+    throw new ValidationError('cursor', 'Malformed page cursor');
+  }
+  return [decoded[0] as SortKey, decoded[1]];
+}
+
+/**
+ * Cursor of the next page, null if the fetched items end the results
+ *
+ * @param items - Items of the page
+ * @param hasMore - Whether more items follow the page
+ */
+export function nextCursor<T>(
+  items: T[],
+  hasMore: boolean,
+  keyOf: (item: T) => SortKey,
+  idOf: (item: T) => string
+): string | null {
+  const last = items[items.length - 1];
+  return hasMore && last ? encodeCursor(keyOf(last), idOf(last)) : null;
+}
+
+/**
+ * Prisma condition selecting the rows after a cursor, in the sort order
+ *
+ * @param dateFields - Sort fields stored as dates (keyed by epoch milliseconds)
+ */
+export function keysetWhere(
+  sort: SortOrder<string>,
+  after: string,
+  dateFields: readonly string[]
+): Record<string, unknown> {
+  const [key, id] = decodeCursor(after);
+  const value = dateFields.includes(sort.field) ? new Date(key) : key;
+  const beyond = sort.direction === 'asc' ? 'gt' : 'lt';
+
+  return {
+    OR: [{ [sort.field]: { [beyond]: value } }, { [sort.field]: value, id: { [beyond]: id } }],
+  };
+}
+
+/**
+ * Sort and page items held in memory, the way the Prisma repositories do
+ * in the database (ties on the sort key are ordered by ID)
+ *
+ * @param items - Every item matching the filters
+ */
+export function paginate<T>(
+  items: T[],
+  sort: SortOrder<string>,
+  page: PageRequest,
+  keyOf: (item: T) => SortKey,
+  idOf: (item: T) => string
+): Page<T> {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const position = (item: T, key: SortKey, id: string) =>
+    factor * (compareKeys(keyOf(item), key) || compareKeys(idOf(item), id));
+  const sorted = [...items].sort((a, b) => position(a, keyOf(b), idOf(b)));
+
+  let start = page.offset ?? 0;
+  if (page.after) {
+    const [key, id] = decodeCursor(page.after);
+    const index = sorted.findIndex((item) => position(item, key, id) > 0);
+    start = index === -1 ? sorted.length : index;
+  }
+
+  const pageItems = sorted.slice(start, start + page.limit);
+  return {
+    items: pageItems,
+    totalCount: page.withTotal ? items.length : null,
+    nextCursor: nextCursor(pageItems, start + page.limit < sorted.length, keyOf, idOf),
+  };
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
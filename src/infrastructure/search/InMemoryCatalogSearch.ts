@@ -0,0 +1,74 @@
+/**
+ * In-Memory Catalog Search Implementation
+ *
+ * Concrete implementation of ICatalogSearch that scans the titles of a
+ * title repository, for tests and local runs without a database. Every
+ * search word must begin a word of the title, author or ISBN; the rank
+ * favours title over author matches and whole words over beginnings,
+ * mirroring the weights of PrismaCatalogSearch.
+ */
+
+import { ICatalogSearch, CatalogMatch } from '../../domain/repositories/ICatalogSearch';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { Title } from '../../domain/entities/Title';
+import { tokenize } from './searchText';
+
+const TITLE_WEIGHT = 1;
+const AUTHOR_WEIGHT = 0.4;
+const PREFIX_FACTOR = 0.5; // Word beginning rather than whole word
+
+export class InMemoryCatalogSearch implements ICatalogSearch {
+  constructor(private readonly titleRepository: ITitleRepository) {}
+
+  async search(text: string, limit: number): Promise<CatalogMatch[]> {
+    const words = tokenize(text);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const matches: CatalogMatch[] = [];
+    for (const title of await this.titleRepository.findAll()) {
+      const rank = this.rank(title, words);
+      if (rank > 0) {
+        matches.push({ title, rank });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.rank - a.rank || a.title.title.localeCompare(b.title.title))
+      .slice(0, limit);
+  }
+
+  /**
+   * Relevance of a title, 0 unless every word matches
+   * @private
+   */
+  private rank(title: Title, words: string[]): number {
+    const titleWords = [...tokenize(title.title), title.isbn.getValue()];
+    const authorWords = tokenize(title.author);
+
+    let rank = 0;
+    for (const word of words) {
+      const score = Math.max(
+        TITLE_WEIGHT * this.wordScore(titleWords, word),
+        AUTHOR_WEIGHT * this.wordScore(authorWords, word)
+      );
+      if (score === 0) {
+        return 0;
+      }
+      rank += score;
+    }
+    return rank;
+  }
+
+  /**
+   * 1 for a whole-word match, PREFIX_FACTOR for a word beginning, 0 otherwise
+   * @private
+   */
+  private wordScore(indexed: string[], word: string): number {
+    if (indexed.includes(word)) {
+      return 1;
+    }
+    return indexed.some((candidate) => candidate.startsWith(word)) ? PREFIX_FACTOR : 0;
+  }
+}
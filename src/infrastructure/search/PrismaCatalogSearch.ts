@@ -0,0 +1,100 @@
+/**
+ * Prisma Catalog Search Implementation
+ *
+ * Concrete implementation of ICatalogSearch using PostgreSQL full-text
+ * search on the titles table's search_vector column (GIN-indexed):
+ * - Title and ISBN words weighted A, author words weighted B
+ * - Every search word must match as a word beginning (prefix query)
+ * - Results ranked by ts_rank
+ *
+ * The vector is built from text folded in the application (searchText),
+ * so no unaccent extension is needed. PrismaTitleRepository keeps it up
+ * to date with indexTitle; rebuildIndex fills it for existing rows.
+ */
+
+import { ICatalogSearch, CatalogMatch } from '../../domain/repositories/ICatalogSearch';
+import { Title } from '../../domain/entities/Title';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { foldText, tokenize } from './searchText';
+import { Prisma, PrismaClient, Title as TitleRecord } from '@prisma/client';
+
+/**
+ * Write the search vector of a title (in the caller's transaction)
+ */
+export async function indexTitle(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  title: Title
+): Promise<void> {
+  const isbn = title.isbn.getValue();
+
+  await prisma.$executeRaw`
+    UPDATE titles
+    SET search_vector =
+      setweight(to_tsvector('simple', ${foldText(title.title)} || ' ' || ${isbn}), 'A') ||
+      setweight(to_tsvector('simple', ${foldText(title.author)}), 'B')
+    WHERE isbn = ${isbn}`;
+}
+
+export class PrismaCatalogSearch implements ICatalogSearch {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async search(text: string, limit: number): Promise<CatalogMatch[]> {
+    const words = tokenize(text);
+    if (words.length === 0) {
+      return [];
+    }
+
+    // Tokens are letters and digits only, safe to join into tsquery syntax
+    const query = words.map((word) => `${word}:*`).join(' & ');
+    const ranked = await this.prisma.$queryRaw<{ isbn: string; rank: number }[]>`
+      SELECT isbn, ts_rank(search_vector, query) AS rank
+      FROM titles, to_tsquery('simple', ${query}) query
+      WHERE search_vector @@ query
+      ORDER BY rank DESC, title ASC
+      LIMIT ${limit}`;
+
+    const records = await this.prisma.title.findMany({
+      where: { isbn: { in: ranked.map((row) => row.isbn) } },
+    });
+    const titles = new Map(records.map((record) => [record.isbn, this.toDomain(record)]));
+
+    return ranked.flatMap((row) => {
+      const title = titles.get(row.isbn);
+      return title ? [{ title, rank: Number(row.rank) }] : [];
+    });
+  }
+
+  /**
+   * Index every title (after adding the column, or to repair the index)
+   * @returns Number of titles indexed
+   */
+  async rebuildIndex(): Promise<number> {
+    const records = await this.prisma.title.findMany();
+    for (const record of records) {
+      await indexTitle(this.prisma, this.toDomain(record));
+    }
+    return records.length;
+  }
+
+  /**
+   * @private
+   */
+  private toDomain(record: TitleRecord): Title {
+    return Title.reconstruct(
+      new ISBN(record.isbn),
+      record.title,
+      record.author,
+      {
+        publisher: record.publisher,
+        publicationYear: record.publicationYear,
+        edition: record.edition,
+        language: record.language,
+        coverUrl: record.coverUrl,
+        subjects: record.subjects,
+      },
+      record.createdAt,
+      record.updatedAt,
+      record.version
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Search Text Normalisation
+ *
+ * Shared by the catalog search implementations so that indexed text and
+ * search text are tokenised the same way: lower case, diacritics folded
+ * ("García" -> "garcia"), split on anything that is not a letter or
+ * digit. Hyphens inside numbers are dropped first, so a hyphenated ISBN
+ * ("978-4-87311-565-8") stays one token.
+ */
+
+/**
+ * Lower-case text without diacritics
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Searchable words of a text
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .replace(/(\d)[-\s](?=[\dx])/g, '$1')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
@@ -0,0 +1,20 @@
+/**
+ * Fixed Clock Implementation
+ *
+ * Always returns the same instant. Useful for deterministic tests and
+ * for replaying an operation as of a past date (e.g. a back-dated return).
+ */
+
+import { Clock } from '../../domain/services/Clock';
+
+export class FixedClock implements Clock {
+  private readonly instant: Date;
+
+  constructor(instant: Date) {
+    this.instant = new Date(instant.getTime());
+  }
+
+  now(): Date {
+    return new Date(this.instant.getTime());
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * System Clock Implementation
+ *
+ * Production clock backed by the machine's wall-clock time.
+ */
+
+import { Clock } from '../../domain/services/Clock';
+
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
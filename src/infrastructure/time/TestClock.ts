@@ -0,0 +1,53 @@
+/**
+ * Test Clock Implementation
+ *
+ * A clock that only moves when told to. Lets tests simulate scenarios
+ * like "borrow today, return 20 days late" without waiting or
+ * monkey-patching Date.
+ *
+ * Example:
+ * ```typescript
+ * const clock = new TestClock(new Date('2024-01-01'));
+ * const borrowed = book.borrow(userId, 14, clock);
+ * clock.advanceDays(34); // 14-day period + 20 days late
+ * borrowed.getOverdueDays(clock); // 20
+ * ```
+ */
+
+import { Clock } from '../../domain/services/Clock';
+
+export class TestClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start.getTime());
+  }
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  /**
+   * Move the clock to a specific instant
+   */
+  setTo(instant: Date): void {
+    this.current = new Date(instant.getTime());
+  }
+
+  /**
+   * Move the clock forward by a number of milliseconds
+   */
+  advance(milliseconds: number): void {
+    if (milliseconds < 0) {
+      throw new Error('Clock cannot move backwards');
+    }
+    this.current = new Date(this.current.getTime() + milliseconds);
+  }
+
+  /**
+   * Move the clock forward by a number of days
+   */
+  advanceDays(days: number): void {
+    this.advance(days * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,145 @@
+/// <reference types="node" />
+/**
+ * CLI Entry Point
+ *
+ *   node cli.js <command> [arguments] [--json] [--store <kind>] [--data-file <path>]
+ *     [--policies-file <path>]
+ *
+ * The store (prisma, eventsourced, memory or file) defaults to
+ * LIBRARY_STORE, then "prisma" (DATABASE_URL); "eventsourced" uses the same
+ * database with books stored as event streams.
+ * The file store keeps its data in --data-file / LIBRARY_DATA_FILE
+ * (default library-data.json), saved after every command.
+ * Lending policies are read from --policies-file / LIBRARY_POLICIES_FILE
+ * (default config/lending-policies.json); if it cannot be loaded the CLI
+ * exits with CONFIGURATION.
+ * Books registered by ISBN only get their catalog data from
+ * LIBRARY_METADATA_SOURCE ("openlibrary", "file" or "none", the default)
+ * at LIBRARY_METADATA_LOCATION (its URL or file path).
+ * The overdue sweep suspends members holding a book
+ * LIBRARY_SUSPEND_AFTER_DAYS days late (default 30) or owing
+ * LIBRARY_SUSPEND_AT_FEES minor units of the lending policy currency (default:
+ * no fee threshold); "never" turns a threshold off.
+ */
+
+import { createContainer, Container, StorageKind, MetadataSourceKind } from './container';
+import {
+  LibraryCli,
+  ExitCode,
+  parseCliArguments,
+  CliArguments,
+} from '../presentation/cli/LibraryCli';
+import { DomainError } from '../domain/errors/DomainError';
+import { Money } from '../domain/valueObjects/Money';
+import { FileLendingPolicyLoader } from '../infrastructure/config/FileLendingPolicyLoader';
+import { OverdueSweepOptions } from '../application/useCases/OverdueSweepUseCase';
+
+const STORAGE_KINDS: StorageKind[] = ['prisma', 'eventsourced', 'memory', 'file'];
+const METADATA_SOURCES: MetadataSourceKind[] = ['openlibrary', 'file', 'none'];
+
+async function main(argv: string[]): Promise<ExitCode> {
+  let args: CliArguments;
+  try {
+    args = parseCliArguments(argv);
+  } catch (error) {
+    console.error(error instanceof DomainError ? error.message : error);
+    return ExitCode.INVALID_INPUT;
+  }
+
+  const store = args.options['store'] ?? process.env['LIBRARY_STORE'] ?? 'prisma';
+  if (typeof store !== 'string' || !STORAGE_KINDS.includes(store as StorageKind)) {
+    console.error(`--store must be one of: ${STORAGE_KINDS.join(', ')}`);
+    return ExitCode.INVALID_INPUT;
+  }
+  const dataFile = args.options['data-file'] ?? process.env['LIBRARY_DATA_FILE'];
+  const metadataSource = process.env['LIBRARY_METADATA_SOURCE'] ?? 'none';
+  const metadataLocation = process.env['LIBRARY_METADATA_LOCATION'];
+  if (!METADATA_SOURCES.includes(metadataSource as MetadataSourceKind)) {
+    console.error(`LIBRARY_METADATA_SOURCE must be one of: ${METADATA_SOURCES.join(', ')}`);
+    return ExitCode.INVALID_INPUT;
+  }
+
+  const policiesPath = args.options['policies-file'] ?? process.env['LIBRARY_POLICIES_FILE'];
+  let currency: string;
+  try {
+    currency = new FileLendingPolicyLoader(
+      typeof policiesPath === 'string' ? policiesPath : undefined
+    ).load().currency;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return ExitCode.CONFIGURATION;
+  }
+
+  const overdueSweep = overdueSweepOptions(currency);
+  if (!overdueSweep) {
+    console.error(
+      'LIBRARY_SUSPEND_AFTER_DAYS and LIBRARY_SUSPEND_AT_FEES must be integers or "never"'
+    );
+    return ExitCode.INVALID_INPUT;
+  }
+
+  let container: Container;
+  try {
+    container = await createContainer({
+      storage: store as StorageKind,
+      ...(typeof dataFile === 'string' && { dataFile }),
+      ...(typeof policiesPath === 'string' && { policiesPath }),
+      metadataSource: metadataSource as MetadataSourceKind,
+      ...(metadataLocation && { metadataLocation }),
+      overdueSweep,
+    });
+  } catch (error) {
+    // e.g. a data file holding amounts that are not integer minor units
+    if (error instanceof DomainError) {
+      console.error(error.message);
+      return ExitCode.INVALID_INPUT;
+    }
+    throw error;
+  }
+  const { useCases, dispose } = container;
+
+  try {
+    return await new LibraryCli(useCases).run(args);
+  } finally {
+    await dispose();
+  }
+}
+
+/**
+ * Suspension thresholds set in the environment (null if one is malformed)
+ * @param currency - Currency fees are charged in
+ */
+function overdueSweepOptions(currency: string): Partial<OverdueSweepOptions> | null {
+  const threshold = (name: string): number | null | undefined => {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (value === 'never') {
+      return null;
+    }
+    // Past MAX_SAFE_INTEGER the amount is no longer exact
+    const number = Number(value);
+    return /^\d+$/.test(value) && Number.isSafeInteger(number) ? number : NaN;
+  };
+
+  const days = threshold('LIBRARY_SUSPEND_AFTER_DAYS');
+  const fees = threshold('LIBRARY_SUSPEND_AT_FEES');
+  if (Number.isNaN(days) || Number.isNaN(fees)) {
+    return null;
+  }
+
+  return {
+    ...(days !== undefined && { suspendAfterOverdueDays: days }),
+    ...(fees !== undefined && { suspendAtFees: fees === null ? null : Money.of(fees, currency) }),
+  };
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    console.error(error);
+    process.exitCode = ExitCode.INTERNAL_ERROR;
+  });
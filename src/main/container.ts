@@ -0,0 +1,353 @@
+/**
+ * Composition Root
+ *
+ * The one place that chooses the concrete infrastructure (Prisma,
+ * event-sourced, in-memory or JSON file storage, system clock, lending policies from config)
+ * and wires it into the use cases. Delivery adapters (HTTP, ...) receive
+ * the finished use cases and never construct infrastructure themselves.
+ */
+
+import { TransactionalRepositories, IUnitOfWork } from '../domain/repositories/IUnitOfWork';
+import { ICatalogSearch } from '../domain/repositories/ICatalogSearch';
+import { Clock } from '../domain/services/Clock';
+import { BookMetadataProvider } from '../domain/services/BookMetadataProvider';
+import { SystemClock } from '../infrastructure/time/SystemClock';
+import { FileLendingPolicyLoader } from '../infrastructure/config/FileLendingPolicyLoader';
+import { InProcessDomainEventDispatcher } from '../infrastructure/events/InProcessDomainEventDispatcher';
+import {
+  PrismaUnitOfWork,
+  PrismaBookRepositoryFactory,
+} from '../infrastructure/persistence/PrismaUnitOfWork';
+import { PrismaUserRepository } from '../infrastructure/persistence/PrismaUserRepository';
+import { MySQLBookRepository } from '../infrastructure/persistence/MySQLBookRepository';
+import { PrismaTitleRepository } from '../infrastructure/persistence/PrismaTitleRepository';
+import { PrismaHoldRepository } from '../infrastructure/persistence/PrismaHoldRepository';
+import { PrismaLoanRepository } from '../infrastructure/persistence/PrismaLoanRepository';
+import { PrismaFeeLedgerRepository } from '../infrastructure/persistence/PrismaFeeLedgerRepository';
+import { EventSourcedBookRepository } from '../infrastructure/persistence/EventSourcedBookRepository';
+import { PrismaEventStore } from '../infrastructure/eventStore/PrismaEventStore';
+import { PrismaBookLookup } from '../infrastructure/eventStore/PrismaBookLookup';
+import { InMemoryUnitOfWork } from '../infrastructure/persistence/InMemoryUnitOfWork';
+import { InMemoryUserRepository } from '../infrastructure/persistence/InMemoryUserRepository';
+import { InMemoryBookRepository } from '../infrastructure/persistence/InMemoryBookRepository';
+import { InMemoryTitleRepository } from '../infrastructure/persistence/InMemoryTitleRepository';
+import { InMemoryHoldRepository } from '../infrastructure/persistence/InMemoryHoldRepository';
+import { InMemoryLoanRepository } from '../infrastructure/persistence/InMemoryLoanRepository';
+import { InMemoryFeeLedgerRepository } from '../infrastructure/persistence/InMemoryFeeLedgerRepository';
+import { JsonFileStore } from '../infrastructure/persistence/JsonFileStore';
+import { PrismaCatalogSearch } from '../infrastructure/search/PrismaCatalogSearch';
+import { OutboxRelay, OutboxRelayOptions } from '../infrastructure/outbox/OutboxRelay';
+import { PrismaOutboxStore } from '../infrastructure/outbox/PrismaOutboxStore';
+import { JsonlFileOutboxPublisher } from '../infrastructure/outbox/JsonlFileOutboxPublisher';
+import { OpenLibraryMetadataProvider } from '../infrastructure/metadata/OpenLibraryMetadataProvider';
+import { FileBookMetadataProvider } from '../infrastructure/metadata/FileBookMetadataProvider';
+import { CachingBookMetadataProvider } from '../infrastructure/metadata/CachingBookMetadataProvider';
+import { InMemoryCatalogSearch } from '../infrastructure/search/InMemoryCatalogSearch';
+import { CsvCatalogRecordReader } from '../infrastructure/import/CsvCatalogRecordReader';
+import { Marc21CatalogRecordReader } from '../infrastructure/import/Marc21CatalogRecordReader';
+import { MarcXmlCatalogRecordReader } from '../infrastructure/import/MarcXmlCatalogRecordReader';
+import { CsvExportWriter } from '../infrastructure/export/CsvExportWriter';
+import { JsonLinesExportWriter } from '../infrastructure/export/JsonLinesExportWriter';
+import { MarcXmlExportWriter } from '../infrastructure/export/MarcXmlExportWriter';
+import { RegisterBookUseCase } from '../application/useCases/RegisterBookUseCase';
+import { BulkImportBooksUseCase } from '../application/useCases/BulkImportBooksUseCase';
+import { ExportBooksUseCase } from '../application/useCases/ExportBooksUseCase';
+import { ExportUsersUseCase } from '../application/useCases/ExportUsersUseCase';
+import { CreateUserUseCase } from '../application/useCases/CreateUserUseCase';
+import { SuspendUserUseCase } from '../application/useCases/SuspendUserUseCase';
+import { BorrowBookUseCase, ReturnBookUseCase } from '../application/useCases/BorrowBookUseCase';
+import { ReturnLoanUseCase } from '../application/useCases/ReturnLoanUseCase';
+import { RenewLoanUseCase } from '../application/useCases/RenewLoanUseCase';
+import { GetUserUseCase } from '../application/useCases/GetUserUseCase';
+import { ListBooksUseCase } from '../application/useCases/ListBooksUseCase';
+import { ListUsersUseCase } from '../application/useCases/ListUsersUseCase';
+import { SearchCatalogUseCase } from '../application/useCases/SearchCatalogUseCase';
+import { ListLoansUseCase } from '../application/useCases/ListLoansUseCase';
+import { GetTitleAvailabilityUseCase } from '../application/useCases/GetTitleAvailabilityUseCase';
+import { PlaceHoldUseCase } from '../application/useCases/PlaceHoldUseCase';
+import { CancelHoldUseCase } from '../application/useCases/CancelHoldUseCase';
+import { ExpireHoldsUseCase } from '../application/useCases/ExpireHoldsUseCase';
+import {
+  OverdueSweepUseCase,
+  OverdueSweepOptions,
+} from '../application/useCases/OverdueSweepUseCase';
+import { GetFeeLedgerUseCase } from '../application/useCases/GetFeeLedgerUseCase';
+import { PayFeeUseCase } from '../application/useCases/PayFeeUseCase';
+import { WaiveFeeUseCase } from '../application/useCases/WaiveFeeUseCase';
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Where the aggregates are stored
+ * - prisma: the database configured by DATABASE_URL
+ * - eventsourced: the same database, with books stored as event streams
+ *   (looked up by barcode, ISBN and status through the book_lookup projection)
+ * - memory: process memory (lost on exit; for local runs and demos)
+ * - file: process memory, loaded from and saved to a JSON file (for local
+ *   tools such as the CLI; saved when the container is disposed)
+ */
+export type StorageKind = 'prisma' | 'eventsourced' | 'memory' | 'file';
+
+/**
+ * Where catalog data of books registered by ISBN only comes from
+ * - openlibrary: the Open Library Books API (or a service with the same format)
+ * - file: a local JSON file (offline use, tests)
+ * - none: title and author must be entered
+ */
+export type MetadataSourceKind = 'openlibrary' | 'file' | 'none';
+
+export interface ContainerOptions {
+  storage: StorageKind;
+  dataFile?: string; // Data file of the file storage (default: library-data.json)
+  clock?: Clock; // Default: SystemClock
+  policiesPath?: string; // Default: config/lending-policies.json
+  metadataSource?: MetadataSourceKind; // Default: none
+  metadataLocation?: string; // Service URL (openlibrary) or file path (file)
+  overdueSweep?: Partial<OverdueSweepOptions>; // Suspension thresholds of the overdue sweep
+}
+
+/**
+ * Every use case, ready to execute
+ */
+export interface UseCases {
+  registerBook: RegisterBookUseCase;
+  bulkImportBooks: BulkImportBooksUseCase;
+  exportBooks: ExportBooksUseCase;
+  exportUsers: ExportUsersUseCase;
+  createUser: CreateUserUseCase;
+  suspendUser: SuspendUserUseCase;
+  borrowBook: BorrowBookUseCase;
+  returnBook: ReturnBookUseCase;
+  returnLoan: ReturnLoanUseCase;
+  renewLoan: RenewLoanUseCase;
+  getUser: GetUserUseCase;
+  listBooks: ListBooksUseCase;
+  listUsers: ListUsersUseCase;
+  searchCatalog: SearchCatalogUseCase;
+  listLoans: ListLoansUseCase;
+  getTitleAvailability: GetTitleAvailabilityUseCase;
+  placeHold: PlaceHoldUseCase;
+  cancelHold: CancelHoldUseCase;
+  expireHolds: ExpireHoldsUseCase;
+  overdueSweep: OverdueSweepUseCase;
+  getFeeLedger: GetFeeLedgerUseCase;
+  payFee: PayFeeUseCase;
+  waiveFee: WaiveFeeUseCase;
+}
+
+export interface Container {
+  useCases: UseCases;
+  repositories: TransactionalRepositories; // For read-side adapters (e.g. GraphQL)
+  events: InProcessDomainEventDispatcher; // Subscribe handlers here
+  dispose(): Promise<void>; // Save file storage, release connections
+}
+
+export interface OutboxRelayContainerOptions {
+  outboxFile?: string; // File the events are appended to (default: outbox.jsonl)
+  clock?: Clock; // Default: SystemClock
+  relay?: Partial<OutboxRelayOptions>; // Polling and backoff settings
+}
+
+export interface OutboxRelayContainer {
+  relay: OutboxRelay;
+  dispose(): Promise<void>; // Stop polling, release connections
+}
+
+const DEFAULT_DATA_FILE = 'library-data.json';
+const DEFAULT_OUTBOX_FILE = 'outbox.jsonl';
+
+/**
+ * Build the application for a storage kind
+ */
+export async function createContainer(options: ContainerOptions): Promise<Container> {
+  const clock = options.clock ?? new SystemClock();
+  const policies = new FileLendingPolicyLoader(options.policiesPath).load();
+  const events = new InProcessDomainEventDispatcher();
+  const { repositories, unitOfWork, catalogSearch, dispose } = await createStorage(options);
+
+  const { userRepository, bookRepository, titleRepository, loanRepository, feeLedgerRepository } =
+    repositories;
+  const returnBook = new ReturnBookUseCase(unitOfWork, clock, policies, events);
+  const exportWriters = {
+    csv: new CsvExportWriter(),
+    jsonl: new JsonLinesExportWriter(),
+    marcxml: new MarcXmlExportWriter(),
+  };
+
+  return {
+    useCases: {
+      registerBook: new RegisterBookUseCase(
+        titleRepository,
+        bookRepository,
+        clock,
+        events,
+        createMetadataProvider(options, clock)
+      ),
+      bulkImportBooks: new BulkImportBooksUseCase(
+        unitOfWork,
+        {
+          csv: new CsvCatalogRecordReader(),
+          marc: new Marc21CatalogRecordReader(),
+          marcxml: new MarcXmlCatalogRecordReader(),
+        },
+        clock,
+        events
+      ),
+      exportBooks: new ExportBooksUseCase(titleRepository, bookRepository, exportWriters),
+      exportUsers: new ExportUsersUseCase(userRepository, exportWriters),
+      createUser: new CreateUserUseCase(userRepository, clock, events, policies),
+      suspendUser: new SuspendUserUseCase(userRepository, clock, events),
+      borrowBook: new BorrowBookUseCase(unitOfWork, clock, policies, events),
+      returnBook,
+      returnLoan: new ReturnLoanUseCase(loanRepository, returnBook),
+      renewLoan: new RenewLoanUseCase(unitOfWork, clock, policies, events),
+      getUser: new GetUserUseCase(userRepository),
+      listBooks: new ListBooksUseCase(titleRepository, bookRepository),
+      listUsers: new ListUsersUseCase(userRepository),
+      searchCatalog: new SearchCatalogUseCase(catalogSearch, titleRepository, bookRepository),
+      listLoans: new ListLoansUseCase(loanRepository),
+      getTitleAvailability: new GetTitleAvailabilityUseCase(titleRepository, bookRepository),
+      placeHold: new PlaceHoldUseCase(unitOfWork, clock, events),
+      cancelHold: new CancelHoldUseCase(unitOfWork, clock, events),
+      expireHolds: new ExpireHoldsUseCase(unitOfWork, clock, events),
+      overdueSweep: new OverdueSweepUseCase(
+        unitOfWork,
+        clock,
+        policies,
+        events,
+        options.overdueSweep
+      ),
+      getFeeLedger: new GetFeeLedgerUseCase(userRepository, feeLedgerRepository),
+      payFee: new PayFeeUseCase(unitOfWork, clock),
+      waiveFee: new WaiveFeeUseCase(unitOfWork, clock),
+    },
+    repositories,
+    events,
+    dispose,
+  };
+}
+
+/**
+ * Build the relay publishing the outbox of the database (DATABASE_URL)
+ * as JSON lines. Only the prisma and eventsourced storages write an
+ * outbox; the memory and file storages dispatch events in process only.
+ */
+export function createOutboxRelay(
+  options: OutboxRelayContainerOptions = {}
+): OutboxRelayContainer {
+  const prisma = new PrismaClient();
+  const relay = new OutboxRelay(
+    new PrismaOutboxStore(prisma),
+    new JsonlFileOutboxPublisher(options.outboxFile ?? DEFAULT_OUTBOX_FILE),
+    options.clock ?? new SystemClock(),
+    options.relay
+  );
+
+  return {
+    relay,
+    dispose: async () => {
+      relay.stop();
+      await prisma.$disconnect();
+    },
+  };
+}
+
+interface Storage {
+  repositories: TransactionalRepositories; // For reads and single-aggregate writes
+  unitOfWork: IUnitOfWork;
+  catalogSearch: ICatalogSearch;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Metadata provider of the configured source, with a cache in front
+ */
+function createMetadataProvider(
+  options: ContainerOptions,
+  clock: Clock
+): BookMetadataProvider | null {
+  const location = options.metadataLocation;
+
+  switch (options.metadataSource ?? 'none') {
+    case 'openlibrary':
+      return new CachingBookMetadataProvider(
+        new OpenLibraryMetadataProvider(location ? { baseUrl: location } : {}),
+        clock
+      );
+    case 'file':
+      // The file is in memory once read: no cache needed
+      return new FileBookMetadataProvider(location);
+    case 'none':
+      return null;
+  }
+}
+
+async function createStorage(options: ContainerOptions): Promise<Storage> {
+  switch (options.storage) {
+    case 'prisma':
+      return createPrismaStorage((prisma) => new MySQLBookRepository(prisma));
+    case 'eventsourced':
+      return createPrismaStorage(createEventSourcedBookRepository);
+    case 'memory':
+      return createInMemoryStorage();
+    case 'file':
+      return createFileStorage(new JsonFileStore(options.dataFile ?? DEFAULT_DATA_FILE));
+  }
+}
+
+function createPrismaStorage(createBookRepository: PrismaBookRepositoryFactory): Storage {
+  const prisma = new PrismaClient();
+
+  return {
+    repositories: {
+      userRepository: new PrismaUserRepository(prisma),
+      bookRepository: createBookRepository(prisma),
+      titleRepository: new PrismaTitleRepository(prisma),
+      holdRepository: new PrismaHoldRepository(prisma),
+      loanRepository: new PrismaLoanRepository(prisma),
+      feeLedgerRepository: new PrismaFeeLedgerRepository(prisma),
+    },
+    unitOfWork: new PrismaUnitOfWork(prisma, createBookRepository),
+    catalogSearch: new PrismaCatalogSearch(prisma),
+    dispose: () => prisma.$disconnect(),
+  };
+}
+
+/**
+ * Event-sourced books on the event store and projection of a client
+ */
+const createEventSourcedBookRepository: PrismaBookRepositoryFactory = (prisma) =>
+  new EventSourcedBookRepository(
+    new PrismaEventStore(prisma),
+    new PrismaBookLookup(prisma),
+    new PrismaTitleRepository(prisma)
+  );
+
+function createInMemoryStorage(): Storage {
+  const titleRepository = new InMemoryTitleRepository();
+  const repositories = {
+    userRepository: new InMemoryUserRepository(),
+    bookRepository: new InMemoryBookRepository(titleRepository),
+    titleRepository,
+    holdRepository: new InMemoryHoldRepository(),
+    loanRepository: new InMemoryLoanRepository(),
+    feeLedgerRepository: new InMemoryFeeLedgerRepository(),
+  };
+
+  return {
+    repositories,
+    unitOfWork: new InMemoryUnitOfWork(repositories),
+    catalogSearch: new InMemoryCatalogSearch(titleRepository),
+    dispose: async () => {},
+  };
+}
+
+async function createFileStorage(store: JsonFileStore): Promise<Storage> {
+  const repositories = await store.load();
+
+  return {
+    repositories,
+    unitOfWork: new InMemoryUnitOfWork(repositories),
+    catalogSearch: new InMemoryCatalogSearch(repositories.titleRepository),
+    dispose: () => store.save(repositories),
+  };
+}
@@ -0,0 +1,71 @@
+/// <reference types="node" />
+/**
+ * HTTP Entry Point
+ *
+ * Starts the REST API and the GraphQL endpoint (POST /graphql). Configuration (environment):
+ * - PORT: listening port (default 3000)
+ * - STORAGE: "prisma" (default, uses DATABASE_URL), "eventsourced" (same
+ *   database, books stored as event streams), "memory" or "file"
+ * - DATA_FILE: data file of the file storage (saved on shutdown)
+ * - METADATA_SOURCE: "openlibrary", "file" or "none" (default) for books
+ *   registered by ISBN only; METADATA_LOCATION: its URL or file path
+ */
+
+import { createContainer, StorageKind, MetadataSourceKind } from './container';
+import { Router } from '../presentation/http/Router';
+import { createHttpServer } from '../presentation/http/createHttpServer';
+import { BookController } from '../presentation/http/BookController';
+import { UserController } from '../presentation/http/UserController';
+import { LoanController } from '../presentation/http/LoanController';
+import { CatalogController } from '../presentation/http/CatalogController';
+import { GraphqlController } from '../presentation/graphql/GraphqlController';
+
+const STORAGE_KINDS: StorageKind[] = ['prisma', 'eventsourced', 'memory', 'file'];
+const METADATA_SOURCES: MetadataSourceKind[] = ['openlibrary', 'file', 'none'];
+
+async function main(): Promise<void> {
+  const port = Number(process.env['PORT'] ?? 3000);
+  const storage = (process.env['STORAGE'] ?? 'prisma') as StorageKind;
+  const dataFile = process.env['DATA_FILE'];
+  if (!STORAGE_KINDS.includes(storage)) {
+    throw new Error(`STORAGE must be one of: ${STORAGE_KINDS.join(', ')}`);
+  }
+  const metadataSource = (process.env['METADATA_SOURCE'] ?? 'none') as MetadataSourceKind;
+  const metadataLocation = process.env['METADATA_LOCATION'];
+  if (!METADATA_SOURCES.includes(metadataSource)) {
+    throw new Error(`METADATA_SOURCE must be one of: ${METADATA_SOURCES.join(', ')}`);
+  }
+
+  const { useCases, repositories, dispose } = await createContainer({
+    storage,
+    ...(dataFile && { dataFile }),
+    metadataSource,
+    ...(metadataLocation && { metadataLocation }),
+  });
+
+  const router = new Router();
+  new BookController(useCases.registerBook, useCases.listBooks).routes(router);
+  new UserController(useCases.createUser, useCases.getUser, useCases.listUsers).routes(router);
+  new LoanController(useCases.borrowBook, useCases.returnLoan).routes(router);
+  new CatalogController(useCases.searchCatalog).routes(router);
+  new GraphqlController({
+    ...repositories,
+    registerBook: useCases.registerBook,
+    createUser: useCases.createUser,
+    borrowBook: useCases.borrowBook,
+    returnBook: useCases.returnBook,
+  }).routes(router);
+
+  const server = createHttpServer(router);
+  server.listen(port, () => console.log(`Library API listening on port ${port} (${storage})`));
+
+  // Finish in-flight requests, then save file storage and release connections
+  const shutdown = () => server.close(() => void dispose());
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
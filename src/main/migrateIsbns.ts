@@ -0,0 +1,32 @@
+/// <reference types="node" />
+/**
+ * ISBN Migration Entry Point
+ *
+ * Moves the ISBNs stored in the database (DATABASE_URL) to their
+ * canonical ISBN-13 form; see PrismaIsbnMigration. Safe to run again.
+ * The file storage needs no migration: it is canonicalised on load.
+ */
+
+import { PrismaIsbnMigration } from '../infrastructure/persistence/PrismaIsbnMigration';
+import { PrismaClient } from '@prisma/client';
+
+async function main(): Promise<void> {
+  const prisma = new PrismaClient();
+  try {
+    const report = await new PrismaIsbnMigration(prisma).run();
+    console.log(
+      `Converted ${report.converted} ISBN(s) to ISBN-13, ` +
+        `merged ${report.mergedTitles} duplicate title(s)`
+    );
+    if (report.invalid.length > 0) {
+      console.warn(`Invalid ISBN(s) left untouched: ${report.invalid.join(', ')}`);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+/// <reference types="node" />
+/**
+ * Outbox Relay Entry Point
+ *
+ *   node outboxRelay.js [--once]
+ *
+ * Publishes the domain events in the database's outbox (DATABASE_URL)
+ * by appending them as JSON lines to OUTBOX_FILE (default outbox.jsonl);
+ * see OutboxRelay. Polls until SIGTERM / SIGINT, or publishes one batch
+ * and exits with --once (e.g. from cron).
+ */
+
+import { createOutboxRelay } from './container';
+
+async function main(argv: string[]): Promise<void> {
+  const outboxFile = process.env['OUTBOX_FILE'];
+  const { relay, dispose } = createOutboxRelay({ ...(outboxFile && { outboxFile }) });
+
+  if (argv.includes('--once')) {
+    try {
+      const { delivered, failed } = await relay.relayOnce();
+      console.log(`Published ${delivered} event(s), ${failed} failed (retried later)`);
+    } finally {
+      await dispose();
+    }
+    return;
+  }
+
+  relay.start();
+  console.log(`Outbox relay publishing to ${outboxFile ?? 'outbox.jsonl'}`);
+
+  // Stop polling and release the database connection
+  const shutdown = () => void dispose();
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,499 @@
+/// <reference types="node" />
+/**
+ * Library CLI
+ *
+ * Terminal adapter for front-desk staff, built on the use cases:
+ *
+ *   library book register --isbn <isbn> --barcode <barcode> [--title <title>] [--author <author>]
+ *   library book import <file> [--format csv|marc|marcxml] [--dry-run] [--duplicates skip|update]
+ *   library book export --output <file> [--format csv|jsonl|marcxml] [--fields <a,b>] [--status <s>]
+ *   library user create --name <name> --email <email> [--category <category>]
+ *   library user suspend <userId>
+ *   library user export --output <file> [--format csv|jsonl] [--fields <a,b>] [--status <s>]
+ *   library borrow <userId> <bookId>
+ *   library return <userId> <bookId>
+ *   library fees pay <userId> <amount> --actor <staff> [--currency <code>] [--reason <text>]
+ *   library overdue sweep
+ *
+ * Results print as a table, or as JSON with --json. The exit code tells
+ * scripts whether the operation succeeded (see ExitCode).
+ */
+
+import { parseArgs } from 'node:util';
+import { open } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { RegisterBookUseCase } from '../../application/useCases/RegisterBookUseCase';
+import {
+  BulkImportBooksUseCase,
+  DuplicatePolicy,
+} from '../../application/useCases/BulkImportBooksUseCase';
+import { ExportBooksUseCase } from '../../application/useCases/ExportBooksUseCase';
+import { ExportUsersUseCase } from '../../application/useCases/ExportUsersUseCase';
+import { ExportOutput } from '../../application/useCases/exportOutput';
+import { CatalogFormat } from '../../domain/services/CatalogRecordReader';
+import { ExportFormat } from '../../domain/services/ExportWriter';
+import { BookStatus } from '../../domain/entities/Book';
+import { CreateUserUseCase } from '../../application/useCases/CreateUserUseCase';
+import { SuspendUserUseCase } from '../../application/useCases/SuspendUserUseCase';
+import { BorrowBookUseCase, ReturnBookUseCase } from '../../application/useCases/BorrowBookUseCase';
+import { PayFeeUseCase } from '../../application/useCases/PayFeeUseCase';
+import { OverdueSweepUseCase } from '../../application/useCases/OverdueSweepUseCase';
+import { MemberCategory, UserStatus } from '../../domain/entities/User';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Money } from '../../domain/valueObjects/Money';
+import { DomainError } from '../../domain/errors/DomainError';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+import { Result, ok } from '../../domain/errors/Result';
+import { formatDetails } from './formatTable';
+
+export enum ExitCode {
+  SUCCESS = 0,
+  FAILED = 1, // A business rule refused the operation (the Result was not ok)
+  INVALID_INPUT = 2, // Unknown command, missing argument or invalid value
+  INTERNAL_ERROR = 3, // Unexpected failure (e.g. database unreachable)
+  CONFIGURATION = 4, // A config file is missing or invalid (e.g. the lending policies)
+}
+
+/**
+ * Use cases the CLI calls
+ */
+export interface CliUseCases {
+  registerBook: RegisterBookUseCase;
+  bulkImportBooks: BulkImportBooksUseCase;
+  exportBooks: ExportBooksUseCase;
+  exportUsers: ExportUsersUseCase;
+  createUser: CreateUserUseCase;
+  suspendUser: SuspendUserUseCase;
+  borrowBook: BorrowBookUseCase;
+  returnBook: ReturnBookUseCase;
+  payFee: PayFeeUseCase;
+  overdueSweep: OverdueSweepUseCase;
+}
+
+/**
+ * Where the CLI writes (stdout and stderr by default)
+ */
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+/**
+ * Parsed command line
+ */
+export interface CliArguments {
+  positionals: string[]; // Command words followed by its arguments
+  options: Partial<Record<string, string | boolean>>;
+}
+
+// Import format of a file without --format, by extension
+const FORMATS_BY_EXTENSION: Partial<Record<string, CatalogFormat>> = {
+  '.csv': 'csv',
+  '.mrc': 'marc',
+  '.marc': 'marc',
+  '.xml': 'marcxml',
+};
+
+// Export format of an output file without --format, by extension
+const EXPORT_FORMATS_BY_EXTENSION: Partial<Record<string, ExportFormat>> = {
+  '.csv': 'csv',
+  '.jsonl': 'jsonl',
+  '.xml': 'marcxml',
+};
+
+interface Command {
+  words: string[]; // e.g. ['book', 'register']
+  usage: string;
+  arity: number; // Positional arguments after the command words
+  run(args: string[], options: CliArguments['options']): Promise<Result<unknown>>;
+}
+
+// Options of every command (plus the storage options read by the entry point)
+const OPTIONS = {
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  store: { type: 'string' },
+  'data-file': { type: 'string' },
+  'policies-file': { type: 'string' },
+  isbn: { type: 'string' },
+  title: { type: 'string' },
+  author: { type: 'string' },
+  barcode: { type: 'string' },
+  format: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  duplicates: { type: 'string' },
+  'batch-size': { type: 'string' },
+  output: { type: 'string' },
+  fields: { type: 'string' },
+  status: { type: 'string' },
+  name: { type: 'string' },
+  email: { type: 'string' },
+  category: { type: 'string' },
+  actor: { type: 'string' },
+  currency: { type: 'string' },
+  reason: { type: 'string' },
+} as const;
+
+/**
+ * Split a command line into positionals and options
+ * @throws ValidationError for unknown or malformed options
+ */
+export function parseCliArguments(argv: string[]): CliArguments {
+  try {
+    const { positionals, values } = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+    return { positionals, options: values };
+  } catch (error) {
+    throw new ValidationError('arguments', error instanceof Error ? error.message : String(error));
+  }
+}
+
+export class LibraryCli {
+  private readonly commands: Command[];
+
+  constructor(
+    useCases: CliUseCases,
+    private readonly output: CliOutput = {
+      out: (text) => console.log(text),
+      err: (text) => console.error(text),
+    }
+  ) {
+    this.commands = [
+      {
+        words: ['book', 'register'],
+        usage:
+          'book register --isbn <isbn> --barcode <barcode> [--title <title>] [--author <author>]' +
+          '  (title and author of a new ISBN are looked up if omitted)',
+        arity: 0,
+        run: (_, options) => {
+          const title = this.stringOption(options, 'title');
+          const author = this.stringOption(options, 'author');
+          return useCases.registerBook.execute({
+            isbn: this.requireOption(options, 'isbn'),
+            barcode: this.requireOption(options, 'barcode'),
+            ...(title && { title }),
+            ...(author && { author }),
+          });
+        },
+      },
+      {
+        words: ['book', 'import'],
+        usage:
+          'book import <file> [--format csv|marc|marcxml] [--dry-run] [--duplicates skip|update]' +
+          ' [--batch-size <n>]  (format defaults to the file extension)',
+        arity: 1,
+        run: async ([file], options) => {
+          const format = this.importFormat(file ?? '', options['format']);
+          const duplicates = this.duplicatePolicy(options['duplicates']);
+          const batchSize = this.stringOption(options, 'batch-size');
+          const handle = await open(file ?? '').catch(() => null);
+          if (!handle) {
+            throw new ValidationError('file', `Cannot read ${file ?? ''}`);
+          }
+          return useCases.bulkImportBooks.execute({
+            format,
+            content: handle.createReadStream(),
+            dryRun: options['dry-run'] === true,
+            duplicates,
+            ...(batchSize !== undefined && { batchSize: Number(batchSize) }),
+          });
+        },
+      },
+      {
+        words: ['book', 'export'],
+        usage:
+          'book export --output <file> [--format csv|jsonl|marcxml] [--fields <a,b>]' +
+          ' [--status <status>]  (format defaults to the file extension)',
+        arity: 0,
+        run: async (_, options) => {
+          const file = this.requireOption(options, 'output');
+          const fields = this.fieldsOption(options);
+          const status = this.enumOption(options, 'status', Object.values(BookStatus));
+          const result = await useCases.exportBooks.execute({
+            format: this.exportFormat(file, options['format']),
+            ...(fields && { fields }),
+            ...(status && { status }),
+          });
+          return result.ok ? this.writeExport(file, result.value) : result;
+        },
+      },
+      {
+        words: ['user', 'create'],
+        usage: 'user create --name <name> --email <email> [--category <category>]',
+        arity: 0,
+        run: (_, options) => {
+          const category = this.category(options['category']);
+          return useCases.createUser.execute({
+            name: this.requireOption(options, 'name'),
+            email: this.requireOption(options, 'email'),
+            ...(category && { category }),
+          });
+        },
+      },
+      {
+        words: ['user', 'suspend'],
+        usage: 'user suspend <userId>',
+        arity: 1,
+        run: ([userId]) => useCases.suspendUser.execute({ userId: UserId.create(userId ?? '') }),
+      },
+      {
+        words: ['user', 'export'],
+        usage:
+          'user export --output <file> [--format csv|jsonl] [--fields <a,b>] [--status <status>]' +
+          ' [--category <category>]',
+        arity: 0,
+        run: async (_, options) => {
+          const file = this.requireOption(options, 'output');
+          const fields = this.fieldsOption(options);
+          const status = this.enumOption(options, 'status', Object.values(UserStatus));
+          const category = this.category(options['category']);
+          const result = await useCases.exportUsers.execute({
+            format: this.exportFormat(file, options['format']),
+            ...(fields && { fields }),
+            ...(status && { status }),
+            ...(category && { category }),
+          });
+          return result.ok ? this.writeExport(file, result.value) : result;
+        },
+      },
+      {
+        words: ['borrow'],
+        usage: 'borrow <userId> <bookId>',
+        arity: 2,
+        run: ([userId, bookId]) =>
+          useCases.borrowBook.execute({
+            userId: UserId.create(userId ?? ''),
+            bookId: bookId ?? '',
+          }),
+      },
+      {
+        words: ['return'],
+        usage: 'return <userId> <bookId>',
+        arity: 2,
+        run: ([userId, bookId]) =>
+          useCases.returnBook.execute({
+            userId: UserId.create(userId ?? ''),
+            bookId: bookId ?? '',
+          }),
+      },
+      {
+        words: ['fees', 'pay'],
+        usage:
+          'fees pay <userId> <amount> --actor <staff> [--currency <code>] [--reason <text>]' +
+          '  (amount in minor units, e.g. 1200 for ¥1,200)',
+        arity: 2,
+        run: ([userId, amount], options) => {
+          const reason = options['reason'];
+          return useCases.payFee.execute({
+            userId: UserId.create(userId ?? ''),
+            amount: Money.of(Number(amount), this.stringOption(options, 'currency')),
+            actor: this.requireOption(options, 'actor'),
+            ...(typeof reason === 'string' && { reason }),
+          });
+        },
+      },
+      {
+        words: ['overdue', 'sweep'],
+        usage: 'overdue sweep  (charge accrued overdue fees, suspend members past the thresholds)',
+        arity: 0,
+        run: () => useCases.overdueSweep.execute(),
+      },
+    ];
+  }
+
+  /**
+   * Run one command
+   *
+   * Flow:
+   * 1. Find the command named by the leading positionals
+   * 2. Convert arguments to value objects (invalid input → INVALID_INPUT)
+   * 3. Execute the use case and print its output or error
+   *
+   * @returns Exit code for the process
+   */
+  async run({ positionals, options }: CliArguments): Promise<ExitCode> {
+    const json = options['json'] === true;
+    const command = this.commands.find((candidate) =>
+      candidate.words.every((word, index) => positionals[index] === word)
+    );
+
+    if (options['help'] || !command) {
+      this.printUsage(positionals.length > 0 && !options['help']);
+      return options['help'] ? ExitCode.SUCCESS : ExitCode.INVALID_INPUT;
+    }
+
+    const args = positionals.slice(command.words.length);
+    if (args.length !== command.arity) {
+      this.output.err(`Usage: library ${command.usage}`);
+      return ExitCode.INVALID_INPUT;
+    }
+
+    let result: Result<unknown>;
+    try {
+      result = await command.run(args, options);
+    } catch (error) {
+      // Value objects and required options reject malformed input
+      if (error instanceof DomainError) {
+        this.printError(error, json);
+        this.output.err(`Usage: library ${command.usage}`);
+        return ExitCode.INVALID_INPUT;
+      }
+      throw error;
+    }
+
+    if (!result.ok) {
+      this.printError(result.error, json);
+      return ExitCode.FAILED;
+    }
+
+    this.output.out(json ? JSON.stringify(result.value, null, 2) : formatDetails(result.value));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * @private
+   */
+  private printError(error: DomainError, json: boolean): void {
+    if (json) {
+      this.output.out(JSON.stringify({ error: error.toJSON() }, null, 2));
+    } else {
+      this.output.err(`Error [${error.code}]: ${error.message}`);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private printUsage(unknownCommand: boolean): void {
+    const lines = [
+      ...(unknownCommand ? ['Unknown command.', ''] : []),
+      'Usage:',
+      ...this.commands.map((command) => `  library ${command.usage}`),
+      '',
+      'Options:',
+      '  --json                  Print results as JSON',
+      '  --store <kind>          prisma (default), eventsourced, memory or file',
+      '  --data-file <path>      Data file of the file store',
+      '  --policies-file <path>  Lending policy config (default config/lending-policies.json)',
+    ];
+    this.output.err(lines.join('\n'));
+  }
+
+  /**
+   * @private
+   */
+  private requireOption(options: CliArguments['options'], name: string): string {
+    const value = options[name];
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new ValidationError(name, `--${name} is required`);
+    }
+    return value;
+  }
+
+  /**
+   * @private
+   */
+  private stringOption(options: CliArguments['options'], name: string): string | undefined {
+    const value = options[name];
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * @private
+   */
+  private importFormat(file: string, value: unknown): CatalogFormat {
+    const formats: CatalogFormat[] = ['csv', 'marc', 'marcxml'];
+    const format = value ?? FORMATS_BY_EXTENSION[extname(file).toLowerCase()];
+    if (typeof format !== 'string' || !formats.includes(format as CatalogFormat)) {
+      throw new ValidationError('format', `--format must be one of: ${formats.join(', ')}`);
+    }
+    return format as CatalogFormat;
+  }
+
+  /**
+   * @private
+   */
+  private duplicatePolicy(value: unknown): DuplicatePolicy {
+    if (value === undefined || value === 'skip' || value === 'update') {
+      return value ?? 'skip';
+    }
+    throw new ValidationError('duplicates', '--duplicates must be skip or update');
+  }
+
+  /**
+   * @private
+   */
+  private exportFormat(file: string, value: unknown): ExportFormat {
+    const formats: ExportFormat[] = ['csv', 'jsonl', 'marcxml'];
+    const format = value ?? EXPORT_FORMATS_BY_EXTENSION[extname(file).toLowerCase()];
+    if (typeof format !== 'string' || !formats.includes(format as ExportFormat)) {
+      throw new ValidationError('format', `--format must be one of: ${formats.join(', ')}`);
+    }
+    return format as ExportFormat;
+  }
+
+  /**
+   * Comma-separated --fields as a list (undefined for all fields)
+   * @private
+   */
+  private fieldsOption(options: CliArguments['options']): string[] | undefined {
+    return this.stringOption(options, 'fields')
+      ?.split(',')
+      .map((field) => field.trim())
+      .filter((field) => field.length > 0);
+  }
+
+  /**
+   * Upper-cased option value, if it is one of values
+   * @private
+   */
+  private enumOption<T extends string>(
+    options: CliArguments['options'],
+    name: string,
+    values: T[]
+  ): T | undefined {
+    const value = options[name];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || !values.includes(value.toUpperCase() as T)) {
+      throw new ValidationError(name, `--${name} must be one of: ${values.join(', ')}`);
+    }
+    return value.toUpperCase() as T;
+  }
+
+  /**
+   * Stream an export's content to its file
+   * @private
+   */
+  private async writeExport(
+    file: string,
+    output: ExportOutput
+  ): Promise<Result<{ file: string; format: ExportFormat; fields: string }>> {
+    const handle = await open(file, 'w').catch(() => null);
+    if (!handle) {
+      throw new ValidationError('output', `Cannot write ${file}`);
+    }
+    await pipeline(Readable.from(output.content), handle.createWriteStream());
+    return ok({ file, format: output.format, fields: output.fields.join(', ') });
+  }
+
+  /**
+   * @private
+   */
+  private category(value: unknown): MemberCategory | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const categories = Object.values<string>(MemberCategory);
+    if (typeof value !== 'string' || !categories.includes(value.toUpperCase())) {
+      throw new ValidationError('category', `--category must be one of: ${categories.join(', ')}`);
+    }
+    return value.toUpperCase() as MemberCategory;
+  }
+}
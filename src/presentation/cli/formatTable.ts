@@ -0,0 +1,52 @@
+/**
+ * Table Formatting
+ *
+ * Human-readable rendering of use-case outputs for the terminal.
+ */
+
+/**
+ * Render rows as an aligned text table with a header line
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd();
+
+  return [
+    line(headers),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...rows.map((row) => line(row)),
+  ].join('\n');
+}
+
+/**
+ * Render an output DTO as a Field / Value table
+ *
+ * Nested objects become dotted field names (user.name), Money outputs
+ * their formatted amount, dates ISO strings and missing values "-".
+ */
+export function formatDetails(value: unknown): string {
+  return formatTable(['Field', 'Value'], flatten(value, ''));
+}
+
+function flatten(value: unknown, prefix: string): string[][] {
+  if (value === null || value === undefined) {
+    return [[prefix, '-']];
+  }
+  if (value instanceof Date) {
+    return [[prefix, value.toISOString()]];
+  }
+  if (typeof value !== 'object') {
+    return [[prefix, String(value)]];
+  }
+  // MoneyOutput: show the display form only
+  if ('formatted' in value && typeof value.formatted === 'string') {
+    return [[prefix, value.formatted]];
+  }
+
+  return Object.entries(value).flatMap(([key, nested]) =>
+    flatten(nested, prefix ? `${prefix}.${key}` : key)
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Batch Loader
+ *
+ * Collects the keys requested while a GraphQL response is being resolved
+ * and fetches them with one repository call, instead of one call per
+ * object (the N+1 problem). Results are cached per key for the lifetime
+ * of the loader, which is one request.
+ */
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve(value: V | null): void;
+  reject(error: unknown): void;
+}
+
+export class BatchLoader<K, V> {
+  private readonly cache = new Map<K, Promise<V | null>>();
+  private pending: PendingLoad<K, V>[] = [];
+
+  /**
+   * @param batch - Fetches the values of several keys; keys missing from
+   *   the returned map load as null
+   */
+  constructor(private readonly batch: (keys: K[]) => Promise<Map<K, V>>) {}
+
+  /**
+   * Value of a key, fetched together with the other keys requested in
+   * the same tick
+   */
+  load(key: K): Promise<V | null> {
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V | null>((resolve, reject) => {
+      this.pending.push({ key, resolve, reject });
+      if (this.pending.length === 1) {
+        setTimeout(() => void this.dispatch(), 0);
+      }
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Forget cached values (after a mutation changed them)
+   */
+  clearAll(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * @private
+   */
+  private async dispatch(): Promise<void> {
+    const loads = this.pending;
+    this.pending = [];
+
+    try {
+      const values = await this.batch(loads.map((load) => load.key));
+      loads.forEach((load) => load.resolve(values.get(load.key) ?? null));
+    } catch (error) {
+      // Do not cache failures: a later load retries
+      loads.forEach((load) => {
+        this.cache.delete(load.key);
+        load.reject(error);
+      });
+    }
+  }
+}
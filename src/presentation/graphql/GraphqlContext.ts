@@ -0,0 +1,88 @@
+/**
+ * GraphQL Context
+ *
+ * Per-request context of the GraphQL resolvers: the repositories and use
+ * cases they delegate to, plus batch loaders for the objects that nested
+ * fields reference (a book's borrower, a user's loans, ...).
+ */
+
+import { IBookRepository } from '../../domain/repositories/IBookRepository';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { ITitleRepository } from '../../domain/repositories/ITitleRepository';
+import { ILoanRepository } from '../../domain/repositories/ILoanRepository';
+import { RegisterBookUseCase } from '../../application/useCases/RegisterBookUseCase';
+import { CreateUserUseCase } from '../../application/useCases/CreateUserUseCase';
+import { BorrowBookUseCase, ReturnBookUseCase } from '../../application/useCases/BorrowBookUseCase';
+import { Book } from '../../domain/entities/Book';
+import { User } from '../../domain/entities/User';
+import { Title } from '../../domain/entities/Title';
+import { Loan } from '../../domain/entities/Loan';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { BatchLoader } from './BatchLoader';
+
+/**
+ * What the GraphQL endpoint is built on (from the composition root)
+ */
+export interface GraphqlDependencies {
+  bookRepository: IBookRepository;
+  userRepository: IUserRepository;
+  titleRepository: ITitleRepository;
+  loanRepository: ILoanRepository;
+  registerBook: RegisterBookUseCase;
+  createUser: CreateUserUseCase;
+  borrowBook: BorrowBookUseCase;
+  returnBook: ReturnBookUseCase;
+}
+
+export interface GraphqlContext extends GraphqlDependencies {
+  books: BatchLoader<string, Book>; // By book ID
+  users: BatchLoader<string, User>; // By user ID
+  titles: BatchLoader<string, Title>; // By ISBN
+  loansByUser: BatchLoader<string, Loan[]>; // By user ID
+  clearLoaders(): void;
+}
+
+/**
+ * Fresh context (and loader caches) for one request
+ */
+export function createGraphqlContext(dependencies: GraphqlDependencies): GraphqlContext {
+  const loaders = {
+    books: new BatchLoader<string, Book>(async (ids) =>
+      byKey(await dependencies.bookRepository.findByIds(ids), (book) => book.id)
+    ),
+    users: new BatchLoader<string, User>(async (ids) =>
+      byKey(
+        await dependencies.userRepository.findByIds(ids.map((id) => UserId.create(id))),
+        (user) => user.id.getValue()
+      )
+    ),
+    titles: new BatchLoader<string, Title>(async (isbns) =>
+      byKey(
+        await dependencies.titleRepository.findByISBNs(isbns.map((isbn) => new ISBN(isbn))),
+        (title) => title.isbn.getValue()
+      )
+    ),
+    loansByUser: new BatchLoader<string, Loan[]>(async (userIds) => {
+      const loans = await dependencies.loanRepository.findByUsers(
+        userIds.map((id) => UserId.create(id))
+      );
+      const grouped = new Map<string, Loan[]>();
+      for (const loan of loans) {
+        const key = loan.userId.getValue();
+        grouped.set(key, [...(grouped.get(key) ?? []), loan]);
+      }
+      return grouped;
+    }),
+  };
+
+  return {
+    ...dependencies,
+    ...loaders,
+    clearLoaders: () => Object.values(loaders).forEach((loader) => loader.clearAll()),
+  };
+}
+
+function byKey<V>(values: V[], key: (value: V) => string): Map<string, V> {
+  return new Map(values.map((value) => [key(value), value]));
+}
@@ -0,0 +1,82 @@
+/**
+ * GraphQL Controller
+ *
+ * HTTP adapter for the GraphQL endpoint:
+ * - POST /graphql - { query, variables?, operationName? }
+ *
+ * Domain errors are reported as GraphQL errors with machine-readable
+ * extensions: { code, details } (the same code as the REST API's error
+ * body). Unexpected errors are masked as INTERNAL_ERROR and reported to
+ * onError.
+ */
+
+import { graphql, GraphQLError, GraphQLFormattedError } from 'graphql';
+import { DomainError } from '../../domain/errors/DomainError';
+import { Router } from '../http/Router';
+import { HttpRequest, HttpResponse } from '../http/HttpTypes';
+import { requireBody, requireString } from '../http/requestValidation';
+import { librarySchema } from './librarySchema';
+import { createGraphqlContext, GraphqlDependencies } from './GraphqlContext';
+
+export class GraphqlController {
+  constructor(
+    private readonly dependencies: GraphqlDependencies,
+    private readonly onError: (error: unknown) => void = (error) =>
+      console.error('GraphQL resolver failed:', error)
+  ) {}
+
+  routes(router: Router): void {
+    router.add('POST', '/graphql', (request) => this.execute(request));
+  }
+
+  async execute(request: HttpRequest): Promise<HttpResponse> {
+    const body = requireBody(request.body);
+    const variables = body['variables'];
+    const operationName = body['operationName'];
+
+    const result = await graphql({
+      schema: librarySchema,
+      source: requireString(body, 'query'),
+      variableValues: typeof variables === 'object' ? (variables as Record<string, unknown>) : null,
+      operationName: typeof operationName === 'string' ? operationName : null,
+      contextValue: createGraphqlContext(this.dependencies),
+    });
+
+    const errors = result.errors?.map((error) => this.format(error));
+    // No data at all: the document did not parse or validate
+    const status = result.data !== undefined ? 200 : 400;
+
+    return {
+      status,
+      body: { ...(result.data !== undefined && { data: result.data }), ...(errors && { errors }) },
+    };
+  }
+
+  /**
+   * Typed error for domain errors, masked error for unexpected ones
+   * @private
+   */
+  private format(error: GraphQLError): GraphQLFormattedError {
+    const original = error.originalError;
+
+    if (original instanceof DomainError) {
+      return {
+        ...error.toJSON(),
+        message: original.message,
+        extensions: { code: original.code, details: original.details },
+      };
+    }
+
+    if (original) {
+      this.onError(original);
+      return {
+        ...error.toJSON(),
+        message: 'Internal server error',
+        extensions: { code: 'INTERNAL_ERROR' },
+      };
+    }
+
+    // Syntax and validation errors of the query itself
+    return { ...error.toJSON(), extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } };
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Library GraphQL Schema
+ *
+ * Book, User and Loan types resolved directly from the domain entities,
+ * with queries backed by the repositories and mutations delegating to
+ * the use cases. Nested references (a book's borrower, a user's loans and
+ * borrowed books, a loan's book) go through the context's batch loaders.
+ *
+ * Failed use cases and invalid arguments (e.g. a malformed user ID)
+ * throw their DomainError; GraphqlController reports it with its code
+ * and details in the error's extensions.
+ */
+
+import {
+  GraphQLSchema,
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLEnumType,
+  GraphQLScalarType,
+  GraphQLNonNull,
+  GraphQLList,
+  GraphQLID,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLBoolean,
+} from 'graphql';
+import { Book, BookStatus } from '../../domain/entities/Book';
+import { User, UserStatus, MemberCategory } from '../../domain/entities/User';
+import { Loan } from '../../domain/entities/Loan';
+import { Money } from '../../domain/valueObjects/Money';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Result } from '../../domain/errors/Result';
+import { GraphqlContext } from './GraphqlContext';
+
+/**
+ * Value of a successful use case; the DomainError of a failed one is thrown
+ */
+async function unwrap<T>(result: Promise<Result<T>>): Promise<T> {
+  const outcome = await result;
+  if (!outcome.ok) {
+    throw outcome.error;
+  }
+  return outcome.value;
+}
+
+function enumType(name: string, values: Record<string, string>): GraphQLEnumType {
+  return new GraphQLEnumType({
+    name,
+    values: Object.fromEntries(Object.values(values).map((value) => [value, { value }])),
+  });
+}
+
+const DateTimeType = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'ISO 8601 timestamp',
+  serialize: (value) => (value instanceof Date ? value.toISOString() : String(value)),
+});
+
+const BookStatusType = enumType('BookStatus', BookStatus);
+const UserStatusType = enumType('UserStatus', UserStatus);
+const MemberCategoryType = enumType('MemberCategory', MemberCategory);
+
+const MoneyType = new GraphQLObjectType<Money, GraphqlContext>({
+  name: 'Money',
+  fields: {
+    minorUnits: { type: new GraphQLNonNull(GraphQLInt), resolve: (money) => money.getMinorUnits() },
+    currency: { type: new GraphQLNonNull(GraphQLString), resolve: (money) => money.getCurrency() },
+    formatted: { type: new GraphQLNonNull(GraphQLString), resolve: (money) => money.format() },
+  },
+});
+
+const BookType: GraphQLObjectType<Book, GraphqlContext> = new GraphQLObjectType<
+  Book,
+  GraphqlContext
+>({
+  name: 'Book',
+  description: 'One physical, barcoded copy of a title',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: (book) => book.id },
+    barcode: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: (book) => book.barcode.getValue(),
+    },
+    isbn: { type: new GraphQLNonNull(GraphQLString), resolve: (book) => book.isbn.getValue() },
+    title: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: async (book, _, context) =>
+        (await context.titles.load(book.isbn.getValue()))?.title ?? '',
+    },
+    author: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: async (book, _, context) =>
+        (await context.titles.load(book.isbn.getValue()))?.author ?? '',
+    },
+    status: { type: new GraphQLNonNull(BookStatusType), resolve: (book) => book.status },
+    borrowedBy: {
+      type: UserType,
+      resolve: (book, _, context) =>
+        book.borrowedBy ? context.users.load(book.borrowedBy.getValue()) : null,
+    },
+    borrowedAt: { type: DateTimeType, resolve: (book) => book.borrowedAt },
+    dueDate: { type: DateTimeType, resolve: (book) => book.dueDate },
+    reservedFor: {
+      type: UserType,
+      resolve: (book, _, context) =>
+        book.reservedFor ? context.users.load(book.reservedFor.getValue()) : null,
+    },
+  }),
+});
+
+const UserType: GraphQLObjectType<User, GraphqlContext> = new GraphQLObjectType<
+  User,
+  GraphqlContext
+>({
+  name: 'User',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: (user) => user.id.getValue() },
+    name: { type: new GraphQLNonNull(GraphQLString), resolve: (user) => user.name },
+    email: { type: new GraphQLNonNull(GraphQLString), resolve: (user) => user.email },
+    status: { type: new GraphQLNonNull(UserStatusType), resolve: (user) => user.status },
+    category: { type: new GraphQLNonNull(MemberCategoryType), resolve: (user) => user.category },
+    currentBorrowCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      resolve: (user) => user.currentBorrowCount,
+    },
+    overdueFees: {
+      type: new GraphQLNonNull(MoneyType),
+      description: 'Fee ledger balance',
+      resolve: (user) => user.overdueFees,
+    },
+    createdAt: { type: new GraphQLNonNull(DateTimeType), resolve: (user) => user.createdAt },
+    loans: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(LoanType))),
+      description: 'Open and closed loans, most recent first',
+      resolve: async (user, _, context) =>
+        (await context.loansByUser.load(user.id.getValue())) ?? [],
+    },
+    borrowedBooks: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(BookType))),
+      description: 'Books currently lent to the user',
+      resolve: async (user, _, context) => {
+        const loans = (await context.loansByUser.load(user.id.getValue())) ?? [];
+        const books = await Promise.all(
+          loans.filter((loan) => loan.isOpen()).map((loan) => context.books.load(loan.bookId))
+        );
+        return books.filter((book): book is Book => book !== null);
+      },
+    },
+  }),
+});
+
+const LoanType: GraphQLObjectType<Loan, GraphqlContext> = new GraphQLObjectType<
+  Loan,
+  GraphqlContext
+>({
+  name: 'Loan',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: (loan) => loan.id },
+    book: { type: BookType, resolve: (loan, _, context) => context.books.load(loan.bookId) },
+    user: {
+      type: UserType,
+      resolve: (loan, _, context) => context.users.load(loan.userId.getValue()),
+    },
+    borrowedAt: { type: new GraphQLNonNull(DateTimeType), resolve: (loan) => loan.borrowedAt },
+    dueDate: { type: new GraphQLNonNull(DateTimeType), resolve: (loan) => loan.dueDate },
+    returnedAt: { type: DateTimeType, resolve: (loan) => loan.returnedAt },
+    open: { type: new GraphQLNonNull(GraphQLBoolean), resolve: (loan) => loan.isOpen() },
+    feeCharged: {
+      type: new GraphQLNonNull(MoneyType),
+      description: 'Overdue fee charged on return',
+      resolve: (loan) => loan.feeCharged,
+    },
+  }),
+});
+
+const RegisterBookInputType = new GraphQLInputObjectType({
+  name: 'RegisterBookInput',
+  fields: {
+    isbn: { type: new GraphQLNonNull(GraphQLString) },
+    title: { type: GraphQLString, description: 'Looked up by ISBN if omitted' },
+    author: { type: GraphQLString, description: 'Looked up by ISBN if omitted' },
+    barcode: { type: new GraphQLNonNull(GraphQLString) },
+  },
+});
+
+const CreateUserInputType = new GraphQLInputObjectType({
+  name: 'CreateUserInput',
+  fields: {
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    email: { type: new GraphQLNonNull(GraphQLString) },
+    category: { type: MemberCategoryType },
+  },
+});
+
+const loanArgs = {
+  userId: { type: new GraphQLNonNull(GraphQLID) },
+  bookId: { type: new GraphQLNonNull(GraphQLID) },
+};
+
+const QueryType = new GraphQLObjectType<unknown, GraphqlContext>({
+  name: 'Query',
+  fields: {
+    book: {
+      type: BookType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      resolve: (_, args: { id: string }, context) => context.books.load(args.id),
+    },
+    books: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(BookType))),
+      args: { status: { type: BookStatusType } },
+      resolve: (_, args: { status?: BookStatus | null }, context) =>
+        args.status
+          ? context.bookRepository.findByStatus(args.status)
+          : context.bookRepository.findAll(),
+    },
+    user: {
+      type: UserType,
+      args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+      // Validates the ID format (InvalidUserIdError)
+      resolve: (_, args: { id: string }, context) =>
+        context.users.load(UserId.create(args.id).getValue()),
+    },
+    usersWithOverdueFees: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      resolve: (_, __, context) => context.userRepository.findUsersWithOverdueFees(),
+    },
+  },
+});
+
+/**
+ * Mutations return the aggregate they changed, reloaded after the change
+ */
+const MutationType = new GraphQLObjectType<unknown, GraphqlContext>({
+  name: 'Mutation',
+  fields: {
+    registerBook: {
+      type: new GraphQLNonNull(BookType),
+      args: { input: { type: new GraphQLNonNull(RegisterBookInputType) } },
+      resolve: async (
+        _,
+        args: {
+          input: { isbn: string; title?: string | null; author?: string | null; barcode: string };
+        },
+        context
+      ) => {
+        const { isbn, title, author, barcode } = args.input;
+        const { bookId } = await unwrap(
+          context.registerBook.execute({
+            isbn,
+            barcode,
+            ...(title && { title }),
+            ...(author && { author }),
+          })
+        );
+        context.clearLoaders();
+        return context.books.load(bookId);
+      },
+    },
+    createUser: {
+      type: new GraphQLNonNull(UserType),
+      args: { input: { type: new GraphQLNonNull(CreateUserInputType) } },
+      resolve: async (
+        _,
+        args: { input: { name: string; email: string; category?: MemberCategory | null } },
+        context
+      ) => {
+        const { name, email, category } = args.input;
+        const { userId } = await unwrap(
+          context.createUser.execute({ name, email, ...(category && { category }) })
+        );
+        context.clearLoaders();
+        return context.users.load(userId);
+      },
+    },
+    borrowBook: {
+      type: new GraphQLNonNull(LoanType),
+      args: loanArgs,
+      resolve: async (_, args: { userId: string; bookId: string }, context) => {
+        const { loanId } = await unwrap(
+          context.borrowBook.execute({ userId: UserId.create(args.userId), bookId: args.bookId })
+        );
+        context.clearLoaders();
+        return context.loanRepository.findById(loanId);
+      },
+    },
+    returnBook: {
+      type: new GraphQLNonNull(LoanType),
+      args: loanArgs,
+      resolve: async (_, args: { userId: string; bookId: string }, context) => {
+        const { loanId } = await unwrap(
+          context.returnBook.execute({ userId: UserId.create(args.userId), bookId: args.bookId })
+        );
+        context.clearLoaders();
+        return context.loanRepository.findById(loanId);
+      },
+    },
+  },
+});
+
+export const librarySchema = new GraphQLSchema({
+  query: QueryType,
+  mutation: MutationType,
+});
@@ -0,0 +1,72 @@
+/**
+ * Book Controller
+ *
+ * HTTP adapter for the book use cases:
+ * - POST /books - register a copy (cataloging its title on the first copy;
+ *   title and author may be omitted to look them up by ISBN)
+ * - GET /books?status=&author=&title=&borrowedBy= - one page of copies
+ *   (&limit=&offset= or &cursor=, &sort=createdAt|updatedAt|barcode, "-" for descending)
+ */
+
+import { RegisterBookUseCase } from '../../application/useCases/RegisterBookUseCase';
+import { ListBooksUseCase } from '../../application/useCases/ListBooksUseCase';
+import { BookStatus } from '../../domain/entities/Book';
+import { ISBN } from '../../domain/valueObjects/ISBN';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Router } from './Router';
+import { HttpRequest, HttpResponse } from './HttpTypes';
+import {
+  requireBody,
+  requireString,
+  optionalString,
+  optionalEnum,
+  pageParameters,
+} from './requestValidation';
+import { resultResponse } from './errorResponses';
+
+export class BookController {
+  constructor(
+    private readonly registerBook: RegisterBookUseCase,
+    private readonly listBooks: ListBooksUseCase
+  ) {}
+
+  routes(router: Router): void {
+    router
+      .add('POST', '/books', (request) => this.register(request))
+      .add('GET', '/books', (request) => this.list(request));
+  }
+
+  async register(request: HttpRequest): Promise<HttpResponse> {
+    const body = requireBody(request.body);
+    // Convert primitives to value objects HERE (throws InvalidIsbnError)
+    const isbn = new ISBN(requireString(body, 'isbn'));
+    const title = optionalString(body, 'title');
+    const author = optionalString(body, 'author');
+
+    const result = await this.registerBook.execute({
+      isbn: isbn.getValue(),
+      ...(title && { title }),
+      ...(author && { author }),
+      barcode: requireString(body, 'barcode'),
+    });
+    return resultResponse(result, 201);
+  }
+
+  async list(request: HttpRequest): Promise<HttpResponse> {
+    const { query } = request;
+    const status = optionalEnum(query.get('status'), 'status', BookStatus);
+    const author = query.get('author');
+    const title = query.get('title');
+    const borrowedBy = query.get('borrowedBy');
+
+    const result = await this.listBooks.execute({
+      ...(status && { status }),
+      ...(author && { author }),
+      ...(title && { title }),
+      // Throws InvalidUserIdError for anything but 8 digits
+      ...(borrowedBy && { borrowedBy: UserId.create(borrowedBy) }),
+      ...pageParameters(query, ['createdAt', 'updatedAt', 'barcode'] as const),
+    });
+    return resultResponse(result);
+  }
+}
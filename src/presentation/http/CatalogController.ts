@@ -0,0 +1,34 @@
+/**
+ * Catalog Controller
+ *
+ * HTTP adapter for the catalog search:
+ * - GET /catalog/search?q=&limit=&availableOnly= - titles matching words of
+ *   the title or author, or an ISBN, with their availability
+ */
+
+import { SearchCatalogUseCase } from '../../application/useCases/SearchCatalogUseCase';
+import { Router } from './Router';
+import { HttpRequest, HttpResponse } from './HttpTypes';
+import { optionalInteger, optionalBoolean } from './requestValidation';
+import { resultResponse } from './errorResponses';
+
+export class CatalogController {
+  constructor(private readonly searchCatalog: SearchCatalogUseCase) {}
+
+  routes(router: Router): void {
+    router.add('GET', '/catalog/search', (request) => this.search(request));
+  }
+
+  async search(request: HttpRequest): Promise<HttpResponse> {
+    const { query } = request;
+    const limit = optionalInteger(query.get('limit'), 'limit');
+    const availableOnly = optionalBoolean(query.get('availableOnly'), 'availableOnly');
+
+    const result = await this.searchCatalog.execute({
+      query: query.get('q') ?? '',
+      ...(limit !== undefined && { limit }),
+      ...(availableOnly !== undefined && { availableOnly }),
+    });
+    return resultResponse(result);
+  }
+}
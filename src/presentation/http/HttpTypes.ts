@@ -0,0 +1,23 @@
+/**
+ * HTTP Types
+ *
+ * Framework-independent request and response shapes used by the
+ * controllers, so they can be exercised without a running server.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  path: string;
+  params: Readonly<Record<string, string>>; // Path parameters (e.g. :id)
+  query: URLSearchParams;
+  body: unknown; // Parsed JSON body (undefined if none)
+}
+
+export interface HttpResponse {
+  status: number;
+  body: unknown; // Serialized as JSON
+}
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
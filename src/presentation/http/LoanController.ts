@@ -0,0 +1,44 @@
+/**
+ * Loan Controller
+ *
+ * HTTP adapter for borrowing and returning:
+ * - POST /loans - lend a copy to a user (opens a loan)
+ * - POST /loans/:id/return - return the copy of a loan
+ */
+
+import { BorrowBookUseCase } from '../../application/useCases/BorrowBookUseCase';
+import { ReturnLoanUseCase } from '../../application/useCases/ReturnLoanUseCase';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Router } from './Router';
+import { HttpRequest, HttpResponse } from './HttpTypes';
+import { requireBody, requireString } from './requestValidation';
+import { resultResponse } from './errorResponses';
+
+export class LoanController {
+  constructor(
+    private readonly borrowBook: BorrowBookUseCase,
+    private readonly returnLoan: ReturnLoanUseCase
+  ) {}
+
+  routes(router: Router): void {
+    router
+      .add('POST', '/loans', (request) => this.borrow(request))
+      .add('POST', '/loans/:id/return', (request) => this.returnCopy(request));
+  }
+
+  async borrow(request: HttpRequest): Promise<HttpResponse> {
+    const body = requireBody(request.body);
+    // Convert primitives to value objects HERE (throws InvalidUserIdError)
+    const userId = UserId.create(requireString(body, 'userId'));
+
+    const result = await this.borrowBook.execute({
+      userId,
+      bookId: requireString(body, 'bookId'),
+    });
+    return resultResponse(result, 201);
+  }
+
+  async returnCopy(request: HttpRequest): Promise<HttpResponse> {
+    return resultResponse(await this.returnLoan.execute({ loanId: request.params['id'] ?? '' }));
+  }
+}
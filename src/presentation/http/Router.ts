@@ -0,0 +1,86 @@
+/**
+ * Router
+ *
+ * Maps a method and path (with :name parameters, e.g. /loans/:id/return)
+ * to a route handler.
+ */
+
+import { HttpMethod, RouteHandler } from './HttpTypes';
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+interface Route {
+  method: HttpMethod;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+export interface RouteMatch {
+  handler: RouteHandler;
+  params: Record<string, string>;
+}
+
+export class Router {
+  private readonly routes: Route[] = [];
+
+  /**
+   * Register a handler
+   * @param pattern - Path with :name placeholders for parameters
+   */
+  add(method: HttpMethod, pattern: string, handler: RouteHandler): this {
+    this.routes.push({ method, segments: this.split(pattern), handler });
+    return this;
+  }
+
+  /**
+   * Find the handler for a request
+   * @returns Handler and decoded path parameters, null if no route matches
+   * @throws ValidationError if a parameter is not valid percent-encoding (e.g. %E0%A4)
+   */
+  match(method: string, path: string): RouteMatch | null {
+    const segments = this.split(path);
+
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const matches = route.segments.every(
+        (expected, index) => expected.startsWith(':') || expected === segments[index]
+      );
+      if (!matches) {
+        continue;
+      }
+
+      // Only the matching route's parameters are decoded: a path no route
+      // matches stays unmatched however its segments are encoded
+      const params: Record<string, string> = {};
+      route.segments.forEach((expected, index) => {
+        if (expected.startsWith(':')) {
+          params[expected.slice(1)] = this.decode(expected.slice(1), segments[index] ?? '');
+        }
+      });
+      return { handler: route.handler, params };
+    }
+
+    return null;
+  }
+
+  /**
+   * Decoded value of a path parameter
+   * @private
+   */
+  private decode(name: string, segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new ValidationError(name, `Path parameter ${name} is not valid percent-encoding`);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private split(path: string): string[] {
+    return path.split('/').filter((segment) => segment.length > 0);
+  }
+}
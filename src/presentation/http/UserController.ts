@@ -0,0 +1,76 @@
+/**
+ * User Controller
+ *
+ * HTTP adapter for the user use cases:
+ * - POST /users - create a user
+ * - GET /users?status=&category=&name=&hasOverdueFees= - one page of users
+ *   (&limit=&offset= or &cursor=, &sort=createdAt|name|overdueFees, "-" for descending)
+ * - GET /users/:id - profile, borrowing count and fee balance
+ */
+
+import { CreateUserUseCase } from '../../application/useCases/CreateUserUseCase';
+import { GetUserUseCase } from '../../application/useCases/GetUserUseCase';
+import { ListUsersUseCase } from '../../application/useCases/ListUsersUseCase';
+import { UserStatus, MemberCategory } from '../../domain/entities/User';
+import { UserId } from '../../domain/valueObjects/UserId';
+import { Router } from './Router';
+import { HttpRequest, HttpResponse } from './HttpTypes';
+import {
+  requireBody,
+  requireString,
+  optionalEnum,
+  optionalBoolean,
+  pageParameters,
+} from './requestValidation';
+import { resultResponse } from './errorResponses';
+
+export class UserController {
+  constructor(
+    private readonly createUser: CreateUserUseCase,
+    private readonly getUser: GetUserUseCase,
+    private readonly listUsers: ListUsersUseCase
+  ) {}
+
+  routes(router: Router): void {
+    router
+      .add('POST', '/users', (request) => this.create(request))
+      .add('GET', '/users', (request) => this.list(request))
+      .add('GET', '/users/:id', (request) => this.get(request));
+  }
+
+  async create(request: HttpRequest): Promise<HttpResponse> {
+    const body = requireBody(request.body);
+    const category = optionalEnum(body['category'], 'category', MemberCategory);
+
+    const result = await this.createUser.execute({
+      name: requireString(body, 'name'),
+      email: requireString(body, 'email'),
+      ...(category && { category }),
+    });
+    return resultResponse(result, 201);
+  }
+
+  async get(request: HttpRequest): Promise<HttpResponse> {
+    // Throws InvalidUserIdError for anything but 8 digits
+    const userId = UserId.create(request.params['id'] ?? '');
+
+    return resultResponse(await this.getUser.execute({ userId }));
+  }
+
+  async list(request: HttpRequest): Promise<HttpResponse> {
+    const { query } = request;
+    const status = optionalEnum(query.get('status'), 'status', UserStatus);
+    const category = optionalEnum(query.get('category'), 'category', MemberCategory);
+    const name = query.get('name');
+    const hasOverdueFees = optionalBoolean(query.get('hasOverdueFees'), 'hasOverdueFees');
+
+    const result = await this.listUsers.execute({
+      ...(status && { status }),
+      ...(category && { category }),
+      ...(name && { name }),
+      ...(hasOverdueFees !== undefined && { hasOverdueFees }),
+      ...pageParameters(query, ['createdAt', 'name', 'overdueFees'] as const),
+    });
+    return resultResponse(result);
+  }
+}
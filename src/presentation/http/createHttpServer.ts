@@ -0,0 +1,114 @@
+/// <reference types="node" />
+/**
+ * HTTP Server
+ *
+ * Node http server around a Router: parses JSON bodies, dispatches to
+ * the matching handler and writes its response as JSON.
+ *
+ * Errors thrown by handlers are answered consistently:
+ * - DomainError (invalid value object, failed request validation,
+ *   undecodable path parameter): status from errorResponses, e.g. 400
+ * - anything else: 500, with the error reported to onError only
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { DomainError } from '../../domain/errors/DomainError';
+import { Router } from './Router';
+import { HttpMethod, HttpResponse } from './HttpTypes';
+import { errorResponse } from './errorResponses';
+
+export interface HttpServerOptions {
+  maxBodyBytes?: number; // Default: 1 MiB
+  onError?: (error: unknown) => void; // Default: console.error
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Create (but do not start) the server; call listen() on the result
+ */
+export function createHttpServer(router: Router, options: HttpServerOptions = {}): Server {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const onError = options.onError ?? ((error: unknown) => console.error('Request failed:', error));
+
+  return createServer((req, res) => {
+    handle(router, req, maxBodyBytes)
+      .catch((error: unknown): HttpResponse => {
+        if (error instanceof DomainError) {
+          return errorResponse(error);
+        }
+        onError(error);
+        return httpError(500, 'INTERNAL_ERROR', 'Internal server error');
+      })
+      .then((response) => send(res, response));
+  });
+}
+
+async function handle(
+  router: Router,
+  req: IncomingMessage,
+  maxBodyBytes: number
+): Promise<HttpResponse> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+  const route = router.match(method, url.pathname);
+
+  if (!route) {
+    return httpError(404, 'ROUTE_NOT_FOUND', `No route for ${method} ${url.pathname}`);
+  }
+
+  const raw = await readBody(req, maxBodyBytes);
+  if (raw === null) {
+    return httpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${maxBodyBytes} bytes`);
+  }
+
+  let body: unknown;
+  try {
+    body = raw.length > 0 ? JSON.parse(raw) : undefined;
+  } catch {
+    return httpError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+  }
+
+  return route.handler({
+    method: method as HttpMethod,
+    path: url.pathname,
+    params: route.params,
+    query: url.searchParams,
+    body,
+  });
+}
+
+/**
+ * @returns The body as text, null if it exceeds the limit
+ */
+async function readBody(req: IncomingMessage, maxBodyBytes: number): Promise<string | null> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > maxBodyBytes) {
+      return null;
+    }
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Error raised by the HTTP layer itself (same body shape as domain errors)
+ */
+function httpError(status: number, code: string, message: string): HttpResponse {
+  return { status, body: { error: { code, message, details: {} } } };
+}
+
+function send(res: ServerResponse, response: HttpResponse): void {
+  const payload = JSON.stringify(response.body);
+  res.writeHead(response.status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
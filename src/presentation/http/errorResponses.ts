@@ -0,0 +1,61 @@
+/**
+ * Error Responses
+ *
+ * Consistent mapping of use-case results and domain errors to HTTP
+ * responses. Every error body has the same shape:
+ * { error: { code, message, details } }
+ */
+
+import { DomainError, DomainErrorCode } from '../../domain/errors/DomainError';
+import { Result } from '../../domain/errors/Result';
+import { HttpResponse } from './HttpTypes';
+
+/**
+ * HTTP status of each error code
+ * - 400: malformed input
+ * - 404: referenced aggregate does not exist
+ * - 409: conflicts with existing data (duplicates, concurrent updates)
+ * - 422: well-formed request that a business rule (eligibility, state) refuses
+ * - 503: an external source the request depends on is unavailable
+ */
+const STATUS_BY_CODE: Record<DomainErrorCode, number> = {
+  [DomainErrorCode.VALIDATION_FAILED]: 400,
+  [DomainErrorCode.INVALID_ISBN]: 400,
+  [DomainErrorCode.INVALID_USER_ID]: 400,
+  [DomainErrorCode.INVALID_BARCODE]: 400,
+  [DomainErrorCode.NOT_FOUND]: 404,
+  [DomainErrorCode.DUPLICATE_EMAIL]: 409,
+  [DomainErrorCode.DUPLICATE_BARCODE]: 409,
+  [DomainErrorCode.DUPLICATE_HOLD]: 409,
+  [DomainErrorCode.CONCURRENCY_CONFLICT]: 409,
+  [DomainErrorCode.INVALID_STATE]: 422,
+  [DomainErrorCode.CURRENCY_MISMATCH]: 422,
+  [DomainErrorCode.USER_SUSPENDED]: 422,
+  [DomainErrorCode.BORROW_LIMIT_REACHED]: 422,
+  [DomainErrorCode.OUTSTANDING_FEES]: 422,
+  [DomainErrorCode.BOOK_UNAVAILABLE]: 422,
+  [DomainErrorCode.BOOK_RESERVED]: 422,
+  [DomainErrorCode.NOT_BORROWER]: 422,
+  [DomainErrorCode.RENEWAL_LIMIT_REACHED]: 422,
+  [DomainErrorCode.RESERVATION_PENDING]: 422,
+  [DomainErrorCode.ALREADY_BORROWED]: 422,
+  [DomainErrorCode.HOLD_NOT_OWNED]: 422,
+  [DomainErrorCode.AMOUNT_EXCEEDS_BALANCE]: 422,
+  [DomainErrorCode.METADATA_NOT_FOUND]: 422,
+  [DomainErrorCode.METADATA_UNAVAILABLE]: 503,
+};
+
+/**
+ * Response for a domain error
+ */
+export function errorResponse(error: DomainError): HttpResponse {
+  return { status: STATUS_BY_CODE[error.code], body: { error: error.toJSON() } };
+}
+
+/**
+ * Response for a use-case result
+ * @param successStatus - Status of a successful result (e.g. 201 for creations)
+ */
+export function resultResponse<T>(result: Result<T>, successStatus = 200): HttpResponse {
+  return result.ok ? { status: successStatus, body: result.value } : errorResponse(result.error);
+}
@@ -0,0 +1,126 @@
+/**
+ * Request Validation
+ *
+ * Checks the shape of request input before it reaches a use case.
+ * Failures are thrown as ValidationError, which the server answers
+ * with 400 like any invalid value object (ISBN, UserId, ...).
+ */
+
+import { ValidationError } from '../../domain/errors/CommonErrors';
+
+/**
+ * The request body as a JSON object
+ */
+export function requireBody(body: unknown): Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('body', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * A non-empty string field
+ */
+export function requireString(source: Record<string, unknown>, field: string): string {
+  const value = source[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new ValidationError(field, `${field} is required and must be a non-empty string`);
+  }
+  return value;
+}
+
+/**
+ * An optional non-empty string field
+ * @returns The value, undefined if absent
+ */
+export function optionalString(source: Record<string, unknown>, field: string): string | undefined {
+  if (source[field] === undefined || source[field] === null) {
+    return undefined;
+  }
+  return requireString(source, field);
+}
+
+/**
+ * An optional field restricted to the values of an enum
+ * @returns The value, undefined if absent
+ */
+export function optionalEnum<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: Record<string, T>
+): T | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const values = Object.values(allowed);
+  if (typeof value !== 'string' || !values.includes(value as T)) {
+    throw new ValidationError(field, `${field} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * An optional integer query parameter
+ * @returns The number, undefined if absent
+ */
+export function optionalInteger(value: string | null, field: string): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^-?\d+$/.test(value)) {
+    throw new ValidationError(field, `${field} must be an integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * An optional boolean query parameter ("true" or "false")
+ * @returns The boolean, undefined if absent
+ */
+export function optionalBoolean(value: string | null, field: string): boolean | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new ValidationError(field, `${field} must be true or false`);
+  }
+  return value === 'true';
+}
+
+export interface PageParameters<F extends string> {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  sortBy?: F;
+  sortDirection?: 'asc' | 'desc';
+}
+
+/**
+ * Page and sort parameters shared by the list endpoints:
+ * ?limit=&offset=&cursor=&sort=field or -field (descending)
+ */
+export function pageParameters<F extends string>(
+  query: URLSearchParams,
+  sortFields: readonly F[]
+): PageParameters<F> {
+  const limit = optionalInteger(query.get('limit'), 'limit');
+  const offset = optionalInteger(query.get('offset'), 'offset');
+  const cursor = query.get('cursor');
+  const sort = query.get('sort');
+
+  let sortBy: F | undefined;
+  if (sort !== null) {
+    sortBy = sort.replace(/^-/, '') as F;
+    if (!sortFields.includes(sortBy)) {
+      throw new ValidationError('sort', `sort must be one of: ${sortFields.join(', ')}`);
+    }
+  }
+
+  return {
+    ...(limit !== undefined && { limit }),
+    ...(offset !== undefined && { offset }),
+    ...(cursor !== null && { cursor }),
+    ...(sortBy && { sortBy, sortDirection: sort?.startsWith('-') ? 'desc' : 'asc' }),
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { MemberCategory } from '../../../src/domain/entities/User';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('BorrowBookUseCase / ReturnBookUseCase', () => {
+  let library: InMemoryLibrary;
+  let borrowBook: BorrowBookUseCase;
+  let returnBook: ReturnBookUseCase;
+  let userId: UserId;
+  let bookId: string;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    returnBook = new ReturnBookUseCase(unitOfWork, clock, policies, events);
+    userId = await addMember(library, 'reader@example.com');
+    bookId = await addCopy(library, 'LIB-0001');
+  });
+
+  it('updates the user and the book together on borrow and return', async () => {
+    const borrowed = await borrowBook.execute({ userId, bookId });
+
+    expect(borrowed.ok).toBe(true);
+    const { userRepository, bookRepository } = library.repositories;
+    expect((await userRepository.findById(userId))?.currentBorrowCount).toBe(1);
+    expect((await bookRepository.findById(bookId))?.status).toBe(BookStatus.BORROWED);
+
+    const returned = await returnBook.execute({ userId, bookId });
+
+    expect(returned.ok).toBe(true);
+    expect((await userRepository.findById(userId))?.currentBorrowCount).toBe(0);
+    expect((await bookRepository.findById(bookId))?.status).toBe(BookStatus.AVAILABLE);
+  });
+
+  it('rolls back a borrow whose book write fails', async () => {
+    const { userRepository, bookRepository, loanRepository } = library.repositories;
+    vi.spyOn(bookRepository, 'save').mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(borrowBook.execute({ userId, bookId })).rejects.toThrow('Connection lost');
+
+    expect((await userRepository.findById(userId))?.currentBorrowCount).toBe(0);
+    expect((await bookRepository.findById(bookId))?.status).toBe(BookStatus.AVAILABLE);
+    expect(await loanRepository.findOpenByBook(bookId)).toBeNull();
+  });
+
+  it('rolls back a return whose loan write fails', async () => {
+    await borrowBook.execute({ userId, bookId });
+    const { userRepository, bookRepository, loanRepository } = library.repositories;
+    vi.spyOn(loanRepository, 'save').mockRejectedValueOnce(new Error('Connection lost'));
+
+    await expect(returnBook.execute({ userId, bookId })).rejects.toThrow('Connection lost');
+
+    expect((await userRepository.findById(userId))?.currentBorrowCount).toBe(1);
+    expect((await bookRepository.findById(bookId))?.status).toBe(BookStatus.BORROWED);
+  });
+
+  it('charges the overdue fee of a return simulated 20 days late', async () => {
+    await borrowBook.execute({ userId, bookId });
+    library.clock.advanceDays(14 + 20);
+
+    const returned = await returnBook.execute({ userId, bookId });
+
+    expect(returned.ok && returned.value.overdueFee?.minorUnits).toBe(2000);
+    expect(returned.ok && returned.value.user.overdueFees.minorUnits).toBe(2000);
+  });
+
+  it('returns BORROW_LIMIT_REACHED at the limit of the member category', async () => {
+    const child = await addMember(library, 'child@example.com', MemberCategory.CHILD);
+    for (const barcode of ['LIB-0101', 'LIB-0102', 'LIB-0103']) {
+      await borrowBook.execute({ userId: child, bookId: await addCopy(library, barcode) });
+    }
+
+    const result = await borrowBook.execute({ userId: child, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.BORROW_LIMIT_REACHED);
+    expect(!result.ok && result.error.details).toMatchObject({ limit: 3, borrowed: 3 });
+  });
+
+  it('returns OUTSTANDING_FEES while fees exceed the threshold', async () => {
+    await borrowBook.execute({ userId, bookId });
+    library.clock.advanceDays(14 + 1);
+    await returnBook.execute({ userId, bookId });
+
+    const result = await borrowBook.execute({ userId, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.OUTSTANDING_FEES);
+  });
+
+  it('returns BOOK_UNAVAILABLE, NOT_BORROWER and NOT_FOUND', async () => {
+    const other = await addMember(library, 'other@example.com');
+    await borrowBook.execute({ userId, bookId });
+
+    const unavailable = await borrowBook.execute({ userId: other, bookId });
+    const notBorrower = await returnBook.execute({ userId: other, bookId });
+    const missing = await borrowBook.execute({ userId, bookId: 'no-such-book' });
+
+    expect(!unavailable.ok && unavailable.error.code).toBe(DomainErrorCode.BOOK_UNAVAILABLE);
+    expect(!notBorrower.ok && notBorrower.error.code).toBe(DomainErrorCode.NOT_BORROWER);
+    expect(!missing.ok && missing.error.details).toEqual({ entity: 'Book', id: 'no-such-book' });
+  });
+});
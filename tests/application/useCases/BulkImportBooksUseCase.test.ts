@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import {
+  BulkImportBooksInput,
+  BulkImportBooksOutput,
+  BulkImportBooksUseCase,
+  MAX_REPORTED_ERRORS,
+} from '../../../src/application/useCases/BulkImportBooksUseCase';
+import { CsvCatalogRecordReader } from '../../../src/infrastructure/import/CsvCatalogRecordReader';
+import { Marc21CatalogRecordReader } from '../../../src/infrastructure/import/Marc21CatalogRecordReader';
+import { MarcXmlCatalogRecordReader } from '../../../src/infrastructure/import/MarcXmlCatalogRecordReader';
+import { DomainEventType } from '../../../src/domain/events/DomainEvent';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+
+/** CSV file with an isbn,title,author,barcode header and the given rows */
+async function* csv(...rows: string[]): AsyncIterable<Uint8Array> {
+  yield new TextEncoder().encode(['isbn,title,author,barcode', ...rows].join('\n'));
+}
+
+describe('BulkImportBooksUseCase', () => {
+  let library: InMemoryLibrary;
+  let bulkImport: BulkImportBooksUseCase;
+
+  beforeEach(() => {
+    library = createInMemoryLibrary();
+    bulkImport = new BulkImportBooksUseCase(
+      library.unitOfWork,
+      {
+        csv: new CsvCatalogRecordReader(),
+        marc: new Marc21CatalogRecordReader(),
+        marcxml: new MarcXmlCatalogRecordReader(),
+      },
+      library.clock,
+      library.events
+    );
+  });
+
+  /** Report of an import of a CSV file */
+  async function importCsv(
+    rows: string[],
+    options: Omit<BulkImportBooksInput, 'format' | 'content'> = {}
+  ): Promise<BulkImportBooksOutput> {
+    const result = await bulkImport.execute({ format: 'csv', content: csv(...rows), ...options });
+    if (!result.ok) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  async function barcodesOnFile(): Promise<string[]> {
+    const books = await library.repositories.bookRepository.findAll();
+    return books.map((book) => book.barcode.getValue()).sort();
+  }
+
+  it('registers every copy in batches, cataloging each title once', async () => {
+    const registered: string[] = [];
+    library.events.subscribe(DomainEventType.BOOK_REGISTERED, (event) => {
+      registered.push(event.barcode);
+    });
+
+    const report = await importCsv(
+      [
+        `${ISBN_A},A title,An author,LIB-0001`,
+        `${ISBN_A},,,LIB-0002`,
+        `${ISBN_B},Another title,Another author,LIB-0003`,
+      ],
+      { batchSize: 2 }
+    );
+
+    expect(report).toEqual({
+      dryRun: false,
+      processed: 3,
+      registered: 3,
+      titlesCataloged: 2,
+      titlesUpdated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      errorsOmitted: 0,
+    });
+    expect(await barcodesOnFile()).toEqual(['LIB-0001', 'LIB-0002', 'LIB-0003']);
+    expect(registered.sort()).toEqual(['LIB-0001', 'LIB-0002', 'LIB-0003']);
+  });
+
+  it('reports invalid records with their line and imports the others', async () => {
+    const report = await importCsv([
+      `${ISBN_A},A title,An author,LIB-0001`,
+      '9780306406158,Bad check digit,An author,LIB-0002',
+      `${ISBN_B},,,LIB-0003`,
+    ]);
+
+    expect(report).toMatchObject({ processed: 3, registered: 1, failed: 2 });
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        position: 3,
+        isbn: '9780306406158',
+        code: DomainErrorCode.INVALID_ISBN,
+      }),
+      expect.objectContaining({ position: 4, barcode: 'LIB-0003' }),
+    ]);
+    expect(await barcodesOnFile()).toEqual(['LIB-0001']);
+  });
+
+  it('rejects a barcode repeated within a batch or in a later batch', async () => {
+    const report = await importCsv(
+      [
+        `${ISBN_A},A title,An author,LIB-0001`,
+        `${ISBN_A},,,LIB-0001`,
+        `${ISBN_A},,,LIB-0002`,
+        `${ISBN_A},,,LIB-0001`,
+      ],
+      { batchSize: 3 }
+    );
+
+    expect(report).toMatchObject({ registered: 2, failed: 2 });
+    expect(report.errors.map((error) => [error.position, error.code])).toEqual([
+      [3, DomainErrorCode.DUPLICATE_BARCODE],
+      [5, DomainErrorCode.DUPLICATE_BARCODE],
+    ]);
+    expect(await barcodesOnFile()).toEqual(['LIB-0001', 'LIB-0002']);
+  });
+
+  it('rejects a barcode already on file for another title', async () => {
+    await addCopy(library, 'LIB-0001', ISBN_A);
+
+    const report = await importCsv([`${ISBN_B},Another title,Another author,LIB-0001`]);
+
+    expect(report.errors).toEqual([
+      expect.objectContaining({ position: 2, code: DomainErrorCode.DUPLICATE_BARCODE }),
+    ]);
+    expect(await library.repositories.titleRepository.findByISBN(new ISBN(ISBN_B))).toBeNull();
+  });
+
+  it('skips records of ISBNs cataloged before the import', async () => {
+    await addCopy(library, 'LIB-0001', ISBN_A);
+
+    const report = await importCsv([
+      `${ISBN_A},New title,New author,LIB-0002`,
+      `${ISBN_B},Another title,Another author,LIB-0003`,
+    ]);
+
+    expect(report).toMatchObject({ registered: 1, skipped: 1, titlesCataloged: 1 });
+    expect(await barcodesOnFile()).toEqual(['LIB-0001', 'LIB-0003']);
+  });
+
+  it('updates the catalog data of existing ISBNs, adding only their new copies', async () => {
+    await addCopy(library, 'LIB-0001', ISBN_A);
+
+    const report = await importCsv(
+      [`${ISBN_A},New title,New author,LIB-0001`, `${ISBN_A},New title,New author,LIB-0002`],
+      { duplicates: 'update' }
+    );
+
+    expect(report).toMatchObject({ registered: 1, skipped: 1, titlesUpdated: 1, failed: 0 });
+    expect(await library.repositories.titleRepository.findByISBN(new ISBN(ISBN_A))).toMatchObject(
+      { title: 'New title', author: 'New author' }
+    );
+    expect(await barcodesOnFile()).toEqual(['LIB-0001', 'LIB-0002']);
+  });
+
+  it('reports what a dry run would do without writing', async () => {
+    const report = await importCsv(
+      [`${ISBN_A},A title,An author,LIB-0001`, `${ISBN_A},,,LIB-0001`],
+      { dryRun: true }
+    );
+
+    expect(report).toMatchObject({ dryRun: true, registered: 1, titlesCataloged: 1, failed: 1 });
+    expect(await barcodesOnFile()).toEqual([]);
+    expect(await library.repositories.titleRepository.findAll()).toEqual([]);
+  });
+
+  it(`lists the first ${MAX_REPORTED_ERRORS} failed records and counts the rest`, async () => {
+    const rows = Array.from({ length: MAX_REPORTED_ERRORS + 5 }, (_, index) => `,,,LIB-${index}`);
+
+    const report = await importCsv(rows);
+
+    expect(report.failed).toBe(MAX_REPORTED_ERRORS + 5);
+    expect(report.errors).toHaveLength(MAX_REPORTED_ERRORS);
+    expect(report.errors.at(-1)?.position).toBe(MAX_REPORTED_ERRORS + 1);
+    expect(report.errorsOmitted).toBe(5);
+  });
+
+  it('returns VALIDATION_FAILED for an invalid batch size', async () => {
+    const result = await bulkImport.execute({ format: 'csv', content: csv(), batchSize: 0 });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryLibrary, createInMemoryLibrary } from '../../support/inMemoryLibrary';
+import { CreateUserUseCase } from '../../../src/application/useCases/CreateUserUseCase';
+import { MemberCategory } from '../../../src/domain/entities/User';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('CreateUserUseCase', () => {
+  let library: InMemoryLibrary;
+  let createUser: CreateUserUseCase;
+
+  beforeEach(() => {
+    library = createInMemoryLibrary();
+    const { repositories, clock, events, policies } = library;
+    createUser = new CreateUserUseCase(repositories.userRepository, clock, events, policies);
+  });
+
+  it('creates an active member with no fees', async () => {
+    const result = await createUser.execute({
+      name: ' Reader ',
+      email: 'Reader@Example.com',
+      category: MemberCategory.STUDENT,
+    });
+
+    expect(result.ok && result.value).toMatchObject({
+      name: 'Reader',
+      email: 'reader@example.com',
+      status: 'ACTIVE',
+      category: 'STUDENT',
+      currentBorrowCount: 0,
+      overdueFees: { minorUnits: 0, currency: 'JPY', formatted: '¥0' },
+    });
+  });
+
+  it('returns DUPLICATE_EMAIL with the existing user', async () => {
+    const first = await createUser.execute({ name: 'Reader', email: 'reader@example.com' });
+
+    const result = await createUser.execute({ name: 'Other', email: 'reader@example.com' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.DUPLICATE_EMAIL);
+    expect(!result.ok && result.error.details).toEqual({
+      email: 'reader@example.com',
+      existingUserId: first.ok && first.value.userId,
+    });
+  });
+
+  it('returns VALIDATION_FAILED for a blank name or an invalid email', async () => {
+    const blank = await createUser.execute({ name: ' ', email: 'reader@example.com' });
+    const invalid = await createUser.execute({ name: 'Reader', email: 'reader' });
+
+    expect(!blank.ok && blank.error.details).toEqual({ field: 'name' });
+    expect(!invalid.ok && invalid.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    expect(await library.repositories.userRepository.findAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { RenewLoanUseCase } from '../../../src/application/useCases/RenewLoanUseCase';
+import { PlaceHoldUseCase } from '../../../src/application/useCases/PlaceHoldUseCase';
+import { CancelHoldUseCase } from '../../../src/application/useCases/CancelHoldUseCase';
+import { ExpireHoldsUseCase } from '../../../src/application/useCases/ExpireHoldsUseCase';
+import { DomainEventType } from '../../../src/domain/events/DomainEvent';
+import { LibraryEvent } from '../../../src/domain/events/LibraryEvent';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+
+describe('domain events of the lending use cases', () => {
+  let library: InMemoryLibrary;
+  let borrowBook: BorrowBookUseCase;
+  let returnBook: ReturnBookUseCase;
+  let renewLoan: RenewLoanUseCase;
+  let placeHold: PlaceHoldUseCase;
+  let cancelHold: CancelHoldUseCase;
+  let expireHolds: ExpireHoldsUseCase;
+  let reader: UserId;
+  let waiting: UserId;
+  let bookId: string;
+  let dispatched: LibraryEvent[];
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    returnBook = new ReturnBookUseCase(unitOfWork, clock, policies, events);
+    renewLoan = new RenewLoanUseCase(unitOfWork, clock, policies, events);
+    placeHold = new PlaceHoldUseCase(unitOfWork, clock, events);
+    cancelHold = new CancelHoldUseCase(unitOfWork, clock, events);
+    expireHolds = new ExpireHoldsUseCase(unitOfWork, clock, events);
+    reader = await addMember(library, 'reader@example.com');
+    waiting = await addMember(library, 'waiting@example.com');
+    bookId = await addCopy(library, 'LIB-0001');
+
+    dispatched = [];
+    for (const type of Object.values(DomainEventType)) {
+      events.subscribe(type, (event) => {
+        dispatched.push(event);
+      });
+    }
+  });
+
+  /** Types of the events dispatched since the last call */
+  function takeTypes(): string[] {
+    const types = dispatched.map((event) => event.type);
+    dispatched = [];
+    return types;
+  }
+
+  it('dispatches BookBorrowed once the borrow is saved', async () => {
+    let statusSeen: BookStatus | undefined;
+    library.events.subscribe(DomainEventType.BOOK_BORROWED, async (event) => {
+      statusSeen = (await library.repositories.bookRepository.findById(event.bookId))?.status;
+    });
+
+    await borrowBook.execute({ userId: reader, bookId });
+
+    expect(takeTypes()).toEqual([DomainEventType.BOOK_BORROWED]);
+    expect(statusSeen).toBe(BookStatus.BORROWED);
+  });
+
+  it('dispatches nothing when the use case fails', async () => {
+    await borrowBook.execute({ userId: reader, bookId });
+    takeTypes();
+
+    const result = await borrowBook.execute({ userId: waiting, bookId });
+
+    expect(result.ok).toBe(false);
+    expect(takeTypes()).toEqual([]);
+  });
+
+  it('dispatches BookRenewed on renewal', async () => {
+    await borrowBook.execute({ userId: reader, bookId });
+    takeTypes();
+
+    await renewLoan.execute({ userId: reader, bookId });
+
+    expect(takeTypes()).toEqual([DomainEventType.BOOK_RENEWED]);
+  });
+
+  it('dispatches BookReserved for a hold on a book on the shelf', async () => {
+    await placeHold.execute({ userId: waiting, bookId });
+
+    expect(takeTypes()).toEqual([DomainEventType.BOOK_RESERVED]);
+  });
+
+  it('dispatches BookReserved when a returned book goes to the next holder', async () => {
+    await borrowBook.execute({ userId: reader, bookId });
+    await placeHold.execute({ userId: waiting, bookId });
+    takeTypes();
+
+    await returnBook.execute({ userId: reader, bookId });
+
+    expect(takeTypes()).toEqual([DomainEventType.BOOK_RETURNED, DomainEventType.BOOK_RESERVED]);
+  });
+
+  it('dispatches the cancellation and the hand-off of a cancelled reservation', async () => {
+    const next = await addMember(library, 'next@example.com');
+    const placed = await placeHold.execute({ userId: waiting, bookId });
+    const holdId = placed.ok ? placed.value.hold.holdId : '';
+    await placeHold.execute({ userId: next, bookId });
+    takeTypes();
+
+    await cancelHold.execute({ userId: waiting, holdId });
+
+    expect(takeTypes()).toEqual([
+      DomainEventType.BOOK_RESERVATION_CANCELLED,
+      DomainEventType.BOOK_RESERVED,
+    ]);
+    const book = await library.repositories.bookRepository.findById(bookId);
+    expect(book?.reservedFor?.equals(next)).toBe(true);
+  });
+
+  it('dispatches BookReservationCancelled when a pickup expires', async () => {
+    await placeHold.execute({ userId: waiting, bookId });
+    takeTypes();
+    library.clock.advanceDays(8);
+
+    await expireHolds.execute();
+
+    const [event] = dispatched;
+    expect(takeTypes()).toEqual([DomainEventType.BOOK_RESERVATION_CANCELLED]);
+    expect(event).toMatchObject({ bookId, userId: waiting.getValue() });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import { ExportBooksUseCase } from '../../../src/application/useCases/ExportBooksUseCase';
+import { EXPORT_PAGE_SIZE, ExportOutput } from '../../../src/application/useCases/exportOutput';
+import { CsvExportWriter } from '../../../src/infrastructure/export/CsvExportWriter';
+import { JsonLinesExportWriter } from '../../../src/infrastructure/export/JsonLinesExportWriter';
+import { MarcXmlExportWriter } from '../../../src/infrastructure/export/MarcXmlExportWriter';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { Result } from '../../../src/domain/errors/Result';
+
+/** Rows of a JSON Lines export */
+async function jsonRows(result: Result<ExportOutput>): Promise<Array<Record<string, unknown>>> {
+  if (!result.ok) {
+    throw result.error;
+  }
+  const rows: Array<Record<string, unknown>> = [];
+  for await (const line of result.value.content) {
+    rows.push(JSON.parse(line) as Record<string, unknown>);
+  }
+  return rows;
+}
+
+describe('ExportBooksUseCase', () => {
+  let library: InMemoryLibrary;
+  let exportBooks: ExportBooksUseCase;
+
+  beforeEach(() => {
+    library = createInMemoryLibrary();
+    const { titleRepository, bookRepository } = library.repositories;
+    exportBooks = new ExportBooksUseCase(titleRepository, bookRepository, {
+      csv: new CsvExportWriter(),
+      jsonl: new JsonLinesExportWriter(),
+      marcxml: new MarcXmlExportWriter(),
+    });
+  });
+
+  it('exports every copy with its title, in registration order', async () => {
+    await addCopy(library, 'LIB-0002', ISBN_B);
+    library.clock.advance(1000);
+    await addCopy(library, 'LIB-0001', ISBN_A);
+
+    const rows = await jsonRows(await exportBooks.execute({ format: 'jsonl' }));
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        isbn: ISBN_B,
+        barcode: 'LIB-0002',
+        title: `Title ${ISBN_B}`,
+        author: 'Author',
+        status: BookStatus.AVAILABLE,
+        borrowedBy: null,
+        renewalCount: 0,
+        createdAt: '2024-01-01T00:00:00.000Z',
+      }),
+      expect.objectContaining({ barcode: 'LIB-0001', createdAt: '2024-01-01T00:00:01.000Z' }),
+    ]);
+  });
+
+  it('exports the selected fields of the copies with a status', async () => {
+    const { bookRepository } = library.repositories;
+    const bookId = await addCopy(library, 'LIB-0001');
+    await addCopy(library, 'LIB-0002');
+    const userId = await addMember(library, 'reader@example.com');
+    const book = await bookRepository.findById(bookId);
+    await bookRepository.save(book!.borrow(userId, 14, library.clock));
+
+    const result = await exportBooks.execute({
+      format: 'jsonl',
+      fields: ['barcode', 'borrowedBy'],
+      status: BookStatus.BORROWED,
+    });
+
+    expect(result.ok && result.value.fields).toEqual(['barcode', 'borrowedBy']);
+    expect(await jsonRows(result)).toEqual([
+      { barcode: 'LIB-0001', borrowedBy: userId.getValue() },
+    ]);
+  });
+
+  it('reads the catalog a page at a time', async () => {
+    for (let index = 0; index <= EXPORT_PAGE_SIZE; index++) {
+      await addCopy(library, `LIB-${String(index).padStart(4, '0')}`);
+    }
+    const findPage = vi.spyOn(library.repositories.bookRepository, 'findPage');
+
+    const rows = await jsonRows(await exportBooks.execute({ format: 'jsonl', fields: ['id'] }));
+
+    expect(rows).toHaveLength(EXPORT_PAGE_SIZE + 1);
+    expect(new Set(rows.map((row) => row['id'])).size).toBe(EXPORT_PAGE_SIZE + 1);
+    expect(findPage).toHaveBeenCalledTimes(2);
+    expect(findPage.mock.calls.some(([query]) => query.page.withTotal)).toBe(false);
+  });
+
+  it('returns VALIDATION_FAILED for an empty selection or an unknown field', async () => {
+    const empty = await exportBooks.execute({ format: 'csv', fields: [] });
+    const unknown = await exportBooks.execute({ format: 'csv', fields: ['barcode', 'shelf'] });
+
+    expect(!empty.ok && empty.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    expect(!unknown.ok && unknown.error.message).toMatch(/^Unknown field: shelf \(fields: id,/);
+  });
+});
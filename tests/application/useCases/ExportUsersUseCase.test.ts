@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryLibrary, createInMemoryLibrary, addMember } from '../../support/inMemoryLibrary';
+import { ExportUsersUseCase } from '../../../src/application/useCases/ExportUsersUseCase';
+import { CsvExportWriter } from '../../../src/infrastructure/export/CsvExportWriter';
+import { JsonLinesExportWriter } from '../../../src/infrastructure/export/JsonLinesExportWriter';
+import { MarcXmlExportWriter } from '../../../src/infrastructure/export/MarcXmlExportWriter';
+import { MemberCategory, UserStatus } from '../../../src/domain/entities/User';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('ExportUsersUseCase', () => {
+  let library: InMemoryLibrary;
+  let exportUsers: ExportUsersUseCase;
+
+  beforeEach(() => {
+    library = createInMemoryLibrary();
+    exportUsers = new ExportUsersUseCase(library.repositories.userRepository, {
+      csv: new CsvExportWriter(),
+      jsonl: new JsonLinesExportWriter(),
+      marcxml: new MarcXmlExportWriter(),
+    });
+  });
+
+  /** Content of a CSV export */
+  async function csv(input: Parameters<ExportUsersUseCase['execute']>[0]): Promise<string> {
+    const result = await exportUsers.execute(input);
+    if (!result.ok) {
+      throw result.error;
+    }
+    let content = '';
+    for await (const chunk of result.value.content) {
+      content += chunk;
+    }
+    return content;
+  }
+
+  it('exports every member, fees in minor units of their currency', async () => {
+    const userId = await addMember(library, 'ann@example.com', MemberCategory.STUDENT);
+
+    const content = await csv({ format: 'csv' });
+
+    expect(content).toBe(
+      'id,name,email,status,category,currentBorrowCount,overdueFees,feeCurrency,createdAt\r\n' +
+        `${userId.getValue()},Member,ann@example.com,ACTIVE,STUDENT,0,0,` +
+        `${library.policies.currency},2024-01-01T00:00:00.000Z\r\n`
+    );
+  });
+
+  it('exports the selected fields of the members with a status and category', async () => {
+    const { userRepository } = library.repositories;
+    await addMember(library, 'adult@example.com', MemberCategory.ADULT);
+    await addMember(library, 'student@example.com', MemberCategory.STUDENT);
+    const suspendedId = await addMember(library, 'late@example.com', MemberCategory.STUDENT);
+    const suspended = await userRepository.findById(suspendedId);
+    await userRepository.save(suspended!.suspend(library.clock));
+
+    const content = await csv({
+      format: 'csv',
+      fields: ['email'],
+      status: UserStatus.ACTIVE,
+      category: MemberCategory.STUDENT,
+    });
+
+    expect(content).toBe('email\r\nstudent@example.com\r\n');
+  });
+
+  it('returns VALIDATION_FAILED for MARCXML, which describes books only', async () => {
+    const result = await exportUsers.execute({ format: 'marcxml' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    expect(!result.ok && result.error.message).toBe('format must be one of: csv, jsonl');
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+  START,
+} from '../../support/inMemoryLibrary';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { PayFeeUseCase } from '../../../src/application/useCases/PayFeeUseCase';
+import { WaiveFeeUseCase } from '../../../src/application/useCases/WaiveFeeUseCase';
+import { GetFeeLedgerUseCase } from '../../../src/application/useCases/GetFeeLedgerUseCase';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { User, UserStatus, MemberCategory } from '../../../src/domain/entities/User';
+
+describe('fee ledger use cases', () => {
+  let library: InMemoryLibrary;
+  let payFee: PayFeeUseCase;
+  let waiveFee: WaiveFeeUseCase;
+  let getFeeLedger: GetFeeLedgerUseCase;
+  let userId: UserId;
+
+  // The member returns a copy 20 days late and owes 2000
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events, repositories } = library;
+    payFee = new PayFeeUseCase(unitOfWork, clock);
+    waiveFee = new WaiveFeeUseCase(unitOfWork, clock);
+    getFeeLedger = new GetFeeLedgerUseCase(
+      repositories.userRepository,
+      repositories.feeLedgerRepository
+    );
+
+    userId = await addMember(library, 'reader@example.com');
+    const bookId = await addCopy(library, 'LIB-0001');
+    await new BorrowBookUseCase(unitOfWork, clock, policies, events).execute({ userId, bookId });
+    clock.advanceDays(14 + 20);
+    await new ReturnBookUseCase(unitOfWork, clock, policies, events).execute({ userId, bookId });
+  });
+
+  it('records a partial payment and lowers the balance', async () => {
+    const result = await payFee.execute({ userId, amount: Money.of(500), actor: 'desk' });
+
+    expect(result.ok && result.value.balance.minorUnits).toBe(1500);
+    const user = await library.repositories.userRepository.findById(userId);
+    expect(user?.overdueFees.equals(Money.of(1500))).toBe(true);
+  });
+
+  it('rejects an overpayment', async () => {
+    const result = await payFee.execute({ userId, amount: Money.of(2001), actor: 'desk' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.AMOUNT_EXCEEDS_BALANCE);
+    const user = await library.repositories.userRepository.findById(userId);
+    expect(user?.overdueFees.equals(Money.of(2000))).toBe(true);
+  });
+
+  it('waives the whole balance when no amount is given', async () => {
+    await payFee.execute({ userId, amount: Money.of(500), actor: 'desk' });
+
+    const result = await waiveFee.execute({ userId, actor: 'manager', reason: 'Hospital stay' });
+
+    expect(result.ok && result.value.balance.minorUnits).toBe(0);
+  });
+
+  it('rejects a waiver larger than the balance', async () => {
+    const result = await waiveFee.execute({
+      userId,
+      amount: Money.of(3000),
+      actor: 'manager',
+      reason: 'Goodwill',
+    });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.AMOUNT_EXCEEDS_BALANCE);
+  });
+
+  it('leaves the ledger of a balance carried over unchanged when pay or waive fails', async () => {
+    const { userRepository, feeLedgerRepository } = library.repositories;
+    const legacyId = UserId.create('00000042');
+    await userRepository.save(
+      User.reconstruct(
+        legacyId,
+        'Legacy',
+        'legacy@example.com',
+        UserStatus.ACTIVE,
+        MemberCategory.ADULT,
+        0,
+        Money.of(700),
+        START,
+        0
+      )
+    );
+
+    const paid = await payFee.execute({ userId: legacyId, amount: Money.of(800), actor: 'desk' });
+    const waived = await waiveFee.execute({
+      userId: legacyId,
+      amount: Money.of(800),
+      actor: 'manager',
+      reason: 'Goodwill',
+    });
+
+    expect(!paid.ok && paid.error.code).toBe(DomainErrorCode.AMOUNT_EXCEEDS_BALANCE);
+    expect(!waived.ok && waived.error.code).toBe(DomainErrorCode.AMOUNT_EXCEEDS_BALANCE);
+    expect((await feeLedgerRepository.findByUser(legacyId)).entries).toEqual([]);
+  });
+
+  it('lists the entries oldest first with a running balance', async () => {
+    await payFee.execute({ userId, amount: Money.of(500), actor: 'desk' });
+    await waiveFee.execute({ userId, amount: Money.of(300), actor: 'manager', reason: 'Goodwill' });
+
+    const result = await getFeeLedger.execute({ userId });
+
+    expect(result.ok && result.value.balance.minorUnits).toBe(1200);
+    const rows = result.ok
+      ? result.value.entries.map((e) => [e.type, e.amount.minorUnits, e.balanceAfter.minorUnits])
+      : [];
+    expect(rows).toEqual([
+      ['CHARGE', 2000, 2000],
+      ['PAYMENT', -500, 1500],
+      ['WAIVER', -300, 1200],
+    ]);
+  });
+
+  it('returns NOT_FOUND for an unknown user', async () => {
+    const result = await payFee.execute({
+      userId: UserId.create('99999999'),
+      amount: Money.of(100),
+      actor: 'desk',
+    });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.NOT_FOUND);
+  });
+});
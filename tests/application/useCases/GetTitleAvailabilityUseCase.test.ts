@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import { GetTitleAvailabilityUseCase } from '../../../src/application/useCases/GetTitleAvailabilityUseCase';
+import { BorrowBookUseCase } from '../../../src/application/useCases/BorrowBookUseCase';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('GetTitleAvailabilityUseCase', () => {
+  let library: InMemoryLibrary;
+  let getAvailability: GetTitleAvailabilityUseCase;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { titleRepository, bookRepository } = library.repositories;
+    getAvailability = new GetTitleAvailabilityUseCase(titleRepository, bookRepository);
+
+    const { unitOfWork, clock, policies, events } = library;
+    const borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    const borrowed = await addCopy(library, 'LIB-0001', ISBN_A);
+    await addCopy(library, 'LIB-0002', ISBN_A);
+    await addCopy(library, 'LIB-0003', ISBN_A);
+    await addCopy(library, 'LIB-0004', ISBN_B);
+    const userId = await addMember(library, 'reader@example.com');
+    await borrowBook.execute({ userId, bookId: borrowed });
+  });
+
+  it('counts the copies of a title on the shelf', async () => {
+    const result = await getAvailability.execute({ isbn: '978-0-306-40615-7' });
+
+    expect(result.ok && result.value).toEqual([
+      {
+        isbn: ISBN_A,
+        title: `Title ${ISBN_A}`,
+        author: 'Author',
+        totalCopies: 3,
+        availableCopies: 2,
+        summary: '2 of 3 available',
+      },
+    ]);
+  });
+
+  it('reports every title of the catalog', async () => {
+    const result = await getAvailability.execute();
+
+    const summaries = result.ok ? result.value.map((title) => [title.isbn, title.summary]) : [];
+    expect(summaries).toHaveLength(2);
+    expect(summaries).toEqual(
+      expect.arrayContaining([
+        [ISBN_A, '2 of 3 available'],
+        [ISBN_B, '1 of 1 available'],
+      ])
+    );
+  });
+
+  it('returns NOT_FOUND for an ISBN that is not cataloged', async () => {
+    const result = await getAvailability.execute({ isbn: '9780131103627' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.NOT_FOUND);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { PlaceHoldUseCase } from '../../../src/application/useCases/PlaceHoldUseCase';
+import { CancelHoldUseCase } from '../../../src/application/useCases/CancelHoldUseCase';
+import { ExpireHoldsUseCase } from '../../../src/application/useCases/ExpireHoldsUseCase';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { HoldStatus } from '../../../src/domain/entities/Hold';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+
+describe('Hold queue', () => {
+  let library: InMemoryLibrary;
+  let borrowBook: BorrowBookUseCase;
+  let returnBook: ReturnBookUseCase;
+  let placeHold: PlaceHoldUseCase;
+  let cancelHold: CancelHoldUseCase;
+  let expireHolds: ExpireHoldsUseCase;
+  let borrower: UserId;
+  let first: UserId;
+  let second: UserId;
+  let bookId: string;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    returnBook = new ReturnBookUseCase(unitOfWork, clock, policies, events);
+    placeHold = new PlaceHoldUseCase(unitOfWork, clock, events);
+    cancelHold = new CancelHoldUseCase(unitOfWork, clock, events);
+    expireHolds = new ExpireHoldsUseCase(unitOfWork, clock, events);
+    borrower = await addMember(library, 'borrower@example.com');
+    first = await addMember(library, 'first@example.com');
+    second = await addMember(library, 'second@example.com');
+    bookId = await addCopy(library, 'LIB-0001');
+  });
+
+  /** Lend the book, queue first then second, and return it */
+  async function queueAndReturn(): Promise<string[]> {
+    await borrowBook.execute({ userId: borrower, bookId });
+    const holds = [
+      await placeHold.execute({ userId: first, bookId }),
+      await placeHold.execute({ userId: second, bookId }),
+    ];
+    library.clock.advanceDays(1);
+    await returnBook.execute({ userId: borrower, bookId });
+    return holds.map((hold) => (hold.ok ? hold.value.hold.holdId : ''));
+  }
+
+  async function book() {
+    return (await library.repositories.bookRepository.findById(bookId))!;
+  }
+
+  it('reserves an available book for the patron right away', async () => {
+    const result = await placeHold.execute({ userId: first, bookId });
+
+    expect(result.ok && result.value.hold).toMatchObject({
+      status: HoldStatus.READY,
+      position: 1,
+    });
+    expect((await book()).status).toBe(BookStatus.RESERVED);
+    expect((await book()).reservedFor?.equals(first)).toBe(true);
+  });
+
+  it('queues holds on a lent book in FIFO order', async () => {
+    await borrowBook.execute({ userId: borrower, bookId });
+
+    const holds = [
+      await placeHold.execute({ userId: first, bookId }),
+      await placeHold.execute({ userId: second, bookId }),
+    ];
+
+    expect(holds.map((hold) => hold.ok && hold.value.hold.position)).toEqual([1, 2]);
+    expect(holds.map((hold) => hold.ok && hold.value.hold.status)).toEqual([
+      HoldStatus.WAITING,
+      HoldStatus.WAITING,
+    ]);
+  });
+
+  it('reserves a returned book for the head of the queue', async () => {
+    await queueAndReturn();
+
+    expect((await book()).status).toBe(BookStatus.RESERVED);
+    expect((await book()).reservedFor?.equals(first)).toBe(true);
+    const [head] = await library.repositories.holdRepository.findActiveByBook(bookId);
+    expect(head?.status).toBe(HoldStatus.READY);
+    expect(head?.expiresAt?.toISOString()).toBe('2024-01-09T00:00:00.000Z');
+  });
+
+  it('lets only the holder borrow a reserved book', async () => {
+    await queueAndReturn();
+
+    const other = await borrowBook.execute({ userId: second, bookId });
+    expect(!other.ok && other.error.code).toBe(DomainErrorCode.BOOK_RESERVED);
+
+    const holder = await borrowBook.execute({ userId: first, bookId });
+    expect(holder.ok).toBe(true);
+    const active = await library.repositories.holdRepository.findActiveByBook(bookId);
+    expect(active.map((hold) => hold.userId.getValue())).toEqual([second.getValue()]);
+  });
+
+  it('passes the book to the next patron when a ready hold is cancelled', async () => {
+    const [firstHold] = await queueAndReturn();
+
+    const result = await cancelHold.execute({ userId: first, holdId: firstHold! });
+
+    expect(result.ok && result.value.book?.reservedFor).toBe(second.getValue());
+  });
+
+  it('does not let a patron cancel another patron\'s hold', async () => {
+    const [firstHold] = await queueAndReturn();
+
+    const result = await cancelHold.execute({ userId: second, holdId: firstHold! });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.HOLD_NOT_OWNED);
+  });
+
+  it('expires a hold not picked up in time and passes the book on', async () => {
+    const [firstHold] = await queueAndReturn();
+
+    library.clock.advanceDays(6);
+    const early = await expireHolds.execute();
+    expect(early.ok && early.value.expired).toEqual([]);
+
+    library.clock.advanceDays(2);
+    const result = await expireHolds.execute();
+
+    expect(result.ok && result.value.expired).toEqual([
+      {
+        holdId: firstHold,
+        bookId,
+        userId: first.getValue(),
+        nextHolder: second.getValue(),
+      },
+    ]);
+    expect((await book()).reservedFor?.equals(second)).toBe(true);
+  });
+
+  it('puts the book back on the shelf when the last hold expires', async () => {
+    await placeHold.execute({ userId: first, bookId });
+    library.clock.advanceDays(8);
+
+    await expireHolds.execute();
+
+    expect((await book()).status).toBe(BookStatus.AVAILABLE);
+  });
+
+  it('refuses a second hold by the same patron and a hold on one\'s own loan', async () => {
+    await borrowBook.execute({ userId: borrower, bookId });
+    await placeHold.execute({ userId: first, bookId });
+
+    const duplicate = await placeHold.execute({ userId: first, bookId });
+    const own = await placeHold.execute({ userId: borrower, bookId });
+
+    expect(!duplicate.ok && duplicate.error.code).toBe(DomainErrorCode.DUPLICATE_HOLD);
+    expect(!own.ok && own.error.code).toBe(DomainErrorCode.ALREADY_BORROWED);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import { ListBooksUseCase } from '../../../src/application/useCases/ListBooksUseCase';
+import { BorrowBookUseCase } from '../../../src/application/useCases/BorrowBookUseCase';
+import { Title } from '../../../src/domain/entities/Title';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('ListBooksUseCase', () => {
+  let library: InMemoryLibrary;
+  let listBooks: ListBooksUseCase;
+  let reader: UserId;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { repositories, unitOfWork, clock, policies, events } = library;
+    listBooks = new ListBooksUseCase(repositories.titleRepository, repositories.bookRepository);
+
+    await repositories.titleRepository.save(
+      Title.create(ISBN_B, 'Refactoring Notes', 'M. Fowler', clock)
+    );
+    const bookIds: string[] = [];
+    for (const [barcode, isbn] of [
+      ['LIB-0003', ISBN_A],
+      ['LIB-0001', ISBN_B],
+      ['LIB-0004', ISBN_A],
+      ['LIB-0002', ISBN_B],
+    ] as const) {
+      clock.advance(60_000);
+      bookIds.push(await addCopy(library, barcode, isbn));
+    }
+
+    reader = await addMember(library, 'reader@example.com');
+    const borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    await borrowBook.execute({ userId: reader, bookId: bookIds[0]! });
+  });
+
+  /** Barcodes of a successful result */
+  function barcodes(result: Awaited<ReturnType<ListBooksUseCase['execute']>>): string[] {
+    return result.ok ? result.value.items.map((item) => item.barcode) : [];
+  }
+
+  it('lists the newest copies first by default, with page metadata', async () => {
+    const result = await listBooks.execute({ limit: 3 });
+
+    expect(barcodes(result)).toEqual(['LIB-0002', 'LIB-0004', 'LIB-0001']);
+    expect(result.ok && result.value).toMatchObject({
+      totalCount: 4,
+      limit: 3,
+      offset: 0,
+      hasNextPage: true,
+    });
+  });
+
+  it('filters by status, author, title and borrower', async () => {
+    const borrowed = await listBooks.execute({ status: BookStatus.BORROWED });
+    const byAuthor = await listBooks.execute({
+      author: 'fowler',
+      sortBy: 'barcode',
+      sortDirection: 'asc',
+    });
+    const byTitle = await listBooks.execute({ title: 'REFACTORING', status: BookStatus.AVAILABLE });
+    const byBorrower = await listBooks.execute({ borrowedBy: reader });
+
+    expect(barcodes(borrowed)).toEqual(['LIB-0003']);
+    expect(barcodes(byAuthor)).toEqual(['LIB-0001', 'LIB-0002']);
+    expect(byAuthor.ok && byAuthor.value.items[0]?.title).toBe('Refactoring Notes');
+    expect(barcodes(byTitle)).toEqual(['LIB-0002', 'LIB-0001']);
+    expect(barcodes(byBorrower)).toEqual(barcodes(borrowed));
+  });
+
+  it('pages through the copies by cursor', async () => {
+    const first = await listBooks.execute({ limit: 3, sortBy: 'barcode', sortDirection: 'asc' });
+    const cursor = (first.ok && first.value.nextCursor) || '';
+    const second = await listBooks.execute({
+      limit: 3,
+      sortBy: 'barcode',
+      sortDirection: 'asc',
+      cursor,
+    });
+
+    expect(barcodes(first)).toEqual(['LIB-0001', 'LIB-0002', 'LIB-0003']);
+    expect(barcodes(second)).toEqual(['LIB-0004']);
+    expect(first.ok && first.value.totalCount).toBe(4);
+    expect(second.ok && second.value).toMatchObject({
+      totalCount: null,
+      offset: null,
+      hasNextPage: false,
+    });
+  });
+
+  it('rejects an invalid page request', async () => {
+    const tooLarge = await listBooks.execute({ limit: 201 });
+    const both = await listBooks.execute({ offset: 0, cursor: 'abc' });
+    const malformed = await listBooks.execute({ cursor: 'abc' });
+
+    for (const result of [tooLarge, both, malformed]) {
+      expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    }
+    expect(!tooLarge.ok && tooLarge.error.details).toEqual({ field: 'limit' });
+  });
+});
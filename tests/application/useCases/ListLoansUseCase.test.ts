@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { ListLoansUseCase } from '../../../src/application/useCases/ListLoansUseCase';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+
+describe('Loan history', () => {
+  let library: InMemoryLibrary;
+  let listLoans: ListLoansUseCase;
+  let reader: UserId;
+  let other: UserId;
+  let first: string;
+  let second: string;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    const borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    const returnBook = new ReturnBookUseCase(unitOfWork, clock, policies, events);
+    listLoans = new ListLoansUseCase(library.repositories.loanRepository);
+    reader = await addMember(library, 'reader@example.com');
+    other = await addMember(library, 'other@example.com');
+    first = await addCopy(library, 'LIB-0001');
+    second = await addCopy(library, 'LIB-0002');
+
+    // reader borrows and returns the first copy, then other borrows it;
+    // reader borrows the second copy
+    await borrowBook.execute({ userId: reader, bookId: first });
+    clock.advanceDays(10);
+    await returnBook.execute({ userId: reader, bookId: first });
+    clock.advanceDays(1);
+    await borrowBook.execute({ userId: other, bookId: first });
+    clock.advanceDays(1);
+    await borrowBook.execute({ userId: reader, bookId: second });
+  });
+
+  it('keeps a returned loan with its return date', async () => {
+    const result = await listLoans.execute({ bookId: first });
+
+    const loans = result.ok ? result.value : [];
+    expect(loans.map((loan) => loan.userId)).toEqual([other.getValue(), reader.getValue()]);
+    expect(loans[1]?.returnedAt?.toISOString()).toBe('2024-01-11T00:00:00.000Z');
+    expect(loans[1]?.feeCharged.minorUnits).toBe(0);
+  });
+
+  it('lists the loans of a user, open and closed, most recent first', async () => {
+    const result = await listLoans.execute({ userId: reader });
+
+    const loans = result.ok ? result.value : [];
+    expect(loans.map((loan) => [loan.bookId, loan.returnedAt === null])).toEqual([
+      [second, true],
+      [first, false],
+    ]);
+  });
+
+  it('lists the currently open loans by due date', async () => {
+    const result = await listLoans.execute();
+
+    expect(result.ok && result.value.map((loan) => loan.bookId)).toEqual([first, second]);
+  });
+
+  it('filters the loans of a user to one book or to open loans', async () => {
+    const ofBook = await listLoans.execute({ userId: reader, bookId: first });
+    const open = await listLoans.execute({ userId: reader, openOnly: true });
+
+    expect(ofBook.ok && ofBook.value.map((loan) => loan.bookId)).toEqual([first]);
+    expect(open.ok && open.value.map((loan) => loan.bookId)).toEqual([second]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryLibrary, createInMemoryLibrary } from '../../support/inMemoryLibrary';
+import { ListUsersUseCase } from '../../../src/application/useCases/ListUsersUseCase';
+import { User, MemberCategory } from '../../../src/domain/entities/User';
+import { Money } from '../../../src/domain/valueObjects/Money';
+
+describe('ListUsersUseCase', () => {
+  let library: InMemoryLibrary;
+  let listUsers: ListUsersUseCase;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { repositories, clock, policies } = library;
+    listUsers = new ListUsersUseCase(repositories.userRepository);
+
+    const members: [string, MemberCategory, number][] = [
+      ['Chiaki', MemberCategory.ADULT, 0],
+      ['Aoi', MemberCategory.STUDENT, 300],
+      ['Daichi', MemberCategory.STUDENT, 0],
+      ['Bunta', MemberCategory.ADULT, 1200],
+    ];
+    for (const [name, category, fees] of members) {
+      clock.advance(60_000);
+      const created = User.create(name, `${name.toLowerCase()}@example.com`, clock, category);
+      const user = User.reconstruct(
+        created.id,
+        created.name,
+        created.email,
+        created.status,
+        category,
+        0,
+        Money.of(fees, policies.currency),
+        created.createdAt,
+        0
+      );
+      await repositories.userRepository.save(user);
+    }
+  });
+
+  /** Names of a successful result */
+  function names(result: Awaited<ReturnType<ListUsersUseCase['execute']>>): string[] {
+    return result.ok ? result.value.items.map((item) => item.name) : [];
+  }
+
+  it('lists the newest members first by default', async () => {
+    const result = await listUsers.execute();
+
+    expect(names(result)).toEqual(['Bunta', 'Daichi', 'Aoi', 'Chiaki']);
+    expect(result.ok && result.value).toMatchObject({ totalCount: 4, hasNextPage: false });
+  });
+
+  it('filters by category, name and overdue fees', async () => {
+    const students = await listUsers.execute({ category: MemberCategory.STUDENT });
+    const byName = await listUsers.execute({ name: 'CHI' });
+    const owing = await listUsers.execute({ hasOverdueFees: true, sortBy: 'overdueFees' });
+
+    expect(names(students)).toEqual(['Daichi', 'Aoi']);
+    expect(names(byName)).toEqual(['Daichi', 'Chiaki']);
+    expect(names(owing)).toEqual(['Bunta', 'Aoi']);
+  });
+
+  it('pages by offset in name order', async () => {
+    const result = await listUsers.execute({
+      sortBy: 'name',
+      sortDirection: 'asc',
+      limit: 2,
+      offset: 2,
+    });
+
+    expect(names(result)).toEqual(['Chiaki', 'Daichi']);
+    expect(result.ok && result.value).toMatchObject({ offset: 2, hasNextPage: false });
+  });
+});
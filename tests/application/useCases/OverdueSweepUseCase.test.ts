@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import {
+  OverdueSweepOptions,
+  OverdueSweepOutput,
+  OverdueSweepUseCase,
+} from '../../../src/application/useCases/OverdueSweepUseCase';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { UserStatus } from '../../../src/domain/entities/User';
+import { DomainEventType } from '../../../src/domain/events/DomainEvent';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { Money } from '../../../src/domain/valueObjects/Money';
+
+// Adult policy of config/lending-policies.json: 14 days, ¥100 a day, capped at ¥3,000
+const LOAN_DAYS = 14;
+
+describe('OverdueSweepUseCase', () => {
+  let library: InMemoryLibrary;
+  let userId: UserId;
+  let bookId: string;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    userId = await addMember(library, 'reader@example.com');
+    bookId = await addCopy(library, 'LIB-0001');
+    const { unitOfWork, clock, policies, events } = library;
+    await new BorrowBookUseCase(unitOfWork, clock, policies, events).execute({ userId, bookId });
+  });
+
+  async function sweep(options: Partial<OverdueSweepOptions> = {}): Promise<OverdueSweepOutput> {
+    const { unitOfWork, clock, policies, events } = library;
+    const result = await new OverdueSweepUseCase(
+      unitOfWork,
+      clock,
+      policies,
+      events,
+      options
+    ).execute();
+    if (!result.ok) {
+      throw result.error;
+    }
+    return result.value;
+  }
+
+  async function balance(): Promise<number | undefined> {
+    const user = await library.repositories.userRepository.findById(userId);
+    return user?.overdueFees.getMinorUnits();
+  }
+
+  it('charges nothing before the due date', async () => {
+    library.clock.advanceDays(LOAN_DAYS);
+
+    expect(await sweep()).toEqual({ overdueBooks: 0, charges: [], suspensions: [], failed: [] });
+  });
+
+  it('charges the fee accrued so far, once per day late', async () => {
+    const charged: number[] = [];
+    library.events.subscribe(DomainEventType.OVERDUE_FEE_CHARGED, (event) => {
+      charged.push(event.amount);
+    });
+    library.clock.advanceDays(LOAN_DAYS + 3);
+
+    const first = await sweep();
+    const rerun = await sweep();
+    library.clock.advanceDays(1);
+    const nextDay = await sweep();
+
+    expect(first.overdueBooks).toBe(1);
+    expect(first.charges).toEqual([
+      expect.objectContaining({
+        userId: userId.getValue(),
+        bookId,
+        overdueDays: 3,
+        amount: { minorUnits: 300, currency: 'JPY', formatted: '¥300' },
+      }),
+    ]);
+    expect(rerun.charges).toEqual([]);
+    expect(nextDay.charges.map((charge) => charge.amount.minorUnits)).toEqual([100]);
+    expect(charged).toEqual([300, 100]);
+    expect(await balance()).toBe(400);
+  });
+
+  it('charges only the rest of the fee on return', async () => {
+    library.clock.advanceDays(LOAN_DAYS + 3);
+    await sweep();
+    library.clock.advanceDays(2);
+    const { unitOfWork, clock, policies, events } = library;
+
+    const returned = await new ReturnBookUseCase(unitOfWork, clock, policies, events).execute({
+      userId,
+      bookId,
+    });
+
+    // The loan's whole fee is reported, but only ¥200 more is charged
+    expect(returned.ok && returned.value.overdueFee?.minorUnits).toBe(500);
+    expect(await balance()).toBe(500);
+  });
+
+  it('suspends a member holding a book the configured number of days late, once', async () => {
+    library.clock.advanceDays(LOAN_DAYS + 30);
+
+    const first = await sweep();
+    library.clock.advanceDays(1);
+    const second = await sweep();
+
+    expect(first.suspensions).toEqual([
+      {
+        userId: userId.getValue(),
+        reason: '1 book(s) overdue, up to 30 day(s) late',
+        overdueFees: { minorUnits: 3000, currency: 'JPY', formatted: '¥3,000' },
+      },
+    ]);
+    expect(second).toMatchObject({ overdueBooks: 1, charges: [], suspensions: [] });
+    const user = await library.repositories.userRepository.findById(userId);
+    expect(user?.status).toBe(UserStatus.SUSPENDED);
+  });
+
+  it('suspends a member whose balance reaches the fee threshold', async () => {
+    const options = { suspendAfterOverdueDays: null, suspendAtFees: Money.of(500) };
+    library.clock.advanceDays(LOAN_DAYS + 4);
+
+    const below = await sweep(options);
+    library.clock.advanceDays(1);
+    const reached = await sweep(options);
+
+    expect(below.suspensions).toEqual([]);
+    expect(reached.suspensions).toEqual([
+      expect.objectContaining({ reason: 'Outstanding fees ¥500 reached ¥500' }),
+    ]);
+  });
+
+  it('ignores a fee threshold in another currency', async () => {
+    library.clock.advanceDays(LOAN_DAYS + 10);
+
+    const report = await sweep({
+      suspendAfterOverdueDays: null,
+      suspendAtFees: Money.of(1, 'USD'),
+    });
+
+    expect(report.charges).toHaveLength(1);
+    expect(report.suspensions).toEqual([]);
+  });
+});
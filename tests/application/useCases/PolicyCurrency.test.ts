@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { join } from 'node:path';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { InMemoryLibrary, createInMemoryLibrary, addCopy } from '../../support/inMemoryLibrary';
+import { FileLendingPolicyLoader } from '../../../src/infrastructure/config/FileLendingPolicyLoader';
+import { CreateUserUseCase } from '../../../src/application/useCases/CreateUserUseCase';
+import {
+  BorrowBookUseCase,
+  ReturnBookUseCase,
+} from '../../../src/application/useCases/BorrowBookUseCase';
+import { PayFeeUseCase } from '../../../src/application/useCases/PayFeeUseCase';
+import { GetFeeLedgerUseCase } from '../../../src/application/useCases/GetFeeLedgerUseCase';
+import { LendingPolicyCatalog } from '../../../src/domain/policies/LendingPolicyCatalog';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { Money } from '../../../src/domain/valueObjects/Money';
+
+/** The default lending policies, charged in US cents */
+function loadUsdPolicies(): LendingPolicyCatalog {
+  const dir = mkdtempSync(join(tmpdir(), 'lending-policies-'));
+  try {
+    const path = join(dir, 'policies.json');
+    const config = JSON.parse(readFileSync(FileLendingPolicyLoader.DEFAULT_PATH, 'utf8'));
+    writeFileSync(path, JSON.stringify({ ...config, currency: 'USD' }));
+    return new FileLendingPolicyLoader(path).load();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+describe('lending policies in a currency other than the default', () => {
+  let library: InMemoryLibrary;
+  let userId: UserId;
+
+  beforeEach(async () => {
+    library = { ...createInMemoryLibrary(), policies: loadUsdPolicies() };
+    const { repositories, clock, events, policies } = library;
+    const created = await new CreateUserUseCase(
+      repositories.userRepository,
+      clock,
+      events,
+      policies
+    ).execute({ name: 'Reader', email: 'reader@example.com' });
+    userId = UserId.create(created.ok ? created.value.userId : '');
+  });
+
+  it('starts new members at a zero balance in that currency', async () => {
+    const user = await library.repositories.userRepository.findById(userId);
+
+    expect(user?.overdueFees.equals(Money.zero('USD'))).toBe(true);
+
+    const { userRepository, feeLedgerRepository } = library.repositories;
+    const ledger = await new GetFeeLedgerUseCase(userRepository, feeLedgerRepository).execute({
+      userId,
+    });
+    expect(ledger.ok && ledger.value.balance.formatted).toBe('$0.00');
+  });
+
+  it('opens loans, charges overdue fees and takes payments in that currency', async () => {
+    const { unitOfWork, clock, policies, events, repositories } = library;
+    const bookId = await addCopy(library, 'LIB-0001');
+
+    const borrowed = await new BorrowBookUseCase(unitOfWork, clock, policies, events).execute({
+      userId,
+      bookId,
+    });
+    expect(borrowed.ok).toBe(true);
+    const loan = await repositories.loanRepository.findOpenByBook(bookId);
+    expect(loan?.feeCharged.equals(Money.zero('USD'))).toBe(true);
+
+    clock.advanceDays(14 + 3);
+    const returned = await new ReturnBookUseCase(unitOfWork, clock, policies, events).execute({
+      userId,
+      bookId,
+    });
+    expect(returned.ok && returned.value.overdueFee?.formatted).toBe('$3.00');
+
+    const paid = await new PayFeeUseCase(unitOfWork, clock).execute({
+      userId,
+      amount: Money.of(100, 'USD'),
+      actor: 'desk',
+    });
+    expect(paid.ok && paid.value.balance.formatted).toBe('$2.00');
+    expect((await repositories.userRepository.findById(userId))?.overdueFees.format()).toBe(
+      '$2.00'
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import { RegisterBookUseCase } from '../../../src/application/useCases/RegisterBookUseCase';
+import { FileBookMetadataProvider } from '../../../src/infrastructure/metadata/FileBookMetadataProvider';
+import { MetadataUnavailableError } from '../../../src/domain/errors/MetadataErrors';
+import { BookMetadataProvider } from '../../../src/domain/services/BookMetadataProvider';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+
+describe('RegisterBookUseCase', () => {
+  let library: InMemoryLibrary;
+  let registerBook: RegisterBookUseCase;
+
+  beforeEach(() => {
+    library = createInMemoryLibrary();
+    const { titleRepository, bookRepository } = library.repositories;
+    registerBook = new RegisterBookUseCase(
+      titleRepository,
+      bookRepository,
+      library.clock,
+      library.events
+    );
+  });
+
+  it('catalogs the title on the first copy and shares it with further copies', async () => {
+    const first = await registerBook.execute({
+      isbn: ISBN_A,
+      title: 'Domain-Driven Design',
+      author: 'Eric Evans',
+      barcode: 'lib-0001',
+    });
+    const second = await registerBook.execute({ isbn: ISBN_A, barcode: 'LIB-0002' });
+
+    expect(first.ok && first.value.barcode).toBe('LIB-0001');
+    expect(second.ok && second.value.title).toBe('Domain-Driven Design');
+    expect(second.ok && second.value.author).toBe('Eric Evans');
+
+    const { titleRepository, bookRepository } = library.repositories;
+    expect(await titleRepository.findAll()).toHaveLength(1);
+    expect(await bookRepository.findByISBN(new ISBN(ISBN_A))).toHaveLength(2);
+  });
+
+  it('rejects a barcode already on another copy', async () => {
+    const input = { isbn: ISBN_A, title: 'Title', author: 'Author', barcode: 'LIB-0001' };
+    const first = await registerBook.execute(input);
+
+    const result = await registerBook.execute({ ...input, barcode: 'lib-0001' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.DUPLICATE_BARCODE);
+    expect(!result.ok && result.error.details).toEqual({
+      barcode: 'LIB-0001',
+      existingBookId: first.ok && first.value.bookId,
+    });
+  });
+
+  it('files an ISBN-10 registration under the same title as its ISBN-13', async () => {
+    await registerBook.execute({
+      isbn: '0-306-40615-2',
+      title: 'Title',
+      author: 'Author',
+      barcode: 'LIB-0001',
+    });
+
+    const second = await registerBook.execute({ isbn: ISBN_A, barcode: 'LIB-0002' });
+
+    expect(second.ok && second.value.isbn).toBe(ISBN_A);
+    expect(await library.repositories.titleRepository.findAll()).toHaveLength(1);
+  });
+
+  it('requires title and author for a new ISBN without a metadata provider', async () => {
+    const result = await registerBook.execute({ isbn: ISBN_A, barcode: 'LIB-0001' });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    expect(await library.repositories.titleRepository.findAll()).toHaveLength(0);
+  });
+
+  describe('with a metadata provider', () => {
+    /** Use case looking up the ISBNs of new titles in `provider` */
+    function withProvider(provider: BookMetadataProvider): RegisterBookUseCase {
+      const { titleRepository, bookRepository } = library.repositories;
+      return new RegisterBookUseCase(
+        titleRepository,
+        bookRepository,
+        library.clock,
+        library.events,
+        provider
+      );
+    }
+
+    it('catalogs a new ISBN from its record', async () => {
+      const register = withProvider(new FileBookMetadataProvider());
+
+      const result = await register.execute({ isbn: ISBN_B, barcode: 'LIB-0001' });
+
+      expect(result.ok && result.value).toMatchObject({
+        title: 'The Art of Readable Code',
+        author: 'Dustin Boswell, Trevor Foucher',
+        metadata: { publisher: "O'Reilly Japan", publicationYear: 2012 },
+      });
+      const title = await library.repositories.titleRepository.findByISBN(new ISBN(ISBN_B));
+      expect(title?.details).toMatchObject({ publisher: "O'Reilly Japan", publicationYear: 2012 });
+    });
+
+    it('prefers the title and author entered by staff over the record', async () => {
+      const register = withProvider(new FileBookMetadataProvider());
+
+      const result = await register.execute({
+        isbn: ISBN_B,
+        title: 'Readable Code',
+        author: 'D. Boswell',
+        barcode: 'LIB-0001',
+      });
+
+      expect(result.ok && result.value).toMatchObject({
+        title: 'Readable Code',
+        author: 'D. Boswell',
+        metadata: { title: 'The Art of Readable Code' },
+      });
+      const title = await library.repositories.titleRepository.findByISBN(new ISBN(ISBN_B));
+      expect(title?.details.publisher).toBe("O'Reilly Japan");
+    });
+
+    it('catalogs the title entered by staff when the lookup fails', async () => {
+      const register = withProvider({
+        lookup: async (isbn) => {
+          throw new MetadataUnavailableError(isbn.getValue(), 'timeout');
+        },
+      });
+
+      const result = await register.execute({
+        isbn: ISBN_A,
+        title: 'Domain-Driven Design',
+        author: 'Eric Evans',
+        barcode: 'LIB-0001',
+      });
+
+      expect(result.ok && result.value).toMatchObject({
+        title: 'Domain-Driven Design',
+        metadata: null,
+      });
+      const title = await library.repositories.titleRepository.findByISBN(new ISBN(ISBN_A));
+      expect(title?.details).toMatchObject({ publisher: null, subjects: [] });
+    });
+
+    it('returns METADATA_NOT_FOUND or METADATA_UNAVAILABLE when the lookup fails', async () => {
+      const unknown = await withProvider({ lookup: async () => null }).execute({
+        isbn: ISBN_A,
+        barcode: 'LIB-0001',
+      });
+      const unavailable = await withProvider({
+        lookup: async (isbn) => {
+          throw new MetadataUnavailableError(isbn.getValue(), 'timeout');
+        },
+      }).execute({ isbn: ISBN_A, barcode: 'LIB-0001' });
+
+      expect(!unknown.ok && unknown.error.code).toBe(DomainErrorCode.METADATA_NOT_FOUND);
+      expect(!unavailable.ok && unavailable.error.code).toBe(
+        DomainErrorCode.METADATA_UNAVAILABLE
+      );
+      expect(await library.repositories.bookRepository.findAll()).toHaveLength(0);
+    });
+  });
+
+  it('rejects an invalid barcode', async () => {
+    const result = await registerBook.execute({
+      isbn: ISBN_A,
+      title: 'Title',
+      author: 'Author',
+      barcode: 'no',
+    });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.INVALID_BARCODE);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+} from '../../support/inMemoryLibrary';
+import { BorrowBookUseCase } from '../../../src/application/useCases/BorrowBookUseCase';
+import { RenewLoanUseCase } from '../../../src/application/useCases/RenewLoanUseCase';
+import { PlaceHoldUseCase } from '../../../src/application/useCases/PlaceHoldUseCase';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+
+describe('RenewLoanUseCase', () => {
+  let library: InMemoryLibrary;
+  let renewLoan: RenewLoanUseCase;
+  let userId: UserId;
+  let bookId: string;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    renewLoan = new RenewLoanUseCase(unitOfWork, clock, policies, events);
+    userId = await addMember(library, 'reader@example.com');
+    bookId = await addCopy(library, 'LIB-0001');
+    await new BorrowBookUseCase(unitOfWork, clock, policies, events).execute({ userId, bookId });
+  });
+
+  it('extends the stored due date by the loan period', async () => {
+    library.clock.advanceDays(10);
+
+    const result = await renewLoan.execute({ userId, bookId });
+
+    expect(result.ok && result.value.book.dueDate?.toISOString()).toBe(
+      '2024-01-29T00:00:00.000Z'
+    );
+    expect(result.ok && result.value.book.renewalCount).toBe(1);
+    const loan = await library.repositories.loanRepository.findOpenByBook(bookId);
+    expect(loan?.dueDate.toISOString()).toBe('2024-01-29T00:00:00.000Z');
+  });
+
+  it('computes lateness from the renewed due date', async () => {
+    await renewLoan.execute({ userId, bookId });
+    library.clock.advanceDays(20);
+
+    const book = await library.repositories.bookRepository.findById(bookId);
+    expect(book?.isOverdue(library.clock)).toBe(false);
+    library.clock.advanceDays(10);
+    expect(book?.getOverdueDays(library.clock)).toBe(2);
+  });
+
+  it('stops at the renewal limit', async () => {
+    expect((await renewLoan.execute({ userId, bookId })).ok).toBe(true);
+    expect((await renewLoan.execute({ userId, bookId })).ok).toBe(true);
+
+    const result = await renewLoan.execute({ userId, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.RENEWAL_LIMIT_REACHED);
+  });
+
+  it('refuses to renew while another patron is waiting', async () => {
+    const waiting = await addMember(library, 'waiting@example.com');
+    await new PlaceHoldUseCase(library.unitOfWork, library.clock, library.events).execute({
+      userId: waiting,
+      bookId,
+    });
+
+    const result = await renewLoan.execute({ userId, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.RESERVATION_PENDING);
+  });
+
+  it('refuses to renew for a member who may not borrow', async () => {
+    const { userRepository } = library.repositories;
+    const user = (await userRepository.findById(userId))!;
+    await userRepository.save(user.suspend(library.clock));
+
+    const result = await renewLoan.execute({ userId, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.USER_SUSPENDED);
+  });
+
+  it('refuses to renew a book lent to someone else', async () => {
+    const other = await addMember(library, 'other@example.com');
+
+    const result = await renewLoan.execute({ userId: other, bookId });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.NOT_BORROWER);
+  });
+});
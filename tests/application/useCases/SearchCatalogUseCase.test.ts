@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryLibrary,
+  createInMemoryLibrary,
+  addCopy,
+  addMember,
+  ISBN_A,
+  ISBN_B,
+} from '../../support/inMemoryLibrary';
+import { SearchCatalogUseCase } from '../../../src/application/useCases/SearchCatalogUseCase';
+import { BorrowBookUseCase } from '../../../src/application/useCases/BorrowBookUseCase';
+import { InMemoryCatalogSearch } from '../../../src/infrastructure/search/InMemoryCatalogSearch';
+import { Title } from '../../../src/domain/entities/Title';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+
+describe('SearchCatalogUseCase', () => {
+  let library: InMemoryLibrary;
+  let searchCatalog: SearchCatalogUseCase;
+
+  beforeEach(async () => {
+    library = createInMemoryLibrary();
+    const { repositories, unitOfWork, clock, policies, events } = library;
+    const { titleRepository, bookRepository } = repositories;
+    searchCatalog = new SearchCatalogUseCase(
+      new InMemoryCatalogSearch(titleRepository),
+      titleRepository,
+      bookRepository
+    );
+
+    await titleRepository.save(Title.create(ISBN_A, 'Signals and Systems', 'A. Oppenheim', clock));
+    await titleRepository.save(Title.create(ISBN_B, 'Signal Processing', 'R. Lyons', clock));
+    const lent = await addCopy(library, 'LIB-0001', ISBN_A);
+    await addCopy(library, 'LIB-0002', ISBN_A);
+    const onlyCopy = await addCopy(library, 'LIB-0003', ISBN_B);
+
+    const borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    const userId = await addMember(library, 'reader@example.com');
+    await borrowBook.execute({ userId, bookId: lent });
+    await borrowBook.execute({ userId, bookId: onlyCopy });
+  });
+
+  it('returns the availability of each hit', async () => {
+    const result = await searchCatalog.execute({ query: 'signal' });
+
+    expect(result.ok && result.value).toEqual([
+      expect.objectContaining({ title: 'Signal Processing', summary: '0 of 1 available' }),
+      expect.objectContaining({ title: 'Signals and Systems', summary: '1 of 2 available' }),
+    ]);
+  });
+
+  it('keeps only titles with a copy on the shelf when asked', async () => {
+    const result = await searchCatalog.execute({ query: 'signal', availableOnly: true });
+
+    expect(result.ok && result.value.map((hit) => hit.isbn)).toEqual([ISBN_A]);
+  });
+
+  it('looks up an ISBN, with or without hyphens', async () => {
+    const result = await searchCatalog.execute({ query: '978-4-87311-565-8' });
+
+    expect(result.ok && result.value).toEqual([
+      expect.objectContaining({ isbn: ISBN_B, rank: 1, totalCopies: 1 }),
+    ]);
+  });
+
+  it('rejects an empty query and an out-of-range limit', async () => {
+    const empty = await searchCatalog.execute({ query: '  ' });
+    const limit = await searchCatalog.execute({ query: 'signal', limit: 0 });
+
+    expect(!empty.ok && empty.error.details).toEqual({ field: 'query' });
+    expect(!limit.ok && limit.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { catchDomainErrors } from '../../../src/application/useCases/catchDomainErrors';
+import { NotFoundError } from '../../../src/domain/errors/CommonErrors';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { ok } from '../../../src/domain/errors/Result';
+
+describe('catchDomainErrors', () => {
+  it('passes a result through', async () => {
+    expect(await catchDomainErrors(async () => ok('done'))).toEqual({ ok: true, value: 'done' });
+  });
+
+  it('returns a thrown domain error as a failed result', async () => {
+    const result = await catchDomainErrors(async () => {
+      throw new NotFoundError('Book', 'book-1');
+    });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.NOT_FOUND);
+    expect(!result.ok && result.error.details).toEqual({ entity: 'Book', id: 'book-1' });
+  });
+
+  it('rethrows other errors', async () => {
+    await expect(
+      catchDomainErrors(async () => {
+        throw new Error('Connection lost');
+      })
+    ).rejects.toThrow('Connection lost');
+  });
+});
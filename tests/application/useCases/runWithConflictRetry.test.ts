@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createInMemoryLibrary, addCopy, addMember } from '../../support/inMemoryLibrary';
+import { runWithConflictRetry } from '../../../src/application/useCases/runWithConflictRetry';
+import { BorrowBookUseCase } from '../../../src/application/useCases/BorrowBookUseCase';
+import { ConcurrencyConflictError } from '../../../src/domain/errors/ConcurrencyConflictError';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+import { DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { ok, err } from '../../../src/domain/errors/Result';
+import { User } from '../../../src/domain/entities/User';
+
+describe('runWithConflictRetry', () => {
+  it('retries work that hits a concurrency conflict', async () => {
+    const { unitOfWork } = createInMemoryLibrary();
+    let attempts = 0;
+
+    const result = await runWithConflictRetry(unitOfWork, async () => {
+      attempts++;
+      if (attempts < 3) {
+        throw new ConcurrencyConflictError('Book', 'book-1', 1);
+      }
+      return ok(attempts);
+    });
+
+    expect(result).toEqual({ ok: true, value: 3 });
+  });
+
+  it('reports the conflict once the attempts are used up', async () => {
+    const { unitOfWork } = createInMemoryLibrary();
+    let attempts = 0;
+
+    const result = await runWithConflictRetry(unitOfWork, async () => {
+      attempts++;
+      throw new ConcurrencyConflictError('Book', 'book-1', 1);
+    });
+
+    expect(attempts).toBe(3);
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.CONCURRENCY_CONFLICT);
+  });
+
+  it('returns other domain errors without retrying', async () => {
+    const { unitOfWork } = createInMemoryLibrary();
+    let attempts = 0;
+
+    const result = await runWithConflictRetry(unitOfWork, async () => {
+      attempts++;
+      throw new ValidationError('name', 'Name cannot be empty');
+    });
+
+    expect(attempts).toBe(1);
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+  });
+
+  it('rolls back the writes of work that returns a failed Result', async () => {
+    const library = createInMemoryLibrary();
+    const { userRepository } = library.repositories;
+
+    const result = await runWithConflictRetry(library.unitOfWork, async (repositories) => {
+      await repositories.userRepository.save(
+        User.create('Member', 'member@example.com', library.clock)
+      );
+      return err(new ValidationError('amount', 'Amount must be positive'));
+    });
+
+    expect(!result.ok && result.error.code).toBe(DomainErrorCode.VALIDATION_FAILED);
+    expect(await userRepository.findAll()).toEqual([]);
+  });
+
+  it('lends a copy once when two members borrow it at the same moment', async () => {
+    const library = createInMemoryLibrary();
+    const { unitOfWork, clock, policies, events } = library;
+    const borrowBook = new BorrowBookUseCase(unitOfWork, clock, policies, events);
+    const bookId = await addCopy(library, 'LIB-0001');
+    const first = await addMember(library, 'first@example.com');
+    const second = await addMember(library, 'second@example.com');
+
+    const results = await Promise.all([
+      borrowBook.execute({ userId: first, bookId }),
+      borrowBook.execute({ userId: second, bookId }),
+    ]);
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    const failed = results.find((result) => !result.ok);
+    expect(failed && !failed.ok && failed.error.code).toBe(DomainErrorCode.BOOK_UNAVAILABLE);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Book, BookStatus } from '../../../src/domain/entities/Book';
+import { Title } from '../../../src/domain/entities/Title';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { RenewalLimitReachedError } from '../../../src/domain/errors/BookErrors';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('Book', () => {
+  const userId = UserId.create('12345678');
+  let clock: TestClock;
+  let book: Book;
+
+  beforeEach(() => {
+    clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    book = Book.create(Title.create('9780306406157', 'Title', 'Author', clock), 'LIB-0001', clock);
+  });
+
+  describe('with an injected clock', () => {
+    it('takes borrowedAt and the due date from the clock', () => {
+      clock.advanceDays(1);
+      const borrowed = book.borrow(userId, 14, clock);
+
+      expect(borrowed.borrowedAt?.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+      expect(borrowed.dueDate?.toISOString()).toBe('2024-01-16T00:00:00.000Z');
+    });
+
+    it('counts full days past the due date for a return 20 days late', () => {
+      const borrowed = book.borrow(userId, 14, clock);
+
+      clock.advanceDays(14);
+      expect(borrowed.isOverdue(clock)).toBe(false);
+      clock.advanceDays(20);
+      expect(borrowed.isOverdue(clock)).toBe(true);
+      expect(borrowed.getOverdueDays(clock)).toBe(20);
+
+      const returned = borrowed.returnBook(clock);
+      expect(returned.status).toBe(BookStatus.AVAILABLE);
+      expect(returned.pullDomainEvents().at(-1)).toMatchObject({ overdueDays: 20 });
+    });
+
+    it('is never overdue while not borrowed', () => {
+      clock.advanceDays(365);
+
+      expect(book.isOverdue(clock)).toBe(false);
+      expect(book.getOverdueDays(clock)).toBe(0);
+    });
+  });
+
+  describe('renew', () => {
+    it('extends the due date, not the time since borrowing', () => {
+      const borrowed = book.borrow(userId, 14, clock);
+      clock.advanceDays(3);
+
+      const renewed = borrowed.renew(14, clock);
+
+      expect(renewed.dueDate?.toISOString()).toBe('2024-01-29T00:00:00.000Z');
+      expect(renewed.renewalCount).toBe(1);
+    });
+
+    it('refuses more than MAX_RENEWALS renewals', () => {
+      let renewed = book.borrow(userId, 14, clock);
+      for (let i = 0; i < Book.MAX_RENEWALS; i++) {
+        renewed = renewed.renew(14, clock);
+      }
+
+      expect(renewed.canRenew()).toBe(false);
+      expect(() => renewed.renew(14, clock)).toThrow(RenewalLimitReachedError);
+    });
+
+    it('starts a new loan with no renewals', () => {
+      const renewed = book.borrow(userId, 14, clock).renew(14, clock);
+
+      expect(renewed.returnBook(clock).borrow(userId, 14, clock).renewalCount).toBe(0);
+    });
+  });
+});
+
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { FeeLedger } from '../../../src/domain/entities/FeeLedger';
+import { FeeEntry } from '../../../src/domain/entities/FeeEntry';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { AmountExceedsBalanceError } from '../../../src/domain/errors/FeeErrors';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('FeeLedger', () => {
+  const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+  const userId = UserId.create('12345678');
+  const details = { reason: 'Overdue', actor: FeeEntry.SYSTEM_ACTOR };
+
+  function charged(minorUnits: number): FeeLedger {
+    return FeeLedger.of(userId, []).record(
+      FeeEntry.charge(userId, Money.of(minorUnits), details, clock)
+    );
+  }
+
+  it('derives the balance from charges, payments and waivers', () => {
+    const ledger = charged(2000)
+      .record(FeeEntry.payment(userId, Money.of(500), details, clock))
+      .record(FeeEntry.waiver(userId, Money.of(300), details, clock))
+      .record(FeeEntry.adjustment(userId, Money.of(-200), details, clock));
+
+    expect(ledger.balance.equals(Money.of(1000))).toBe(true);
+    expect(ledger.entries).toHaveLength(4);
+  });
+
+  it('appends without changing the original ledger', () => {
+    const ledger = charged(2000);
+
+    ledger.record(FeeEntry.payment(userId, Money.of(500), details, clock));
+
+    expect(ledger.entries).toHaveLength(1);
+    expect(ledger.balance.equals(Money.of(2000))).toBe(true);
+  });
+
+  it('rejects a payment or waiver larger than the balance', () => {
+    const ledger = charged(1000);
+
+    expect(() =>
+      ledger.record(FeeEntry.payment(userId, Money.of(1001), details, clock))
+    ).toThrow(AmountExceedsBalanceError);
+    expect(() =>
+      ledger.record(FeeEntry.waiver(userId, Money.of(1001), details, clock))
+    ).toThrow(AmountExceedsBalanceError);
+  });
+
+  it('rejects entries of another user', () => {
+    const other = UserId.create('87654321');
+
+    expect(() =>
+      charged(1000).record(FeeEntry.payment(other, Money.of(100), details, clock))
+    ).toThrow(ValidationError);
+  });
+
+  it('requires a positive amount and a reason on entries', () => {
+    expect(() => FeeEntry.payment(userId, Money.zero(), details, clock)).toThrow(ValidationError);
+    expect(() =>
+      FeeEntry.waiver(userId, Money.of(100), { ...details, reason: ' ' }, clock)
+    ).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Loan } from '../../../src/domain/entities/Loan';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { InvalidStateError, ValidationError } from '../../../src/domain/errors/CommonErrors';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('Loan', () => {
+  const userId = UserId.create('12345678');
+  const borrowedAt = new Date('2024-01-01T00:00:00Z');
+  const dueDate = new Date('2024-01-15T00:00:00Z');
+  let clock: TestClock;
+  let loan: Loan;
+
+  beforeEach(() => {
+    clock = new TestClock(borrowedAt);
+    loan = Loan.open('book-1', userId, borrowedAt, dueDate);
+  });
+
+  it('opens with no fee charged', () => {
+    expect(loan.isOpen()).toBe(true);
+    expect(loan.returnedAt).toBeNull();
+    expect(loan.feeCharged.isZero()).toBe(true);
+  });
+
+  it('rejects a due date before the borrow date', () => {
+    expect(() => Loan.open('book-1', userId, dueDate, borrowedAt)).toThrow(ValidationError);
+  });
+
+  it('moves the due date of an open loan', () => {
+    const extended = loan.extendTo(new Date('2024-01-29T00:00:00Z'));
+
+    expect(extended.dueDate.toISOString()).toBe('2024-01-29T00:00:00.000Z');
+    expect(extended.id).toBe(loan.id);
+  });
+
+  it('records the return date and fee when closed', () => {
+    clock.advanceDays(20);
+
+    const closed = loan.close(Money.of(600), clock);
+
+    expect(closed.isOpen()).toBe(false);
+    expect(closed.returnedAt?.toISOString()).toBe('2024-01-21T00:00:00.000Z');
+    expect(closed.feeCharged.equals(Money.of(600))).toBe(true);
+    expect(closed.pullDomainEvents()).toMatchObject([
+      { type: 'OverdueFeeCharged', loanId: loan.id, amount: 600, currency: 'JPY' },
+    ]);
+  });
+
+  it('records no fee event for an on-time return', () => {
+    const closed = loan.close(Money.zero(), clock);
+
+    expect(closed.pullDomainEvents()).toEqual([]);
+  });
+
+  it('accrues only the part of a fee not charged before', () => {
+    clock.advanceDays(17);
+
+    const accrued = loan.accrueFee(Money.of(300), clock);
+    const again = accrued.accrueFee(Money.of(300), clock);
+
+    expect(accrued.feeCharged.equals(Money.of(300))).toBe(true);
+    expect(accrued.pullDomainEvents()).toMatchObject([
+      { type: 'OverdueFeeCharged', loanId: loan.id, amount: 300 },
+    ]);
+    expect(again).toBe(accrued);
+    expect(accrued.unchargedFee(Money.of(500)).equals(Money.of(200))).toBe(true);
+    expect(accrued.unchargedFee(Money.of(100)).isZero()).toBe(true);
+  });
+
+  it('charges the rest of an accrued fee when closed', () => {
+    clock.advanceDays(17);
+    const accrued = loan.accrueFee(Money.of(300), clock);
+    accrued.pullDomainEvents();
+    clock.advanceDays(2);
+
+    const closed = accrued.close(Money.of(500), clock);
+
+    expect(closed.feeCharged.equals(Money.of(500))).toBe(true);
+    expect(closed.pullDomainEvents()).toMatchObject([{ type: 'OverdueFeeCharged', amount: 200 }]);
+  });
+
+  it('cannot be changed once closed', () => {
+    const closed = loan.close(Money.zero(), clock);
+
+    expect(() => closed.close(Money.zero(), clock)).toThrow(InvalidStateError);
+    expect(() => closed.extendTo(new Date('2024-02-01T00:00:00Z'))).toThrow(InvalidStateError);
+    expect(() => closed.accrueFee(Money.of(100), clock)).toThrow(InvalidStateError);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { DomainError, DomainErrorCode } from '../../../src/domain/errors/DomainError';
+import { BorrowLimitReachedError, OutstandingFeesError } from '../../../src/domain/errors/UserErrors';
+import { InvalidIsbnError } from '../../../src/domain/errors/ValueErrors';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+import { Money } from '../../../src/domain/valueObjects/Money';
+
+describe('DomainError', () => {
+  const userId = UserId.create('12345678');
+
+  it('carries a stable code and structured details', () => {
+    const error = new BorrowLimitReachedError(userId, 5, 5);
+
+    expect(error).toBeInstanceOf(DomainError);
+    expect(error.name).toBe('BorrowLimitReachedError');
+    expect(error.code).toBe(DomainErrorCode.BORROW_LIMIT_REACHED);
+    expect(error.details).toEqual({ userId: '12345678', limit: 5, borrowed: 5 });
+  });
+
+  it('serializes to code, message and details', () => {
+    const error = new OutstandingFeesError(userId, Money.of(1250, 'USD'), Money.zero('USD'));
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      code: 'OUTSTANDING_FEES',
+      message: 'User has overdue fees of $12.50',
+      details: { userId: '12345678', outstanding: 1250, threshold: 0, currency: 'USD' },
+    });
+  });
+
+  it('is thrown by value objects for invalid input', () => {
+    expect(() => new ISBN('9780306406158')).toThrow(InvalidIsbnError);
+    expect(() => UserId.create('abc')).toThrow(
+      expect.objectContaining({ code: DomainErrorCode.INVALID_USER_ID })
+    );
+  });
+});
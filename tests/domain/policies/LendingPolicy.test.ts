@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { LendingPolicy, LendingPolicySettings } from '../../../src/domain/policies/LendingPolicy';
+import { LendingPolicyCatalog } from '../../../src/domain/policies/LendingPolicyCatalog';
+import { MemberCategory } from '../../../src/domain/entities/User';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+
+const SETTINGS: LendingPolicySettings = {
+  maxBorrowLimit: 5,
+  loanPeriodDays: 14,
+  dailyOverdueFee: Money.of(100),
+  overdueFeeCap: Money.of(3000),
+  feeThreshold: Money.of(500),
+};
+
+describe('LendingPolicy', () => {
+  const policy = LendingPolicy.create(SETTINGS);
+
+  it('charges the daily fee per day late up to the cap', () => {
+    expect(policy.overdueFeeFor(0).isZero()).toBe(true);
+    expect(policy.overdueFeeFor(-3).isZero()).toBe(true);
+    expect(policy.overdueFeeFor(20).equals(Money.of(2000))).toBe(true);
+    expect(policy.overdueFeeFor(45).equals(Money.of(3000))).toBe(true);
+  });
+
+  it('caps the fee of a copy lost for longer than the amounts can count', () => {
+    expect(policy.overdueFeeFor(Number.MAX_SAFE_INTEGER).equals(Money.of(3000))).toBe(true);
+  });
+
+  it('allows borrowing while fees do not exceed the threshold', () => {
+    expect(policy.allowsBorrowingWith(Money.of(500))).toBe(true);
+    expect(policy.allowsBorrowingWith(Money.of(501))).toBe(false);
+  });
+
+  it('rejects negative amounts and mixed currencies', () => {
+    expect(() => LendingPolicy.create({ ...SETTINGS, feeThreshold: Money.of(-1) })).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      LendingPolicy.create({ ...SETTINGS, overdueFeeCap: Money.of(3000, 'USD') })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('LendingPolicyCatalog', () => {
+  /** Catalog with a policy in a currency per category (JPY by default) */
+  function catalog(currencies: Partial<Record<MemberCategory, string>> = {}) {
+    return LendingPolicyCatalog.create(
+      new Map(
+        Object.values(MemberCategory).map((category) => {
+          const currency = currencies[category] ?? 'JPY';
+          const policy = LendingPolicy.create({
+            ...SETTINGS,
+            dailyOverdueFee: Money.of(100, currency),
+            overdueFeeCap: Money.of(3000, currency),
+            feeThreshold: Money.zero(currency),
+          });
+          return [category, policy];
+        })
+      )
+    );
+  }
+
+  it('exposes the currency of its policies', () => {
+    expect(catalog().currency).toBe('JPY');
+  });
+
+  it('rejects policies in different currencies', () => {
+    expect(() => catalog({ [MemberCategory.STAFF]: 'USD' })).toThrow(/one currency: JPY, USD/);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { Barcode } from '../../../src/domain/valueObjects/Barcode';
+import { InvalidBarcodeError } from '../../../src/domain/errors/ValueErrors';
+
+describe('Barcode', () => {
+  it('normalizes scanned input to upper case without surrounding whitespace', () => {
+    const barcode = Barcode.create('  lib-0001 ');
+
+    expect(barcode.getValue()).toBe('LIB-0001');
+    expect(barcode.equals(Barcode.create('LIB-0001'))).toBe(true);
+  });
+
+  it.each(['abc', 'LIB 0001', 'LIB_0001', 'X'.repeat(33), ''])('rejects %j', (value) => {
+    expect(() => Barcode.create(value)).toThrow(InvalidBarcodeError);
+    expect(Barcode.parse(value)).toBeNull();
+  });
+});
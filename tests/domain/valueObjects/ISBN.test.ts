@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+import { InvalidIsbnError } from '../../../src/domain/errors/ValueErrors';
+
+describe('ISBN', () => {
+  it('holds an ISBN-10 as its canonical ISBN-13', () => {
+    const isbn = new ISBN('0-306-40615-2');
+
+    expect(isbn.getValue()).toBe('9780306406157');
+    expect(isbn.equals(new ISBN('978 0 306 40615 7'))).toBe(true);
+    expect(new ISBN('080442957x').getValue()).toBe('9780804429573');
+  });
+
+  it('converts to ISBN-10 where the 978 prefix allows it', () => {
+    expect(new ISBN('9780306406157').toISBN10()).toBe('0306406152');
+    expect(new ISBN('9783161484100').toISBN10()).toBe('316148410X');
+    expect(new ISBN('9791032300824').toISBN10()).toBeNull();
+  });
+
+  it('hyphenates by the registration group and registrant ranges', () => {
+    expect(new ISBN('9780306406157').format()).toBe('978-0-306-40615-7');
+    expect(new ISBN('9780228000006').format()).toBe('978-0-2280-0000-6');
+    expect(new ISBN('9784873115658').format()).toBe('978-4-87311-565-8');
+    expect(new ISBN('9783161484100').format()).toBe('978-3-16-148410-0');
+    expect(new ISBN('9791032300824').format()).toBe('979-10-3230082-4');
+    // Group without registrant ranges: registrant and publication stay together
+    expect(new ISBN('9788935620005').format()).toBe('978-89-3562000-5');
+    expect(new ISBN('9781449331818').format()).toBe('978-1-44933181-8');
+  });
+
+  it('hyphenates the ISBN-10 form with its own check digit', () => {
+    expect(new ISBN('9784873115658').formatISBN10()).toBe('4-87311-565-5');
+    expect(new ISBN('080442957X').formatISBN10()).toBe('0-8044-2957-X');
+    expect(new ISBN('9791032300824').formatISBN10()).toBeNull();
+  });
+
+  it('rejects wrong check digits, lengths and prefixes', () => {
+    for (const value of ['0306406153', '9780306406158', '97803064061', '9770306406157', 'abc']) {
+      expect(() => new ISBN(value)).toThrow(InvalidIsbnError);
+      expect(ISBN.parse(value)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+import { CurrencyMismatchError } from '../../../src/domain/errors/ValueErrors';
+
+describe('Money', () => {
+  it('adds and multiplies in integer minor units without drift', () => {
+    const dime = Money.of(10, 'USD');
+    const sum = [dime, dime, dime].reduce((total, amount) => total.add(amount), Money.zero('USD'));
+
+    expect(sum.equals(Money.of(30, 'USD'))).toBe(true);
+    expect(Money.of(100).multiply(20).getMinorUnits()).toBe(2000);
+    expect(Money.of(100).subtract(Money.of(250)).isNegative()).toBe(true);
+  });
+
+  it('rejects fractional amounts and factors', () => {
+    expect(() => Money.of(0.5)).toThrow(ValidationError);
+    expect(() => Money.of(100).multiply(1.5)).toThrow(ValidationError);
+  });
+
+  it('rejects unsupported currencies and normalizes the code', () => {
+    expect(() => Money.of(100, 'XYZ')).toThrow(ValidationError);
+    expect(Money.of(100, 'usd').getCurrency()).toBe('USD');
+    expect(Money.zero().getCurrency()).toBe(Money.DEFAULT_CURRENCY);
+  });
+
+  it('never combines or compares amounts in different currencies', () => {
+    expect(() => Money.of(100, 'JPY').add(Money.of(100, 'USD'))).toThrow(CurrencyMismatchError);
+    expect(() => Money.of(100, 'JPY').greaterThan(Money.of(1, 'EUR'))).toThrow(
+      CurrencyMismatchError
+    );
+    expect(Money.of(100, 'JPY').equals(Money.of(100, 'USD'))).toBe(false);
+  });
+
+  it('compares amounts of the same currency', () => {
+    expect(Money.of(300).greaterThan(Money.of(200))).toBe(true);
+    expect(Money.of(200).lessThan(Money.of(300))).toBe(true);
+    expect(Money.of(200).compareTo(Money.of(200))).toBe(0);
+  });
+
+  it('formats with the symbol and minor-unit digits of the currency', () => {
+    expect(Money.of(1200).format()).toBe('¥1,200');
+    expect(Money.of(1250, 'USD').format()).toBe('$12.50');
+    expect(Money.of(-350, 'USD').format()).toBe('-$3.50');
+    expect(Money.of(0, 'EUR').format()).toBe('€0.00');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileLendingPolicyLoader } from '../../../src/infrastructure/config/FileLendingPolicyLoader';
+import { MemberCategory } from '../../../src/domain/entities/User';
+import { Money } from '../../../src/domain/valueObjects/Money';
+
+const POLICY = {
+  maxBorrowLimit: 5,
+  loanPeriodDays: 14,
+  dailyOverdueFee: 25,
+  overdueFeeCap: 1000,
+};
+
+/** Config with the same policy for every category */
+function configFor(currency: string | undefined): object {
+  return {
+    ...(currency !== undefined && { currency }),
+    categories: Object.fromEntries(Object.values(MemberCategory).map((name) => [name, POLICY])),
+  };
+}
+
+describe('FileLendingPolicyLoader', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lending-policies-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Load a config written to a temporary file */
+  function load(config: unknown) {
+    const path = join(dir, 'policies.json');
+    writeFileSync(path, JSON.stringify(config));
+    return new FileLendingPolicyLoader(path).load();
+  }
+
+  it('loads the policy of every category from the default config', () => {
+    const policies = new FileLendingPolicyLoader().load();
+
+    const student = policies.forCategory(MemberCategory.STUDENT);
+    expect(student.maxBorrowLimit).toBe(8);
+    expect(student.loanPeriodDays).toBe(21);
+    expect(student.feeThreshold.equals(Money.of(500))).toBe(true);
+    expect(policies.currency).toBe('JPY');
+  });
+
+  it('reads amounts in the configured currency', () => {
+    const policies = load(configFor('USD'));
+
+    expect(policies.currency).toBe('USD');
+    expect(policies.forCategory(MemberCategory.ADULT).dailyOverdueFee.format()).toBe('$0.25');
+    expect(policies.forCategory(MemberCategory.ADULT).feeThreshold.isZero()).toBe(true);
+  });
+
+  it('defaults to the default currency', () => {
+    expect(load(configFor(undefined)).currency).toBe(Money.DEFAULT_CURRENCY);
+  });
+
+  it('rejects a config missing a category', () => {
+    const config = { categories: { ADULT: POLICY } };
+
+    expect(() => load(config)).toThrow(/No lending policy for member categories: STUDENT/);
+  });
+
+  it('rejects an unknown category', () => {
+    const config = configFor('JPY') as { categories: Record<string, unknown> };
+
+    expect(() => load({ ...config, categories: { ...config.categories, GUEST: POLICY } })).toThrow(
+      'Unknown member category: GUEST'
+    );
+  });
+
+  it.each([
+    ['a setting that is not a number', { ...POLICY, loanPeriodDays: '14' }, /"loanPeriodDays"/],
+    ['a policy that is not an object', [POLICY], /Policy must be an object/],
+    ['a fractional amount', { ...POLICY, dailyOverdueFee: 0.5 }, /integer number of minor units/],
+    ['a zero borrow limit', { ...POLICY, maxBorrowLimit: 0 }, /Borrow limit/],
+  ])('rejects %s, naming the category', (_, policy, message) => {
+    const config = configFor('JPY') as { categories: Record<string, unknown> };
+
+    expect(() => load({ ...config, categories: { ...config.categories, CHILD: policy } })).toThrow(
+      new RegExp(`CHILD: .*${message.source}`)
+    );
+  });
+
+  it.each([
+    ['a config that is not an object', []],
+    ['a currency that is not a string', { ...configFor(undefined), currency: 840 }],
+    ['an unsupported currency', configFor('XYZ')],
+  ])('rejects %s', (_, config) => {
+    expect(() => load(config)).toThrow(/Invalid lending policy config/);
+  });
+
+  it('names the file it cannot read', () => {
+    const path = join(dir, 'missing.json');
+
+    expect(() => new FileLendingPolicyLoader(path).load()).toThrow(path);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { InProcessDomainEventDispatcher } from '../../../src/infrastructure/events/InProcessDomainEventDispatcher';
+import { DomainEventType } from '../../../src/domain/events/DomainEvent';
+import { Book } from '../../../src/domain/entities/Book';
+import { Title } from '../../../src/domain/entities/Title';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('InProcessDomainEventDispatcher', () => {
+  const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+  const title = Title.create('9780306406157', 'Title', 'Author', clock);
+
+  it('delivers events to the handlers of their type, in subscription order', async () => {
+    const dispatcher = new InProcessDomainEventDispatcher();
+    const calls: string[] = [];
+    dispatcher.subscribe(DomainEventType.BOOK_REGISTERED, (event) => {
+      calls.push(`first:${event.barcode}`);
+    });
+    dispatcher.subscribe(DomainEventType.BOOK_REGISTERED, () => {
+      calls.push('second');
+    });
+    dispatcher.subscribe(DomainEventType.BOOK_BORROWED, () => {
+      calls.push('borrowed');
+    });
+
+    await dispatcher.dispatch(Book.create(title, 'LIB-0001', clock).pullDomainEvents());
+
+    expect(calls).toEqual(['first:LIB-0001', 'second']);
+  });
+
+  it('reports a failing handler and still runs the others', async () => {
+    const failures: string[] = [];
+    const dispatcher = new InProcessDomainEventDispatcher((error, event) =>
+      failures.push(`${event.type}: ${(error as Error).message}`)
+    );
+    let delivered = false;
+    dispatcher.subscribe(DomainEventType.BOOK_REGISTERED, () => {
+      throw new Error('Mail server down');
+    });
+    dispatcher.subscribe(DomainEventType.BOOK_REGISTERED, () => {
+      delivered = true;
+    });
+
+    await dispatcher.dispatch(Book.create(title, 'LIB-0001', clock).pullDomainEvents());
+
+    expect(failures).toEqual(['BookRegistered: Mail server down']);
+    expect(delivered).toBe(true);
+  });
+
+  it('stops delivering to an unsubscribed handler', async () => {
+    const dispatcher = new InProcessDomainEventDispatcher();
+    let calls = 0;
+    const unsubscribe = dispatcher.subscribe(DomainEventType.BOOK_REGISTERED, () => {
+      calls++;
+    });
+
+    unsubscribe();
+    await dispatcher.dispatch(Book.create(title, 'LIB-0001', clock).pullDomainEvents());
+
+    expect(calls).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { CsvExportWriter } from '../../../src/infrastructure/export/CsvExportWriter';
+import { CsvCatalogRecordReader } from '../../../src/infrastructure/import/CsvCatalogRecordReader';
+import { ExportRow } from '../../../src/domain/services/ExportWriter';
+import { CatalogRecord } from '../../../src/domain/services/CatalogRecordReader';
+
+async function* rowsOf(...rows: ExportRow[]): AsyncIterable<ExportRow> {
+  yield* rows;
+}
+
+async function text(chunks: AsyncIterable<string>): Promise<string> {
+  let content = '';
+  for await (const chunk of chunks) {
+    content += chunk;
+  }
+  return content;
+}
+
+describe('CsvExportWriter', () => {
+  it('writes a header and one CRLF line per row, in field order', async () => {
+    const content = await text(
+      new CsvExportWriter().write(
+        ['barcode', 'renewalCount', 'dueDate'],
+        rowsOf(
+          { dueDate: null, barcode: 'LIB-0001', renewalCount: 0, extra: 'left out' },
+          { dueDate: '2024-01-15T00:00:00.000Z', barcode: 'LIB-0002', renewalCount: 2 }
+        )
+      )
+    );
+
+    expect(content).toBe(
+      'barcode,renewalCount,dueDate\r\n' +
+        'LIB-0001,0,\r\n' +
+        'LIB-0002,2,2024-01-15T00:00:00.000Z\r\n'
+    );
+  });
+
+  it('quotes fields with commas, quotes or line breaks', async () => {
+    const content = await text(
+      new CsvExportWriter().write(
+        ['title', 'author'],
+        rowsOf({ title: 'Say "hello"\nto the world', author: 'Boswell, Dustin' })
+      )
+    );
+
+    expect(content).toBe('title,author\r\n"Say ""hello""\nto the world","Boswell, Dustin"\r\n');
+  });
+
+  it('writes a book export that reads back with the CSV import', async () => {
+    const content = text(
+      new CsvExportWriter().write(
+        ['isbn', 'title', 'author', 'barcode'],
+        rowsOf({
+          isbn: '9784873115658',
+          title: 'Readable, "practical" code',
+          author: 'Boswell, Dustin',
+          barcode: 'LIB-0001',
+        })
+      )
+    );
+    async function* bytes(): AsyncIterable<Uint8Array> {
+      yield new TextEncoder().encode(await content);
+    }
+
+    const records: CatalogRecord[] = [];
+    for await (const entry of new CsvCatalogRecordReader().read(bytes())) {
+      if (entry.ok) {
+        records.push(entry.record);
+      }
+    }
+
+    expect(records).toEqual([
+      {
+        position: 2,
+        isbn: '9784873115658',
+        title: 'Readable, "practical" code',
+        author: 'Boswell, Dustin',
+        barcode: 'LIB-0001',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { JsonLinesExportWriter } from '../../../src/infrastructure/export/JsonLinesExportWriter';
+import { ExportRow } from '../../../src/domain/services/ExportWriter';
+
+async function* rowsOf(...rows: ExportRow[]): AsyncIterable<ExportRow> {
+  yield* rows;
+}
+
+describe('JsonLinesExportWriter', () => {
+  it('writes one JSON object per row with the selected fields, in order', async () => {
+    const lines: string[] = [];
+    for await (const line of new JsonLinesExportWriter().write(
+      ['name', 'overdueFees', 'email'],
+      rowsOf(
+        { email: 'a@example.com', name: 'Ann "A" Lee', overdueFees: 0, id: '00000001' },
+        { name: 'Bo', overdueFees: 150 }
+      )
+    )) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual([
+      '{"name":"Ann \\"A\\" Lee","overdueFees":0,"email":"a@example.com"}\n',
+      '{"name":"Bo","overdueFees":150,"email":null}\n',
+    ]);
+  });
+
+  it('writes nothing for no rows', async () => {
+    const lines: string[] = [];
+    for await (const line of new JsonLinesExportWriter().write(['id'], rowsOf())) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual([]);
+  });
+});
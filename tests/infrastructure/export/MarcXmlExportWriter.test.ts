@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { MarcXmlExportWriter } from '../../../src/infrastructure/export/MarcXmlExportWriter';
+import { MarcXmlCatalogRecordReader } from '../../../src/infrastructure/import/MarcXmlCatalogRecordReader';
+import { ExportRow } from '../../../src/domain/services/ExportWriter';
+import { CatalogEntry } from '../../../src/domain/services/CatalogRecordReader';
+
+async function* rowsOf(...rows: ExportRow[]): AsyncIterable<ExportRow> {
+  yield* rows;
+}
+
+async function text(chunks: AsyncIterable<string>): Promise<string> {
+  let content = '';
+  for await (const chunk of chunks) {
+    content += chunk;
+  }
+  return content;
+}
+
+const COPY: ExportRow = {
+  id: 'b-1',
+  isbn: '9784873115658',
+  title: 'Code <&> "quotes"',
+  author: 'Boswell, Dustin',
+  barcode: 'LIB-0001',
+  status: 'BORROWED',
+  renewalCount: 1,
+};
+
+describe('MarcXmlExportWriter', () => {
+  it('writes one escaped record per row, mapping fields to MARC tags', async () => {
+    const content = await text(new MarcXmlExportWriter().write(Object.keys(COPY), rowsOf(COPY)));
+
+    expect(content).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<collection xmlns="http://www.loc.gov/MARC21/slim">\n' +
+        '  <record>\n' +
+        '    <leader>00000nam a2200000   4500</leader>\n' +
+        '    <controlfield tag="001">b-1</controlfield>\n' +
+        '    <datafield tag="020" ind1=" " ind2=" ">\n' +
+        '      <subfield code="a">9784873115658</subfield>\n' +
+        '    </datafield>\n' +
+        '    <datafield tag="100" ind1="1" ind2=" ">\n' +
+        '      <subfield code="a">Boswell, Dustin</subfield>\n' +
+        '    </datafield>\n' +
+        '    <datafield tag="245" ind1="1" ind2="0">\n' +
+        '      <subfield code="a">Code &lt;&amp;&gt; &quot;quotes&quot;</subfield>\n' +
+        '    </datafield>\n' +
+        '    <datafield tag="852" ind1=" " ind2=" ">\n' +
+        '      <subfield code="p">LIB-0001</subfield>\n' +
+        '      <subfield code="x">Status: BORROWED</subfield>\n' +
+        '    </datafield>\n' +
+        '  </record>\n' +
+        '</collection>\n'
+    );
+  });
+
+  it('leaves out the fields that were not selected', async () => {
+    const content = await text(
+      new MarcXmlExportWriter().write(['isbn', 'barcode'], rowsOf(COPY))
+    );
+
+    expect(content).not.toContain('controlfield');
+    expect(content).not.toContain('tag="245"');
+    expect(content).not.toContain('Status:');
+    expect(content).toContain('<subfield code="p">LIB-0001</subfield>');
+  });
+
+  it('writes records that read back with the MARCXML import', async () => {
+    const content = text(new MarcXmlExportWriter().write(Object.keys(COPY), rowsOf(COPY)));
+    async function* bytes(): AsyncIterable<Uint8Array> {
+      yield new TextEncoder().encode(await content);
+    }
+
+    const entries: CatalogEntry[] = [];
+    for await (const entry of new MarcXmlCatalogRecordReader().read(bytes())) {
+      entries.push(entry);
+    }
+
+    expect(entries).toEqual([
+      {
+        ok: true,
+        record: {
+          position: 1,
+          isbn: '9784873115658',
+          title: 'Code <&> "quotes"',
+          author: 'Boswell, Dustin',
+          barcode: 'LIB-0001',
+        },
+      },
+    ]);
+  });
+});
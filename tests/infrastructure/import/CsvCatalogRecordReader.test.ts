@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { CsvCatalogRecordReader } from '../../../src/infrastructure/import/CsvCatalogRecordReader';
+import { CatalogEntry } from '../../../src/domain/services/CatalogRecordReader';
+
+/** Content of a text, in chunks of a few bytes */
+async function* chunks(text: string, size = 7): AsyncIterable<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let start = 0; start < bytes.length; start += size) {
+    yield bytes.subarray(start, start + size);
+  }
+}
+
+async function read(text: string, size?: number): Promise<CatalogEntry[]> {
+  const entries: CatalogEntry[] = [];
+  for await (const entry of new CsvCatalogRecordReader().read(chunks(text, size))) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('CsvCatalogRecordReader', () => {
+  it('reads one record per row, by header column name', async () => {
+    const entries = await read(
+      'Barcode,ISBN,Shelf,Title,Author\r\n' +
+        'LIB-0001,978-4-87311-565-8,A1,The Art of Readable Code,"Boswell, Dustin"\r\n' +
+        'LIB-0002,9780306406157,B2,,\r\n'
+    );
+
+    expect(entries).toEqual([
+      {
+        ok: true,
+        record: {
+          position: 2,
+          isbn: '978-4-87311-565-8',
+          title: 'The Art of Readable Code',
+          author: 'Boswell, Dustin',
+          barcode: 'LIB-0001',
+        },
+      },
+      {
+        ok: true,
+        record: {
+          position: 3,
+          isbn: '9780306406157',
+          title: null,
+          author: null,
+          barcode: 'LIB-0002',
+        },
+      },
+    ]);
+  });
+
+  it('keeps doubled quotes and line breaks of quoted fields, numbering rows by line', async () => {
+    const entries = await read(
+      'isbn,title,barcode\n' +
+        '9780306406157,"Say ""hello""\nto the world",LIB-0001\n' +
+        '\n' +
+        '9784873115658,Más allá,LIB-0002'
+    );
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        record: expect.objectContaining({ position: 2, title: 'Say "hello"\nto the world' }),
+      }),
+      expect.objectContaining({
+        record: expect.objectContaining({ position: 5, title: 'Más allá', barcode: 'LIB-0002' }),
+      }),
+    ]);
+  });
+
+  it('keeps characters split across chunks whole', async () => {
+    const entries = await read('isbn,title,barcode\n9780306406157,日本語の本,LIB-0001\n', 1);
+
+    expect(entries).toEqual([
+      expect.objectContaining({ record: expect.objectContaining({ title: '日本語の本' }) }),
+    ]);
+  });
+
+  it('stops with an entry when the header has no isbn or barcode column', async () => {
+    const entries = await read('title,author\nA book,Someone\n');
+
+    expect(entries).toEqual([
+      { ok: false, position: 1, reason: 'Header row has no isbn or barcode column' },
+    ]);
+  });
+
+  it('reports a quoted field left open at the end of the file', async () => {
+    const entries = await read('isbn,barcode\n9780306406157,LIB-0001\n9784873115658,"LIB-0002\n');
+
+    expect(entries).toEqual([
+      expect.objectContaining({ ok: true }),
+      {
+        ok: false,
+        position: 3,
+        reason: 'Quoted field is not closed before the end of the file',
+      },
+    ]);
+  });
+});
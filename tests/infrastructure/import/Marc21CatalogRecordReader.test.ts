@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { Marc21CatalogRecordReader } from '../../../src/infrastructure/import/Marc21CatalogRecordReader';
+import { CatalogEntry } from '../../../src/domain/services/CatalogRecordReader';
+
+type Field = [tag: string, subfields: Array<[code: string, value: string]>];
+
+/** ISO 2709 record with a control number and the given data fields */
+function marcRecord(fields: Field[]): Buffer {
+  const data = [
+    Buffer.from('ocm00001\x1e'),
+    ...fields.map(([, subfields]) =>
+      Buffer.from(`  ${subfields.map(([code, value]) => `\x1f${code}${value}`).join('')}\x1e`)
+    ),
+  ];
+  const tags = ['001', ...fields.map(([tag]) => tag)];
+
+  let offset = 0;
+  const directory = tags
+    .map((tag, index) => {
+      const length = data[index]?.length ?? 0;
+      const entry = `${tag}${String(length).padStart(4, '0')}${String(offset).padStart(5, '0')}`;
+      offset += length;
+      return entry;
+    })
+    .join('');
+  const baseAddress = 24 + directory.length + 1;
+  const recordLength = baseAddress + offset + 1;
+  const leader =
+    `${String(recordLength).padStart(5, '0')}nam a22` +
+    `${String(baseAddress).padStart(5, '0')}   4500`;
+
+  return Buffer.concat([Buffer.from(`${leader}${directory}\x1e`), ...data, Buffer.from('\x1d')]);
+}
+
+/** Content of a file, in chunks of a few bytes */
+async function* chunks(bytes: Buffer, size = 13): AsyncIterable<Uint8Array> {
+  for (let start = 0; start < bytes.length; start += size) {
+    yield bytes.subarray(start, start + size);
+  }
+}
+
+async function read(bytes: Buffer): Promise<CatalogEntry[]> {
+  const entries: CatalogEntry[] = [];
+  for await (const entry of new Marc21CatalogRecordReader().read(chunks(bytes))) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('Marc21CatalogRecordReader', () => {
+  it('reads one record per copy barcode, mapping the MARC fields', async () => {
+    const file = marcRecord([
+      ['020', [['a', '9788437604947 (pbk.)']]],
+      ['100', [['a', 'García Márquez, Gabriel,']]],
+      [
+        '245',
+        [
+          ['a', 'Cien años de soledad /'],
+          ['c', 'Gabriel García Márquez.'],
+        ],
+      ],
+      [
+        '852',
+        [
+          ['b', 'MAIN'],
+          ['p', 'LIB-0001'],
+        ],
+      ],
+      ['876', [['p', 'LIB-0002']]],
+      ['876', [['p', 'LIB-0001']]],
+    ]);
+
+    expect(await read(file)).toEqual(
+      ['LIB-0001', 'LIB-0002'].map((barcode) => ({
+        ok: true,
+        record: {
+          position: 1,
+          isbn: '9788437604947',
+          title: 'Cien años de soledad',
+          author: 'García Márquez, Gabriel',
+          barcode,
+        },
+      }))
+    );
+  });
+
+  it('numbers records across line breaks between them', async () => {
+    const file = Buffer.concat([
+      marcRecord([
+        ['020', [['a', '9780306406157']]],
+        ['852', [['p', 'LIB-0001']]],
+      ]),
+      Buffer.from('\r\n'),
+      marcRecord([
+        ['020', [['a', '9784873115658']]],
+        [
+          '245',
+          [
+            ['a', 'The art of readable code :'],
+            ['b', 'simple and practical techniques'],
+          ],
+        ],
+        ['700', [['a', 'Foucher, Trevor.']]],
+        ['852', [['p', 'LIB-0002']]],
+      ]),
+    ]);
+
+    expect(await read(file)).toEqual([
+      expect.objectContaining({
+        record: expect.objectContaining({ position: 1, title: null, author: null }),
+      }),
+      expect.objectContaining({
+        record: expect.objectContaining({
+          position: 2,
+          title: 'The art of readable code : simple and practical techniques',
+          author: 'Foucher, Trevor.',
+        }),
+      }),
+    ]);
+  });
+
+  it('reports records without an ISBN or a barcode and goes on', async () => {
+    const file = Buffer.concat([
+      marcRecord([['852', [['p', 'LIB-0001']]]]),
+      marcRecord([['020', [['a', '9780306406157']]]]),
+      marcRecord([
+        ['020', [['a', '9784873115658']]],
+        ['852', [['p', 'LIB-0003']]],
+      ]),
+    ]);
+
+    expect(await read(file)).toEqual([
+      { ok: false, position: 1, reason: 'Record has no ISBN (020 $a)' },
+      { ok: false, position: 2, reason: 'Record has no copy barcode (852 $p or 876 $p)' },
+      expect.objectContaining({ ok: true }),
+    ]);
+  });
+
+  it('reports a malformed directory and a record cut off at the end of the file', async () => {
+    const valid = marcRecord([
+      ['020', [['a', '9780306406157']]],
+      ['852', [['p', 'LIB-0001']]],
+    ]);
+    const file = Buffer.concat([
+      Buffer.from('00042nam a2200999   4500\x1e\x1d'),
+      valid.subarray(0, 40),
+    ]);
+
+    expect(await read(file)).toEqual([
+      { ok: false, position: 1, reason: 'Record leader or directory is malformed' },
+      { ok: false, position: 2, reason: 'Record is not terminated (0x1D)' },
+    ]);
+  });
+});
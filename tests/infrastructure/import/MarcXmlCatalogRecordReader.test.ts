@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { MarcXmlCatalogRecordReader } from '../../../src/infrastructure/import/MarcXmlCatalogRecordReader';
+import { CatalogEntry } from '../../../src/domain/services/CatalogRecordReader';
+
+/** Content of a text, in chunks of a few bytes */
+async function* chunks(text: string, size = 11): AsyncIterable<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let start = 0; start < bytes.length; start += size) {
+    yield bytes.subarray(start, start + size);
+  }
+}
+
+async function read(text: string): Promise<CatalogEntry[]> {
+  const entries: CatalogEntry[] = [];
+  for await (const entry of new MarcXmlCatalogRecordReader().read(chunks(text))) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe('MarcXmlCatalogRecordReader', () => {
+  it('reads one record per copy barcode, with or without a namespace prefix', async () => {
+    const entries = await read(`<?xml version="1.0" encoding="UTF-8"?>
+<marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+  <marc:record>
+    <marc:controlfield tag="001">ocm00001</marc:controlfield>
+    <marc:datafield tag="020" ind1=" " ind2=" ">
+      <marc:subfield code="a">9784873115658 (pbk.)</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="245" ind1="1" ind2="4">
+      <marc:subfield code="a">The art of readable code :</marc:subfield>
+      <marc:subfield code="b">Tips &amp; tricks /</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="110" ind1="2" ind2=" ">
+      <marc:subfield code="a">O&#x27;Reilly Japan.</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="852" ind1=" " ind2=" ">
+      <marc:subfield code="p">LIB-0001</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag='876' ind1=' ' ind2=' '>
+      <marc:subfield code='p'>LIB-0002</marc:subfield>
+    </marc:datafield>
+  </marc:record>
+  <record>
+    <datafield tag="020"><subfield code="a">9780306406157</subfield></datafield>
+    <datafield tag="852"><subfield code="p">LIB-0003</subfield></datafield>
+  </record>
+</marc:collection>
+`);
+
+    expect(entries).toEqual([
+      {
+        ok: true,
+        record: {
+          position: 1,
+          isbn: '9784873115658',
+          title: 'The art of readable code : Tips & tricks',
+          author: "O'Reilly Japan.",
+          barcode: 'LIB-0001',
+        },
+      },
+      expect.objectContaining({
+        record: expect.objectContaining({ position: 1, barcode: 'LIB-0002' }),
+      }),
+      {
+        ok: true,
+        record: {
+          position: 2,
+          isbn: '9780306406157',
+          title: null,
+          author: null,
+          barcode: 'LIB-0003',
+        },
+      },
+    ]);
+  });
+
+  it('reports a record without a barcode and one left open at the end', async () => {
+    const entries = await read(`<collection>
+  <record>
+    <datafield tag="020"><subfield code="a">9780306406157</subfield></datafield>
+  </record>
+  <record>
+    <datafield tag="020"><subfield code="a">9784873115658</subfield></datafield>
+`);
+
+    expect(entries).toEqual([
+      { ok: false, position: 1, reason: 'Record has no copy barcode (852 $p or 876 $p)' },
+      { ok: false, position: 2, reason: 'Record has no closing </record> tag' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CachingBookMetadataProvider } from '../../../src/infrastructure/metadata/CachingBookMetadataProvider';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+import {
+  BookMetadata,
+  BookMetadataProvider,
+} from '../../../src/domain/services/BookMetadataProvider';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+
+const KNOWN = '9780306406157';
+const UNKNOWN = '9784873115658';
+const OTHER = '9780262033848';
+
+/** Source knowing KNOWN and OTHER, failing while `down` is set */
+class CountingSource implements BookMetadataProvider {
+  lookups = 0;
+  down = false;
+
+  async lookup(isbn: ISBN): Promise<BookMetadata | null> {
+    this.lookups++;
+    if (this.down) {
+      throw new Error('Source unavailable');
+    }
+    if (isbn.getValue() === UNKNOWN) {
+      return null;
+    }
+    return {
+      isbn: isbn.getValue(),
+      title: `Title ${isbn.getValue()}`,
+      authors: [],
+      publisher: null,
+      publicationYear: null,
+      edition: null,
+      language: null,
+      coverUrl: null,
+      subjects: [],
+    };
+  }
+}
+
+describe('CachingBookMetadataProvider', () => {
+  let clock: TestClock;
+  let source: CountingSource;
+  let provider: CachingBookMetadataProvider;
+
+  beforeEach(() => {
+    clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    source = new CountingSource();
+    provider = new CachingBookMetadataProvider(source, clock, {
+      ttlMs: 10_000,
+      notFoundTtlMs: 1_000,
+      maxEntries: 2,
+    });
+  });
+
+  it('answers repeated lookups from the cache until the record expires', async () => {
+    await provider.lookup(new ISBN(KNOWN));
+    clock.advance(9_999);
+    expect((await provider.lookup(new ISBN(KNOWN)))?.title).toBe(`Title ${KNOWN}`);
+    expect(source.lookups).toBe(1);
+
+    clock.advance(1);
+    await provider.lookup(new ISBN(KNOWN));
+    expect(source.lookups).toBe(2);
+  });
+
+  it('remembers an unknown ISBN for a shorter time', async () => {
+    expect(await provider.lookup(new ISBN(UNKNOWN))).toBeNull();
+    expect(await provider.lookup(new ISBN(UNKNOWN))).toBeNull();
+    clock.advance(1_000);
+    await provider.lookup(new ISBN(UNKNOWN));
+
+    expect(source.lookups).toBe(2);
+  });
+
+  it('does not remember failures', async () => {
+    source.down = true;
+    await expect(provider.lookup(new ISBN(KNOWN))).rejects.toThrow('Source unavailable');
+
+    source.down = false;
+    expect(await provider.lookup(new ISBN(KNOWN))).not.toBeNull();
+    expect(source.lookups).toBe(2);
+  });
+
+  it('drops the least recently used entry when full', async () => {
+    await provider.lookup(new ISBN(KNOWN));
+    await provider.lookup(new ISBN(UNKNOWN));
+    await provider.lookup(new ISBN(KNOWN)); // KNOWN is now the most recent
+    await provider.lookup(new ISBN(OTHER)); // Evicts UNKNOWN
+
+    await provider.lookup(new ISBN(KNOWN));
+    await provider.lookup(new ISBN(UNKNOWN));
+
+    expect(source.lookups).toBe(4);
+  });
+});
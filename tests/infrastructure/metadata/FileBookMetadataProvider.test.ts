@@ -0,0 +1,63 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileBookMetadataProvider } from '../../../src/infrastructure/metadata/FileBookMetadataProvider';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+
+describe('FileBookMetadataProvider', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'metadata-'));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Provider over a file with the given content */
+  function providerOf(content: string): FileBookMetadataProvider {
+    const path = join(dir, `${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(path, content);
+    return new FileBookMetadataProvider(path);
+  }
+
+  it('finds the records of the default file by canonical ISBN', async () => {
+    const provider = new FileBookMetadataProvider();
+
+    const record = await provider.lookup(new ISBN('9784873115658'));
+
+    expect(record).toMatchObject({
+      isbn: '9784873115658',
+      title: 'The Art of Readable Code',
+      authors: ['Dustin Boswell', 'Trevor Foucher'],
+      publicationYear: 2012,
+      language: 'jpn',
+    });
+    expect(await provider.lookup(new ISBN('9780262033848'))).toBeNull();
+  });
+
+  it('fills omitted fields with null or empty lists', async () => {
+    const provider = providerOf('{ "0-306-40615-2": { "title": "Only a title" } }');
+
+    expect(await provider.lookup(new ISBN('9780306406157'))).toEqual({
+      isbn: '9780306406157',
+      title: 'Only a title',
+      authors: [],
+      publisher: null,
+      publicationYear: null,
+      edition: null,
+      language: null,
+      coverUrl: null,
+      subjects: [],
+    });
+  });
+
+  it('names the file when it is missing or malformed', async () => {
+    const isbn = new ISBN('9780306406157');
+    const missing = new FileBookMetadataProvider(join(dir, 'missing.json'));
+
+    await expect(missing.lookup(isbn)).rejects.toThrow(/Cannot read book metadata file .*missing/);
+    await expect(providerOf('[]').lookup(isbn)).rejects.toThrow(/object keyed by ISBN/);
+    await expect(providerOf('{ "123": { "title": "x" } }').lookup(isbn)).rejects.toThrow(
+      /invalid entry "123"/
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { OpenLibraryMetadataProvider } from '../../../src/infrastructure/metadata/OpenLibraryMetadataProvider';
+import { MetadataUnavailableError } from '../../../src/domain/errors/MetadataErrors';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+
+describe('OpenLibraryMetadataProvider', () => {
+  const isbn = new ISBN('9780306406157');
+
+  /** Provider whose requests are answered by `answer`, recording the URLs */
+  function providerAnswering(answer: () => Promise<Response>, urls: string[] = []) {
+    const fetchFn = async (url: string | URL | Request) => {
+      urls.push(String(url));
+      return answer();
+    };
+    return new OpenLibraryMetadataProvider(
+      { baseUrl: 'http://books.test' },
+      fetchFn as typeof fetch
+    );
+  }
+
+  it('maps a record of the Books API', async () => {
+    const urls: string[] = [];
+    const provider = providerAnswering(
+      async () =>
+        Response.json({
+          'ISBN:9780306406157': {
+            title: 'Problems',
+            subtitle: 'in Modern Physics',
+            authors: [{ name: 'A. N. Author' }, {}],
+            publishers: [{ name: 'Plenum Press' }],
+            publish_date: 'March 1979',
+            edition_name: '2nd ed.',
+            languages: [{ key: '/languages/eng' }],
+            cover: { small: 'http://covers.test/s.jpg', large: 'http://covers.test/l.jpg' },
+            subjects: [{ name: 'Physics' }],
+          },
+        }),
+      urls
+    );
+
+    expect(await provider.lookup(isbn)).toEqual({
+      isbn: '9780306406157',
+      title: 'Problems: in Modern Physics',
+      authors: ['A. N. Author'],
+      publisher: 'Plenum Press',
+      publicationYear: 1979,
+      edition: '2nd ed.',
+      language: 'eng',
+      coverUrl: 'http://covers.test/l.jpg',
+      subjects: ['Physics'],
+    });
+    expect(urls).toEqual([
+      'http://books.test/api/books?bibkeys=ISBN:9780306406157&format=json&jscmd=data',
+    ]);
+  });
+
+  it('reports an ISBN missing from the answer as unknown', async () => {
+    const provider = providerAnswering(async () => Response.json({}));
+
+    expect(await provider.lookup(isbn)).toBeNull();
+  });
+
+  it('reports error statuses, network errors and malformed answers as unavailable', async () => {
+    const answers = [
+      async () => new Response('busy', { status: 503 }),
+      async () => Promise.reject(new TypeError('fetch failed')),
+      async () => new Response('not json'),
+      async () => Response.json(null),
+    ];
+
+    for (const answer of answers) {
+      await expect(providerAnswering(answer).lookup(isbn)).rejects.toBeInstanceOf(
+        MetadataUnavailableError
+      );
+    }
+    await expect(providerAnswering(answers[0]!).lookup(isbn)).rejects.toThrow(/HTTP 503/);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonlFileOutboxPublisher } from '../../../src/infrastructure/outbox/JsonlFileOutboxPublisher';
+import { OutboxMessage } from '../../../src/infrastructure/outbox/OutboxMessage';
+
+describe('JsonlFileOutboxPublisher', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'outbox-'));
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per message', async () => {
+    const path = join(dir, 'outbox.jsonl');
+    const publisher = new JsonlFileOutboxPublisher(path);
+    const message = (id: string): OutboxMessage => ({
+      id,
+      eventType: 'BookBorrowed',
+      aggregateType: 'Book',
+      aggregateId: 'book-1',
+      payload: { bookId: 'book-1' },
+      occurredAt: new Date('2024-01-01T00:00:00Z'),
+      attempts: 2,
+    });
+
+    await publisher.publish(message('e1'));
+    await publisher.publish(message('e2'));
+
+    const lines = readFileSync(path, 'utf8').trimEnd().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        id: 'e1',
+        eventType: 'BookBorrowed',
+        aggregateType: 'Book',
+        aggregateId: 'book-1',
+        occurredAt: '2024-01-01T00:00:00.000Z',
+        payload: { bookId: 'book-1' },
+      },
+      expect.objectContaining({ id: 'e2' }),
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OutboxRelay } from '../../../src/infrastructure/outbox/OutboxRelay';
+import { IOutboxStore } from '../../../src/infrastructure/outbox/IOutboxStore';
+import { IOutboxPublisher } from '../../../src/infrastructure/outbox/IOutboxPublisher';
+import { OutboxMessage } from '../../../src/infrastructure/outbox/OutboxMessage';
+import { InMemoryOutboxPublisher } from '../../../src/infrastructure/outbox/InMemoryOutboxPublisher';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+interface StoredMessage extends OutboxMessage {
+  deliveredAt: Date | null;
+  nextAttemptAt: Date;
+  lastError: string | null;
+}
+
+/**
+ * IOutboxStore over a list, with the ordering rules of PrismaOutboxStore
+ */
+class ListOutboxStore implements IOutboxStore {
+  readonly messages: StoredMessage[] = [];
+
+  add(id: string, aggregateId: string, clock: TestClock): void {
+    this.messages.push({
+      id,
+      eventType: 'BookBorrowed',
+      aggregateType: 'Book',
+      aggregateId,
+      payload: { id },
+      occurredAt: clock.now(),
+      attempts: 0,
+      deliveredAt: null,
+      nextAttemptAt: clock.now(),
+      lastError: null,
+    });
+  }
+
+  async findPending(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const pending = this.messages.filter((message) => message.deliveredAt === null);
+    const oldest = new Map<string, StoredMessage>();
+    for (const message of pending) {
+      oldest.set(message.aggregateId, oldest.get(message.aggregateId) ?? message);
+    }
+    return pending
+      .filter((message) => message.nextAttemptAt <= now)
+      .filter((message) => oldest.get(message.aggregateId)!.nextAttemptAt <= now)
+      .slice(0, limit);
+  }
+
+  async markDelivered(id: string, deliveredAt: Date): Promise<void> {
+    this.find(id).deliveredAt = deliveredAt;
+  }
+
+  async markFailed(id: string, nextAttemptAt: Date, error: string): Promise<void> {
+    const message = this.find(id);
+    message.attempts++;
+    message.nextAttemptAt = nextAttemptAt;
+    message.lastError = error;
+  }
+
+  find(id: string): StoredMessage {
+    return this.messages.find((message) => message.id === id)!;
+  }
+}
+
+/** Publisher failing while `down` is set */
+class FlakyPublisher implements IOutboxPublisher {
+  readonly inner = new InMemoryOutboxPublisher();
+  down = new Set<string>();
+
+  async publish(message: OutboxMessage): Promise<void> {
+    if (this.down.has(message.id)) {
+      throw new Error('Broker unavailable');
+    }
+    await this.inner.publish(message);
+  }
+}
+
+describe('OutboxRelay', () => {
+  let clock: TestClock;
+  let store: ListOutboxStore;
+  let publisher: FlakyPublisher;
+  let errors: string[];
+  let relay: OutboxRelay;
+
+  beforeEach(() => {
+    clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    store = new ListOutboxStore();
+    publisher = new FlakyPublisher();
+    errors = [];
+    relay = new OutboxRelay(
+      store,
+      publisher,
+      clock,
+      { baseBackoffMs: 1000, maxBackoffMs: 5000 },
+      (error, message) => errors.push(`${message?.id}: ${(error as Error).message}`)
+    );
+  });
+
+  /** IDs published so far */
+  function published(): string[] {
+    return publisher.inner.published.map((message) => message.id);
+  }
+
+  it('publishes pending messages in order and marks them delivered', async () => {
+    store.add('e1', 'book-1', clock);
+    store.add('e2', 'book-2', clock);
+
+    const result = await relay.relayOnce();
+
+    expect(result).toEqual({ delivered: 2, failed: 0 });
+    expect(published()).toEqual(['e1', 'e2']);
+    expect(store.find('e1').deliveredAt).toEqual(clock.now());
+    expect(await relay.relayOnce()).toEqual({ delivered: 0, failed: 0 });
+  });
+
+  it('holds back later messages of an aggregate whose message failed', async () => {
+    store.add('e1', 'book-1', clock);
+    store.add('e2', 'book-1', clock);
+    store.add('e3', 'book-2', clock);
+    publisher.down.add('e1');
+
+    const result = await relay.relayOnce();
+
+    expect(result).toEqual({ delivered: 1, failed: 1 });
+    expect(published()).toEqual(['e3']);
+    expect(store.find('e1')).toMatchObject({ attempts: 1, lastError: 'Broker unavailable' });
+    expect(errors).toEqual(['e1: Broker unavailable']);
+  });
+
+  it('retries with exponential backoff up to the maximum', async () => {
+    store.add('e1', 'book-1', clock);
+    publisher.down.add('e1');
+    const start = clock.now().getTime();
+
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await relay.relayOnce();
+      delays.push(store.find('e1').nextAttemptAt.getTime() - clock.now().getTime());
+      clock.advance(delays[attempt]!);
+    }
+
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+    expect(await relay.relayOnce()).toEqual({ delivered: 0, failed: 1 });
+    expect(clock.now().getTime() - start).toBe(12000);
+  });
+
+  it('delivers a failed message and its successors once the retry succeeds', async () => {
+    store.add('e1', 'book-1', clock);
+    store.add('e2', 'book-1', clock);
+    publisher.down.add('e1');
+    await relay.relayOnce();
+
+    publisher.down.clear();
+    expect(await relay.relayOnce()).toEqual({ delivered: 0, failed: 0 });
+    clock.advance(1000);
+
+    expect(await relay.relayOnce()).toEqual({ delivered: 2, failed: 0 });
+    expect(published()).toEqual(['e1', 'e2']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventSourcedBookRepository } from '../../../src/infrastructure/persistence/EventSourcedBookRepository';
+import { InMemoryEventStore } from '../../../src/infrastructure/eventStore/InMemoryEventStore';
+import { InMemoryBookLookup } from '../../../src/infrastructure/eventStore/InMemoryBookLookup';
+import { InMemoryTitleRepository } from '../../../src/infrastructure/persistence/InMemoryTitleRepository';
+import { InMemoryUserRepository } from '../../../src/infrastructure/persistence/InMemoryUserRepository';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+import { Book, BookStatus } from '../../../src/domain/entities/Book';
+import { Title } from '../../../src/domain/entities/Title';
+import { Barcode } from '../../../src/domain/valueObjects/Barcode';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { repositoryContract } from './repositoryContract';
+
+repositoryContract('Event-sourced', async () => {
+  const titles = new InMemoryTitleRepository();
+  return {
+    titles,
+    books: new EventSourcedBookRepository(
+      new InMemoryEventStore(),
+      new InMemoryBookLookup(),
+      titles
+    ),
+    users: new InMemoryUserRepository(),
+  };
+});
+
+describe('EventSourcedBookRepository', () => {
+  const ISBN_A = '9780306406157';
+  const READER = UserId.create('12345678');
+
+  let clock: TestClock;
+  let eventStore: InMemoryEventStore;
+  let books: EventSourcedBookRepository;
+  let title: Title;
+
+  beforeEach(async () => {
+    clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    eventStore = new InMemoryEventStore();
+    const titles = new InMemoryTitleRepository();
+    books = new EventSourcedBookRepository(eventStore, new InMemoryBookLookup(), titles, 2);
+    title = Title.create(ISBN_A, 'Title', 'Author', clock);
+    await titles.save(title);
+  });
+
+  /** Register a copy, then borrow and return it `loans` times, a day per step */
+  async function lend(barcode: string, loans: number): Promise<Book> {
+    let book = Book.create(title, barcode, clock);
+    await books.save(book);
+    for (let loan = 0; loan < loans; loan++) {
+      clock.advanceDays(1);
+      book = (await books.findById(book.id))!;
+      await books.save(book.borrow(READER, 14, clock));
+      clock.advanceDays(1);
+      book = (await books.findById(book.id))!;
+      await books.save(book.returnBook(clock));
+    }
+    return (await books.findById(book.id))!;
+  }
+
+  it('rebuilds a book from its stream, one version per event', async () => {
+    const book = await lend('LIB-0001', 2);
+
+    expect(book.version).toBe(5);
+    expect(book.status).toBe(BookStatus.AVAILABLE);
+    expect(await eventStore.readStream(book.id)).toHaveLength(5);
+  });
+
+  it('replays only the events after the latest snapshot', async () => {
+    const book = await lend('LIB-0001', 2);
+    const readStream = vi.spyOn(eventStore, 'readStream');
+
+    const loaded = await books.findById(book.id);
+
+    expect((await eventStore.loadSnapshot(book.id))?.version).toBe(4);
+    expect(readStream).toHaveBeenCalledWith(book.id, 4);
+    expect(loaded?.version).toBe(5);
+    expect(loaded?.barcode.getValue()).toBe('LIB-0001');
+  });
+
+  it('tells the status of a book at an earlier time', async () => {
+    const registeredAt = clock.now();
+    const book = await lend('LIB-0001', 1);
+    const borrowedAt = new Date(registeredAt.getTime() + 24 * 60 * 60 * 1000);
+
+    expect(await books.statusAt(book.id, new Date(registeredAt.getTime() - 1))).toBeNull();
+    expect(await books.statusAt(book.id, registeredAt)).toBe(BookStatus.AVAILABLE);
+    expect(await books.statusAt(book.id, borrowedAt)).toBe(BookStatus.BORROWED);
+    expect((await books.findAsOf(book.id, borrowedAt))?.borrowedBy?.equals(READER)).toBe(true);
+    expect(await books.statusAt(book.id, clock.now())).toBe(BookStatus.AVAILABLE);
+  });
+
+  it('finds books by barcode, ISBN and status without replaying other streams', async () => {
+    const first = await lend('LIB-0001', 0);
+    const second = await lend('LIB-0002', 0);
+    await books.save(second.borrow(READER, 14, clock));
+    const readStream = vi.spyOn(eventStore, 'readStream');
+
+    const byBarcode = await books.findByBarcode(Barcode.create('LIB-0001'));
+    expect(byBarcode?.id).toBe(first.id);
+    expect(readStream.mock.calls.map(([id]) => id)).toEqual([first.id]);
+
+    const borrowed = await books.findByStatus(BookStatus.BORROWED);
+    expect(borrowed.map((book) => book.id)).toEqual([second.id]);
+
+    const byBarcodes = await books.findByBarcodes([
+      Barcode.create('LIB-0002'),
+      Barcode.create('LIB-9999'),
+    ]);
+    expect(byBarcodes.map((book) => book.id)).toEqual([second.id]);
+    expect(await books.findByISBNs([new ISBN(ISBN_A)])).toHaveLength(2);
+  });
+
+  it('drops a deleted book from the lookups', async () => {
+    const book = await lend('LIB-0001', 0);
+
+    await books.delete(book.id);
+
+    expect(await books.findByBarcode(Barcode.create('LIB-0001'))).toBeNull();
+    expect(await books.findAll()).toEqual([]);
+    await expect(books.save(Book.create(title, 'LIB-0001', clock))).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,13 @@
+import { InMemoryTitleRepository } from '../../../src/infrastructure/persistence/InMemoryTitleRepository';
+import { InMemoryBookRepository } from '../../../src/infrastructure/persistence/InMemoryBookRepository';
+import { InMemoryUserRepository } from '../../../src/infrastructure/persistence/InMemoryUserRepository';
+import { repositoryContract } from './repositoryContract';
+
+repositoryContract('In-memory', async () => {
+  const titles = new InMemoryTitleRepository();
+  return {
+    titles,
+    books: new InMemoryBookRepository(titles),
+    users: new InMemoryUserRepository(),
+  };
+});
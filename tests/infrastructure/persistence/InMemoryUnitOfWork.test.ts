@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createInMemoryLibrary, addCopy, addMember } from '../../support/inMemoryLibrary';
+import { BookStatus } from '../../../src/domain/entities/Book';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+
+describe('InMemoryUnitOfWork', () => {
+  it('keeps the writes of work that resolves', async () => {
+    const library = createInMemoryLibrary();
+    const userId = await addMember(library, 'reader@example.com');
+
+    await library.unitOfWork.run(async ({ userRepository }) => {
+      const user = (await userRepository.findById(userId))!;
+      await userRepository.save(user.suspend(library.clock));
+    });
+
+    const user = await library.repositories.userRepository.findById(userId);
+    expect(user?.version).toBe(2);
+  });
+
+  it('rolls back every repository when the work throws', async () => {
+    const library = createInMemoryLibrary();
+    const userId = await addMember(library, 'reader@example.com');
+    const bookId = await addCopy(library, 'LIB-0001');
+
+    await expect(
+      library.unitOfWork.run(async ({ userRepository, bookRepository }) => {
+        const user = (await userRepository.findById(userId))!;
+        const book = (await bookRepository.findById(bookId))!;
+        await userRepository.save(user.suspend(library.clock));
+        await bookRepository.save(book.borrow(UserId.create('12345678'), 14, library.clock));
+        throw new Error('Connection lost');
+      })
+    ).rejects.toThrow('Connection lost');
+
+    const { userRepository, bookRepository } = library.repositories;
+    expect((await userRepository.findById(userId))?.version).toBe(1);
+    expect((await bookRepository.findById(bookId))?.status).toBe(BookStatus.AVAILABLE);
+  });
+
+  it('runs units of work one at a time', async () => {
+    const library = createInMemoryLibrary();
+    const order: string[] = [];
+
+    await Promise.all([
+      library.unitOfWork.run(async () => {
+        order.push('first:start');
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        order.push('first:end');
+      }),
+      library.unitOfWork.run(async () => {
+        order.push('second:start');
+      }),
+    ]);
+
+    expect(order).toEqual(['first:start', 'first:end', 'second:start']);
+  });
+});
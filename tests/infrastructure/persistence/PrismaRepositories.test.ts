@@ -0,0 +1,35 @@
+/**
+ * Runs the repository contract against Postgres. Needs DATABASE_URL
+ * pointing at a disposable database with the schema applied
+ * (`npx prisma db push`); every table it touches is emptied
+ * before each test. Skipped when DATABASE_URL is not set.
+ */
+
+import { describe, afterAll } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { PrismaTitleRepository } from '../../../src/infrastructure/persistence/PrismaTitleRepository';
+import { MySQLBookRepository } from '../../../src/infrastructure/persistence/MySQLBookRepository';
+import { PrismaUserRepository } from '../../../src/infrastructure/persistence/PrismaUserRepository';
+import { repositoryContract } from './repositoryContract';
+
+describe.skipIf(!process.env.DATABASE_URL)('Prisma repositories', () => {
+  let prisma: PrismaClient | undefined;
+
+  repositoryContract('Prisma', async () => {
+    prisma ??= new PrismaClient();
+    await prisma.outboxMessage.deleteMany();
+    await prisma.book.deleteMany();
+    await prisma.title.deleteMany();
+    await prisma.user.deleteMany();
+
+    return {
+      titles: new PrismaTitleRepository(prisma),
+      books: new MySQLBookRepository(prisma),
+      users: new PrismaUserRepository(prisma),
+    };
+  });
+
+  afterAll(async () => {
+    await prisma?.$disconnect();
+  });
+});
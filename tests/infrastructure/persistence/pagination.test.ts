@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  paginate,
+  encodeCursor,
+  decodeCursor,
+} from '../../../src/infrastructure/persistence/pagination';
+import { Page } from '../../../src/domain/repositories/PageQuery';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+
+interface Item {
+  id: string;
+  rank: number;
+}
+
+describe('pagination', () => {
+  // Ranks with a tie (b and c), listed out of order
+  const items: Item[] = [
+    { id: 'c', rank: 2 },
+    { id: 'a', rank: 1 },
+    { id: 'd', rank: 3 },
+    { id: 'b', rank: 2 },
+  ];
+  const rank = (item: Item) => item.rank;
+  const id = (item: Item) => item.id;
+
+  it('pages by offset, ordering ties by ID', () => {
+    const ascending = { field: 'rank', direction: 'asc' } as const;
+    const page = paginate(items, ascending, { limit: 2, offset: 1, withTotal: true }, rank, id);
+
+    expect(page.items.map(id)).toEqual(['b', 'c']);
+    expect(page.totalCount).toBe(4);
+    expect(page.nextCursor).not.toBeNull();
+  });
+
+  it('counts the matching items only when asked to', () => {
+    const page = paginate(items, { field: 'rank', direction: 'asc' }, { limit: 2 }, rank, id);
+
+    expect(page.totalCount).toBeNull();
+  });
+
+  it('walks every item once by cursor, in either direction', () => {
+    for (const direction of ['asc', 'desc'] as const) {
+      const seen: string[] = [];
+      let after: string | null = null;
+      do {
+        const page: Page<Item> = paginate(
+          items,
+          { field: 'rank', direction },
+          { limit: 3, ...(after && { after }) },
+          rank,
+          id
+        );
+        seen.push(...page.items.map(id));
+        after = page.nextCursor;
+      } while (after);
+
+      const ascending = ['a', 'b', 'c', 'd'];
+      expect(seen).toEqual(direction === 'asc' ? ascending : ascending.reverse());
+    }
+  });
+
+  it('ends with a null cursor', () => {
+    const page = paginate(items, { field: 'rank', direction: 'asc' }, { limit: 4 }, rank, id);
+
+    expect(page.items).toHaveLength(4);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('round-trips cursors and rejects malformed ones', () => {
+    expect(decodeCursor(encodeCursor(1704067200000, 'book-1'))).toEqual([1704067200000, 'book-1']);
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() => decodeCursor(Buffer.from('[1]').toString('base64url'))).toThrow(ValidationError);
+  });
+});
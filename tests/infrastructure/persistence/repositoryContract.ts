@@ -0,0 +1,221 @@
+/**
+ * Repository Contract Suite
+ *
+ * Behavior every IBookRepository / IUserRepository implementation must
+ * share, so the in-memory repositories can stand in for the Prisma ones:
+ * lookups by status and fee balance, unique ISBN (title), barcode and
+ * email, ordering, and optimistic concurrency on save.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IBookRepository } from '../../../src/domain/repositories/IBookRepository';
+import { ITitleRepository } from '../../../src/domain/repositories/ITitleRepository';
+import { IUserRepository } from '../../../src/domain/repositories/IUserRepository';
+import { Book, BookStatus } from '../../../src/domain/entities/Book';
+import { Title } from '../../../src/domain/entities/Title';
+import { User, UserStatus, MemberCategory } from '../../../src/domain/entities/User';
+import { ISBN } from '../../../src/domain/valueObjects/ISBN';
+import { Barcode } from '../../../src/domain/valueObjects/Barcode';
+import { UserId } from '../../../src/domain/valueObjects/UserId';
+import { Money } from '../../../src/domain/valueObjects/Money';
+import { ConcurrencyConflictError } from '../../../src/domain/errors/ConcurrencyConflictError';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+export interface RepositoryFixture {
+  titles: ITitleRepository;
+  books: IBookRepository;
+  users: IUserRepository;
+}
+
+const ISBN_A = '9780306406157';
+const ISBN_B = '9784873115658';
+
+/**
+ * Run the contract against the repositories returned by a fresh (empty) fixture
+ * @param name - Implementation under test
+ * @param createFixture - Called before each test
+ */
+export function repositoryContract(
+  name: string,
+  createFixture: () => Promise<RepositoryFixture>
+): void {
+  describe(`${name} repository contract`, () => {
+    let repos: RepositoryFixture;
+    let clock: TestClock;
+
+    beforeEach(async () => {
+      repos = await createFixture();
+      clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    });
+
+    /** Save a title with copies, one minute apart, oldest first */
+    async function catalog(isbn: string, ...barcodes: string[]): Promise<Book[]> {
+      const title = Title.create(isbn, `Title ${isbn}`, 'Author', clock);
+      await repos.titles.save(title);
+
+      const books: Book[] = [];
+      for (const barcode of barcodes) {
+        clock.advance(60_000);
+        const book = Book.create(title, barcode, clock);
+        await repos.books.save(book);
+        books.push(book);
+      }
+      return books;
+    }
+
+    /** Save a user created now, with a fee balance */
+    async function member(email: string, feeMinorUnits = 0): Promise<User> {
+      clock.advance(60_000);
+      const created = User.create('Member', email, clock);
+      const user = User.reconstruct(
+        created.id,
+        created.name,
+        created.email,
+        UserStatus.ACTIVE,
+        MemberCategory.ADULT,
+        0,
+        Money.of(feeMinorUnits),
+        created.createdAt,
+        0
+      );
+      await repos.users.save(user);
+      return user;
+    }
+
+    describe('books', () => {
+      it('finds a saved book by ID, barcode and ISBN', async () => {
+        const [book] = await catalog(ISBN_A, 'LIB-0001');
+
+        expect((await repos.books.findById(book!.id))?.barcode.getValue()).toBe('LIB-0001');
+        expect((await repos.books.findByBarcode(Barcode.create('LIB-0001')))?.id).toBe(book!.id);
+        expect((await repos.books.findByISBN(new ISBN(ISBN_A))).map((b) => b.id)).toEqual([
+          book!.id,
+        ]);
+        expect(await repos.books.findById('00000000-0000-4000-8000-000000000000')).toBeNull();
+      });
+
+      it('enforces a unique barcode', async () => {
+        const [book] = await catalog(ISBN_A, 'LIB-0001');
+        const title = (await repos.titles.findByISBN(book!.isbn))!;
+
+        await expect(repos.books.save(Book.create(title, 'LIB-0001', clock))).rejects.toThrow();
+      });
+
+      it('enforces a unique ISBN per title', async () => {
+        await catalog(ISBN_A);
+
+        await expect(
+          repos.titles.save(Title.create(ISBN_A, 'Other', 'Other', clock))
+        ).rejects.toThrow();
+      });
+
+      it('keeps the publication details of a title', async () => {
+        const details = { publisher: 'Addison-Wesley', publicationYear: 2003, subjects: ['DDD'] };
+        await repos.titles.save(Title.create(ISBN_A, 'Title', 'Author', clock, details));
+
+        expect((await repos.titles.findByISBN(new ISBN(ISBN_A)))?.details).toEqual({
+          ...details,
+          edition: null,
+          language: null,
+          coverUrl: null,
+        });
+      });
+
+      it('orders copies most recently registered first', async () => {
+        const [first, second] = await catalog(ISBN_A, 'LIB-0001', 'LIB-0002');
+        const [third] = await catalog(ISBN_B, 'LIB-0003');
+
+        expect((await repos.books.findAll()).map((book) => book.id)).toEqual([
+          third!.id,
+          second!.id,
+          first!.id,
+        ]);
+        expect((await repos.books.findByISBN(new ISBN(ISBN_A))).map((book) => book.id)).toEqual([
+          second!.id,
+          first!.id,
+        ]);
+      });
+
+      it('finds books by status', async () => {
+        const [first, second, third] = await catalog(ISBN_A, 'LIB-0001', 'LIB-0002', 'LIB-0003');
+        const userId = UserId.create('12345678');
+        for (const book of [first!, third!]) {
+          const loaded = (await repos.books.findById(book.id))!;
+          await repos.books.save(loaded.borrow(userId, 14, clock));
+        }
+
+        const borrowed = await repos.books.findByStatus(BookStatus.BORROWED);
+        expect(borrowed.map((book) => book.id)).toEqual([third!.id, first!.id]);
+        expect(borrowed.every((book) => book.borrowedBy?.equals(userId))).toBe(true);
+        expect((await repos.books.findByStatus(BookStatus.AVAILABLE)).map((b) => b.id)).toEqual([
+          second!.id,
+        ]);
+      });
+
+      it('rejects a save from a stale version', async () => {
+        const [book] = await catalog(ISBN_A, 'LIB-0001');
+        const loaded = (await repos.books.findById(book!.id))!;
+        const userId = UserId.create('12345678');
+
+        await repos.books.save(loaded.borrow(userId, 14, clock));
+
+        await expect(repos.books.save(loaded.borrow(userId, 14, clock))).rejects.toBeInstanceOf(
+          ConcurrencyConflictError
+        );
+        expect((await repos.books.findById(book!.id))?.version).toBe(loaded.version + 1);
+      });
+    });
+
+    describe('users', () => {
+      it('finds a saved user by ID and email', async () => {
+        const user = await member('reader@example.com');
+
+        expect((await repos.users.findById(user.id))?.email).toBe('reader@example.com');
+        expect((await repos.users.findByEmail('reader@example.com'))?.id.equals(user.id)).toBe(
+          true
+        );
+        expect(await repos.users.findByEmail('nobody@example.com')).toBeNull();
+      });
+
+      it('enforces a unique email', async () => {
+        await member('reader@example.com');
+
+        await expect(member('reader@example.com')).rejects.toThrow();
+      });
+
+      it('orders users most recently created first', async () => {
+        const first = await member('first@example.com');
+        const second = await member('second@example.com');
+
+        expect((await repos.users.findAll()).map((user) => user.id.getValue())).toEqual([
+          second.id.getValue(),
+          first.id.getValue(),
+        ]);
+      });
+
+      it('finds users with overdue fees, highest balance first', async () => {
+        await member('clear@example.com');
+        const low = await member('low@example.com', 100);
+        const high = await member('high@example.com', 2500);
+
+        const owing = await repos.users.findUsersWithOverdueFees();
+        expect(owing.map((user) => user.id.getValue())).toEqual([
+          high.id.getValue(),
+          low.id.getValue(),
+        ]);
+        expect(owing[0]?.overdueFees.equals(Money.of(2500))).toBe(true);
+      });
+
+      it('rejects a save from a stale version', async () => {
+        const user = await member('reader@example.com');
+        const loaded = (await repos.users.findById(user.id))!;
+
+        await repos.users.save(loaded.suspend(clock));
+
+        await expect(repos.users.save(loaded.suspend(clock))).rejects.toBeInstanceOf(
+          ConcurrencyConflictError
+        );
+      });
+    });
+  });
+}
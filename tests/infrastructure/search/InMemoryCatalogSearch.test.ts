@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryCatalogSearch } from '../../../src/infrastructure/search/InMemoryCatalogSearch';
+import { InMemoryTitleRepository } from '../../../src/infrastructure/persistence/InMemoryTitleRepository';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+import { Title } from '../../../src/domain/entities/Title';
+
+describe('InMemoryCatalogSearch', () => {
+  let search: InMemoryCatalogSearch;
+
+  beforeEach(async () => {
+    const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+    const titles = new InMemoryTitleRepository();
+    search = new InMemoryCatalogSearch(titles);
+
+    for (const [isbn, title, author] of [
+      ['9780306406157', 'Cien años de soledad', 'Gabriel García Márquez'],
+      ['9784873115658', 'Garden Design', 'Ana Pérez'],
+      ['9780262033848', 'Introduction to Algorithms', 'Thomas Cormen'],
+    ] as const) {
+      await titles.save(Title.create(isbn, title, author, clock));
+    }
+  });
+
+  /** Titles found, best match first */
+  async function find(text: string, limit = 10): Promise<string[]> {
+    return (await search.search(text, limit)).map((match) => match.title.title);
+  }
+
+  it('matches words of the title and author regardless of case and accents', async () => {
+    expect(await find('ANOS soledad')).toEqual(['Cien años de soledad']);
+    expect(await find('garcia marquez')).toEqual(['Cien años de soledad']);
+    expect(await find('perez')).toEqual(['Garden Design']);
+  });
+
+  it('requires every word to match', async () => {
+    expect(await find('algorithms soledad')).toEqual([]);
+    expect(await find('   ')).toEqual([]);
+  });
+
+  it('ranks title over author and whole words over word beginnings', async () => {
+    // "garden" is a whole title word; "garcia" only begins with "gar"
+    expect(await find('gar')).toEqual(['Garden Design', 'Cien años de soledad']);
+
+    const [title, author] = await search.search('gar', 10);
+    expect(title!.rank).toBeGreaterThan(author!.rank);
+    expect((await search.search('garden', 10))[0]!.rank).toBeGreaterThan(title!.rank);
+  });
+
+  it('finds a title by a hyphenated ISBN and honours the limit', async () => {
+    expect(await find('978-0-262-03384-8')).toEqual(['Introduction to Algorithms']);
+    expect(await find('gar', 1)).toEqual(['Garden Design']);
+  });
+});
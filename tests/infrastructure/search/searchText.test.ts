@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { foldText, tokenize } from '../../../src/infrastructure/search/searchText';
+
+describe('searchText', () => {
+  it('folds case and diacritics', () => {
+    expect(foldText('García Márquez')).toBe('garcia marquez');
+  });
+
+  it('splits on anything but letters and digits', () => {
+    expect(tokenize("  Cien años de soledad: Gabo's classic ")).toEqual([
+      'cien',
+      'anos',
+      'de',
+      'soledad',
+      'gabo',
+      's',
+      'classic',
+    ]);
+  });
+
+  it('keeps a hyphenated ISBN as one token', () => {
+    expect(tokenize('978-4-87311-565-8')).toEqual(['9784873115658']);
+    expect(tokenize('0-8044-2957-X')).toEqual(['080442957x']);
+  });
+});
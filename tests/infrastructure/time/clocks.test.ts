@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+import { FixedClock } from '../../../src/infrastructure/time/FixedClock';
+import { SystemClock } from '../../../src/infrastructure/time/SystemClock';
+
+describe('TestClock', () => {
+  it('only moves when advanced', () => {
+    const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+
+    expect(clock.now().toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    clock.advanceDays(34);
+    expect(clock.now().toISOString()).toBe('2024-02-04T00:00:00.000Z');
+    clock.advance(1000);
+    expect(clock.now().toISOString()).toBe('2024-02-04T00:00:01.000Z');
+  });
+
+  it('cannot move backwards with advance', () => {
+    const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+
+    expect(() => clock.advance(-1)).toThrow('Clock cannot move backwards');
+  });
+
+  it('hands out copies that callers cannot use to move it', () => {
+    const clock = new TestClock(new Date('2024-01-01T00:00:00Z'));
+
+    clock.now().setUTCFullYear(2030);
+    expect(clock.now().getUTCFullYear()).toBe(2024);
+  });
+});
+
+describe('FixedClock', () => {
+  it('always returns the same instant', () => {
+    const clock = new FixedClock(new Date('2023-06-15T12:00:00Z'));
+
+    expect(clock.now().toISOString()).toBe('2023-06-15T12:00:00.000Z');
+    expect(clock.now().getTime()).toBe(clock.now().getTime());
+  });
+});
+
+describe('SystemClock', () => {
+  it('returns the current time', () => {
+    const before = Date.now();
+    const now = new SystemClock().now().getTime();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createContainer, Container } from '../../../src/main/container';
+import {
+  LibraryCli,
+  ExitCode,
+  parseCliArguments,
+} from '../../../src/presentation/cli/LibraryCli';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('LibraryCli', () => {
+  const REGISTER = ['book', 'register', '--isbn', '9780306406157', '--barcode', 'LIB-0001'];
+  const CATALOG = ['--title', 'Signals', '--author', 'A. Author'];
+  let container: Container;
+  let cli: LibraryCli;
+  let out: string[];
+  let err: string[];
+
+  beforeEach(async () => {
+    container = await createContainer({
+      storage: 'memory',
+      clock: new TestClock(new Date('2024-01-01T00:00:00Z')),
+    });
+    out = [];
+    err = [];
+    cli = new LibraryCli(container.useCases, {
+      out: (text) => out.push(text),
+      err: (text) => err.push(text),
+    });
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  /** Run a command line, with the captured output reset */
+  async function run(...argv: string[]): Promise<ExitCode> {
+    out.length = 0;
+    err.length = 0;
+    return cli.run(parseCliArguments(argv));
+  }
+
+  /** Run a command with --json and parse what it printed */
+  async function runJson(...argv: string[]): Promise<Record<string, unknown>> {
+    await run(...argv, '--json');
+    return JSON.parse(out.join('\n')) as Record<string, unknown>;
+  }
+
+  it('registers a book and prints it as a table', async () => {
+    const exitCode = await run(...REGISTER, ...CATALOG);
+
+    expect(exitCode).toBe(ExitCode.SUCCESS);
+    const lines = out.join('\n').split('\n');
+    expect(lines[0]).toMatch(/^Field\s+Value$/);
+    expect(lines).toContainEqual(expect.stringMatching(/^barcode\s+LIB-0001$/));
+    expect(lines).toContainEqual(expect.stringMatching(/^title\s+Signals$/));
+  });
+
+  it('lends and takes back a copy, printing JSON with --json', async () => {
+    const book = await runJson(...REGISTER, ...CATALOG);
+    const user = await runJson('user', 'create', '--name', 'Reader', '--email', 'r@example.com');
+    const userId = String(user['userId']);
+    const bookId = String(book['bookId']);
+
+    const borrowed = await runJson('borrow', userId, bookId);
+    expect(borrowed).toMatchObject({ user: { currentBorrowCount: 1 } });
+
+    expect(await run('return', userId, bookId)).toBe(ExitCode.SUCCESS);
+    expect(await run('borrow', userId, bookId)).toBe(ExitCode.SUCCESS);
+  });
+
+  it('exits with FAILED and the error when a business rule refuses', async () => {
+    await run('user', 'create', '--name', 'Reader', '--email', 'r@example.com');
+
+    expect(await run('user', 'create', '--name', 'Again', '--email', 'r@example.com')).toBe(
+      ExitCode.FAILED
+    );
+    expect(err).toEqual([expect.stringMatching(/^Error \[DUPLICATE_EMAIL\]: /)]);
+
+    const error = await runJson('user', 'create', '--name', 'Again', '--email', 'r@example.com');
+    expect(error).toMatchObject({ error: { code: 'DUPLICATE_EMAIL' } });
+  });
+
+  it('exits with INVALID_INPUT for malformed input', async () => {
+    expect(await run('borrow', 'not-an-id', 'book-1')).toBe(ExitCode.INVALID_INPUT);
+    expect(err[0]).toMatch(/^Error \[INVALID_USER_ID\]/);
+    expect(err[1]).toBe('Usage: library borrow <userId> <bookId>');
+
+    expect(await run(...REGISTER.slice(0, 4))).toBe(ExitCode.INVALID_INPUT);
+    expect(err[0]).toBe('Error [VALIDATION_FAILED]: --barcode is required');
+
+    expect(await run('borrow', '12345678')).toBe(ExitCode.INVALID_INPUT);
+    expect(await run('shelve')).toBe(ExitCode.INVALID_INPUT);
+    expect(err[0]).toMatch(/^Unknown command\./);
+  });
+
+  it('prints the usage with --help', async () => {
+    expect(await run('--help')).toBe(ExitCode.SUCCESS);
+    expect(err.join('\n')).toContain('library user suspend <userId>');
+  });
+
+  it('parses the storage and config options read by the entry point', () => {
+    const { options } = parseCliArguments([
+      'overdue',
+      'sweep',
+      '--store',
+      'file',
+      '--policies-file',
+      'policies.json',
+    ]);
+
+    expect(options).toMatchObject({ store: 'file', 'policies-file': 'policies.json' });
+  });
+
+  it('rejects unknown options while parsing', () => {
+    expect(() => parseCliArguments(['borrow', '--shelf', 'A'])).toThrow(/--shelf/);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { formatTable, formatDetails } from '../../../src/presentation/cli/formatTable';
+
+describe('formatTable', () => {
+  it('aligns the columns under a header line', () => {
+    expect(formatTable(['ID', 'Title'], [['1', 'Signals'], ['22', 'Patterns']])).toBe(
+      ['ID  Title', '--  --------', '1   Signals', '22  Patterns'].join('\n')
+    );
+  });
+
+  it('flattens an output DTO into dotted fields', () => {
+    const table = formatDetails({
+      loanId: 'loan-1',
+      user: { name: 'Reader', overdueFees: { minorUnits: 0, formatted: '¥0' } },
+      dueDate: new Date('2024-01-15T00:00:00Z'),
+      overdueFee: undefined,
+    });
+
+    expect(table.split('\n').slice(2)).toEqual([
+      'loanId            loan-1',
+      'user.name         Reader',
+      'user.overdueFees  ¥0',
+      'dueDate           2024-01-15T00:00:00.000Z',
+      'overdueFee        -',
+    ]);
+  });
+});
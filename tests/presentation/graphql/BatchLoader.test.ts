@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { BatchLoader } from '../../../src/presentation/graphql/BatchLoader';
+
+describe('BatchLoader', () => {
+  it('fetches the keys requested in the same tick with one call', async () => {
+    const calls: string[][] = [];
+    const loader = new BatchLoader<string, string>(async (keys) => {
+      calls.push(keys);
+      const found = keys.filter((key) => key !== 'missing');
+      return new Map(found.map((key) => [key, key.toUpperCase()]));
+    });
+
+    const values = await Promise.all([loader.load('a'), loader.load('b'), loader.load('missing')]);
+    const cached = await loader.load('a');
+
+    expect(values).toEqual(['A', 'B', null]);
+    expect(cached).toBe('A');
+    expect(calls).toEqual([['a', 'b', 'missing']]);
+  });
+
+  it('fetches again after clearAll and after a failed batch', async () => {
+    let calls = 0;
+    const loader = new BatchLoader<string, number>(async (keys) => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('Connection lost');
+      }
+      return new Map(keys.map((key) => [key, calls]));
+    });
+
+    await expect(loader.load('a')).rejects.toThrow('Connection lost');
+    expect(await loader.load('a')).toBe(2);
+    loader.clearAll();
+    expect(await loader.load('a')).toBe(3);
+  });
+});
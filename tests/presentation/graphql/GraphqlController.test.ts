@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createContainer, Container } from '../../../src/main/container';
+import { GraphqlController } from '../../../src/presentation/graphql/GraphqlController';
+import { HttpResponse } from '../../../src/presentation/http/HttpTypes';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+describe('GraphqlController', () => {
+  let container: Container;
+  let controller: GraphqlController;
+  let errors: unknown[];
+
+  beforeEach(async () => {
+    container = await createContainer({
+      storage: 'memory',
+      clock: new TestClock(new Date('2024-01-01T00:00:00Z')),
+    });
+    const { useCases, repositories } = container;
+    errors = [];
+    controller = new GraphqlController(
+      {
+        ...repositories,
+        registerBook: useCases.registerBook,
+        createUser: useCases.createUser,
+        borrowBook: useCases.borrowBook,
+        returnBook: useCases.returnBook,
+      },
+      (error) => errors.push(error)
+    );
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  function execute(query: string, variables?: Record<string, unknown>): Promise<HttpResponse> {
+    return controller.execute({
+      method: 'POST',
+      path: '/graphql',
+      params: {},
+      query: new URLSearchParams(),
+      body: { query, ...(variables && { variables }) },
+    });
+  }
+
+  const BORROW = `mutation ($userId: ID!, $bookId: ID!) {
+    borrowBook(userId: $userId, bookId: $bookId) { id }
+  }`;
+
+  /** Data of a query that must succeed */
+  async function data<T>(query: string, variables?: Record<string, unknown>): Promise<T> {
+    const response = await execute(query, variables);
+    expect(response).toMatchObject({ status: 200 });
+    expect(response.body).not.toHaveProperty('errors');
+    return (response.body as { data: T }).data;
+  }
+
+  /** Register a copy of ISBN 9780306406157 */
+  async function register(barcode: string): Promise<string> {
+    const { registerBook } = await data<{ registerBook: { id: string } }>(
+      `mutation ($barcode: String!) {
+        registerBook(input: {
+          isbn: "9780306406157", barcode: $barcode, title: "Signals", author: "A. Author"
+        }) { id }
+      }`,
+      { barcode }
+    );
+    return registerBook.id;
+  }
+
+  /** Register a copy and a member who borrows it */
+  async function lend(barcode: string, email: string): Promise<{ userId: string; bookId: string }> {
+    const bookId = await register(barcode);
+    const { createUser } = await data<{ createUser: { id: string } }>(
+      `mutation ($email: String!) { createUser(input: { name: "Reader", email: $email }) { id } }`,
+      { email }
+    );
+    const ids = { userId: createUser.id, bookId };
+    await data(BORROW, ids);
+    return ids;
+  }
+
+  it('fetches a user with their borrowed books and fee balance in one query', async () => {
+    const { userId } = await lend('LIB-0001', 'reader@example.com');
+
+    const { user } = await data<{ user: unknown }>(
+      `query ($id: ID!) {
+        user(id: $id) {
+          email
+          overdueFees { formatted }
+          borrowedBooks { barcode title status borrowedBy { email } }
+          loans { open dueDate }
+        }
+      }`,
+      { id: userId }
+    );
+
+    expect(user).toEqual({
+      email: 'reader@example.com',
+      overdueFees: { formatted: '¥0' },
+      borrowedBooks: [
+        {
+          barcode: 'LIB-0001',
+          title: 'Signals',
+          status: 'BORROWED',
+          borrowedBy: { email: 'reader@example.com' },
+        },
+      ],
+      loans: [{ open: true, dueDate: '2024-01-15T00:00:00.000Z' }],
+    });
+  });
+
+  it('filters books by status', async () => {
+    await lend('LIB-0001', 'reader@example.com');
+    await register('LIB-0002');
+
+    const { borrowed, all } = await data<{ borrowed: unknown[]; all: unknown[] }>(
+      `{ borrowed: books(status: BORROWED) { barcode } all: books { barcode } }`
+    );
+
+    expect(borrowed).toEqual([{ barcode: 'LIB-0001' }]);
+    expect(all).toHaveLength(2);
+  });
+
+  it('loads the borrowers of several books with one repository call', async () => {
+    await lend('LIB-0001', 'first@example.com');
+    await lend('LIB-0002', 'second@example.com');
+    const findByIds = vi.spyOn(container.repositories.userRepository, 'findByIds');
+
+    const { books } = await data<{ books: { borrowedBy: { email: string } }[] }>(
+      `{ books { borrowedBy { email } } }`
+    );
+
+    expect(books.map((book) => book.borrowedBy.email).sort()).toEqual([
+      'first@example.com',
+      'second@example.com',
+    ]);
+    expect(findByIds).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports domain errors with their code and details', async () => {
+    const { userId, bookId } = await lend('LIB-0001', 'reader@example.com');
+
+    const response = await execute(BORROW, { userId, bookId });
+    const invalidId = await execute(`{ user(id: "abc") { id } }`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      data: null,
+      errors: [{ path: ['borrowBook'], extensions: { code: 'BOOK_UNAVAILABLE' } }],
+    });
+    expect(invalidId.body).toMatchObject({
+      data: { user: null },
+      errors: [{ extensions: { code: 'INVALID_USER_ID' } }],
+    });
+  });
+
+  it('rejects an invalid query with 400 and masks unexpected errors', async () => {
+    const invalid = await execute(`{ book { id } }`);
+    vi.spyOn(container.repositories.userRepository, 'findUsersWithOverdueFees').mockRejectedValue(
+      new Error('Connection lost')
+    );
+    const failed = await execute(`{ usersWithOverdueFees { id } }`);
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({
+      errors: [{ extensions: { code: 'GRAPHQL_VALIDATION_FAILED' } }],
+    });
+    expect(failed.body).toMatchObject({
+      errors: [{ message: 'Internal server error', extensions: { code: 'INTERNAL_ERROR' } }],
+    });
+    expect(errors).toEqual([new Error('Connection lost')]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { Router } from '../../../src/presentation/http/Router';
+import { HttpResponse } from '../../../src/presentation/http/HttpTypes';
+import { ValidationError } from '../../../src/domain/errors/CommonErrors';
+
+describe('Router', () => {
+  const ok = async (): Promise<HttpResponse> => ({ status: 200, body: null });
+
+  it('matches the method and path and decodes the parameters', () => {
+    const returnLoan = async (): Promise<HttpResponse> => ({ status: 200, body: 'returned' });
+    const router = new Router()
+      .add('POST', '/loans', ok)
+      .add('POST', '/loans/:id/return', returnLoan);
+
+    const match = router.match('POST', '/loans/loan%201/return/');
+
+    expect(match?.handler).toBe(returnLoan);
+    expect(match?.params).toEqual({ id: 'loan 1' });
+    expect(router.match('GET', '/loans/loan-1/return')).toBeNull();
+    expect(router.match('POST', '/loans/loan-1')).toBeNull();
+  });
+
+  it('rejects a parameter that is not valid percent-encoding', () => {
+    const router = new Router().add('GET', '/users/:id', ok);
+
+    expect(() => router.match('GET', '/users/%E0%A4')).toThrow(ValidationError);
+  });
+
+  it('leaves a malformed segment of a path no route matches unmatched', () => {
+    const router = new Router().add('POST', '/loans/:id/return', ok);
+
+    expect(router.match('POST', '/loans/%E0%A4/renew')).toBeNull();
+  });
+});
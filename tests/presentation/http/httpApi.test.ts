@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { createContainer, Container } from '../../../src/main/container';
+import { Router } from '../../../src/presentation/http/Router';
+import { createHttpServer } from '../../../src/presentation/http/createHttpServer';
+import { BookController } from '../../../src/presentation/http/BookController';
+import { UserController } from '../../../src/presentation/http/UserController';
+import { LoanController } from '../../../src/presentation/http/LoanController';
+import { TestClock } from '../../../src/infrastructure/time/TestClock';
+
+interface ApiResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+describe('HTTP API', () => {
+  let container: Container;
+  let server: Server;
+  let baseUrl: string;
+  const errors: unknown[] = [];
+
+  beforeAll(async () => {
+    container = await createContainer({
+      storage: 'memory',
+      clock: new TestClock(new Date('2024-01-01T00:00:00Z')),
+    });
+    const { useCases } = container;
+    const router = new Router();
+    new BookController(useCases.registerBook, useCases.listBooks).routes(router);
+    new UserController(useCases.createUser, useCases.getUser, useCases.listUsers).routes(router);
+    new LoanController(useCases.borrowBook, useCases.returnLoan).routes(router);
+
+    server = createHttpServer(router, { onError: (error) => errors.push(error) });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await container.dispose();
+  });
+
+  async function call(method: string, path: string, body?: unknown): Promise<ApiResponse> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  it('registers a copy, creates a member, lends the copy and takes it back', async () => {
+    const book = await call('POST', '/books', {
+      isbn: '978-0-306-40615-7',
+      barcode: 'LIB-0001',
+      title: 'Signals',
+      author: 'A. Author',
+    });
+    const user = await call('POST', '/users', { name: 'Reader', email: 'reader@example.com' });
+    expect(book.status).toBe(201);
+    expect(user.status).toBe(201);
+
+    const loan = await call('POST', '/loans', {
+      userId: user.body['userId'],
+      bookId: book.body['bookId'],
+    });
+    expect(loan.status).toBe(201);
+    expect((await call('GET', '/books?status=BORROWED')).body['items']).toHaveLength(1);
+
+    const returned = await call('POST', `/loans/${String(loan.body['loanId'])}/return`);
+    expect(returned.status).toBe(200);
+    const member = await call('GET', `/users/${String(user.body['userId'])}`);
+    expect(member.body['currentBorrowCount']).toBe(0);
+  });
+
+  it('maps domain errors to 400, 404, 409 and 422', async () => {
+    const user = await call('POST', '/users', { name: 'Other', email: 'other@example.com' });
+    const book = await call('POST', '/books', {
+      isbn: '9784873115658',
+      barcode: 'LIB-0002',
+      title: 'Patterns',
+      author: 'B. Author',
+    });
+    const bookId = book.body['bookId'];
+    await call('POST', '/loans', { userId: user.body['userId'], bookId });
+
+    const invalidIsbn = await call('POST', '/books', { isbn: '123', barcode: 'LIB-0003' });
+    const missingUser = await call('GET', '/users/99999999');
+    const duplicate = await call('POST', '/users', { name: 'Again', email: 'other@example.com' });
+    const third = await call('POST', '/users', { name: 'Third', email: 'third@example.com' });
+    const unavailable = await call('POST', '/loans', { userId: third.body['userId'], bookId });
+
+    expect([invalidIsbn, missingUser, duplicate, unavailable].map((r) => r.status)).toEqual([
+      400, 404, 409, 422,
+    ]);
+    expect(missingUser.body).toMatchObject({
+      error: { code: 'NOT_FOUND', details: { entity: 'User', id: '99999999' } },
+    });
+    expect(unavailable.body).toMatchObject({ error: { code: 'BOOK_UNAVAILABLE' } });
+  });
+
+  it('answers malformed requests with 400 and unknown routes with 404', async () => {
+    const notJson = await fetch(`${baseUrl}/users`, { method: 'POST', body: '{' });
+    const missingField = await call('POST', '/users', { name: 'No email' });
+    const badEncoding = await call('GET', '/users/%E0%A4');
+    const unknown = await call('DELETE', '/users');
+    const unknownBadEncoding = await call('POST', '/loans/%E0%A4/renew');
+
+    expect(notJson.status).toBe(400);
+    expect(await notJson.json()).toMatchObject({ error: { code: 'INVALID_JSON' } });
+    expect(missingField).toMatchObject({
+      status: 400,
+      body: { error: { code: 'VALIDATION_FAILED', details: { field: 'email' } } },
+    });
+    expect(badEncoding).toMatchObject({
+      status: 400,
+      body: { error: { code: 'VALIDATION_FAILED', details: { field: 'id' } } },
+    });
+    for (const response of [unknown, unknownBadEncoding]) {
+      expect(response).toMatchObject({ status: 404, body: { error: { code: 'ROUTE_NOT_FOUND' } } });
+    }
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * In-Memory Library Fixture
+ *
+ * The in-memory repositories, their unit of work, a TestClock starting
+ * 2024-01-01 and the lending policies of config/lending-policies.json,
+ * for tests that run use cases without a database.
+ */
+
+import {
+  InMemoryRepositories,
+  InMemoryUnitOfWork,
+} from '../../src/infrastructure/persistence/InMemoryUnitOfWork';
+import { InMemoryUserRepository } from '../../src/infrastructure/persistence/InMemoryUserRepository';
+import { InMemoryBookRepository } from '../../src/infrastructure/persistence/InMemoryBookRepository';
+import { InMemoryTitleRepository } from '../../src/infrastructure/persistence/InMemoryTitleRepository';
+import { InMemoryHoldRepository } from '../../src/infrastructure/persistence/InMemoryHoldRepository';
+import { InMemoryLoanRepository } from '../../src/infrastructure/persistence/InMemoryLoanRepository';
+import { InMemoryFeeLedgerRepository } from '../../src/infrastructure/persistence/InMemoryFeeLedgerRepository';
+import { InProcessDomainEventDispatcher } from '../../src/infrastructure/events/InProcessDomainEventDispatcher';
+import { FileLendingPolicyLoader } from '../../src/infrastructure/config/FileLendingPolicyLoader';
+import { TestClock } from '../../src/infrastructure/time/TestClock';
+import { LendingPolicyCatalog } from '../../src/domain/policies/LendingPolicyCatalog';
+import { Book } from '../../src/domain/entities/Book';
+import { Title } from '../../src/domain/entities/Title';
+import { User, MemberCategory } from '../../src/domain/entities/User';
+import { ISBN } from '../../src/domain/valueObjects/ISBN';
+import { UserId } from '../../src/domain/valueObjects/UserId';
+
+export const START = new Date('2024-01-01T00:00:00Z');
+export const ISBN_A = '9780306406157';
+export const ISBN_B = '9784873115658';
+
+export interface InMemoryLibrary {
+  repositories: InMemoryRepositories;
+  unitOfWork: InMemoryUnitOfWork;
+  clock: TestClock;
+  policies: LendingPolicyCatalog;
+  events: InProcessDomainEventDispatcher;
+}
+
+export function createInMemoryLibrary(): InMemoryLibrary {
+  const titleRepository = new InMemoryTitleRepository();
+  const repositories = {
+    userRepository: new InMemoryUserRepository(),
+    bookRepository: new InMemoryBookRepository(titleRepository),
+    titleRepository,
+    holdRepository: new InMemoryHoldRepository(),
+    loanRepository: new InMemoryLoanRepository(),
+    feeLedgerRepository: new InMemoryFeeLedgerRepository(),
+  };
+
+  return {
+    repositories,
+    unitOfWork: new InMemoryUnitOfWork(repositories),
+    clock: new TestClock(START),
+    policies: new FileLendingPolicyLoader().load(),
+    events: new InProcessDomainEventDispatcher(),
+  };
+}
+
+/**
+ * Register a copy, cataloging its title first if needed
+ * @returns ID of the copy
+ */
+export async function addCopy(
+  library: InMemoryLibrary,
+  barcode: string,
+  isbn: string = ISBN_A
+): Promise<string> {
+  const { titleRepository, bookRepository } = library.repositories;
+
+  let title = await titleRepository.findByISBN(new ISBN(isbn));
+  if (!title) {
+    title = Title.create(isbn, `Title ${isbn}`, 'Author', library.clock);
+    await titleRepository.save(title);
+  }
+
+  const book = Book.create(title, barcode, library.clock);
+  await bookRepository.save(book);
+  return book.id;
+}
+
+/**
+ * Create a member
+ * @returns ID of the member
+ */
+export async function addMember(
+  library: InMemoryLibrary,
+  email: string,
+  category: MemberCategory = MemberCategory.ADULT
+): Promise<UserId> {
+  const user = User.create('Member', email, library.clock, category, library.policies.currency);
+  await library.repositories.userRepository.save(user);
+  return user.id;
+}